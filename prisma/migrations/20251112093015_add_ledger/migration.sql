@@ -0,0 +1,112 @@
+-- CreateEnum
+CREATE TYPE "public"."LedgerAccountType" AS ENUM ('USER_WALLET', 'USER_ESCROW', 'PLATFORM_REVENUE', 'MPESA_CLEARING', 'OPENING_BALANCE');
+
+-- CreateEnum
+CREATE TYPE "public"."LedgerTransactionKind" AS ENUM ('OPENING_BALANCE', 'TOP_UP', 'PAYOUT', 'PAYOUT_REVERSAL', 'CHAT_TIME_PURCHASE', 'CHAT_TIME_REFUND', 'CONTENT_CHARGE', 'ESCROW_LOCK', 'ESCROW_RELEASE', 'ESCROW_REFUND');
+
+-- CreateEnum
+CREATE TYPE "public"."LedgerEntryCategory" AS ENUM ('TRANSFER', 'EARNING', 'SPEND');
+
+-- CreateTable
+CREATE TABLE "public"."ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "type" "public"."LedgerAccountType" NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ledger_transactions" (
+    "id" TEXT NOT NULL,
+    "kind" "public"."LedgerTransactionKind" NOT NULL,
+    "description" TEXT NOT NULL,
+    "referenceType" TEXT,
+    "referenceId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "category" "public"."LedgerEntryCategory" NOT NULL DEFAULT 'TRANSFER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_ownerId_idx" ON "public"."ledger_accounts"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_type_ownerId_currency_key" ON "public"."ledger_accounts"("type", "ownerId", "currency");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_referenceType_referenceId_idx" ON "public"."ledger_transactions"("referenceType", "referenceId");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_kind_createdAt_idx" ON "public"."ledger_transactions"("kind", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_accountId_createdAt_idx" ON "public"."ledger_entries"("accountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transactionId_idx" ON "public"."ledger_entries"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."ledger_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ledger_entries" ADD CONSTRAINT "ledger_entries_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Append-only: ledger rows can never be changed or removed
+CREATE FUNCTION "public"."ledger_reject_mutation"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'ledger tables are append-only (% on %)', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ledger_transactions_append_only"
+    BEFORE UPDATE OR DELETE ON "public"."ledger_transactions"
+    FOR EACH ROW EXECUTE FUNCTION "public"."ledger_reject_mutation"();
+
+CREATE TRIGGER "ledger_entries_append_only"
+    BEFORE UPDATE OR DELETE ON "public"."ledger_entries"
+    FOR EACH ROW EXECUTE FUNCTION "public"."ledger_reject_mutation"();
+
+-- Opening balances: post every existing user_balances row so the cached
+-- projection equals the sum of ledger entries from day one
+INSERT INTO "public"."ledger_accounts" ("id", "type", "ownerId", "currency")
+SELECT gen_random_uuid()::text, 'OPENING_BALANCE'::"public"."LedgerAccountType", 'system', c."currency"
+FROM (SELECT DISTINCT "currency" FROM "public"."user_balances") c;
+
+INSERT INTO "public"."ledger_accounts" ("id", "type", "ownerId", "currency")
+SELECT gen_random_uuid()::text, t."type", b."userId", b."currency"
+FROM "public"."user_balances" b
+CROSS JOIN (VALUES ('USER_WALLET'::"public"."LedgerAccountType"), ('USER_ESCROW'::"public"."LedgerAccountType")) AS t("type");
+
+INSERT INTO "public"."ledger_transactions" ("id", "kind", "description", "referenceType", "referenceId")
+SELECT gen_random_uuid()::text, 'OPENING_BALANCE', 'Opening balance migrated from user_balances', 'USER_BALANCE', b."id"
+FROM "public"."user_balances" b;
+
+INSERT INTO "public"."ledger_entries" ("id", "transactionId", "accountId", "amount", "category")
+SELECT gen_random_uuid()::text, lt."id", la."id", e."amount", e."category"
+FROM "public"."user_balances" b
+JOIN "public"."ledger_transactions" lt ON lt."referenceType" = 'USER_BALANCE' AND lt."referenceId" = b."id"
+CROSS JOIN LATERAL (VALUES
+    ('USER_WALLET'::"public"."LedgerAccountType", b."userId", b."totalEarnings", 'EARNING'::"public"."LedgerEntryCategory"),
+    ('USER_WALLET'::"public"."LedgerAccountType", b."userId", -b."totalSpent", 'SPEND'::"public"."LedgerEntryCategory"),
+    ('USER_WALLET'::"public"."LedgerAccountType", b."userId", b."availableBalance" - b."totalEarnings" + b."totalSpent", 'TRANSFER'::"public"."LedgerEntryCategory"),
+    ('USER_ESCROW'::"public"."LedgerAccountType", b."userId", b."pendingBalance", 'TRANSFER'::"public"."LedgerEntryCategory"),
+    ('OPENING_BALANCE'::"public"."LedgerAccountType", 'system', -(b."availableBalance" + b."pendingBalance"), 'TRANSFER'::"public"."LedgerEntryCategory")
+) AS e("type", "ownerId", "amount", "category")
+JOIN "public"."ledger_accounts" la ON la."type" = e."type" AND la."ownerId" = e."ownerId" AND la."currency" = b."currency"
+WHERE e."amount" <> 0;
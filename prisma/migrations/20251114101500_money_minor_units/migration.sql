@@ -0,0 +1,143 @@
+-- Monetary columns move from DOUBLE PRECISION major units to INTEGER minor
+-- units. Values are converted through NUMERIC so that e.g. 12.345 rounds to
+-- 1235 instead of picking up binary float error, and halves round away from
+-- zero.
+
+-- Every amount is scaled by 100, which is only right for KES. Stop before
+-- touching anything if rows in another currency exist; they need their own
+-- scale (e.g. UGX has no minor unit) and must be converted by hand.
+DO $$
+DECLARE
+    "currencies" TEXT;
+BEGIN
+    SELECT string_agg(DISTINCT t."currency", ', ') INTO "currencies"
+    FROM (
+        SELECT "currency" FROM "public"."user_monetization_settings"
+        UNION ALL SELECT "currency" FROM "public"."chat_sessions"
+        UNION ALL SELECT "currency" FROM "public"."user_balances"
+        UNION ALL SELECT "currency" FROM "public"."service_requests"
+        UNION ALL SELECT "currency" FROM "public"."service_sessions"
+        UNION ALL SELECT "currency" FROM "public"."pending_balances"
+        UNION ALL SELECT "currency" FROM "public"."service_transactions"
+        UNION ALL SELECT "currency" FROM "public"."ledger_accounts"
+    ) t
+    WHERE t."currency" <> 'KES';
+
+    IF "currencies" IS NOT NULL THEN
+        RAISE EXCEPTION 'money_minor_units only converts KES amounts, found: %', "currencies";
+    END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "public"."user_monetization_settings" ALTER COLUMN "voiceNotePrice" DROP DEFAULT,
+ALTER COLUMN "imagePrice" DROP DEFAULT,
+ALTER COLUMN "videoPrice" DROP DEFAULT,
+ALTER COLUMN "voiceNotePrice" SET DATA TYPE INTEGER USING ROUND("voiceNotePrice"::numeric * 100)::integer,
+ALTER COLUMN "imagePrice" SET DATA TYPE INTEGER USING ROUND("imagePrice"::numeric * 100)::integer,
+ALTER COLUMN "videoPrice" SET DATA TYPE INTEGER USING ROUND("videoPrice"::numeric * 100)::integer,
+ALTER COLUMN "voiceNotePrice" SET DEFAULT 0,
+ALTER COLUMN "imagePrice" SET DEFAULT 0,
+ALTER COLUMN "videoPrice" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."chat_time_tiers" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."content_charges" ALTER COLUMN "basePrice" SET DATA TYPE INTEGER USING ROUND("basePrice"::numeric * 100)::integer,
+ALTER COLUMN "totalAmount" SET DATA TYPE INTEGER USING ROUND("totalAmount"::numeric * 100)::integer,
+ALTER COLUMN "units" SET DATA TYPE INTEGER USING CEIL("units")::integer;
+
+-- AlterTable
+ALTER TABLE "public"."user_balances" ALTER COLUMN "availableBalance" DROP DEFAULT,
+ALTER COLUMN "pendingBalance" DROP DEFAULT,
+ALTER COLUMN "totalEarnings" DROP DEFAULT,
+ALTER COLUMN "totalSpent" DROP DEFAULT,
+ALTER COLUMN "availableBalance" SET DATA TYPE INTEGER USING ROUND("availableBalance"::numeric * 100)::integer,
+ALTER COLUMN "pendingBalance" SET DATA TYPE INTEGER USING ROUND("pendingBalance"::numeric * 100)::integer,
+ALTER COLUMN "totalEarnings" SET DATA TYPE INTEGER USING ROUND("totalEarnings"::numeric * 100)::integer,
+ALTER COLUMN "totalSpent" SET DATA TYPE INTEGER USING ROUND("totalSpent"::numeric * 100)::integer,
+ALTER COLUMN "availableBalance" SET DEFAULT 0,
+ALTER COLUMN "pendingBalance" SET DEFAULT 0,
+ALTER COLUMN "totalEarnings" SET DEFAULT 0,
+ALTER COLUMN "totalSpent" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."payments" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."payment_callbacks" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."b2c_transactions" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::numeric * 100)::integer,
+ALTER COLUMN "charges" SET DATA TYPE INTEGER USING ROUND("charges"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."account_balance_queries" ALTER COLUMN "workingBalance" SET DATA TYPE INTEGER USING ROUND("workingBalance"::numeric * 100)::integer,
+ALTER COLUMN "utilityBalance" SET DATA TYPE INTEGER USING ROUND("utilityBalance"::numeric * 100)::integer,
+ALTER COLUMN "chargesPaidBalance" SET DATA TYPE INTEGER USING ROUND("chargesPaidBalance"::numeric * 100)::integer,
+ALTER COLUMN "unClearedBalance" SET DATA TYPE INTEGER USING ROUND("unClearedBalance"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."service_requests" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."service_sessions" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."pending_balances" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::numeric * 100)::integer;
+
+-- AlterTable
+ALTER TABLE "public"."service_transactions" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::numeric * 100)::integer,
+ALTER COLUMN "previousBalance" SET DATA TYPE INTEGER USING ROUND("previousBalance"::numeric * 100)::integer,
+ALTER COLUMN "newBalance" SET DATA TYPE INTEGER USING ROUND("newBalance"::numeric * 100)::integer;
+-- Ledger entries are append-only; lift the guard while their amounts are
+-- converted and rounding residue is absorbed by the system-account leg of
+-- each transaction so every transaction still sums to exactly zero.
+ALTER TABLE "public"."ledger_entries" DISABLE TRIGGER "ledger_entries_append_only";
+
+-- AlterTable
+ALTER TABLE "public"."ledger_entries" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::numeric * 100)::integer;
+
+WITH "residue" AS (
+    SELECT "transactionId", SUM("amount") AS "total"
+    FROM "public"."ledger_entries"
+    GROUP BY "transactionId"
+    HAVING SUM("amount") <> 0
+),
+"system_leg" AS (
+    SELECT DISTINCT ON (e."transactionId") e."id", r."total"
+    FROM "public"."ledger_entries" e
+    JOIN "residue" r ON r."transactionId" = e."transactionId"
+    JOIN "public"."ledger_accounts" a ON a."id" = e."accountId"
+    WHERE a."ownerId" = 'system'
+    ORDER BY e."transactionId", e."createdAt"
+)
+UPDATE "public"."ledger_entries" e
+SET "amount" = e."amount" - s."total"
+FROM "system_leg" s
+WHERE e."id" = s."id";
+
+ALTER TABLE "public"."ledger_entries" ENABLE TRIGGER "ledger_entries_append_only";
+
+-- Rebuild the cached balances from the converted ledger so the projection
+-- and the ledger agree to the cent
+UPDATE "public"."user_balances" b
+SET "availableBalance" = p."availableBalance",
+    "pendingBalance" = p."pendingBalance",
+    "totalEarnings" = p."totalEarnings",
+    "totalSpent" = p."totalSpent"
+FROM (
+    SELECT a."ownerId",
+           COALESCE(SUM(e."amount") FILTER (WHERE a."type" = 'USER_WALLET'), 0) AS "availableBalance",
+           COALESCE(SUM(e."amount") FILTER (WHERE a."type" = 'USER_ESCROW'), 0) AS "pendingBalance",
+           COALESCE(SUM(e."amount") FILTER (WHERE e."category" = 'EARNING'), 0) AS "totalEarnings",
+           COALESCE(-SUM(e."amount") FILTER (WHERE e."category" = 'SPEND'), 0) AS "totalSpent"
+    FROM "public"."ledger_accounts" a
+    JOIN "public"."ledger_entries" e ON e."accountId" = a."id"
+    WHERE a."type" IN ('USER_WALLET', 'USER_ESCROW')
+    GROUP BY a."ownerId"
+) p
+WHERE b."userId" = p."ownerId";
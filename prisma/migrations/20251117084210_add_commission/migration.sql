@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."SaleType" AS ENUM ('CHAT_TIME', 'CONTENT', 'SERVICE_REQUEST');
+
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "platformFee" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sellerAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."content_charges" ADD COLUMN     "platformFee" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sellerAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."service_requests" ADD COLUMN     "platformFee" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sellerAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."commission_rules" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT,
+    "saleType" "public"."SaleType",
+    "rateBps" INTEGER NOT NULL,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commission_rules_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "commission_rules_rateBps_check" CHECK ("rateBps" BETWEEN 0 AND 10000)
+);
+
+-- CreateIndex
+CREATE INDEX "commission_rules_sellerId_saleType_isActive_idx" ON "public"."commission_rules"("sellerId", "saleType", "isActive");
+
+-- CreateIndex
+CREATE INDEX "commission_rules_isActive_startsAt_endsAt_idx" ON "public"."commission_rules"("isActive", "startsAt", "endsAt");
+
+-- Sales made before commission existed paid the seller in full
+UPDATE "public"."chat_sessions" SET "sellerAmount" = "price";
+UPDATE "public"."content_charges" SET "sellerAmount" = "totalAmount";
+UPDATE "public"."service_requests" SET "sellerAmount" = "price";
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "public"."WithdrawalStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerAccountType" ADD VALUE 'USER_WITHDRAWAL_PENDING';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'WITHDRAWAL_REQUEST';
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'WITHDRAWAL_PAYOUT';
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'WITHDRAWAL_REVERSAL';
+
+-- AlterTable
+ALTER TABLE "public"."user_balances" ADD COLUMN     "withdrawalPendingBalance" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."payout_accounts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "verifiedAt" TIMESTAMP(3),
+    "verificationPaymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."withdrawals" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "payoutAccountId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "status" "public"."WithdrawalStatus" NOT NULL DEFAULT 'PENDING',
+    "b2cTransactionId" TEXT,
+    "failureReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "withdrawals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_accounts_userId_phoneNumber_key" ON "public"."payout_accounts"("userId", "phoneNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "withdrawals_b2cTransactionId_key" ON "public"."withdrawals"("b2cTransactionId");
+
+-- CreateIndex
+CREATE INDEX "withdrawals_userId_createdAt_idx" ON "public"."withdrawals"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "withdrawals_status_idx" ON "public"."withdrawals"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."withdrawals" ADD CONSTRAINT "withdrawals_payoutAccountId_fkey" FOREIGN KEY ("payoutAccountId") REFERENCES "public"."payout_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."withdrawals" ADD CONSTRAINT "withdrawals_b2cTransactionId_fkey" FOREIGN KEY ("b2cTransactionId") REFERENCES "public"."b2c_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
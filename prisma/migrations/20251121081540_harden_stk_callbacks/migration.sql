@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."CallbackRejectionReason" AS ENUM ('SOURCE_NOT_ALLOWED', 'INVALID_SECRET', 'UNKNOWN_PAYMENT', 'AMOUNT_MISMATCH', 'QUERY_FAILED', 'QUERY_MISMATCH');
+
+-- CreateTable
+CREATE TABLE "public"."rejected_callbacks" (
+    "id" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "reason" "public"."CallbackRejectionReason" NOT NULL,
+    "detail" TEXT,
+    "checkoutRequestId" TEXT,
+    "sourceIp" TEXT,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rejected_callbacks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rejected_callbacks_checkoutRequestId_idx" ON "public"."rejected_callbacks"("checkoutRequestId");
+
+-- CreateIndex
+CREATE INDEX "rejected_callbacks_createdAt_idx" ON "public"."rejected_callbacks"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_callbacks_mpesaReceiptNumber_key" ON "public"."payment_callbacks"("mpesaReceiptNumber");
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."JobTrigger" AS ENUM ('SCHEDULE', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "public"."JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."transaction_status_queries" ADD COLUMN     "b2cTransactionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."job_locks" (
+    "name" TEXT NOT NULL,
+    "lockedBy" TEXT NOT NULL,
+    "lockedUntil" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_locks_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "public"."job_runs" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "trigger" "public"."JobTrigger" NOT NULL DEFAULT 'SCHEDULE',
+    "status" "public"."JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "result" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_jobName_startedAt_idx" ON "public"."job_runs"("jobName", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_idx" ON "public"."job_runs"("status");
+
+-- CreateIndex
+CREATE INDEX "transaction_status_queries_conversationId_idx" ON "public"."transaction_status_queries"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "transaction_status_queries_b2cTransactionId_idx" ON "public"."transaction_status_queries"("b2cTransactionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."transaction_status_queries" ADD CONSTRAINT "transaction_status_queries_b2cTransactionId_fkey" FOREIGN KEY ("b2cTransactionId") REFERENCES "public"."b2c_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "public"."SessionEndReason" AS ENUM ('TIME_UP', 'ENDED_BY_REQUESTER', 'ENDED_BY_PROVIDER');
+
+-- AlterTable
+ALTER TABLE "public"."service_sessions" ADD COLUMN     "warningSentAt" TIMESTAMP(3),
+ADD COLUMN     "endReason" "public"."SessionEndReason";
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "serviceSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "service_sessions_isActive_isPaused_endTime_idx" ON "public"."service_sessions"("isActive", "isPaused", "endTime");
+
+-- CreateIndex
+CREATE INDEX "messages_serviceSessionId_idx" ON "public"."messages"("serviceSessionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_serviceSessionId_fkey" FOREIGN KEY ("serviceSessionId") REFERENCES "public"."service_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
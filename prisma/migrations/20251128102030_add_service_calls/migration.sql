@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."CallStatus" AS ENUM ('RINGING', 'ACCEPTED', 'CONNECTED', 'DECLINED', 'MISSED', 'ENDED');
+
+-- CreateEnum
+CREATE TYPE "public"."CallEndReason" AS ENUM ('HUNG_UP', 'DISCONNECTED', 'SESSION_ENDED');
+
+-- CreateTable
+CREATE TABLE "public"."service_calls" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "callerId" TEXT NOT NULL,
+    "calleeId" TEXT NOT NULL,
+    "callerSocketId" TEXT,
+    "calleeSocketId" TEXT,
+    "status" "public"."CallStatus" NOT NULL DEFAULT 'RINGING',
+    "endReason" "public"."CallEndReason",
+    "ringingAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "answeredAt" TIMESTAMP(3),
+    "connectedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "service_calls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "service_calls_sessionId_status_idx" ON "public"."service_calls"("sessionId", "status");
+
+-- CreateIndex
+CREATE INDEX "service_calls_callerSocketId_idx" ON "public"."service_calls"("callerSocketId");
+
+-- CreateIndex
+CREATE INDEX "service_calls_calleeSocketId_idx" ON "public"."service_calls"("calleeSocketId");
+
+-- AddForeignKey
+ALTER TABLE "public"."service_calls" ADD CONSTRAINT "service_calls_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."service_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "public"."WalletAdjustmentReason" AS ENUM ('GOODWILL_CREDIT', 'REFUND', 'CHARGEBACK', 'ERROR_CORRECTION', 'FRAUD_REVERSAL', 'PROMOTION');
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerAccountType" ADD VALUE 'PLATFORM_ADJUSTMENT';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'ADMIN_ADJUSTMENT';
+
+-- AlterEnum
+ALTER TYPE "public"."SessionEndReason" ADD VALUE 'ENDED_BY_ADMIN';
+
+-- CreateTable
+CREATE TABLE "public"."wallet_adjustments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "reasonCode" "public"."WalletAdjustmentReason" NOT NULL,
+    "note" TEXT,
+    "ledgerTransactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."audit_logs" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorRole" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT,
+    "reason" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_adjustments_ledgerTransactionId_key" ON "public"."wallet_adjustments"("ledgerTransactionId");
+
+-- CreateIndex
+CREATE INDEX "wallet_adjustments_userId_createdAt_idx" ON "public"."wallet_adjustments"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actorId_createdAt_idx" ON "public"."audit_logs"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_entityType_entityId_idx" ON "public"."audit_logs"("entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_createdAt_idx" ON "public"."audit_logs"("action", "createdAt");
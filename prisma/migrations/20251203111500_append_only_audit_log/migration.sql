@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."audit_logs" ADD COLUMN     "before" JSONB,
+ADD COLUMN     "after" JSONB,
+ADD COLUMN     "changes" JSONB,
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "userAgent" TEXT,
+ADD COLUMN     "requestId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "audit_logs_requestId_idx" ON "public"."audit_logs"("requestId");
+
+-- Audit entries are append-only
+CREATE FUNCTION "public"."audit_logs_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_no_update_delete"
+BEFORE UPDATE OR DELETE ON "public"."audit_logs"
+FOR EACH ROW EXECUTE FUNCTION "public"."audit_logs_append_only"();
+
+CREATE TRIGGER "audit_logs_no_truncate"
+BEFORE TRUNCATE ON "public"."audit_logs"
+FOR EACH STATEMENT EXECUTE FUNCTION "public"."audit_logs_append_only"();
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "public"."DisputeSubjectType" AS ENUM ('SERVICE_SESSION', 'CHAT_SESSION', 'CONTENT_CHARGE');
+
+-- CreateEnum
+CREATE TYPE "public"."DisputeStatus" AS ENUM ('OPEN', 'REFUNDED', 'PARTIALLY_REFUNDED', 'REJECTED', 'WITHDRAWN');
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerAccountType" ADD VALUE 'USER_DISPUTE_HOLD';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'DISPUTE_HOLD';
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'DISPUTE_REFUND';
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'DISPUTE_RELEASE';
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'DISPUTE_OPENED';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'DISPUTE_RESOLVED';
+
+-- AlterTable
+ALTER TABLE "public"."user_balances" ADD COLUMN     "disputeHoldBalance" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."disputes" (
+    "id" TEXT NOT NULL,
+    "subjectType" "public"."DisputeSubjectType" NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "status" "public"."DisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "reason" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "sellerAmount" INTEGER NOT NULL,
+    "refundAmount" INTEGER,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "resolutionNote" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."dispute_evidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "submittedBy" TEXT NOT NULL,
+    "note" TEXT,
+    "messageId" TEXT,
+    "attachmentUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dispute_evidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "disputes_subjectType_subjectId_key" ON "public"."disputes"("subjectType", "subjectId");
+
+-- CreateIndex
+CREATE INDEX "disputes_buyerId_createdAt_idx" ON "public"."disputes"("buyerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "disputes_sellerId_createdAt_idx" ON "public"."disputes"("sellerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "disputes_status_createdAt_idx" ON "public"."disputes"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "dispute_evidence_disputeId_createdAt_idx" ON "public"."dispute_evidence"("disputeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."dispute_evidence" ADD CONSTRAINT "dispute_evidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "public"."disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
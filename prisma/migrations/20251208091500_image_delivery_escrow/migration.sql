@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "public"."SessionEndReason" ADD VALUE 'DELIVERY_CONFIRMED';
+ALTER TYPE "public"."SessionEndReason" ADD VALUE 'DELIVERY_AUTO_RELEASED';
+ALTER TYPE "public"."SessionEndReason" ADD VALUE 'NOT_DELIVERED';
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'IMAGE_DELIVERED';
+
+-- AlterTable
+ALTER TABLE "public"."service_sessions" ADD COLUMN     "deliveryDueAt" TIMESTAMP(3),
+ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "deliveryMessageId" TEXT,
+ADD COLUMN     "releaseAt" TIMESTAMP(3),
+ADD COLUMN     "confirmedAt" TIMESTAMP(3);
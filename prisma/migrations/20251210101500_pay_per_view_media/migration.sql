@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'MEDIA_UNLOCK';
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "previewUrl" TEXT,
+ADD COLUMN     "unlockCurrency" TEXT,
+ADD COLUMN     "unlockPrice" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."message_unlocks" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "sellerAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_unlocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_unlocks_buyerId_idx" ON "public"."message_unlocks"("buyerId");
+
+-- CreateIndex
+CREATE INDEX "message_unlocks_sellerId_idx" ON "public"."message_unlocks"("sellerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_unlocks_messageId_buyerId_key" ON "public"."message_unlocks"("messageId", "buyerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_unlocks" ADD CONSTRAINT "message_unlocks_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "public"."SubscriptionInterval" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "public"."SubscriptionStatus" AS ENUM ('ACTIVE', 'PAST_DUE', 'LAPSED');
+
+-- AlterEnum
+ALTER TYPE "public"."SaleType" ADD VALUE 'SUBSCRIPTION';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'SUBSCRIPTION_CHARGE';
+
+-- AlterTable
+ALTER TABLE "public"."content_charges" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'KES',
+ADD COLUMN     "subscriptionId" TEXT,
+ALTER COLUMN "sessionId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."subscription_plans" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "interval" "public"."SubscriptionInterval" NOT NULL,
+    "price" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "unlimitedChat" BOOLEAN NOT NULL DEFAULT true,
+    "includedImages" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscription_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."subscriptions" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "subscriberId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "status" "public"."SubscriptionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "price" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "sellerAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "unlimitedChat" BOOLEAN NOT NULL,
+    "includedImages" INTEGER NOT NULL,
+    "imagesUsed" INTEGER NOT NULL DEFAULT 0,
+    "currentPeriodStart" TIMESTAMP(3) NOT NULL,
+    "currentPeriodEnd" TIMESTAMP(3) NOT NULL,
+    "autoRenew" BOOLEAN NOT NULL DEFAULT true,
+    "graceEndsAt" TIMESTAMP(3),
+    "billingPhone" TEXT,
+    "renewalCheckoutRequestId" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "lapsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscription_plans_sellerId_isActive_idx" ON "public"."subscription_plans"("sellerId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "subscriptions_subscriberId_sellerId_status_idx" ON "public"."subscriptions"("subscriberId", "sellerId", "status");
+
+-- CreateIndex
+CREATE INDEX "subscriptions_sellerId_status_idx" ON "public"."subscriptions"("sellerId", "status");
+
+-- CreateIndex
+CREATE INDEX "subscriptions_status_currentPeriodEnd_idx" ON "public"."subscriptions"("status", "currentPeriodEnd");
+
+-- CreateIndex
+CREATE INDEX "content_charges_subscriptionId_idx" ON "public"."content_charges"("subscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."subscriptions" ADD CONSTRAINT "subscriptions_planId_fkey" FOREIGN KEY ("planId") REFERENCES "public"."subscription_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."content_charges" ADD CONSTRAINT "content_charges_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "public"."subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
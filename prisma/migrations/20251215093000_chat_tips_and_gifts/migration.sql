@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "public"."MessageType" ADD VALUE 'TIP';
+ALTER TYPE "public"."MessageType" ADD VALUE 'GIFT';
+
+-- AlterEnum
+ALTER TYPE "public"."SaleType" ADD VALUE 'TIP';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'TIP';
+
+-- CreateTable
+CREATE TABLE "public"."gifts" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."tips" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "giftId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "sellerAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "gifts_isActive_sortOrder_idx" ON "public"."gifts"("isActive", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tips_messageId_key" ON "public"."tips"("messageId");
+
+-- CreateIndex
+CREATE INDEX "tips_recipientId_createdAt_idx" ON "public"."tips"("recipientId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "tips_senderId_createdAt_idx" ON "public"."tips"("senderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."tips" ADD CONSTRAINT "tips_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."tips" ADD CONSTRAINT "tips_giftId_fkey" FOREIGN KEY ("giftId") REFERENCES "public"."gifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "public"."PromoKind" AS ENUM ('CHAT_TIME_DISCOUNT', 'TOP_UP_BONUS', 'FREE_MINUTES');
+
+-- CreateEnum
+CREATE TYPE "public"."PromoDiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "public"."PromoFunder" AS ENUM ('PLATFORM', 'CREATOR');
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerAccountType" ADD VALUE 'PLATFORM_PROMOTIONS';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'PROMO_BONUS';
+ALTER TYPE "public"."LedgerTransactionKind" ADD VALUE 'PROMO_VOUCHER';
+
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "discountAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "discountFundedBy" "public"."PromoFunder";
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "promoCodeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "kind" "public"."PromoKind" NOT NULL,
+    "creatorId" TEXT,
+    "fundedBy" "public"."PromoFunder" NOT NULL,
+    "discountType" "public"."PromoDiscountType",
+    "discountValue" INTEGER,
+    "freeMinutes" INTEGER,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "minAmount" INTEGER,
+    "maxRedemptions" INTEGER,
+    "perUserLimit" INTEGER NOT NULL DEFAULT 1,
+    "firstPurchaseOnly" BOOLEAN NOT NULL DEFAULT false,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."promo_redemptions" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "paymentId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "fundedBy" "public"."PromoFunder" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "public"."promo_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "promo_codes_creatorId_isActive_idx" ON "public"."promo_codes"("creatorId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_chatSessionId_key" ON "public"."promo_redemptions"("chatSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_paymentId_key" ON "public"."promo_redemptions"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_promoCodeId_userId_idx" ON "public"."promo_redemptions"("promoCodeId", "userId");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_userId_createdAt_idx" ON "public"."promo_redemptions"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_redemptions" ADD CONSTRAINT "promo_redemptions_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."promo_codes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."TopUpPurpose" AS ENUM ('WALLET', 'CHAT_TIME');
+
+-- CreateEnum
+CREATE TYPE "public"."TopUpIntentStatus" AS ENUM ('AWAITING_PAYMENT', 'PAID', 'FULFILLED', 'PAYMENT_FAILED', 'FULFILLMENT_FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."top_up_intents" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'KES',
+    "purpose" "public"."TopUpPurpose" NOT NULL,
+    "sellerId" TEXT,
+    "durationMinutes" INTEGER,
+    "promoCode" TEXT,
+    "status" "public"."TopUpIntentStatus" NOT NULL DEFAULT 'AWAITING_PAYMENT',
+    "paymentId" TEXT,
+    "checkoutRequestId" TEXT,
+    "chatSessionId" TEXT,
+    "failureReason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "top_up_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "top_up_intents_paymentId_key" ON "public"."top_up_intents"("paymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "top_up_intents_checkoutRequestId_key" ON "public"."top_up_intents"("checkoutRequestId");
+
+-- CreateIndex
+CREATE INDEX "top_up_intents_userId_createdAt_idx" ON "public"."top_up_intents"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "top_up_intents_status_createdAt_idx" ON "public"."top_up_intents"("status", "createdAt");
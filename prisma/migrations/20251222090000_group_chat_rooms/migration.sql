@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."ChatRoomType" AS ENUM ('DIRECT', 'GROUP');
+
+-- CreateEnum
+CREATE TYPE "public"."ChatRoomRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER');
+
+-- AlterTable
+ALTER TABLE "public"."chat_rooms" ADD COLUMN     "avatarUrl" TEXT,
+ADD COLUMN     "createdBy" TEXT,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "type" "public"."ChatRoomType" NOT NULL DEFAULT 'DIRECT',
+ALTER COLUMN "participant1" DROP NOT NULL,
+ALTER COLUMN "participant2" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."chat_room_members" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "public"."ChatRoomRole" NOT NULL DEFAULT 'MEMBER',
+    "invitedBy" TEXT,
+    "joinedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_room_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_room_members_userId_idx" ON "public"."chat_room_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_room_members_roomId_userId_key" ON "public"."chat_room_members"("roomId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_room_members" ADD CONSTRAINT "chat_room_members_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."chat_rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
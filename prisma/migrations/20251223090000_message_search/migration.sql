@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('simple'::regconfig, coalesce("message", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "messages_chatRoomId_createdAt_idx" ON "public"."messages"("chatRoomId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "messages_searchVector_idx" ON "public"."messages" USING GIN ("searchVector");
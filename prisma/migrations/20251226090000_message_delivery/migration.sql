@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "clientMessageId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."message_delivery_receipts" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deliveredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_delivery_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_delivery_receipts_messageId_userId_key" ON "public"."message_delivery_receipts"("messageId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_senderId_clientMessageId_key" ON "public"."messages"("senderId", "clientMessageId");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_delivery_receipts" ADD CONSTRAINT "message_delivery_receipts_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."presence_connections" (
+    "socketId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "connectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "heartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "presence_connections_pkey" PRIMARY KEY ("socketId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."realtime_events" (
+    "id" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "realtime_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "presence_connections_userId_idx" ON "public"."presence_connections"("userId");
+
+-- CreateIndex
+CREATE INDEX "presence_connections_instanceId_idx" ON "public"."presence_connections"("instanceId");
+
+-- CreateIndex
+CREATE INDEX "presence_connections_heartbeatAt_idx" ON "public"."presence_connections"("heartbeatAt");
+
+-- CreateIndex
+CREATE INDEX "realtime_events_createdAt_idx" ON "public"."realtime_events"("createdAt");
+
+-- Sockets open before this release were only tracked in memory
+UPDATE "public"."user_status" SET "isOnline" = false WHERE "isOnline" = true;
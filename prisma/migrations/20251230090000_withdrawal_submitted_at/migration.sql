@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."withdrawals" ADD COLUMN     "submittedAt" TIMESTAMP(3);
@@ -0,0 +1,207 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { User } from '@clerk/backend';
+import { B2CTransactionStatus, PaymentStatus } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+import { AdjustWalletDto, AdminOverrideDto, SetRoleDto } from './dto/admin.dto';
+
+interface AuthenticatedRequest extends Request {
+  user: User;
+}
+
+@Controller('api/v1/admin')
+@UseGuards(AuthGuardService, RolesGuard)
+@Roles('support', 'finance-admin')
+export class AdminController {
+  constructor(private readonly adminService: AdminService) {}
+
+  /**
+   * Search users by name, username or email
+   */
+  @Get('users')
+  @HttpCode(HttpStatus.OK)
+  async searchUsers(
+    @Req() req: AuthenticatedRequest,
+    @Query('query') query: string = '',
+    @Query('limit') limit?: string,
+  ) {
+    return this.adminService.searchUsers(
+      req.user,
+      query,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * Get a user's profile, role, balance and open activity
+   */
+  @Get('users/:userId')
+  @HttpCode(HttpStatus.OK)
+  async getUser(
+    @Req() req: AuthenticatedRequest,
+    @Param('userId') userId: string,
+  ) {
+    return this.adminService.getUser(req.user, userId);
+  }
+
+  /**
+   * Change a user's role
+   */
+  @Put('users/:userId/role')
+  @HttpCode(HttpStatus.OK)
+  @Roles('super-admin')
+  async setRole(
+    @Req() req: AuthenticatedRequest,
+    @Param('userId') userId: string,
+    @Body() dto: SetRoleDto,
+  ) {
+    return this.adminService.setRole(req.user, userId, dto);
+  }
+
+  /**
+   * Credit or debit a user's wallet
+   */
+  @Post('users/:userId/wallet-adjustments')
+  @HttpCode(HttpStatus.CREATED)
+  @Roles('finance-admin')
+  async adjustWallet(
+    @Req() req: AuthenticatedRequest,
+    @Param('userId') userId: string,
+    @Body() dto: AdjustWalletDto,
+  ) {
+    return this.adminService.adjustWallet(req.user, userId, dto);
+  }
+
+  /**
+   * Get wallet adjustment history, optionally for one user
+   */
+  @Get('wallet-adjustments')
+  @HttpCode(HttpStatus.OK)
+  @Roles('finance-admin')
+  async getWalletAdjustments(
+    @Req() req: AuthenticatedRequest,
+    @Query('userId') userId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.adminService.getWalletAdjustments(
+      req.user,
+      userId,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * Cancel a pending service request and refund the requester
+   */
+  @Patch('service-requests/:requestId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @Roles('support')
+  async cancelServiceRequest(
+    @Req() req: AuthenticatedRequest,
+    @Param('requestId') requestId: string,
+    @Body() dto: AdminOverrideDto,
+  ) {
+    return this.adminService.cancelServiceRequest(req.user, requestId, dto);
+  }
+
+  /**
+   * End a service session early
+   */
+  @Post('service-sessions/:sessionId/end')
+  @HttpCode(HttpStatus.OK)
+  @Roles('support')
+  async endServiceSession(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+    @Body() dto: AdminOverrideDto,
+  ) {
+    return this.adminService.endServiceSession(req.user, sessionId, dto);
+  }
+
+  /**
+   * List M-Pesa STK payments
+   */
+  @Get('payments')
+  @HttpCode(HttpStatus.OK)
+  async getPayments(
+    @Req() req: AuthenticatedRequest,
+    @Query('userId') userId?: string,
+    @Query('status') status?: PaymentStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.adminService.getPayments(
+      req.user,
+      { userId, status },
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * Get a payment by ID or checkout request ID
+   */
+  @Get('payments/:paymentId')
+  @HttpCode(HttpStatus.OK)
+  async getPayment(
+    @Req() req: AuthenticatedRequest,
+    @Param('paymentId') paymentId: string,
+  ) {
+    return this.adminService.getPayment(req.user, paymentId);
+  }
+
+  /**
+   * List B2C payouts
+   */
+  @Get('b2c-transactions')
+  @HttpCode(HttpStatus.OK)
+  async getB2CTransactions(
+    @Req() req: AuthenticatedRequest,
+    @Query('userId') userId?: string,
+    @Query('status') status?: B2CTransactionStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.adminService.getB2CTransactions(
+      req.user,
+      { userId, status },
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * List M-Pesa callbacks that failed verification
+   */
+  @Get('rejected-callbacks')
+  @HttpCode(HttpStatus.OK)
+  async getRejectedCallbacks(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.adminService.getRejectedCallbacks(
+      req.user,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+}
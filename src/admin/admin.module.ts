@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { ServiceRequestModule } from 'src/service-request/service-request.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    LedgerModule,
+    AuditModule,
+    ServiceRequestModule,
+  ],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
@@ -0,0 +1,502 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ClerkClient, User } from '@clerk/backend';
+import {
+  B2CTransactionStatus,
+  PaymentStatus,
+  Prisma,
+  WalletAdjustmentReason,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { Money } from 'src/common/money/money';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditEntry } from 'src/audit/dto/audit.dto';
+import { ROLES, getRole } from 'src/auth-guard/roles';
+import { ServiceRequestService } from 'src/service-request/service-request.service';
+import { ServiceSessionService } from 'src/service-request/service-session.service';
+import {
+  AdjustWalletDto,
+  AdminOverrideDto,
+  AdminUserSummary,
+  SetRoleDto,
+} from './dto/admin.dto';
+
+/**
+ * Support and finance tooling. Every method records what the acting staff
+ * member did, including lookups, in the audit log.
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject('ClerkClient')
+    private readonly clerkClient: ClerkClient,
+    private readonly ledgerService: LedgerService,
+    private readonly auditService: AuditService,
+    private readonly serviceRequestService: ServiceRequestService,
+    private readonly serviceSessionService: ServiceSessionService,
+  ) {}
+
+  async searchUsers(actor: User, query: string, limit: number = 20) {
+    const users = await this.clerkClient.users.getUserList({
+      query,
+      limit: Math.min(limit, 100),
+      orderBy: '-last_active_at',
+    });
+
+    await this.audit(actor, {
+      action: 'USER_SEARCH',
+      entityType: 'User',
+      metadata: { query, results: users.data.length },
+    });
+
+    return {
+      items: users.data.map((user) => this.summarize(user)),
+      total: users.totalCount,
+    };
+  }
+
+  async getUser(actor: User, userId: string) {
+    const user = await this.findUser(userId);
+
+    const [
+      balance,
+      monetization,
+      activeServiceSessions,
+      pendingServiceRequests,
+      pendingWithdrawals,
+      recentPayments,
+    ] = await Promise.all([
+      this.prisma.userBalance.findUnique({ where: { userId } }),
+      this.prisma.userMonetizationSettings.findUnique({
+        where: { userId },
+        select: { isEnabled: true, currency: true },
+      }),
+      this.prisma.serviceSession.count({
+        where: {
+          isActive: true,
+          OR: [{ requesterId: userId }, { providerId: userId }],
+        },
+      }),
+      this.prisma.serviceRequest.count({
+        where: {
+          status: 'PENDING',
+          OR: [{ requesterId: userId }, { providerId: userId }],
+        },
+      }),
+      this.prisma.withdrawal.count({
+        where: { userId, status: { in: ['PENDING', 'PROCESSING'] } },
+      }),
+      this.prisma.payment.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 5,
+      }),
+    ]);
+
+    await this.audit(actor, {
+      action: 'USER_VIEW',
+      entityType: 'User',
+      entityId: userId,
+    });
+
+    return {
+      user: this.summarize(user),
+      balance,
+      monetization,
+      activeServiceSessions,
+      pendingServiceRequests,
+      pendingWithdrawals,
+      recentPayments,
+    };
+  }
+
+  async setRole(actor: User, userId: string, dto: SetRoleDto) {
+    if (!ROLES.includes(dto.role)) {
+      throw new BadRequestException(`Role must be one of ${ROLES.join(', ')}`);
+    }
+
+    if (!dto.reason) {
+      throw new BadRequestException('A reason is required');
+    }
+
+    if (userId === actor.id) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    const user = await this.findUser(userId);
+    const previousRole = getRole(user);
+
+    const updated = await this.clerkClient.users.updateUserMetadata(userId, {
+      privateMetadata: { role: dto.role },
+    });
+
+    await this.audit(actor, {
+      action: 'USER_ROLE_CHANGE',
+      entityType: 'User',
+      entityId: userId,
+      reason: dto.reason,
+      metadata: { from: previousRole, to: dto.role },
+    });
+
+    this.logger.log(
+      `Role of ${userId} changed from ${previousRole} to ${dto.role} by ${actor.id}`,
+    );
+
+    return this.summarize(updated);
+  }
+
+  /**
+   * Credit or debit a user's wallet against the platform adjustment
+   * account. Debits cannot take the wallet below zero.
+   */
+  async adjustWallet(actor: User, userId: string, dto: AdjustWalletDto) {
+    if (!Number.isInteger(dto.amount) || dto.amount === 0) {
+      throw new BadRequestException(
+        'Amount must be a non-zero integer in minor units',
+      );
+    }
+
+    if (!Object.values(WalletAdjustmentReason).includes(dto.reasonCode)) {
+      throw new BadRequestException(
+        `Reason code must be one of ${Object.values(WalletAdjustmentReason).join(', ')}`,
+      );
+    }
+
+    await this.findUser(userId);
+
+    const currency = dto.currency ?? 'KES';
+    const amount = Money.of(Math.abs(dto.amount), currency);
+    const description = `${dto.amount > 0 ? 'Credit' : 'Debit'} of ${amount.format()} by support (${dto.reasonCode})`;
+
+    const adjustment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.walletAdjustment.create({
+        data: {
+          userId,
+          actorId: actor.id,
+          amount: dto.amount,
+          currency,
+          reasonCode: dto.reasonCode,
+          note: dto.note,
+        },
+      });
+
+      const transaction = await this.ledgerService.post(tx, {
+        kind: 'ADMIN_ADJUSTMENT',
+        description,
+        referenceType: 'WalletAdjustment',
+        referenceId: created.id,
+        metadata: { reasonCode: dto.reasonCode, actorId: actor.id },
+        legs: [
+          {
+            account: LedgerAccounts.wallet(userId, currency),
+            amount: dto.amount,
+          },
+          {
+            account: LedgerAccounts.adjustments(currency),
+            amount: -dto.amount,
+          },
+        ],
+      });
+
+      await this.audit(
+        actor,
+        {
+          action: 'WALLET_ADJUSTMENT',
+          entityType: 'User',
+          entityId: userId,
+          reason: dto.note,
+          metadata: {
+            adjustmentId: created.id,
+            amount: dto.amount,
+            currency,
+            reasonCode: dto.reasonCode,
+          },
+        },
+        tx,
+      );
+
+      return tx.walletAdjustment.update({
+        where: { id: created.id },
+        data: { ledgerTransactionId: transaction.id },
+      });
+    });
+
+    this.logger.log(`${description} for ${userId} by ${actor.id}`);
+
+    const balance = await this.prisma.userBalance.findUnique({
+      where: { userId },
+    });
+
+    return { adjustment, balance };
+  }
+
+  async getWalletAdjustments(
+    actor: User,
+    userId?: string,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const skip = (page - 1) * limit;
+    const where = userId ? { userId } : {};
+
+    const [items, total] = await Promise.all([
+      this.prisma.walletAdjustment.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.walletAdjustment.count({ where }),
+    ]);
+
+    await this.audit(actor, {
+      action: 'WALLET_ADJUSTMENT_LIST',
+      entityType: 'WalletAdjustment',
+      entityId: userId,
+    });
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async cancelServiceRequest(
+    actor: User,
+    requestId: string,
+    dto: AdminOverrideDto,
+  ) {
+    if (!dto.reason) {
+      throw new BadRequestException('A reason is required');
+    }
+
+    const result = await this.serviceRequestService.cancelRequestAsAdmin(
+      requestId,
+      dto.reason,
+    );
+
+    await this.audit(actor, {
+      action: 'SERVICE_REQUEST_CANCEL',
+      entityType: 'ServiceRequest',
+      entityId: requestId,
+      reason: dto.reason,
+    });
+
+    return result;
+  }
+
+  async endServiceSession(
+    actor: User,
+    sessionId: string,
+    dto: AdminOverrideDto,
+  ) {
+    if (!dto.reason) {
+      throw new BadRequestException('A reason is required');
+    }
+
+    const session = await this.serviceSessionService.endAsAdmin(sessionId);
+
+    await this.audit(actor, {
+      action: 'SERVICE_SESSION_END',
+      entityType: 'ServiceSession',
+      entityId: sessionId,
+      reason: dto.reason,
+    });
+
+    return session;
+  }
+
+  async getPayments(
+    actor: User,
+    filters: { userId?: string; status?: PaymentStatus },
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const skip = (page - 1) * limit;
+    const where: Prisma.PaymentWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        include: { callback: true },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    await this.audit(actor, {
+      action: 'PAYMENT_LIST',
+      entityType: 'Payment',
+      metadata: filters,
+    });
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Look up a payment by ID or M-Pesa checkout request ID, with its
+   * callback and any callbacks that were rejected for it
+   */
+  async getPayment(actor: User, paymentId: string) {
+    const payment = await this.prisma.payment.findFirst({
+      where: { OR: [{ id: paymentId }, { checkoutRequestId: paymentId }] },
+      include: { callback: true },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    const rejectedCallbacks = payment.checkoutRequestId
+      ? await this.prisma.rejectedCallback.findMany({
+          where: { checkoutRequestId: payment.checkoutRequestId },
+          orderBy: { createdAt: 'desc' },
+        })
+      : [];
+
+    await this.audit(actor, {
+      action: 'PAYMENT_VIEW',
+      entityType: 'Payment',
+      entityId: payment.id,
+    });
+
+    return { payment, rejectedCallbacks };
+  }
+
+  async getB2CTransactions(
+    actor: User,
+    filters: { userId?: string; status?: B2CTransactionStatus },
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const skip = (page - 1) * limit;
+    const where: Prisma.B2CTransactionWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.b2CTransaction.findMany({
+        where,
+        include: { withdrawal: true },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.b2CTransaction.count({ where }),
+    ]);
+
+    await this.audit(actor, {
+      action: 'B2C_TRANSACTION_LIST',
+      entityType: 'B2CTransaction',
+      metadata: filters,
+    });
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getRejectedCallbacks(
+    actor: User,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      this.prisma.rejectedCallback.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.rejectedCallback.count(),
+    ]);
+
+    await this.audit(actor, {
+      action: 'REJECTED_CALLBACK_LIST',
+      entityType: 'RejectedCallback',
+    });
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private audit(
+    actor: User,
+    entry: Omit<AuditEntry, 'actorId' | 'actorRole'>,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.auditService.record(
+      { ...entry, actorId: actor.id, actorRole: getRole(actor) },
+      tx,
+    );
+  }
+
+  private async findUser(userId: string) {
+    try {
+      return await this.clerkClient.users.getUser(userId);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        throw new NotFoundException(`User with ID ${userId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  private summarize(user: User): AdminUserSummary {
+    return {
+      id: user.id,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.primaryEmailAddress?.emailAddress ?? null,
+      imageUrl: user.imageUrl,
+      role: getRole(user),
+      banned: user.banned,
+      createdAt: new Date(user.createdAt),
+      lastActiveAt: user.lastActiveAt ? new Date(user.lastActiveAt) : null,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  NotEquals,
+} from 'class-validator';
+import { WalletAdjustmentReason } from '@prisma/client';
+import { ROLES, Role } from 'src/auth-guard/roles';
+
+export class AdjustWalletDto {
+  /** Signed minor units: positive credits the wallet, negative debits it */
+  @IsInt()
+  @NotEquals(0)
+  amount: number;
+
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @IsEnum(WalletAdjustmentReason)
+  reasonCode: WalletAdjustmentReason;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class SetRoleDto {
+  @IsIn(ROLES)
+  role: Role;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class AdminOverrideDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export interface AdminUserSummary {
+  id: string;
+  username: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  imageUrl: string;
+  role: Role;
+  banned: boolean;
+  createdAt: Date;
+  lastActiveAt: Date | null;
+}
@@ -17,6 +17,15 @@ import { ChatlistModule } from './chatlist/chatlist.module';
 import { CloudinaryModule } from './cloudinary/cloudinary.module';
 import { MonetizationModule } from './monetization/monetization.module';
 import { ServiceRequestModule } from './service-request/service-request.module';
+import { LedgerModule } from './ledger/ledger.module';
+import { WithdrawalModule } from './withdrawal/withdrawal.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { CallModule } from './call/call.module';
+import { AuditModule } from './audit/audit.module';
+import { AdminModule } from './admin/admin.module';
+import { DisputeModule } from './dispute/dispute.module';
+import { PromotionModule } from './promotion/promotion.module';
+import { TopUpModule } from './top-up/top-up.module';
 
 @Module({
   imports: [
@@ -33,6 +42,15 @@ import { ServiceRequestModule } from './service-request/service-request.module';
     CloudinaryModule,
     MonetizationModule,
     ServiceRequestModule,
+    LedgerModule,
+    WithdrawalModule,
+    SchedulerModule,
+    CallModule,
+    AuditModule,
+    AdminModule,
+    DisputeModule,
+    PromotionModule,
+    TopUpModule,
   ],
   controllers: [UserController, AppController],
   providers: [
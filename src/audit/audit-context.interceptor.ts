@@ -0,0 +1,70 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { User } from '@clerk/backend';
+import { Request } from 'express';
+import { Socket } from 'socket.io';
+import { randomUUID } from 'crypto';
+import { Observable } from 'rxjs';
+import { getRole } from 'src/auth-guard/roles';
+import { callbackSourceIp } from 'src/payment/mpesa-callback.guard';
+import { AuditContext, auditContext } from './audit-context';
+
+/**
+ * Capture the actor and request details of HTTP requests and socket events
+ * for the audit log. Runs after guards, so the authenticated user is known.
+ * The client address is the hop the load balancer appended, which callers
+ * cannot forge.
+ */
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const auditCtx = this.buildContext(context);
+    if (!auditCtx) return next.handle();
+
+    // Nest binds the handler's async context when handle() is called
+    return auditContext.run(auditCtx, () => next.handle());
+  }
+
+  private buildContext(context: ExecutionContext): AuditContext | null {
+    if (context.getType() === 'http') {
+      const request = context
+        .switchToHttp()
+        .getRequest<Request & { user?: User }>();
+      const requestId = request.headers['x-request-id'];
+
+      return {
+        ...this.actor(request.user),
+        ipAddress: callbackSourceIp(request),
+        userAgent: request.headers['user-agent'],
+        requestId: typeof requestId === 'string' ? requestId : randomUUID(),
+      };
+    }
+
+    if (context.getType() === 'ws') {
+      const client = context.switchToWs().getClient<Socket>();
+      const user = (client.data as { user?: User } | undefined)?.user;
+
+      return {
+        ...this.actor(user),
+        ipAddress: callbackSourceIp({
+          headers: client.handshake.headers,
+          socket: { remoteAddress: client.handshake.address },
+        }),
+        userAgent: client.handshake.headers['user-agent'],
+        requestId: randomUUID(),
+      };
+    }
+
+    return null;
+  }
+
+  private actor(user?: User) {
+    return user
+      ? { actorId: user.id, actorRole: getRole(user) }
+      : { actorId: 'anonymous', actorRole: 'anonymous' };
+  }
+}
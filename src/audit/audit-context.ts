@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface AuditContext {
+  actorId: string;
+  actorRole: string;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId: string;
+}
+
+/**
+ * Who is behind the current request or socket event. Set by
+ * AuditContextInterceptor so services deep in the call stack can attribute
+ * audit entries without threading the caller through every method.
+ */
+export const auditContext = new AsyncLocalStorage<AuditContext>();
@@ -0,0 +1,120 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { AuditService } from './audit.service';
+import { AuditLogFilters } from './dto/audit.dto';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+
+@Controller('api/v1/admin/audit-logs')
+@UseGuards(AuthGuardService, RolesGuard)
+@Roles('support', 'finance-admin')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Search the audit log by entity, actor, action, request or time range
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getAuditLogs(
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actorId') actorId?: string,
+    @Query('action') action?: string,
+    @Query('requestId') requestId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.auditService.find(
+      this.parseFilters({
+        entityType,
+        entityId,
+        actorId,
+        action,
+        requestId,
+        from,
+        to,
+      }),
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 50,
+    );
+  }
+
+  /**
+   * Download matching entries as CSV (default) or JSON
+   */
+  @Get('export')
+  @Header('Cache-Control', 'no-store')
+  @Roles('finance-admin')
+  async exportAuditLogs(
+    @Res() res: Response,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actorId') actorId?: string,
+    @Query('action') action?: string,
+    @Query('requestId') requestId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('format') format: string = 'csv',
+  ) {
+    if (format !== 'csv' && format !== 'json') {
+      throw new BadRequestException('Format must be csv or json');
+    }
+
+    const body = await this.auditService.export(
+      this.parseFilters({
+        entityType,
+        entityId,
+        actorId,
+        action,
+        requestId,
+        from,
+        to,
+      }),
+      format,
+    );
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res
+      .status(HttpStatus.OK)
+      .type(format === 'csv' ? 'text/csv' : 'application/json')
+      .attachment(filename)
+      .send(body);
+  }
+
+  private parseFilters(
+    query: Omit<AuditLogFilters, 'from' | 'to'> & {
+      from?: string;
+      to?: string;
+    },
+  ): AuditLogFilters {
+    return {
+      ...query,
+      from: this.parseDate(query.from, 'from'),
+      to: this.parseDate(query.to, 'to'),
+    };
+  }
+
+  private parseDate(value: string | undefined, name: string) {
+    if (!value) return undefined;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name} date`);
+    }
+    return date;
+  }
+}
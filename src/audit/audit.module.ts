@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditContextInterceptor } from './audit-context.interceptor';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+
+@Module({
+  imports: [PrismaModule, ClerkModule],
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    { provide: APP_INTERCEPTOR, useClass: AuditContextInterceptor },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
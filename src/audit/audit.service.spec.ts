@@ -0,0 +1,76 @@
+import { Test } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let prisma: {
+    auditLog: { count: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      auditLog: {
+        count: jest.fn().mockResolvedValue(1),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+      },
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [AuditService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(AuditService);
+  });
+
+  describe('export', () => {
+    const entry = {
+      id: 'log_1',
+      createdAt: new Date('2025-06-01T10:00:00Z'),
+      actorId: 'user_1',
+      actorRole: 'user',
+      action: 'WITHDRAWAL_REQUEST',
+      entityType: 'Withdrawal',
+      entityId: 'wd_1',
+      reason: null,
+      changes: null,
+      before: null,
+      after: null,
+      metadata: null,
+      ipAddress: '196.201.214.200',
+      userAgent: 'okhttp/4.12',
+      requestId: 'req_1',
+    };
+
+    it('neutralizes cells that a spreadsheet would run as formulas', async () => {
+      prisma.auditLog.findMany.mockResolvedValue([
+        {
+          ...entry,
+          reason: '=HYPERLINK("http://evil.example","Refund")',
+          userAgent: '@SUM(1+1)',
+          entityId: '-2+3',
+        },
+      ]);
+
+      const csv = await service.export({}, 'csv');
+      const [, row] = csv.split('\n');
+
+      expect(row).toContain(
+        `"'=HYPERLINK(""http://evil.example"",""Refund"")"`,
+      );
+      expect(row).toContain(`,'@SUM(1+1),`);
+      expect(row).toContain(`,'-2+3,`);
+    });
+
+    it('leaves ordinary cells as they are', async () => {
+      prisma.auditLog.findMany.mockResolvedValue([entry]);
+
+      const csv = await service.export({}, 'csv');
+
+      expect(csv.split('\n')[1]).toBe(
+        'log_1,2025-06-01T10:00:00.000Z,user_1,user,WITHDRAWAL_REQUEST,Withdrawal,wd_1,,,,,,196.201.214.200,okhttp/4.12,req_1',
+      );
+    });
+  });
+});
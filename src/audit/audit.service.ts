@@ -0,0 +1,192 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { auditContext } from './audit-context';
+import { AuditEntry, AuditFieldChange, AuditLogFilters } from './dto/audit.dto';
+
+export const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'actorId',
+  'actorRole',
+  'action',
+  'entityType',
+  'entityId',
+  'reason',
+  'changes',
+  'before',
+  'after',
+  'metadata',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+] as const;
+
+/**
+ * Append-only record of financial and moderation actions. Entries are
+ * attributed to the user behind the current request, or to `system` for
+ * scheduled jobs and provider callbacks.
+ */
+@Injectable()
+export class AuditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Write an audit entry. Pass the caller's transaction so the entry
+   * commits together with the change it describes.
+   */
+  record(entry: AuditEntry, tx?: Prisma.TransactionClient) {
+    const context = auditContext.getStore();
+    const before = this.toJson(entry.before);
+    const after = this.toJson(entry.after);
+
+    return (tx ?? this.prisma).auditLog.create({
+      data: {
+        actorId: entry.actorId ?? context?.actorId ?? 'system',
+        actorRole: entry.actorRole ?? context?.actorRole ?? 'system',
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        reason: entry.reason,
+        before,
+        after,
+        changes: this.diff(before, after),
+        metadata: entry.metadata,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+        requestId: context?.requestId,
+      },
+    });
+  }
+
+  async find(filters: AuditLogFilters, page: number = 1, limit: number = 50) {
+    const skip = (page - 1) * limit;
+    const where = this.buildWhere(filters);
+
+    const [items, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * All entries matching the filters, oldest first, as JSON or CSV. The
+   * export itself is recorded.
+   */
+  async export(filters: AuditLogFilters, format: 'json' | 'csv') {
+    const where = this.buildWhere(filters);
+    const total = await this.prisma.auditLog.count({ where });
+
+    if (total > MAX_EXPORT_ROWS) {
+      throw new BadRequestException(
+        `Export matches ${total} entries; narrow the filters to at most ${MAX_EXPORT_ROWS}`,
+      );
+    }
+
+    const items = await this.prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    await this.record({
+      action: 'AUDIT_LOG_EXPORT',
+      entityType: 'AuditLog',
+      metadata: { ...filters, format, count: items.length },
+    });
+
+    if (format === 'json') {
+      return JSON.stringify(items, null, 2);
+    }
+
+    const rows = items.map((item) =>
+      CSV_COLUMNS.map((column) => this.csvCell(item[column])).join(','),
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  private buildWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+    return {
+      ...(filters.entityType && { entityType: filters.entityType }),
+      ...(filters.entityId && { entityId: filters.entityId }),
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.requestId && { requestId: filters.requestId }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Quote a value for CSV. Text starting like a formula is prefixed with a
+   * quote so spreadsheets show it instead of evaluating it.
+   */
+  private csvCell(value: unknown) {
+    if (value === null || value === undefined) return '';
+
+    let text =
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value as string | number | boolean);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * Top-level fields that differ between the before and after snapshots
+   */
+  private diff(
+    before?: Prisma.InputJsonObject,
+    after?: Prisma.InputJsonObject,
+  ) {
+    if (!before || !after) return undefined;
+
+    const changes: Record<string, AuditFieldChange> = {};
+    for (const key of new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ])) {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+      }
+    }
+
+    return Object.keys(changes).length
+      ? (changes as unknown as Prisma.InputJsonObject)
+      : undefined;
+  }
+
+  /**
+   * Snapshot a record as plain JSON so dates and decimals compare and
+   * store consistently
+   */
+  private toJson(value?: object | null) {
+    if (!value) return undefined;
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonObject;
+  }
+}
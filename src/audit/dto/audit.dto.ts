@@ -0,0 +1,32 @@
+import { Prisma } from '@prisma/client';
+
+export interface AuditEntry {
+  /** Defaults to the current request's user, or `system` outside a request */
+  actorId?: string;
+  actorRole?: string;
+  /** What was done, e.g. `WALLET_ADJUSTMENT` */
+  action: string;
+  /** The kind of record acted on, e.g. `User` or `ServiceSession` */
+  entityType: string;
+  entityId?: string;
+  reason?: string;
+  /** State of the record before and after the change */
+  before?: object | null;
+  after?: object | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+export interface AuditFieldChange {
+  from: Prisma.InputJsonValue | null;
+  to: Prisma.InputJsonValue | null;
+}
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
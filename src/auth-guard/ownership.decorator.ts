@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const OWNER_PARAM_KEY = 'ownerParam';
+
+/**
+ * Restrict a route to the user whose ID is in the given path param.
+ * Admins may act on any user. Enforced by `OwnershipGuard`.
+ */
+export const Owner = (param: string = 'userId') =>
+  SetMetadata(OWNER_PARAM_KEY, param);
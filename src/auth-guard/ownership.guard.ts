@@ -0,0 +1,56 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { User } from '@clerk/backend';
+import { OWNER_PARAM_KEY } from './ownership.decorator';
+import { STAFF_ROLES, getRole, hasRole } from './roles';
+
+export function isAdmin(user: User) {
+  return getRole(user) === 'super-admin';
+}
+
+/**
+ * The user ID to scope lookups to: the caller's own ID, or undefined for
+ * staff, who may read any user's records
+ */
+export function ownerScope(user: User) {
+  return hasRole(user, STAFF_ROLES) ? undefined : user.id;
+}
+
+/**
+ * Checks `@Owner()` routes against the identity verified by
+ * `AuthGuardService`, which must run first
+ */
+@Injectable()
+export class OwnershipGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const param = this.reflector.getAllAndOverride<string | undefined>(
+      OWNER_PARAM_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!param) return true;
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: User }>();
+    const user = request.user;
+
+    if (!user) {
+      throw new UnauthorizedException('No authenticated user');
+    }
+
+    if (request.params[param] === user.id || isAdmin(user)) {
+      return true;
+    }
+
+    throw new ForbiddenException('You can only access your own account');
+  }
+}
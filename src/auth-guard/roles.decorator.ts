@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from './roles';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restrict a route to users holding one of the given roles. Enforced by
+ * `RolesGuard`.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,44 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { User } from '@clerk/backend';
+import { ROLES_KEY } from './roles.decorator';
+import { Role, hasRole } from './roles';
+
+/**
+ * Checks `@Roles()` routes against the identity verified by
+ * `AuthGuardService`, which must run first
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!roles || roles.length === 0) return true;
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: User }>();
+    const user = request.user;
+
+    if (!user) {
+      throw new UnauthorizedException('No authenticated user');
+    }
+
+    if (!hasRole(user, roles)) {
+      throw new ForbiddenException('You do not have access to this resource');
+    }
+
+    return true;
+  }
+}
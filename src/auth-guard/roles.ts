@@ -0,0 +1,29 @@
+import { User } from '@clerk/backend';
+
+export const ROLES = [
+  'user',
+  'creator',
+  'support',
+  'finance-admin',
+  'super-admin',
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** Roles that may look at other users' records */
+export const STAFF_ROLES: Role[] = ['support', 'finance-admin', 'super-admin'];
+
+/**
+ * A user's role, kept in Clerk `privateMetadata.role` so users cannot set
+ * it themselves. Missing or unknown values mean a regular user.
+ */
+export function getRole(user: User): Role {
+  const role = user.privateMetadata?.role;
+  return ROLES.find((r) => r === role) ?? 'user';
+}
+
+/** Super admins hold every role */
+export function hasRole(user: User, roles: Role[]) {
+  const role = getRole(user);
+  return role === 'super-admin' || roles.includes(role);
+}
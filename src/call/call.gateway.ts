@@ -0,0 +1,347 @@
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { UsePipes, ValidationPipe, Logger, Inject } from '@nestjs/common';
+import { ClerkClient, User, verifyToken } from '@clerk/backend';
+import { ServiceCall } from '@prisma/client';
+import { CallService, RING_TIMEOUT_SECONDS } from './call.service';
+import {
+  CallActionDto,
+  IceCandidateDto,
+  SessionDescriptionDto,
+  StartCallDto,
+} from './dto/call.dto';
+
+interface AuthenticatedSocket extends Socket {
+  data: {
+    user: User;
+  };
+}
+
+/**
+ * WebRTC signaling for VIDEO and AUDIO service sessions. Clients exchange
+ * offers, answers and ICE candidates through this namespace and report
+ * when media starts flowing, which starts the session clock. Hanging up or
+ * dropping the socket stops it.
+ */
+@WebSocketGateway({
+  cors: { origin: '*' },
+  namespace: 'calls',
+})
+@UsePipes(new ValidationPipe())
+export class CallGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(CallGateway.name);
+
+  constructor(
+    private readonly callService: CallService,
+    @Inject('ClerkClient')
+    private readonly clerkClient: ClerkClient,
+  ) {}
+
+  async handleConnection(client: AuthenticatedSocket) {
+    try {
+      const token = this.extractTokenFromClient(client);
+      if (!token) {
+        throw new Error('No authentication token provided');
+      }
+
+      const tokenPayload = await verifyToken(token, {
+        secretKey: process.env.CLERK_SECRET_KEY,
+        clockSkewInMs: 60000,
+      });
+
+      const user = await this.clerkClient.users.getUser(tokenPayload.sub);
+      client.data.user = user;
+
+      await client.join(`user_${user.id}`);
+    } catch (error) {
+      this.logger.error(
+        `Authentication failed for client ${client.id}: ${(error as Error).message}`,
+      );
+      client.emit('auth_error', { message: 'Authentication failed' });
+      client.disconnect();
+    }
+  }
+
+  async handleDisconnect(client: AuthenticatedSocket) {
+    if (!client.data.user) return;
+
+    try {
+      const ended = await this.callService.handleSocketDisconnect(client.id);
+      for (const call of ended) {
+        this.emitCallEnded(call, client.data.user.id);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to end calls of client ${client.id}:`, error);
+    }
+  }
+
+  @SubscribeMessage('startCall')
+  async handleStartCall(
+    @MessageBody() startCallDto: StartCallDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const user = client.data.user;
+      const { call, session } = await this.callService.startCall(
+        user.id,
+        client.id,
+        startCallDto.sessionId,
+      );
+
+      this.server.to(`user_${call.calleeId}`).emit('incomingCall', {
+        callId: call.id,
+        sessionId: session.id,
+        serviceType: session.serviceType,
+        ringingAt: call.ringingAt,
+        caller: {
+          id: user.id,
+          username: user.username,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          imageUrl: user.imageUrl,
+        },
+      });
+
+      setTimeout(() => {
+        void this.expireRinging(call.id);
+      }, RING_TIMEOUT_SECONDS * 1000).unref();
+
+      return { success: true, data: { call } };
+    } catch (error) {
+      return this.failure('Start call', client, error, 'Failed to start call');
+    }
+  }
+
+  @SubscribeMessage('acceptCall')
+  async handleAcceptCall(
+    @MessageBody() callActionDto: CallActionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const call = await this.callService.acceptCall(
+        client.data.user.id,
+        client.id,
+        callActionDto.callId,
+      );
+
+      this.server.to(`user_${call.callerId}`).emit('callAccepted', {
+        callId: call.id,
+        sessionId: call.sessionId,
+      });
+      // Stop ringing on the callee's other devices
+      client.to(`user_${call.calleeId}`).emit('callAnsweredElsewhere', {
+        callId: call.id,
+      });
+
+      return { success: true, data: { call } };
+    } catch (error) {
+      return this.failure(
+        'Accept call',
+        client,
+        error,
+        'Failed to accept call',
+      );
+    }
+  }
+
+  @SubscribeMessage('declineCall')
+  async handleDeclineCall(
+    @MessageBody() callActionDto: CallActionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const call = await this.callService.declineCall(
+        client.data.user.id,
+        callActionDto.callId,
+      );
+
+      this.server.to(`user_${call.callerId}`).emit('callDeclined', {
+        callId: call.id,
+        sessionId: call.sessionId,
+      });
+      client.to(`user_${call.calleeId}`).emit('callAnsweredElsewhere', {
+        callId: call.id,
+      });
+
+      return { success: true, data: { callId: call.id } };
+    } catch (error) {
+      return this.failure(
+        'Decline call',
+        client,
+        error,
+        'Failed to decline call',
+      );
+    }
+  }
+
+  @SubscribeMessage('sessionDescription')
+  async handleSessionDescription(
+    @MessageBody() descriptionDto: SessionDescriptionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const { callId, type, sdp } = descriptionDto;
+      const peerId = await this.callService.recordDescription(
+        userId,
+        callId,
+        type,
+        sdp,
+      );
+
+      this.server
+        .to(`user_${peerId}`)
+        .emit('sessionDescription', { callId, type, sdp, from: userId });
+
+      return { success: true };
+    } catch (error) {
+      return this.failure(
+        'Session description',
+        client,
+        error,
+        'Failed to relay session description',
+      );
+    }
+  }
+
+  @SubscribeMessage('iceCandidate')
+  async handleIceCandidate(
+    @MessageBody() iceCandidateDto: IceCandidateDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const peerId = await this.callService.authorizeSignal(
+        userId,
+        iceCandidateDto.callId,
+      );
+
+      this.server
+        .to(`user_${peerId}`)
+        .emit('iceCandidate', { ...iceCandidateDto, from: userId });
+
+      return { success: true };
+    } catch (error) {
+      return this.failure(
+        'ICE candidate',
+        client,
+        error,
+        'Failed to relay ICE candidate',
+      );
+    }
+  }
+
+  @SubscribeMessage('callConnected')
+  async handleCallConnected(
+    @MessageBody() callActionDto: CallActionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const { call, connected } = await this.callService.markConnected(
+        client.data.user.id,
+        callActionDto.callId,
+      );
+
+      if (connected) {
+        const payload = {
+          callId: call.id,
+          sessionId: call.sessionId,
+          connectedAt: call.connectedAt,
+        };
+        this.server.to(`user_${call.callerId}`).emit('callConnected', payload);
+        this.server.to(`user_${call.calleeId}`).emit('callConnected', payload);
+      }
+
+      return { success: true };
+    } catch (error) {
+      return this.failure(
+        'Call connected',
+        client,
+        error,
+        'Failed to start the call',
+      );
+    }
+  }
+
+  @SubscribeMessage('hangUp')
+  async handleHangUp(
+    @MessageBody() callActionDto: CallActionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const call = await this.callService.hangUp(userId, callActionDto.callId);
+
+      this.emitCallEnded(call, userId);
+
+      return { success: true };
+    } catch (error) {
+      return this.failure('Hang up', client, error, 'Failed to hang up');
+    }
+  }
+
+  private async expireRinging(callId: string) {
+    try {
+      const call = await this.callService.missCall(callId);
+      if (!call) return;
+
+      const payload = { callId: call.id, sessionId: call.sessionId };
+      this.server.to(`user_${call.callerId}`).emit('callMissed', payload);
+      this.server.to(`user_${call.calleeId}`).emit('callMissed', payload);
+    } catch (error) {
+      this.logger.error(`Failed to expire call ${callId}:`, error);
+    }
+  }
+
+  private emitCallEnded(call: ServiceCall, endedBy: string) {
+    const payload = {
+      callId: call.id,
+      sessionId: call.sessionId,
+      reason: call.endReason,
+      endedBy,
+    };
+    this.server.to(`user_${call.callerId}`).emit('callEnded', payload);
+    this.server.to(`user_${call.calleeId}`).emit('callEnded', payload);
+  }
+
+  private failure(
+    action: string,
+    client: AuthenticatedSocket,
+    error: unknown,
+    fallback: string,
+  ) {
+    const { message, stack } =
+      error instanceof Error ? error : { message: fallback, stack: undefined };
+    this.logger.error(
+      `${action} error for user ${client.data.user?.id}:`,
+      stack,
+    );
+    return {
+      success: false,
+      error: message || fallback,
+    };
+  }
+
+  private extractTokenFromClient(client: Socket): string | null {
+    const token: unknown = client.handshake.auth?.token;
+    const authHeader =
+      typeof token === 'string' && token
+        ? token
+        : client.handshake.headers?.authorization;
+    if (authHeader?.startsWith('Bearer ')) {
+      return authHeader.substring(7);
+    }
+    return authHeader ?? null;
+  }
+}
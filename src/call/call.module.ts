@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CallGateway } from './call.gateway';
+import { CallService } from './call.service';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { ServiceRequestModule } from 'src/service-request/service-request.module';
+
+@Module({
+  imports: [PrismaModule, ClerkModule, ServiceRequestModule],
+  providers: [CallGateway, CallService],
+})
+export class CallModule {}
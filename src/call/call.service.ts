@@ -0,0 +1,345 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CallEndReason, CallStatus, Prisma, ServiceCall } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ServiceSessionService } from 'src/service-request/service-session.service';
+import { CallConnectionData } from './dto/call.dto';
+
+export const RING_TIMEOUT_SECONDS = 45;
+
+const OPEN_CALL_STATUSES: CallStatus[] = ['RINGING', 'ACCEPTED', 'CONNECTED'];
+
+/**
+ * Call state for VIDEO and AUDIO service sessions. Media flows peer to peer;
+ * this service only decides who may signal whom and keeps the session clock
+ * in step with the call.
+ */
+@Injectable()
+export class CallService {
+  private readonly logger = new Logger(CallService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly serviceSessionService: ServiceSessionService,
+  ) {}
+
+  async startCall(userId: string, socketId: string, sessionId: string) {
+    const session = await this.findCallableSession(userId, sessionId);
+    await this.missUnansweredCalls(session.id);
+
+    const call = await this.prisma.$transaction(async (tx) => {
+      // Serialise call setup per session so only one call can be open
+      await tx.$queryRaw`SELECT 1 FROM "service_sessions" WHERE "id" = ${session.id} FOR UPDATE`;
+
+      const open = await tx.serviceCall.findFirst({
+        where: { sessionId: session.id, status: { in: OPEN_CALL_STATUSES } },
+      });
+      if (open) {
+        throw new ConflictException(
+          'A call is already in progress for this session',
+        );
+      }
+
+      return tx.serviceCall.create({
+        data: {
+          sessionId: session.id,
+          callerId: userId,
+          calleeId:
+            session.requesterId === userId
+              ? session.providerId
+              : session.requesterId,
+          callerSocketId: socketId,
+        },
+      });
+    });
+
+    this.logger.log(`Call ${call.id} ringing for session ${session.id}`);
+
+    return { call, session };
+  }
+
+  async acceptCall(userId: string, socketId: string, callId: string) {
+    const call = await this.findForParticipant(userId, callId);
+
+    if (call.calleeId !== userId) {
+      throw new ForbiddenException('Only the person being called can accept');
+    }
+
+    await this.findCallableSession(userId, call.sessionId);
+
+    const { count } = await this.prisma.serviceCall.updateMany({
+      where: { id: call.id, status: 'RINGING' },
+      data: {
+        status: 'ACCEPTED',
+        answeredAt: new Date(),
+        calleeSocketId: socketId,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('This call is no longer ringing');
+    }
+
+    return this.prisma.serviceCall.findUniqueOrThrow({
+      where: { id: call.id },
+    });
+  }
+
+  async declineCall(userId: string, callId: string) {
+    const call = await this.findForParticipant(userId, callId);
+
+    if (call.calleeId !== userId) {
+      throw new ForbiddenException('Only the person being called can decline');
+    }
+
+    const { count } = await this.prisma.serviceCall.updateMany({
+      where: { id: call.id, status: 'RINGING' },
+      data: { status: 'DECLINED', endedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('This call is no longer ringing');
+    }
+
+    return { ...call, status: 'DECLINED' as const };
+  }
+
+  /**
+   * Check that an offer or answer may be relayed and keep it as the
+   * session's negotiated connection data. Returns the peer to relay to.
+   */
+  async recordDescription(
+    userId: string,
+    callId: string,
+    type: 'offer' | 'answer',
+    sdp: string,
+  ) {
+    const { call, session } = await this.findOpenCall(userId, callId);
+
+    const previous = session.connectionData as CallConnectionData | null;
+    const connectionData: CallConnectionData = {
+      ...(previous?.callId === call.id ? previous : { callId: call.id }),
+      [type]: { sdp, from: userId, at: new Date().toISOString() },
+    };
+
+    await this.prisma.serviceSession.update({
+      where: { id: session.id },
+      data: {
+        connectionData: connectionData as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return this.peerOf(call, userId);
+  }
+
+  /**
+   * Check that an ICE candidate may be relayed. Candidates are not stored.
+   */
+  async authorizeSignal(userId: string, callId: string) {
+    const { call } = await this.findOpenCall(userId, callId);
+    return this.peerOf(call, userId);
+  }
+
+  /**
+   * Called once media flows between the peers; starts or resumes the
+   * session clock. Reports from the second peer are no-ops.
+   */
+  async markConnected(userId: string, callId: string) {
+    const { call, session } = await this.findOpenCall(userId, callId);
+    const now = new Date();
+
+    const { count } = await this.prisma.serviceCall.updateMany({
+      where: { id: call.id, status: 'ACCEPTED' },
+      data: { status: 'CONNECTED', connectedAt: now },
+    });
+
+    if (count === 0) {
+      if (call.status !== 'CONNECTED') {
+        throw new BadRequestException('This call has not been accepted');
+      }
+      return { call, connected: false };
+    }
+
+    const previous = session.connectionData as CallConnectionData | null;
+    await this.prisma.serviceSession.update({
+      where: { id: session.id },
+      data: {
+        connectionData: {
+          ...(previous?.callId === call.id ? previous : { callId: call.id }),
+          connectedAt: now.toISOString(),
+        } as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    await this.serviceSessionService.startMetering(session.id);
+
+    this.logger.log(`Call ${call.id} connected`);
+
+    return {
+      call: { ...call, status: 'CONNECTED' as const, connectedAt: now },
+      connected: true,
+    };
+  }
+
+  async hangUp(userId: string, callId: string) {
+    const call = await this.findForParticipant(userId, callId);
+    const ended = await this.endCall(call, 'HUNG_UP');
+
+    if (!ended) {
+      throw new BadRequestException('This call has already ended');
+    }
+
+    return ended;
+  }
+
+  /**
+   * End the open calls a disconnected socket was part of
+   */
+  async handleSocketDisconnect(socketId: string) {
+    const calls = await this.prisma.serviceCall.findMany({
+      where: {
+        status: { in: OPEN_CALL_STATUSES },
+        OR: [{ callerSocketId: socketId }, { calleeSocketId: socketId }],
+      },
+    });
+
+    const ended: ServiceCall[] = [];
+    for (const call of calls) {
+      try {
+        const result = await this.endCall(call, 'DISCONNECTED');
+        if (result) ended.push(result);
+      } catch (error) {
+        this.logger.error(`Failed to end call ${call.id}:`, error);
+      }
+    }
+
+    return ended;
+  }
+
+  /**
+   * Mark a call missed if it is still ringing. Returns null if it was
+   * answered, declined or cancelled in the meantime.
+   */
+  async missCall(callId: string) {
+    const { count } = await this.prisma.serviceCall.updateMany({
+      where: { id: callId, status: 'RINGING' },
+      data: { status: 'MISSED', endedAt: new Date() },
+    });
+
+    if (count === 0) return null;
+
+    return this.prisma.serviceCall.findUniqueOrThrow({
+      where: { id: callId },
+    });
+  }
+
+  peerOf(call: Pick<ServiceCall, 'callerId' | 'calleeId'>, userId: string) {
+    return call.callerId === userId ? call.calleeId : call.callerId;
+  }
+
+  private async endCall(call: ServiceCall, reason: CallEndReason) {
+    const now = new Date();
+    const { count } = await this.prisma.serviceCall.updateMany({
+      where: { id: call.id, status: { in: OPEN_CALL_STATUSES } },
+      data: {
+        status: 'ENDED',
+        endReason: reason,
+        endedAt: now,
+      },
+    });
+
+    if (count === 0) return null;
+
+    if (call.status === 'CONNECTED') {
+      await this.serviceSessionService.stopMetering(call.sessionId);
+    }
+
+    this.logger.log(`Call ${call.id} ended: ${reason}`);
+
+    return {
+      ...call,
+      status: 'ENDED' as const,
+      endReason: reason,
+      endedAt: now,
+    };
+  }
+
+  /**
+   * Calls left ringing by an instance that went away before its ring
+   * timeout fired
+   */
+  private missUnansweredCalls(sessionId: string) {
+    return this.prisma.serviceCall.updateMany({
+      where: {
+        sessionId,
+        status: 'RINGING',
+        ringingAt: { lt: new Date(Date.now() - RING_TIMEOUT_SECONDS * 1000) },
+      },
+      data: { status: 'MISSED', endedAt: new Date() },
+    });
+  }
+
+  private async findCallableSession(userId: string, sessionId: string) {
+    const session = await this.prisma.serviceSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Service session not found');
+    }
+
+    if (session.requesterId !== userId && session.providerId !== userId) {
+      throw new ForbiddenException(
+        'You are not a participant in this service session',
+      );
+    }
+
+    if (session.serviceType !== 'VIDEO' && session.serviceType !== 'AUDIO') {
+      throw new BadRequestException(
+        'Calls are only available in VIDEO and AUDIO sessions',
+      );
+    }
+
+    if (!session.isPaid) {
+      throw new ForbiddenException('This service session has not been paid');
+    }
+
+    this.serviceSessionService.assertOpen(session, true);
+
+    return session;
+  }
+
+  private async findForParticipant(userId: string, callId: string) {
+    const call = await this.prisma.serviceCall.findUnique({
+      where: { id: callId },
+    });
+
+    if (!call) {
+      throw new NotFoundException('Call not found');
+    }
+
+    if (call.callerId !== userId && call.calleeId !== userId) {
+      throw new ForbiddenException('Not authorized');
+    }
+
+    return call;
+  }
+
+  private async findOpenCall(userId: string, callId: string) {
+    const call = await this.findForParticipant(userId, callId);
+
+    if (!OPEN_CALL_STATUSES.includes(call.status)) {
+      throw new BadRequestException('This call has ended');
+    }
+
+    const session = await this.findCallableSession(userId, call.sessionId);
+
+    return { call, session };
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class StartCallDto {
+  @IsString()
+  @IsNotEmpty()
+  sessionId: string;
+}
+
+export class CallActionDto {
+  @IsString()
+  @IsNotEmpty()
+  callId: string;
+}
+
+export class SessionDescriptionDto {
+  @IsString()
+  @IsNotEmpty()
+  callId: string;
+
+  @IsIn(['offer', 'answer'])
+  type: 'offer' | 'answer';
+
+  @IsString()
+  @IsNotEmpty()
+  sdp: string;
+}
+
+export class IceCandidateDto {
+  @IsString()
+  @IsNotEmpty()
+  callId: string;
+
+  @IsString()
+  candidate: string;
+
+  @IsString()
+  @IsOptional()
+  sdpMid?: string | null;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  sdpMLineIndex?: number | null;
+
+  @IsString()
+  @IsOptional()
+  usernameFragment?: string | null;
+}
+
+/** Latest negotiation of a session's call, kept in `connectionData` */
+export interface CallConnectionData {
+  callId: string;
+  offer?: { sdp: string; from: string; at: string };
+  answer?: { sdp: string; from: string; at: string };
+  connectedAt?: string;
+}
@@ -5,16 +5,20 @@ import {
   ConnectedSocket,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   WebSocketServer,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
+import { UsePipes, ValidationPipe, Logger, Inject } from '@nestjs/common';
 import {
-  UsePipes,
-  ValidationPipe,
-  Logger,
-  Inject,
-} from '@nestjs/common';
-import { ChatService } from './chat.service';
+  ChatService,
+  ChatRoomWithMessages,
+  MessageWithSender,
+} from './chat.service';
+import { DeliveryService } from './delivery.service';
+import { GroupChatService } from './group-chat.service';
+import { ReactionService } from './reaction.service';
+import { otherParticipant, roomParticipantIds } from './room-membership';
 import {
   CreateChatRoomDto,
   SendMessageDto,
@@ -23,9 +27,24 @@ import {
   CloseChatRoomDto,
   TypingDto,
   GetChatHistoryDto,
+  UnlockMessageDto,
+  SendTipDto,
+  CreateGroupDto,
+  UpdateGroupDto,
+  InviteToGroupDto,
+  GroupRoomDto,
+  GroupMemberDto,
+  SetMemberRoleDto,
+  ReactionDto,
+  SyncMessagesDto,
+  MessageDeliveredDto,
 } from './dto/chat.dto';
 import { ClerkClient, User, verifyToken } from '@clerk/backend';
-import { UpdateMonetizationSettingsDto } from 'src/monetization/dto/monetization.dto';
+import { PaymentRequiredException } from 'src/monetization/payment-required.exception';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { PresenceService } from 'src/realtime/presence.service';
+import { ServiceNotificationService } from 'src/service-request/service-notification.service';
+import { PaidMediaService } from 'src/monetization/paid-media.service';
 
 interface AuthenticatedSocket extends Socket {
   data: {
@@ -33,12 +52,17 @@ interface AuthenticatedSocket extends Socket {
   };
 }
 
+/** How long a recipient's socket has to acknowledge a new message */
+const DELIVERY_ACK_TIMEOUT_MS = 10000;
+
 @WebSocketGateway({
   cors: { origin: '*' },
   namespace: 'chat',
 })
 @UsePipes(new ValidationPipe())
-export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class ChatGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
   server: Server;
 
@@ -46,10 +70,21 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
   constructor(
     private readonly chatService: ChatService,
+    private readonly groupChatService: GroupChatService,
+    private readonly reactionService: ReactionService,
+    private readonly deliveryService: DeliveryService,
     @Inject('ClerkClient')
     private readonly clerkClient: ClerkClient,
+    private readonly realtimeService: RealtimeService,
+    private readonly presenceService: PresenceService,
+    private readonly notificationService: ServiceNotificationService,
+    private readonly paidMediaService: PaidMediaService,
   ) {}
 
+  afterInit(server: Server) {
+    this.realtimeService.attach(server);
+  }
+
   async handleConnection(client: AuthenticatedSocket) {
     try {
       const token = this.extractTokenFromClient(client);
@@ -66,7 +101,12 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       client.data.user = user;
       const userId = user.id;
 
-      this.chatService.setUserOnline(userId, client.id);
+      const presence = await this.presenceService.connect(userId, client.id);
+      if (client.disconnected) {
+        // Closed while authenticating, before the connection was recorded
+        await this.presenceService.disconnect(client.id);
+        return;
+      }
       await client.join(`user_${userId}`);
 
       const activeChatRooms =
@@ -74,31 +114,62 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
       for (const room of activeChatRooms) {
         await client.join(room.id);
-        const otherParticipant =
-          room.participant1 === userId ? room.participant2 : room.participant1;
-
-        this.server.to(`user_${otherParticipant}`).emit('userStatusUpdate', {
-          userId,
-          isOnline: true,
-          timestamp: new Date(),
-          roomId: room.id,
-        });
+        // Other devices of the user already announced them
+        if (!presence.changed) continue;
+        this.server
+          .to(this.otherParticipantRooms(room, userId))
+          .emit('userStatusUpdate', {
+            userId,
+            isOnline: true,
+            timestamp: new Date(),
+            roomId: room.id,
+          });
       }
 
       client.emit('activeChatRooms', {
         rooms: activeChatRooms.map((room) => {
-          const otherParticipantId =
-            room.participant1 === userId
-              ? room.participant2
-              : room.participant1;
+          const otherParticipantId = otherParticipant(room, userId);
           return {
             ...room,
-            otherParticipant: room.participantsInfo?.[otherParticipantId],
+            otherParticipant: otherParticipantId
+              ? room.participantsInfo?.[otherParticipantId]
+              : undefined,
             lastMessage: room.messages[0] || null,
           };
         }),
       });
 
+      // Clients send the newest message they have to receive the ones that
+      // arrived while they were offline; acknowledging marks them delivered
+      const lastMessageId: unknown = client.handshake.auth?.lastMessageId;
+      const missed = await this.chatService.getMissedMessages(
+        userId,
+        typeof lastMessageId === 'string' ? lastMessageId : undefined,
+      );
+      client
+        .timeout(DELIVERY_ACK_TIMEOUT_MS)
+        .emit('missedMessages', missed, (err: Error | null) => {
+          if (!err) {
+            void this.acknowledgeDelivery(
+              userId,
+              missed.messages.map((message) => message.id),
+            );
+          }
+        });
+
+      // Clients send the time of their last connection to receive what
+      // they missed while offline
+      const since: unknown = client.handshake.auth?.notificationsSince;
+      const sinceDate =
+        typeof since === 'string' ? new Date(since) : new Date(NaN);
+      client.emit(
+        'notificationCatchUp',
+        await this.notificationService.getCatchUp(
+          userId,
+          isNaN(sinceDate.getTime()) ? undefined : sinceDate,
+        ),
+      );
+
       this.logger.log(
         `User ${userId} (${user.firstName}) connected and marked as online`,
       );
@@ -112,23 +183,22 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   async handleDisconnect(client: AuthenticatedSocket) {
-    const userId = this.chatService.getUserIdFromSocket(client.id);
-    if (userId) {
-      const lastSeen = this.chatService.setUserOffline(userId);
-      this.chatService.unregisterUserSocket(client.id);
+    const presence = await this.presenceService.disconnect(client.id);
+    // Still online while any of their other devices is connected
+    if (presence?.changed) {
+      const userId = presence.userId;
       const activeChatRooms =
         await this.chatService.getUserActiveChatRooms(userId);
       for (const room of activeChatRooms) {
-        const otherParticipant =
-          room.participant1 === userId ? room.participant2 : room.participant1;
-
-        this.server.to(`user_${otherParticipant}`).emit('userStatusUpdate', {
-          userId,
-          isOnline: false,
-          lastSeen,
-          timestamp: new Date(),
-          roomId: room.id,
-        });
+        this.server
+          .to(this.otherParticipantRooms(room, userId))
+          .emit('userStatusUpdate', {
+            userId,
+            isOnline: false,
+            lastSeen: presence.lastSeen,
+            timestamp: new Date(),
+            roomId: room.id,
+          });
       }
 
       this.logger.log(`User ${userId} disconnected and marked as offline`);
@@ -141,7 +211,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     @ConnectedSocket() client: AuthenticatedSocket,
   ) {
     try {
-      const onlineStatus = this.chatService.getUserOnlineStatus(data.userIds);
+      const onlineStatus = await this.presenceService.getStatuses(data.userIds);
 
       const response = {
         success: true,
@@ -161,6 +231,45 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  @SubscribeMessage('syncMessages')
+  async handleSyncMessages(
+    @MessageBody() syncMessagesDto: SyncMessagesDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const missed = await this.chatService.getMissedMessages(
+        userId,
+        syncMessagesDto.lastMessageId,
+        syncMessagesDto.limit,
+      );
+      await this.acknowledgeDelivery(
+        userId,
+        missed.messages.map((message) => message.id),
+      );
+      return { success: true, data: missed };
+    } catch (error) {
+      this.logger.error(
+        'Sync messages error:',
+        error instanceof Error ? error.stack : error,
+      );
+      return { success: false, error: 'Failed to sync messages' };
+    }
+  }
+
+  /** Delivered acks for messages received outside a socket, e.g. by push */
+  @SubscribeMessage('messageDelivered')
+  async handleMessageDelivered(
+    @MessageBody() messageDeliveredDto: MessageDeliveredDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    await this.acknowledgeDelivery(
+      client.data.user.id,
+      messageDeliveredDto.messageIds,
+    );
+    return { success: true };
+  }
+
   @SubscribeMessage('markMessageAsRead')
   async handleMarkMessageAsRead(
     @MessageBody() data: { messageId: string; roomId: string },
@@ -330,6 +439,89 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return errorResponse;
     }
   }
+  /**
+   * Broadcast a new message to the room. Each recipient socket on this
+   * instance that acknowledges it records a delivered receipt; sockets on
+   * other instances get a plain broadcast and confirm with messageDelivered.
+   */
+  private async deliverNewMessage(
+    roomId: string,
+    senderId: string,
+    message: MessageWithSender,
+  ) {
+    const payload = { ...message, roomId };
+    const sockets = await this.server.in(roomId).fetchSockets();
+    this.server
+      .to(roomId)
+      .except(sockets.map((socket) => socket.id))
+      .emit('newMessage', payload);
+    for (const socket of sockets) {
+      const recipientId = (socket.data as AuthenticatedSocket['data']).user?.id;
+      if (!recipientId || recipientId === senderId) {
+        socket.emit('newMessage', payload);
+        continue;
+      }
+      socket
+        .timeout(DELIVERY_ACK_TIMEOUT_MS)
+        .emit('newMessage', payload, (err: Error | null) => {
+          if (!err) {
+            void this.acknowledgeDelivery(recipientId, [message.id]);
+          }
+        });
+    }
+  }
+
+  /**
+   * Record delivered receipts and tell each sender their message arrived
+   */
+  private async acknowledgeDelivery(userId: string, messageIds: string[]) {
+    try {
+      const receipts = await this.deliveryService.markDelivered(
+        userId,
+        messageIds,
+      );
+      for (const receipt of receipts) {
+        this.server
+          .to(`user_${receipt.senderId}`)
+          .emit('messageStatusUpdate', { ...receipt, status: 'delivered' });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to record delivery to ${userId}:`,
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+
+  /** Log a failed request and build the error sent back to the client */
+  private failure(
+    action: string,
+    client: AuthenticatedSocket,
+    error: unknown,
+    fallback: string,
+  ) {
+    const { message, stack } =
+      error instanceof Error ? error : { message: fallback, stack: undefined };
+    this.logger.error(
+      `${action} error for user ${client.data.user?.id}:`,
+      stack,
+    );
+    return {
+      success: false,
+      error: message || fallback,
+    };
+  }
+
+  /** The personal socket rooms of everyone else in a chat room */
+  private otherParticipantRooms(
+    room: ChatRoomWithMessages,
+    userId: string,
+  ): string[] {
+    return roomParticipantIds(room)
+      .filter((id) => id !== userId)
+      .map((id) => `user_${id}`);
+  }
+
   private extractTokenFromClient(client: Socket): string | null {
     const authHeader =
       client.handshake.auth?.token || client.handshake.headers?.authorization;
@@ -360,18 +552,12 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // }
 
       await client.join(room.id);
-      const recipientSocketId =
-        this.chatService.getSocketIdFromUser(recipientId);
-      if (recipientSocketId) {
-        await this.server.in(recipientSocketId).socketsJoin(room.id);
-      }
-      const otherParticipantId =
-        room.participant1 === userId ? room.participant2 : room.participant1;
-
+      // Every device of the recipient, on whichever instance
+      this.server.in(`user_${recipientId}`).socketsJoin(room.id);
       this.server.to(room.id).emit('chatRoomCreated', {
         room: {
           ...room,
-          otherParticipant: room.participantsInfo?.[otherParticipantId],
+          otherParticipant: room.participantsInfo?.[recipientId],
         },
         createdBy: userId,
       });
@@ -394,30 +580,71 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   ) {
     try {
       const senderId = client.data.user.id;
-      const { roomId, message, messageType, repliedToId, fileUrl } =
-        sendMessageDto;
+      const {
+        roomId,
+        message,
+        messageType,
+        repliedToId,
+        fileUrl,
+        durationSeconds,
+        serviceSessionId,
+        unlockPrice,
+        clientMessageId,
+      } = sendMessageDto;
 
       if (!message?.trim() && !fileUrl) {
         return { success: false, error: 'Cannot send an empty message.' };
       }
 
-      const chatMessage = await this.chatService.sendMessage(
+      const {
+        message: chatMessage,
+        roomMessage,
+        session,
+        charge,
+        duplicate,
+      } = await this.chatService.sendMessage(
         senderId,
         roomId,
         message,
         messageType,
         repliedToId,
         fileUrl,
+        durationSeconds,
+        serviceSessionId,
+        unlockPrice,
+        clientMessageId,
       );
 
-      this.server.to(roomId).emit('newMessage', {
-        ...chatMessage,
-        roomId,
-      });
+      // A retry of a stored message was already broadcast the first time
+      if (duplicate) {
+        return { success: true, data: chatMessage };
+      }
+
+      await this.deliverNewMessage(roomId, senderId, roomMessage);
+
+      if (session) {
+        this.server.to(roomId).emit('chatSessionUpdate', {
+          roomId,
+          session,
+          charge: charge ?? null,
+        });
+      }
 
       this.logger.log(`Message sent by ${senderId} in room ${roomId}`);
       return { success: true, data: chatMessage };
     } catch (error) {
+      if (error instanceof PaymentRequiredException) {
+        const paymentRequired = {
+          roomId: sendMessageDto.roomId,
+          ...error.payload,
+        };
+        client.emit('paymentRequired', paymentRequired);
+        return {
+          success: false,
+          error: error.message,
+          paymentRequired,
+        };
+      }
       this.logger.error(
         `Send message error for user ${client.data.user?.id}:`,
         error.stack,
@@ -429,6 +656,52 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  @SubscribeMessage('sendTip')
+  async handleSendTip(
+    @MessageBody() sendTipDto: SendTipDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const senderId = client.data.user.id;
+      const { message, recipientId, duplicate } =
+        await this.chatService.sendTip(senderId, sendTipDto);
+      if (duplicate) {
+        return { success: true, data: message };
+      }
+
+      await this.deliverNewMessage(sendTipDto.roomId, senderId, message);
+      this.server.to(`user_${recipientId}`).emit('tipReceived', {
+        roomId: sendTipDto.roomId,
+        message,
+      });
+
+      return { success: true, data: message };
+    } catch (error) {
+      return this.failure('Send tip', client, error, 'Failed to send tip');
+    }
+  }
+
+  @SubscribeMessage('unlockMessage')
+  async handleUnlockMessage(
+    @MessageBody() unlockMessageDto: UnlockMessageDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const result = await this.paidMediaService.unlock(
+        client.data.user.id,
+        unlockMessageDto.messageId,
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.failure(
+        'Unlock message',
+        client,
+        error,
+        'Failed to unlock message',
+      );
+    }
+  }
+
   @SubscribeMessage('editMessage')
   async handleEditMessage(
     @MessageBody() editMessageDto: EditMessageDto & { roomId: string },
@@ -480,6 +753,54 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  @SubscribeMessage('addReaction')
+  async handleAddReaction(
+    @MessageBody() reactionDto: ReactionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const update = await this.reactionService.addReaction(
+        userId,
+        reactionDto.messageId,
+        reactionDto.emoji,
+      );
+      this.server.to(update.roomId).emit('messageReactionUpdate', update);
+      return { success: true, data: update };
+    } catch (error) {
+      return this.failure(
+        'Add reaction',
+        client,
+        error,
+        'Failed to add reaction',
+      );
+    }
+  }
+
+  @SubscribeMessage('removeReaction')
+  async handleRemoveReaction(
+    @MessageBody() reactionDto: ReactionDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const update = await this.reactionService.removeReaction(
+        userId,
+        reactionDto.messageId,
+        reactionDto.emoji,
+      );
+      this.server.to(update.roomId).emit('messageReactionUpdate', update);
+      return { success: true, data: update };
+    } catch (error) {
+      return this.failure(
+        'Remove reaction',
+        client,
+        error,
+        'Failed to remove reaction',
+      );
+    }
+  }
+
   @SubscribeMessage('closeChatRoom')
   async handleCloseChatRoom(
     @MessageBody() closeChatRoomDto: CloseChatRoomDto,
@@ -503,6 +824,230 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  @SubscribeMessage('createGroup')
+  async handleCreateGroup(
+    @MessageBody() createGroupDto: CreateGroupDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const room = await this.groupChatService.createGroup(
+        userId,
+        createGroupDto,
+      );
+
+      this.server.in(`user_${userId}`).socketsJoin(room.id);
+      const inviteeRooms = (room.members ?? [])
+        .filter((member) => !member.joinedAt)
+        .map((member) => `user_${member.userId}`);
+      if (inviteeRooms.length > 0) {
+        this.server
+          .to(inviteeRooms)
+          .emit('groupInvitation', { room, invitedBy: userId });
+      }
+
+      return { success: true, data: room };
+    } catch (error) {
+      return this.failure(
+        'Create group',
+        client,
+        error,
+        'Failed to create group',
+      );
+    }
+  }
+
+  @SubscribeMessage('updateGroup')
+  async handleUpdateGroup(
+    @MessageBody() updateGroupDto: UpdateGroupDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const room = await this.groupChatService.updateGroup(
+        userId,
+        updateGroupDto,
+      );
+      this.server.to(room.id).emit('groupUpdated', {
+        roomId: room.id,
+        name: room.name,
+        avatarUrl: room.avatarUrl,
+        updatedBy: userId,
+      });
+      return { success: true, data: room };
+    } catch (error) {
+      return this.failure(
+        'Update group',
+        client,
+        error,
+        'Failed to update group',
+      );
+    }
+  }
+
+  @SubscribeMessage('inviteToGroup')
+  async handleInviteToGroup(
+    @MessageBody() inviteToGroupDto: InviteToGroupDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const { roomId } = inviteToGroupDto;
+      const invited = await this.groupChatService.inviteMembers(
+        userId,
+        inviteToGroupDto,
+      );
+
+      if (invited.length > 0) {
+        // Invitees only see the group's details until they join
+        const room = await this.chatService.getChatRoomSummary(roomId);
+        this.server
+          .to(invited.map((member) => `user_${member.userId}`))
+          .emit('groupInvitation', { room, invitedBy: userId });
+        this.server.to(roomId).emit('groupMemberUpdate', {
+          roomId,
+          action: 'invited',
+          members: invited,
+          by: userId,
+        });
+      }
+
+      return { success: true, data: invited };
+    } catch (error) {
+      return this.failure(
+        'Invite to group',
+        client,
+        error,
+        'Failed to invite to group',
+      );
+    }
+  }
+
+  @SubscribeMessage('joinGroup')
+  async handleJoinGroup(
+    @MessageBody() groupRoomDto: GroupRoomDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const { roomId } = groupRoomDto;
+      const room = await this.groupChatService.joinGroup(userId, roomId);
+
+      this.server.in(`user_${userId}`).socketsJoin(roomId);
+      this.server.to(roomId).emit('groupMemberUpdate', {
+        roomId,
+        action: 'joined',
+        member: room.members?.find((member) => member.userId === userId),
+        userInfo: room.participantsInfo?.[userId],
+      });
+
+      return { success: true, data: room };
+    } catch (error) {
+      return this.failure('Join group', client, error, 'Failed to join group');
+    }
+  }
+
+  @SubscribeMessage('leaveGroup')
+  async handleLeaveGroup(
+    @MessageBody() groupRoomDto: GroupRoomDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const { roomId } = groupRoomDto;
+      const result = await this.groupChatService.leaveGroup(userId, roomId);
+
+      this.server.in(`user_${userId}`).socketsLeave(roomId);
+      this.server.to(roomId).emit('groupMemberUpdate', {
+        roomId,
+        action: 'left',
+        member: result.member,
+        newOwner: result.newOwner,
+      });
+      if (result.closed) {
+        this.server.to(roomId).emit('chatRoomClosed', {
+          roomId,
+          closedBy: userId,
+        });
+        this.server.in(roomId).socketsLeave(roomId);
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      return this.failure(
+        'Leave group',
+        client,
+        error,
+        'Failed to leave group',
+      );
+    }
+  }
+
+  @SubscribeMessage('kickMember')
+  async handleKickMember(
+    @MessageBody() groupMemberDto: GroupMemberDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const { roomId, userId: memberId } = groupMemberDto;
+      const removed = await this.groupChatService.removeMember(
+        userId,
+        roomId,
+        memberId,
+      );
+
+      // Tell the removed user too, who may only have been invited
+      this.server.to([roomId, `user_${memberId}`]).emit('groupMemberUpdate', {
+        roomId,
+        action: 'removed',
+        member: removed,
+        by: userId,
+      });
+      this.server.in(`user_${memberId}`).socketsLeave(roomId);
+
+      return { success: true, data: removed };
+    } catch (error) {
+      return this.failure(
+        'Kick member',
+        client,
+        error,
+        'Failed to remove member',
+      );
+    }
+  }
+
+  @SubscribeMessage('setMemberRole')
+  async handleSetMemberRole(
+    @MessageBody() setMemberRoleDto: SetMemberRoleDto,
+    @ConnectedSocket() client: AuthenticatedSocket,
+  ) {
+    try {
+      const userId = client.data.user.id;
+      const { roomId } = setMemberRoleDto;
+      const updated = await this.groupChatService.setMemberRole(
+        userId,
+        setMemberRoleDto,
+      );
+
+      this.server.to(roomId).emit('groupMemberUpdate', {
+        roomId,
+        action: 'roleChanged',
+        members: updated,
+        by: userId,
+      });
+
+      return { success: true, data: updated };
+    } catch (error) {
+      return this.failure(
+        'Set member role',
+        client,
+        error,
+        'Failed to change member role',
+      );
+    }
+  }
+
   @SubscribeMessage('typing')
   async handleTyping(
     @MessageBody() typingDto: TypingDto,
@@ -553,7 +1098,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       }
 
       const userId = client.data.user.id;
-      const { roomId } = getChatHistoryDto;
+      const { roomId, before, after, around, limit } = getChatHistoryDto;
 
       this.logger.debug(
         `Getting chat history for user ${userId} in room ${roomId}`,
@@ -569,18 +1114,20 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         return errorResponse;
       }
 
-      const chatHistory = await this.chatService.getChatHistory(roomId);
+      const chatHistory = await this.chatService.getChatHistory(
+        roomId,
+        userId,
+        { before, after, around, limit },
+      );
       const serializableHistory = JSON.parse(JSON.stringify(chatHistory));
 
       this.logger.log(
-        `Returning ${serializableHistory.length} messages to client.`,
+        `Returning ${chatHistory.messages.length} messages to client.`,
       );
 
       const successResponse = {
         success: true,
-        data: {
-          messages: serializableHistory,
-        },
+        data: serializableHistory,
       };
 
       client.emit('getChatHistoryResponse', successResponse);
@@ -1,12 +1,33 @@
 import { Module } from '@nestjs/common';
 import { ChatService } from './chat.service';
+import { GroupChatService } from './group-chat.service';
+import { ReactionService } from './reaction.service';
+import { DeliveryService } from './delivery.service';
 import { ChatGateway } from './chat.gateway';
+import { TipController } from './tip.controller';
 import { UserModule } from 'src/user/user.module';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { ClerkModule } from 'src/clerk/clerk.module';
+import { MonetizationModule } from 'src/monetization/monetization.module';
+import { RealtimeModule } from 'src/realtime/realtime.module';
+import { ServiceRequestModule } from 'src/service-request/service-request.module';
 
 @Module({
-  imports: [UserModule, PrismaModule, ClerkModule],
-  providers: [ChatGateway, ChatService],
+  imports: [
+    UserModule,
+    PrismaModule,
+    ClerkModule,
+    MonetizationModule,
+    RealtimeModule,
+    ServiceRequestModule,
+  ],
+  controllers: [TipController],
+  providers: [
+    ChatGateway,
+    ChatService,
+    GroupChatService,
+    ReactionService,
+    DeliveryService,
+  ],
 })
 export class ChatModule {}
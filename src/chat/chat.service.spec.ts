@@ -0,0 +1,172 @@
+import { Test } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ChatRoomType, Message } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { UserService } from 'src/user/user.service';
+import { MonetizationService } from 'src/monetization/monetization.service';
+import { PaidMediaService } from 'src/monetization/paid-media.service';
+import { SubscriptionService } from 'src/monetization/subscription.service';
+import { TipService } from 'src/monetization/tip.service';
+import { PaymentRequiredException } from 'src/monetization/payment-required.exception';
+import { ServiceSessionService } from 'src/service-request/service-session.service';
+import { ChatService } from './chat.service';
+
+const joinedAt = new Date('2025-01-01');
+
+const directRoom = {
+  id: 'room_1',
+  type: ChatRoomType.DIRECT,
+  participant1: 'buyer',
+  participant2: 'seller',
+  isActive: true,
+  members: [],
+};
+
+const groupRoom = {
+  id: 'group_1',
+  type: ChatRoomType.GROUP,
+  participant1: null,
+  participant2: null,
+  isActive: true,
+  members: [
+    { userId: 'buyer', joinedAt },
+    { userId: 'friend', joinedAt },
+    { userId: 'seller', joinedAt },
+  ],
+};
+
+describe('ChatService', () => {
+  let service: ChatService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let monetizationService: {
+    authorizeMessage: jest.Mock;
+    findMonetizedUsers: jest.Mock;
+    applyContentCharge: jest.Mock;
+  };
+  let tipService: { quote: jest.Mock; apply: jest.Mock };
+
+  function createPrisma() {
+    const client = {
+      $transaction: jest.fn(
+        (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(client),
+      ),
+      chatRoom: {
+        findUnique: jest.fn().mockResolvedValue(groupRoom),
+        update: jest.fn(),
+      },
+      message: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }: { data: Partial<Message> }) =>
+          Promise.resolve({ id: 'msg_1', ...data, repliedTo: null }),
+        ),
+      },
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    monetizationService = {
+      authorizeMessage: jest.fn().mockResolvedValue({ session: null }),
+      findMonetizedUsers: jest.fn().mockResolvedValue([]),
+      applyContentCharge: jest.fn(),
+    };
+    tipService = { quote: jest.fn(), apply: jest.fn() };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: UserService,
+          useValue: { getUser: jest.fn().mockResolvedValue(null) },
+        },
+        { provide: MonetizationService, useValue: monetizationService },
+        { provide: ServiceSessionService, useValue: {} },
+        {
+          provide: PaidMediaService,
+          useValue: {
+            viewAs: jest.fn((_viewer: string | null, messages: Message[]) =>
+              Promise.resolve(messages),
+            ),
+          },
+        },
+        { provide: SubscriptionService, useValue: {} },
+        { provide: TipService, useValue: tipService },
+      ],
+    }).compile();
+
+    service = module.get(ChatService);
+  });
+
+  describe('sendMessage', () => {
+    it('requires a paid session to message a seller directly', async () => {
+      prisma.chatRoom.findUnique.mockResolvedValue(directRoom);
+      monetizationService.authorizeMessage.mockRejectedValue(
+        new PaymentRequiredException({
+          reason: 'SESSION_REQUIRED',
+          sellerId: 'seller',
+          currency: 'KES',
+          availableTiers: [],
+        }),
+      );
+
+      await expect(
+        service.sendMessage('buyer', 'room_1', 'Hello'),
+      ).rejects.toThrow(PaymentRequiredException);
+      expect(monetizationService.authorizeMessage).toHaveBeenCalledWith(
+        'buyer',
+        'seller',
+        'TEXT',
+        undefined,
+      );
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a group send that would reach a seller who charges', async () => {
+      monetizationService.findMonetizedUsers.mockResolvedValue(['seller']);
+
+      await expect(
+        service.sendMessage('buyer', 'group_1', 'Hello'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(monetizationService.findMonetizedUsers).toHaveBeenCalledWith([
+        'friend',
+        'seller',
+      ]);
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('sends group messages for free when nobody in it charges', async () => {
+      const sent = await service.sendMessage('buyer', 'group_1', 'Hello');
+
+      expect(sent.message.message).toBe('Hello');
+      expect(sent.charge).toBeUndefined();
+      expect(monetizationService.authorizeMessage).not.toHaveBeenCalled();
+      expect(monetizationService.applyContentCharge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendTip', () => {
+    it('returns a retried tip without charging the sender again', async () => {
+      prisma.chatRoom.findUnique.mockResolvedValue(directRoom);
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'msg_1',
+        chatRoomId: 'room_1',
+        senderId: 'buyer',
+        tip: { id: 'tip_1', recipientId: 'seller', gift: null },
+      });
+
+      const sent = await service.sendTip('buyer', {
+        roomId: 'room_1',
+        amount: 5000,
+        clientMessageId: 'client_1',
+      });
+
+      expect(sent.duplicate).toBe(true);
+      expect(sent.recipientId).toBe('seller');
+      expect(tipService.quote).not.toHaveBeenCalled();
+      expect(tipService.apply).not.toHaveBeenCalled();
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,11 +7,52 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { UserService } from '../user/user.service';
-import { ChatRoom, Message, MessageType } from '@prisma/client';
+import {
+  ChatRoom,
+  ChatRoomMember,
+  ChatRoomRole,
+  ChatRoomType,
+  Gift,
+  Message,
+  MessageType,
+  Prisma,
+  Tip,
+} from '@prisma/client';
 import { User } from '@clerk/backend';
+import { MonetizationService } from '../monetization/monetization.service';
+import {
+  ChatSessionInfo,
+  ContentCostCalculation,
+  LockedMedia,
+  MessageAccess,
+  ViewedMessage,
+} from '../monetization/dto/monetization.dto';
+import { PaidMediaService } from '../monetization/paid-media.service';
+import { SubscriptionService } from '../monetization/subscription.service';
+import { TipService } from '../monetization/tip.service';
+import { ServiceSessionService } from '../service-request/service-session.service';
+import { SendTipDto } from './dto/chat.dto';
+import {
+  otherParticipant,
+  participantIdsByRoom,
+  roomParticipantIds,
+  roomsOfUser,
+} from './room-membership';
+import {
+  findHistoryPage,
+  HISTORY_INCLUDE,
+  HistoryCursor,
+  HistoryMessage,
+  HistoryPage,
+  newerThan,
+} from './message-history';
+import { deliveryStatus, DeliveryStatus } from './delivery.service';
+import { ReactionSummary, summarizeReactions } from './reaction.service';
 
 export interface ChatRoomWithMessages extends ChatRoom {
-  messages: Message[];
+  messages: ViewedMessage<Message>[];
+  /** Group members, including pending invitations */
+  members?: ChatRoomMember[];
   participantsInfo?: {
     [userId: string]: {
       id: string;
@@ -23,7 +64,17 @@ export interface ChatRoomWithMessages extends ChatRoom {
   };
 }
 
+/** A room's details and members without any of its messages */
+export type ChatRoomSummary = Omit<ChatRoomWithMessages, 'messages'>;
+
+/** A group just joined, with the newest page of its history */
+export interface JoinedGroup extends ChatRoomSummary {
+  history: HistoryPage<MessageWithSender>;
+}
+
 export interface MessageWithSender extends Message {
+  /** Pay-per-view media the viewer has not unlocked; fileUrl is withheld */
+  isLocked?: boolean;
   senderInfo?: {
     id: string;
     username: string | null;
@@ -33,17 +84,45 @@ export interface MessageWithSender extends Message {
   };
 
   repliedTo?: MessageWithSender;
+  tip?: (Tip & { gift: Gift | null }) | null;
+  reactions?: ReactionSummary[];
+  status?: DeliveryStatus;
 }
 
+export interface SentMessage {
+  message: MessageWithSender;
+  /** The copy broadcast to the room, with locked media withheld */
+  roomMessage: MessageWithSender;
+  session: ChatSessionInfo | null;
+  charge?: ContentCostCalculation['additionalCost'];
+  /** A retry of a message already stored; nothing was charged again */
+  duplicate?: boolean;
+}
+
+export interface SentTip {
+  message: MessageWithSender;
+  recipientId: string;
+  /** A retry of a tip already sent; nothing was charged again */
+  duplicate?: boolean;
+}
+
+const MAX_TIP_NOTE_LENGTH = 500;
+const MISSED_MESSAGES_LIMIT = 200;
+/** How far back a device with no last message is caught up */
+const UNDELIVERED_LOOKBACK_DAYS = 7;
+
 @Injectable()
 export class ChatService {
   private readonly logger = new Logger(ChatService.name);
-  private userSockets: Map<string, string> = new Map();
-  private socketUsers: Map<string, string> = new Map();
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly userService: UserService,
+    private readonly monetizationService: MonetizationService,
+    private readonly serviceSessionService: ServiceSessionService,
+    private readonly paidMediaService: PaidMediaService,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly tipService: TipService,
   ) {}
 
   private extractUserInfo(user: User | null) {
@@ -72,6 +151,51 @@ export class ChatService {
     return userId1 < userId2 ? [userId1, userId2] : [userId2, userId1];
   }
 
+  /**
+   * Replace the messages loaded with each room by what the viewer may see;
+   * a null viewer is used for payloads broadcast to the whole room
+   */
+  private async viewRooms<R extends ChatRoom & { messages: Message[] }>(
+    viewerId: string | null,
+    rooms: R[],
+  ): Promise<Array<R & { messages: ViewedMessage<Message>[] }>> {
+    const viewed = new Map(
+      (
+        await this.paidMediaService.viewAs(
+          viewerId,
+          rooms.flatMap((room) => room.messages),
+        )
+      ).map((message) => [message.id, message]),
+    );
+
+    return rooms.map((room) => ({
+      ...room,
+      messages: room.messages.map((message) => viewed.get(message.id)!),
+    }));
+  }
+
+  /** Attach the profile of everyone taking part in each room */
+  private async withParticipantsInfo<
+    R extends ChatRoom & { members?: ChatRoomMember[] },
+  >(
+    rooms: R[],
+  ): Promise<Array<R & Pick<ChatRoomWithMessages, 'participantsInfo'>>> {
+    const userIds = Array.from(new Set(rooms.flatMap(roomParticipantIds)));
+    const users = await Promise.all(
+      userIds.map((id) => this.userService.getUser(id)),
+    );
+    const usersMap = new Map(
+      userIds.map((id, i) => [id, this.extractUserInfo(users[i])]),
+    );
+
+    return rooms.map((room) => ({
+      ...room,
+      participantsInfo: Object.fromEntries(
+        roomParticipantIds(room).map((id) => [id, usersMap.get(id)!]),
+      ),
+    }));
+  }
+
   async canInitiateChat(
     initiatorId: string,
     recipientId: string,
@@ -91,35 +215,18 @@ export class ChatService {
     }
   }
 
-  registerUserSocket(userId: string, socketId: string): void {
-    const oldSocketId = this.userSockets.get(userId);
-    if (oldSocketId) {
-      this.socketUsers.delete(oldSocketId);
-    }
-
-    this.userSockets.set(userId, socketId);
-    this.socketUsers.set(socketId, userId);
-  }
-
-  unregisterUserSocket(socketId: string): string | undefined {
-    const userId = this.socketUsers.get(socketId);
-    if (userId) {
-      this.userSockets.delete(userId);
-      this.socketUsers.delete(socketId);
+  /**
+   * Group chats are free, so they cannot include anyone who charges for
+   * chat; otherwise a group would get around their paywall
+   */
+  async assertNoMonetizedUsers(userIds: string[]) {
+    const monetized =
+      await this.monetizationService.findMonetizedUsers(userIds);
+    if (monetized.length > 0) {
+      throw new ForbiddenException(
+        'Creators who charge for chat can only be messaged in direct chats',
+      );
     }
-    return userId;
-  }
-
-  getUserIdFromSocket(socketId: string): string | undefined {
-    return this.socketUsers.get(socketId);
-  }
-
-  getSocketIdFromUser(userId: string): string | undefined {
-    return this.userSockets.get(userId);
-  }
-
-  isUserOnline(userId: string): boolean {
-    return this.userSockets.has(userId);
   }
 
   async createChatRoom(
@@ -206,8 +313,9 @@ export class ChatService {
       this.userService.getUser(recipientId),
     ]);
 
+    const [viewedRoom] = await this.viewRooms(null, [chatRoom]);
     const roomWithInfo: ChatRoomWithMessages = {
-      ...chatRoom,
+      ...viewedRoom,
       participantsInfo: {
         [userId]: this.extractUserInfo(user),
         [recipientId]: this.extractUserInfo(recipient),
@@ -224,6 +332,7 @@ export class ChatService {
         messages: {
           orderBy: { createdAt: 'asc' },
         },
+        members: { orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -231,18 +340,27 @@ export class ChatService {
       return null;
     }
 
-    const [user1, user2] = await Promise.all([
-      this.userService.getUser(chatRoom.participant1),
-      this.userService.getUser(chatRoom.participant2),
-    ]);
+    const [viewedRoom] = await this.viewRooms(null, [chatRoom]);
+    const [roomWithInfo] = await this.withParticipantsInfo([viewedRoom]);
+    return roomWithInfo;
+  }
 
-    return {
-      ...chatRoom,
-      participantsInfo: {
-        [chatRoom.participant1]: this.extractUserInfo(user1),
-        [chatRoom.participant2]: this.extractUserInfo(user2),
-      },
-    };
+  /**
+   * A room's details and members for people who may not see its messages
+   * yet, such as those invited to a group
+   */
+  async getChatRoomSummary(roomId: string): Promise<ChatRoomSummary | null> {
+    const chatRoom = await this.prisma.chatRoom.findUnique({
+      where: { id: roomId },
+      include: { members: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!chatRoom) {
+      return null;
+    }
+
+    const [roomWithInfo] = await this.withParticipantsInfo([chatRoom]);
+    return roomWithInfo;
   }
 
   async getActiveChatRoom(
@@ -271,61 +389,233 @@ export class ChatService {
       return null;
     }
 
-    const [user1, user2] = await Promise.all([
-      this.userService.getUser(chatRoom.participant1),
-      this.userService.getUser(chatRoom.participant2),
-    ]);
-
-    return {
-      ...chatRoom,
-      participantsInfo: {
-        [chatRoom.participant1]: this.extractUserInfo(user1),
-        [chatRoom.participant2]: this.extractUserInfo(user2),
-      },
-    };
+    const [viewedRoom] = await this.viewRooms(null, [chatRoom]);
+    const [roomWithInfo] = await this.withParticipantsInfo([viewedRoom]);
+    return roomWithInfo;
   }
 
-  async sendMessage(
-    senderId: string,
-    roomId: string,
-    message: string = '',
-    messageType: MessageType = MessageType.TEXT,
-    repliedToId?: string,
-    fileUrl?: string,
-  ): Promise<MessageWithSender> {
+  /**
+   * An open room the sender takes part in, with its group members
+   */
+  private async getOpenRoom(senderId: string, roomId: string) {
     const chatRoom = await this.prisma.chatRoom.findUnique({
       where: { id: roomId },
+      include: { members: true },
     });
     if (!chatRoom) throw new NotFoundException('Chat room not found');
     if (!chatRoom.isActive)
       throw new BadRequestException('Chat room is closed');
-    if (
-      chatRoom.participant1 !== senderId &&
-      chatRoom.participant2 !== senderId
-    ) {
+    if (!roomParticipantIds(chatRoom).includes(senderId)) {
       throw new ForbiddenException(
         'You are not a participant in this chat room',
       );
     }
 
-    const [newMessage] = await this.prisma.$transaction([
-      this.prisma.message.create({
-        data: {
-          chatRoomId: roomId,
-          senderId,
+    return chatRoom;
+  }
+
+  async sendMessage(
+    senderId: string,
+    roomId: string,
+    message: string = '',
+    messageType: MessageType = MessageType.TEXT,
+    repliedToId?: string,
+    fileUrl?: string,
+    durationSeconds?: number,
+    serviceSessionId?: string,
+    unlockPrice?: number,
+    clientMessageId?: string,
+  ): Promise<SentMessage> {
+    if (messageType === MessageType.TIP || messageType === MessageType.GIFT) {
+      throw new BadRequestException('Tips and gifts are sent with sendTip');
+    }
+
+    if (clientMessageId) {
+      const retried = await this.findRetriedMessage(
+        senderId,
+        roomId,
+        clientMessageId,
+      );
+      if (retried) return retried;
+    }
+
+    const chatRoom = await this.getOpenRoom(senderId, roomId);
+    // Paid features price messages between two people, so group chats are
+    // free: they cannot carry locked media or service sessions, nor reach
+    // creators who charge for chat
+    const recipientId = otherParticipant(chatRoom, senderId);
+    if (!recipientId) {
+      if (unlockPrice !== undefined || serviceSessionId) {
+        throw new BadRequestException(
+          'Locked media and service sessions are only available in direct chats',
+        );
+      }
+      await this.assertNoMonetizedUsers(
+        roomParticipantIds(chatRoom).filter((id) => id !== senderId),
+      );
+    }
+
+    let lockedMedia: LockedMedia | undefined;
+    if (unlockPrice !== undefined) {
+      if (serviceSessionId) {
+        throw new BadRequestException(
+          'Locked media cannot be sent in a service session',
+        );
+      }
+      lockedMedia = await this.paidMediaService.lock(
+        senderId,
+        messageType,
+        fileUrl,
+        unlockPrice,
+      );
+    }
+
+    // Service sessions are paid up front, so their traffic is only checked
+    // against the session clock instead of chat-time pricing
+    let access: MessageAccess = { session: null };
+    if (serviceSessionId) {
+      await this.serviceSessionService.recordActivity(
+        serviceSessionId,
+        senderId,
+        recipientId!,
+      );
+    } else if (recipientId) {
+      access = await this.monetizationService.authorizeMessage(
+        senderId,
+        recipientId,
+        messageType,
+        durationSeconds,
+      );
+    }
+
+    let newMessage: Message & { repliedTo: Message | null };
+    try {
+      newMessage = await this.createMessage(
+        senderId,
+        roomId,
+        recipientId,
+        access,
+        {
           message,
           fileUrl,
           messageType,
           repliedToId,
+          serviceSessionId,
+          clientMessageId,
+          ...lockedMedia,
         },
+      );
+    } catch (error) {
+      // The same send arrived twice at once and the other copy won
+      if (clientMessageId && this.isUniqueViolation(error)) {
+        const retried = await this.findRetriedMessage(
+          senderId,
+          roomId,
+          clientMessageId,
+        );
+        if (retried) return retried;
+      }
+      throw error;
+    }
+
+    if (serviceSessionId && messageType === MessageType.IMAGE) {
+      await this.serviceSessionService.recordDelivery(
+        serviceSessionId,
+        newMessage,
+      );
+    }
+
+    return {
+      ...(await this.presentSentMessage(senderId, newMessage)),
+      session: access.session,
+      charge: access.additionalCost,
+    };
+  }
+
+  /**
+   * Store the message and charge for it in one transaction
+   */
+  private createMessage(
+    senderId: string,
+    roomId: string,
+    recipientId: string | null,
+    access: MessageAccess,
+    data: Omit<Prisma.MessageUncheckedCreateInput, 'chatRoomId' | 'senderId'>,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const created = await tx.message.create({
+        data: { ...data, chatRoomId: roomId, senderId },
         include: { repliedTo: true },
-      }),
-      this.prisma.chatRoom.update({
+      });
+
+      await tx.chatRoom.update({
         where: { id: roomId },
         data: { lastActivity: new Date() },
-      }),
-    ]);
+      });
+
+      if (access.additionalCost && (access.session || access.subscription)) {
+        await this.monetizationService.applyContentCharge(tx, {
+          messageId: created.id,
+          sessionId: access.session?.id,
+          subscriptionId: access.session ? undefined : access.subscription?.id,
+          senderId,
+          recipientId: recipientId!,
+          cost: access.additionalCost,
+        });
+      }
+
+      if (
+        access.includedImage &&
+        access.subscription &&
+        !(await this.subscriptionService.useIncludedImage(
+          tx,
+          access.subscription.id,
+        ))
+      ) {
+        throw new BadRequestException(
+          'Your included images for this period are used up, please resend',
+        );
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * A message the sender already stored under this client ID, returned as
+   * if it had just been sent
+   */
+  private async findRetriedMessage(
+    senderId: string,
+    roomId: string,
+    clientMessageId: string,
+  ): Promise<SentMessage | null> {
+    const existing = await this.prisma.message.findUnique({
+      where: { senderId_clientMessageId: { senderId, clientMessageId } },
+      include: { repliedTo: true },
+    });
+    if (!existing) return null;
+    if (existing.chatRoomId !== roomId) {
+      throw new BadRequestException(
+        'This clientMessageId was already used in another room',
+      );
+    }
+
+    this.logger.log(
+      `Ignoring retried message ${clientMessageId} from ${senderId}`,
+    );
+    return {
+      ...(await this.presentSentMessage(senderId, existing)),
+      session: null,
+      duplicate: true,
+    };
+  }
 
+  /** The sender's and the room's view of a new message */
+  private async presentSentMessage(
+    senderId: string,
+    newMessage: Message & { repliedTo: Message | null },
+  ): Promise<Pick<SentMessage, 'message' | 'roomMessage'>> {
     const sender = await this.userService.getUser(senderId);
     let repliedToSenderInfo:
       | ReturnType<typeof this.extractUserInfo>
@@ -337,15 +627,146 @@ export class ChatService {
       repliedToSenderInfo = this.extractUserInfo(repliedToSender);
     }
 
-    return {
-      ...newMessage,
+    const [[senderView], [roomView]] = await Promise.all([
+      this.paidMediaService.viewAs(senderId, [newMessage]),
+      this.paidMediaService.viewAs(null, [newMessage]),
+    ]);
+    const withSenderInfo = (view: typeof senderView): MessageWithSender => ({
+      ...view,
       senderInfo: this.extractUserInfo(sender),
-      repliedTo: newMessage.repliedTo
+      repliedTo: view.repliedTo
         ? {
-            ...newMessage.repliedTo,
+            ...view.repliedTo,
             senderInfo: repliedToSenderInfo,
           }
         : undefined,
+    });
+
+    return {
+      message: withSenderInfo(senderView),
+      roomMessage: withSenderInfo(roomView),
+    };
+  }
+
+  private isUniqueViolation(error: unknown) {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    );
+  }
+
+  /**
+   * Send money or a catalog gift to the other participant. It is stored as
+   * a TIP or GIFT message so it shows in the room's history, and is paid
+   * for in the same transaction.
+   */
+  async sendTip(senderId: string, dto: SendTipDto): Promise<SentTip> {
+    const chatRoom = await this.getOpenRoom(senderId, dto.roomId);
+    const recipientId = otherParticipant(chatRoom, senderId);
+    if (!recipientId) {
+      throw new BadRequestException(
+        'Tips and gifts can only be sent in direct chats',
+      );
+    }
+
+    if (dto.clientMessageId) {
+      const retried = await this.findRetriedTip(senderId, dto);
+      if (retried) return retried;
+    }
+
+    const note = dto.message?.trim() ?? '';
+    if (note.length > MAX_TIP_NOTE_LENGTH) {
+      throw new BadRequestException(
+        `Tip messages are limited to ${MAX_TIP_NOTE_LENGTH} characters`,
+      );
+    }
+
+    const quote = await this.tipService.quote(senderId, recipientId, {
+      amount: dto.amount,
+      giftId: dto.giftId,
+    });
+
+    let newMessage: Message & { tip: Tip & { gift: Gift | null } };
+    try {
+      newMessage = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.message.create({
+          data: {
+            chatRoomId: dto.roomId,
+            senderId,
+            message: note,
+            fileUrl: quote.gift?.imageUrl,
+            messageType: quote.gift ? MessageType.GIFT : MessageType.TIP,
+            clientMessageId: dto.clientMessageId,
+          },
+        });
+
+        await tx.chatRoom.update({
+          where: { id: dto.roomId },
+          data: { lastActivity: new Date() },
+        });
+
+        const tip = await this.tipService.apply(tx, {
+          messageId: created.id,
+          senderId,
+          recipientId,
+          quote,
+        });
+
+        return { ...created, tip };
+      });
+    } catch (error) {
+      if (dto.clientMessageId && this.isUniqueViolation(error)) {
+        const retried = await this.findRetriedTip(senderId, dto);
+        if (retried) return retried;
+      }
+      throw error;
+    }
+
+    const sender = await this.userService.getUser(senderId);
+    this.logger.log(
+      `Tip ${newMessage.tip.id} sent by ${senderId} in room ${dto.roomId}`,
+    );
+
+    return {
+      message: {
+        ...newMessage,
+        isLocked: false,
+        senderInfo: this.extractUserInfo(sender),
+      },
+      recipientId,
+    };
+  }
+
+  /** A tip the sender already paid under this client ID */
+  private async findRetriedTip(
+    senderId: string,
+    dto: SendTipDto,
+  ): Promise<SentTip | null> {
+    const existing = await this.prisma.message.findUnique({
+      where: {
+        senderId_clientMessageId: {
+          senderId,
+          clientMessageId: dto.clientMessageId!,
+        },
+      },
+      include: { tip: { include: { gift: true } } },
+    });
+    if (!existing) return null;
+    if (existing.chatRoomId !== dto.roomId || !existing.tip) {
+      throw new BadRequestException(
+        'This clientMessageId was already used for another message',
+      );
+    }
+
+    const sender = await this.userService.getUser(senderId);
+    return {
+      message: {
+        ...existing,
+        isLocked: false,
+        senderInfo: this.extractUserInfo(sender),
+      },
+      recipientId: existing.tip.recipientId,
+      duplicate: true,
     };
   }
 
@@ -387,9 +808,10 @@ export class ChatService {
     ]);
 
     const sender = await this.userService.getUser(userId);
+    const [viewed] = await this.paidMediaService.viewAs(null, [updatedMessage]);
 
     return {
-      ...updatedMessage,
+      ...viewed,
       senderInfo: this.extractUserInfo(sender),
     };
   }
@@ -426,9 +848,10 @@ export class ChatService {
     ]);
 
     const sender = await this.userService.getUser(userId);
+    const [viewed] = await this.paidMediaService.viewAs(null, [deletedMessage]);
 
     return {
-      ...deletedMessage,
+      ...viewed,
       senderInfo: this.extractUserInfo(sender),
     };
   }
@@ -436,18 +859,31 @@ export class ChatService {
   async closeChatRoom(userId: string, roomId: string): Promise<ChatRoom> {
     const chatRoom = await this.prisma.chatRoom.findUnique({
       where: { id: roomId },
+      include: { members: true },
     });
 
     if (!chatRoom) {
       throw new NotFoundException('Chat room not found');
     }
 
-    if (chatRoom.participant1 !== userId && chatRoom.participant2 !== userId) {
+    if (!roomParticipantIds(chatRoom).includes(userId)) {
       throw new ForbiddenException(
         'You are not a participant in this chat room',
       );
     }
 
+    if (
+      chatRoom.type === ChatRoomType.GROUP &&
+      !chatRoom.members.some(
+        (member) =>
+          member.userId === userId && member.role === ChatRoomRole.OWNER,
+      )
+    ) {
+      throw new ForbiddenException(
+        'Only the group owner can close it; leave the group instead',
+      );
+    }
+
     if (!chatRoom.isActive) {
       this.logger.log(`Chat room ${roomId} is already closed`);
       return chatRoom;
@@ -466,17 +902,76 @@ export class ChatService {
     return closedRoom;
   }
 
-  async getChatHistory(roomId: string): Promise<MessageWithSender[]> {
-    this.logger.log(`Getting ALL chat history for room: ${roomId}`);
+  /**
+   * One page of a room's history as the viewer may see it, oldest first
+   */
+  async getChatHistory(
+    roomId: string,
+    viewerId: string,
+    cursor: HistoryCursor = {},
+  ): Promise<HistoryPage<MessageWithSender>> {
+    const page = await findHistoryPage(this.prisma, roomId, cursor);
+    const messages = await this.formatMessages(viewerId, page.messages);
 
-    const messages = await this.prisma.message.findMany({
-      where: { chatRoomId: roomId },
-      orderBy: { createdAt: 'asc' },
-      include: { repliedTo: true },
+    this.logger.log(
+      `Returning ${messages.length} messages from room ${roomId}`,
+    );
+    return { ...page, messages };
+  }
+
+  /**
+   * Messages across the user's rooms that arrived after the last one their
+   * device has, oldest first. Without a known last message, the recent
+   * messages not yet delivered to them are returned instead.
+   */
+  async getMissedMessages(
+    userId: string,
+    lastMessageId?: string,
+    limit: number = MISSED_MESSAGES_LIMIT,
+  ): Promise<{ messages: MessageWithSender[]; hasMore: boolean }> {
+    const anchor = lastMessageId
+      ? await this.prisma.message.findFirst({
+          where: { id: lastMessageId, chatRoom: roomsOfUser(userId) },
+          select: { id: true, createdAt: true },
+        })
+      : null;
+
+    const rows = await this.prisma.message.findMany({
+      where: {
+        chatRoom: roomsOfUser(userId),
+        ...(anchor
+          ? newerThan(anchor)
+          : {
+              senderId: { not: userId },
+              createdAt: {
+                gte: new Date(
+                  Date.now() - UNDELIVERED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+                ),
+              },
+              deliveryReceipts: { none: { userId } },
+              readReceipts: { none: { userId } },
+            }),
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
+      include: HISTORY_INCLUDE,
     });
 
-    this.logger.log(`Found ${messages.length} raw messages from database`);
+    return {
+      messages: await this.formatMessages(userId, rows.slice(0, limit)),
+      hasMore: rows.length > limit,
+    };
+  }
 
+  /**
+   * Apply the viewer's paid media access, and attach sender profiles,
+   * reaction counts and delivery status
+   */
+  private async formatMessages(
+    viewerId: string,
+    rawMessages: HistoryMessage[],
+  ): Promise<MessageWithSender[]> {
+    const messages = await this.paidMediaService.viewAs(viewerId, rawMessages);
     if (messages.length === 0) {
       return [];
     }
@@ -489,15 +984,26 @@ export class ChatService {
       }
     });
 
-    const senders = await Promise.all(
-      Array.from(senderIds).map((id) => this.userService.getUser(id)),
-    );
+    const [senders, participants] = await Promise.all([
+      Promise.all(
+        Array.from(senderIds).map((id) => this.userService.getUser(id)),
+      ),
+      participantIdsByRoom(
+        this.prisma,
+        messages.map((message) => message.chatRoomId),
+      ),
+    ]);
     const sendersMap = new Map(
       senders.map((sender) => [sender.id, this.extractUserInfo(sender)]),
     );
 
-    const formattedMessages = messages.map((message) => ({
+    return messages.map((message) => ({
       ...message,
+      reactions: summarizeReactions(message.reactions),
+      status: deliveryStatus(
+        message,
+        participants.get(message.chatRoomId) ?? [],
+      ),
       senderInfo: sendersMap.get(message.senderId),
       repliedTo: message.repliedTo
         ? {
@@ -506,11 +1012,6 @@ export class ChatService {
           }
         : undefined,
     }));
-
-    this.logger.log(
-      `Returning ${formattedMessages.length} formatted messages.`,
-    );
-    return formattedMessages;
   }
 
   async getUserActiveChatRooms(
@@ -518,7 +1019,7 @@ export class ChatService {
   ): Promise<ChatRoomWithMessages[]> {
     const chatRooms = await this.prisma.chatRoom.findMany({
       where: {
-        OR: [{ participant1: userId }, { participant2: userId }],
+        ...roomsOfUser(userId),
         isActive: true,
       },
       include: {
@@ -526,74 +1027,30 @@ export class ChatService {
           orderBy: { createdAt: 'desc' },
           take: 1,
         },
+        members: { orderBy: { createdAt: 'asc' } },
       },
       orderBy: { lastActivity: 'desc' },
     });
 
-    const participantIds = new Set<string>();
-    chatRooms.forEach((room) => {
-      participantIds.add(room.participant1);
-      participantIds.add(room.participant2);
-    });
-
-    const participants = await Promise.all(
-      Array.from(participantIds).map((id) => this.userService.getUser(id)),
-    );
-
-    const participantsMap = new Map(
-      participants.map((participant) => [
-        participant.id,
-        this.extractUserInfo(participant),
-      ]),
-    );
-
-    return chatRooms.map((room) => ({
-      ...room,
-      participantsInfo: {
-        [room.participant1]: participantsMap.get(room.participant1)!,
-        [room.participant2]: participantsMap.get(room.participant2)!,
-      },
-    }));
+    const viewedRooms = await this.viewRooms(userId, chatRooms);
+    return this.withParticipantsInfo(viewedRooms);
   }
 
   async getUserAllChatRooms(userId: string): Promise<ChatRoomWithMessages[]> {
     const chatRooms = await this.prisma.chatRoom.findMany({
-      where: {
-        OR: [{ participant1: userId }, { participant2: userId }],
-      },
+      where: roomsOfUser(userId),
       include: {
         messages: {
           orderBy: { createdAt: 'desc' },
           take: 1,
         },
+        members: { orderBy: { createdAt: 'asc' } },
       },
       orderBy: { lastActivity: 'desc' },
     });
 
-    const participantIds = new Set<string>();
-    chatRooms.forEach((room) => {
-      participantIds.add(room.participant1);
-      participantIds.add(room.participant2);
-    });
-
-    const participants = await Promise.all(
-      Array.from(participantIds).map((id) => this.userService.getUser(id)),
-    );
-
-    const participantsMap = new Map(
-      participants.map((participant) => [
-        participant.id,
-        this.extractUserInfo(participant),
-      ]),
-    );
-
-    return chatRooms.map((room) => ({
-      ...room,
-      participantsInfo: {
-        [room.participant1]: participantsMap.get(room.participant1)!,
-        [room.participant2]: participantsMap.get(room.participant2)!,
-      },
-    }));
+    const viewedRooms = await this.viewRooms(userId, chatRooms);
+    return this.withParticipantsInfo(viewedRooms);
   }
 
   async getMessageCount(roomId: string): Promise<number> {
@@ -606,57 +1063,15 @@ export class ChatService {
   }
 
   async getUnreadMessageCount(roomId: string, userId: string): Promise<number> {
-    const chatRoom = await this.prisma.chatRoom.findUnique({
-      where: { id: roomId },
-    });
-
-    if (!chatRoom) {
-      return 0;
-    }
-
-    const otherParticipant =
-      chatRoom.participant1 === userId
-        ? chatRoom.participant2
-        : chatRoom.participant1;
-
     return await this.prisma.message.count({
       where: {
         chatRoomId: roomId,
-        senderId: otherParticipant,
+        senderId: { not: userId },
         isDeleted: false,
       },
     });
   }
 
-  private onlineUsers = new Map<string, { socketId: string; lastSeen: Date }>();
-
-  setUserOnline(userId: string, socketId: string): void {
-    this.onlineUsers.set(userId, {
-      socketId,
-      lastSeen: new Date(),
-    });
-    this.registerUserSocket(userId, socketId);
-  }
-
-  setUserOffline(userId: string): Date {
-    const userInfo = this.onlineUsers.get(userId);
-    const lastSeen = new Date();
-
-    if (userInfo) {
-      this.onlineUsers.delete(userId);
-    }
-
-    return lastSeen;
-  }
-
-  getUserOnlineStatus(userIds: string[]) {
-    return userIds.map((userId) => ({
-      userId,
-      isOnline: this.onlineUsers.has(userId),
-      lastSeen: this.onlineUsers.get(userId)?.lastSeen || null,
-    }));
-  }
-
   async markMessageAsRead(messageId: string, userId: string) {
     const existingReceipt = await this.prisma.messageReadReceipt.findUnique({
       where: {
@@ -731,9 +1146,7 @@ export class ChatService {
 
   async getUserRooms(userId: string) {
     const chatRooms = await this.prisma.chatRoom.findMany({
-      where: {
-        OR: [{ participant1: userId }, { participant2: userId }],
-      },
+      where: roomsOfUser(userId),
       select: { id: true },
     });
 
@@ -782,7 +1195,7 @@ export class ChatService {
     const room = await this.prisma.chatRoom.findFirst({
       where: {
         id: roomId,
-        OR: [{ participant1: userId }, { participant2: userId }],
+        ...roomsOfUser(userId),
       },
       select: { id: true },
     });
@@ -820,20 +1233,12 @@ export class ChatService {
           orderBy: { createdAt: 'asc' },
           take: 50,
         },
+        members: { orderBy: { createdAt: 'asc' } },
       },
     });
 
-    const [user1, user2] = await Promise.all([
-      this.userService.getUser(reopenedRoom.participant1),
-      this.userService.getUser(reopenedRoom.participant2),
-    ]);
-
-    return {
-      ...reopenedRoom,
-      participantsInfo: {
-        [reopenedRoom.participant1]: this.extractUserInfo(user1),
-        [reopenedRoom.participant2]: this.extractUserInfo(user2),
-      },
-    };
+    const [viewedRoom] = await this.viewRooms(null, [reopenedRoom]);
+    const [roomWithInfo] = await this.withParticipantsInfo([viewedRoom]);
+    return roomWithInfo;
   }
 }
@@ -0,0 +1,93 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { roomsOfUser } from './room-membership';
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read';
+
+export interface DeliveredReceipt {
+  roomId: string;
+  messageId: string;
+  senderId: string;
+  userId: string;
+  deliveredAt: Date;
+}
+
+/**
+ * Where a message has got to: read once everyone else in the room has read
+ * it, delivered once it has reached all of their devices, otherwise sent
+ */
+export function deliveryStatus(
+  message: {
+    senderId: string;
+    readReceipts: { userId: string }[];
+    deliveryReceipts: { userId: string }[];
+  },
+  participantIds: string[],
+): DeliveryStatus {
+  const recipients = participantIds.filter((id) => id !== message.senderId);
+  const readBy = new Set(message.readReceipts.map((r) => r.userId));
+  if (recipients.length > 0 && recipients.every((id) => readBy.has(id))) {
+    return 'read';
+  }
+
+  const deliveredTo = new Set(message.deliveryReceipts.map((r) => r.userId));
+  return recipients.length > 0 &&
+    recipients.every((id) => readBy.has(id) || deliveredTo.has(id))
+    ? 'delivered'
+    : 'sent';
+}
+
+/**
+ * Delivered receipts, recorded when a recipient's socket acknowledges a
+ * message or receives it in the sync after reconnecting
+ */
+@Injectable()
+export class DeliveryService {
+  private readonly logger = new Logger(DeliveryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record that messages reached the user. Their own messages and ones
+   * already delivered are skipped; the new receipts are returned so the
+   * senders can be told.
+   */
+  async markDelivered(
+    userId: string,
+    messageIds: string[],
+  ): Promise<DeliveredReceipt[]> {
+    if (messageIds.length === 0) return [];
+
+    const messages = await this.prisma.message.findMany({
+      where: {
+        id: { in: messageIds },
+        senderId: { not: userId },
+        chatRoom: roomsOfUser(userId),
+        deliveryReceipts: { none: { userId } },
+      },
+      select: { id: true, chatRoomId: true, senderId: true },
+    });
+    if (messages.length === 0) return [];
+
+    const deliveredAt = new Date();
+    await this.prisma.messageDeliveryReceipt.createMany({
+      data: messages.map((message) => ({
+        messageId: message.id,
+        userId,
+        deliveredAt,
+      })),
+      skipDuplicates: true,
+    });
+
+    this.logger.debug(
+      `${messages.length} message(s) delivered to user ${userId}`,
+    );
+    return messages.map((message) => ({
+      roomId: message.chatRoomId,
+      messageId: message.id,
+      senderId: message.senderId,
+      userId,
+      deliveredAt,
+    }));
+  }
+}
@@ -5,8 +5,15 @@ import {
   IsBoolean,
   IsEnum,
   IsArray,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+  ArrayNotEmpty,
+  ArrayMaxSize,
 } from 'class-validator';
-import { MessageType } from '@prisma/client';
+import { ChatRoomRole, MessageType } from '@prisma/client';
 
 export class CreateChatRoomDto {
   @IsString()
@@ -34,6 +41,133 @@ export class SendMessageDto {
   @IsString()
   @IsOptional()
   repliedToId?: string;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  durationSeconds?: number;
+
+  /** Send within a paid service session instead of chat-time pricing */
+  @IsString()
+  @IsOptional()
+  serviceSessionId?: string;
+
+  /** Lock an IMAGE or VIDEO behind this price, in minor units */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  unlockPrice?: number;
+
+  /** Generated by the client; resending with the same ID stores it once */
+  @IsString()
+  @MaxLength(64)
+  @IsOptional()
+  clientMessageId?: string;
+}
+
+export class SendTipDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  /** Amount in minor units of the recipient's currency; omit for a gift */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  amount?: number;
+
+  @IsString()
+  @IsOptional()
+  giftId?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  message?: string;
+
+  /** Generated by the client; resending with the same ID pays once */
+  @IsString()
+  @MaxLength(64)
+  @IsOptional()
+  clientMessageId?: string;
+}
+
+export class CreateGroupDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+
+  /** https URL of the group picture */
+  @IsString()
+  @IsOptional()
+  avatarUrl?: string;
+
+  /** Users to invite; they join once they accept */
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(99)
+  @IsOptional()
+  memberIds?: string[];
+}
+
+export class UpdateGroupDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  @IsOptional()
+  name?: string;
+
+  /** https URL of the group picture; an empty string removes it */
+  @IsString()
+  @IsOptional()
+  avatarUrl?: string;
+}
+
+export class InviteToGroupDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(99)
+  @IsString({ each: true })
+  userIds: string[];
+}
+
+export class GroupRoomDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+}
+
+export class GroupMemberDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+}
+
+export class SetMemberRoleDto {
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  /** Making someone OWNER hands the group over; the old owner becomes ADMIN */
+  @IsEnum(ChatRoomRole)
+  role: ChatRoomRole;
 }
 
 export class EditMessageDto {
@@ -46,6 +180,23 @@ export class EditMessageDto {
   newMessage: string;
 }
 
+export class UnlockMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  messageId: string;
+}
+
+export class ReactionDto {
+  @IsString()
+  @IsNotEmpty()
+  messageId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(16)
+  emoji: string;
+}
+
 export class DeleteMessageDto {
   @IsString()
   @IsNotEmpty()
@@ -72,8 +223,50 @@ export class GetChatHistoryDto {
   @IsString()
   @IsNotEmpty()
   roomId: string;
+
+  /** Message ID; returns the page of older messages */
+  @IsString()
+  @IsOptional()
+  before?: string;
+
+  /** Message ID; returns the page of newer messages */
+  @IsString()
+  @IsOptional()
+  after?: string;
+
+  /** Message ID; returns the page centred on it */
+  @IsString()
+  @IsOptional()
+  around?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
+
+
+export class SyncMessagesDto {
+  /** The newest message the device has; omit to get undelivered messages */
+  @IsString()
+  @IsOptional()
+  lastMessageId?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
 }
 
+export class MessageDeliveredDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(200)
+  @IsString({ each: true })
+  messageIds: string[];
+}
 
 export class GetUserOnlineStatusDto {
   @IsArray()
@@ -0,0 +1,100 @@
+import { Test } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ChatService } from './chat.service';
+import { GroupChatService } from './group-chat.service';
+
+describe('GroupChatService', () => {
+  let service: GroupChatService;
+  let prisma: {
+    chatRoom: { create: jest.Mock; findUnique: jest.Mock };
+    chatRoomMember: { createMany: jest.Mock; updateMany: jest.Mock };
+  };
+  let chatService: {
+    assertNoMonetizedUsers: jest.Mock;
+    canInitiateChat: jest.Mock;
+    getChatRoomSummary: jest.Mock;
+    getChatHistory: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      chatRoom: {
+        create: jest.fn().mockResolvedValue({ id: 'group_1' }),
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ id: 'group_1', type: 'GROUP', isActive: true }),
+      },
+      chatRoomMember: {
+        createMany: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    chatService = {
+      assertNoMonetizedUsers: jest.fn().mockResolvedValue(undefined),
+      canInitiateChat: jest.fn().mockResolvedValue(true),
+      getChatRoomSummary: jest.fn().mockResolvedValue({ id: 'group_1' }),
+      getChatHistory: jest.fn().mockResolvedValue({
+        messages: [{ id: 'msg_1' }],
+        hasMore: true,
+        hasNewer: false,
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        GroupChatService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ChatService, useValue: chatService },
+      ],
+    }).compile();
+
+    service = module.get(GroupChatService);
+  });
+
+  it('checks the owner and invitees for creators who charge', async () => {
+    await service.createGroup('buyer', {
+      name: 'Weekend',
+      memberIds: ['friend', 'buyer'],
+    });
+
+    expect(chatService.assertNoMonetizedUsers).toHaveBeenCalledWith([
+      'buyer',
+      'friend',
+    ]);
+    expect(prisma.chatRoom.create).toHaveBeenCalled();
+  });
+
+  it('refuses to create a group with a seller who charges for chat', async () => {
+    chatService.assertNoMonetizedUsers.mockRejectedValue(
+      new ForbiddenException(
+        'Creators who charge for chat can only be messaged in direct chats',
+      ),
+    );
+
+    await expect(
+      service.createGroup('buyer', { name: 'Fans', memberIds: ['seller'] }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(prisma.chatRoom.create).not.toHaveBeenCalled();
+  });
+
+  it('loads a page of history only once an invitation is accepted', async () => {
+    await expect(service.joinGroup('friend', 'group_1')).resolves.toEqual({
+      id: 'group_1',
+      history: { messages: [{ id: 'msg_1' }], hasMore: true, hasNewer: false },
+    });
+    expect(chatService.getChatHistory).toHaveBeenCalledWith(
+      'group_1',
+      'friend',
+    );
+  });
+
+  it('refuses to join without an invitation', async () => {
+    prisma.chatRoomMember.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.joinGroup('stranger', 'group_1')).rejects.toThrow(
+      'You have no invitation to this group',
+    );
+    expect(chatService.getChatHistory).not.toHaveBeenCalled();
+  });
+});
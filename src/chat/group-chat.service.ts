@@ -0,0 +1,368 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ChatRoomMember, ChatRoomRole, ChatRoomType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChatService, ChatRoomSummary, JoinedGroup } from './chat.service';
+import {
+  CreateGroupDto,
+  InviteToGroupDto,
+  SetMemberRoleDto,
+  UpdateGroupDto,
+} from './dto/chat.dto';
+
+/** Members and pending invitations a group may hold */
+const MAX_GROUP_SIZE = 100;
+const MAX_GROUP_NAME_LENGTH = 60;
+
+const ROLE_RANK: Record<ChatRoomRole, number> = {
+  [ChatRoomRole.OWNER]: 2,
+  [ChatRoomRole.ADMIN]: 1,
+  [ChatRoomRole.MEMBER]: 0,
+};
+
+export interface LeftGroup {
+  member: ChatRoomMember;
+  /** Set when the owner left and the group was handed over */
+  newOwner: ChatRoomMember | null;
+  /** The last member left and the group was closed */
+  closed: boolean;
+}
+
+/**
+ * Group rooms. The creator owns the group; owners and admins invite
+ * people, who become members once they accept. Admins can remove members,
+ * and only the owner can change roles or remove admins.
+ */
+@Injectable()
+export class GroupChatService {
+  private readonly logger = new Logger(GroupChatService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chatService: ChatService,
+  ) {}
+
+  async createGroup(
+    ownerId: string,
+    dto: CreateGroupDto,
+  ): Promise<ChatRoomSummary> {
+    const name = this.validName(dto.name);
+    if (dto.avatarUrl) this.assertAvatarUrl(dto.avatarUrl);
+
+    const inviteeIds = Array.from(new Set(dto.memberIds ?? [])).filter(
+      (id) => id !== ownerId,
+    );
+    if (inviteeIds.length + 1 > MAX_GROUP_SIZE) {
+      throw new BadRequestException(
+        `Groups are limited to ${MAX_GROUP_SIZE} members`,
+      );
+    }
+    await this.assertCanInvite(ownerId, inviteeIds);
+
+    const now = new Date();
+    const room = await this.prisma.chatRoom.create({
+      data: {
+        type: ChatRoomType.GROUP,
+        name,
+        avatarUrl: dto.avatarUrl || null,
+        createdBy: ownerId,
+        members: {
+          create: [
+            { userId: ownerId, role: ChatRoomRole.OWNER, joinedAt: now },
+            ...inviteeIds.map((userId) => ({ userId, invitedBy: ownerId })),
+          ],
+        },
+      },
+    });
+
+    this.logger.log(
+      `Group ${room.id} created by ${ownerId} with ${inviteeIds.length} invitation(s)`,
+    );
+    return (await this.chatService.getChatRoomSummary(room.id))!;
+  }
+
+  async updateGroup(userId: string, dto: UpdateGroupDto) {
+    await this.requireRole(userId, dto.roomId, ChatRoomRole.ADMIN);
+
+    const name = dto.name === undefined ? undefined : this.validName(dto.name);
+    if (dto.avatarUrl) this.assertAvatarUrl(dto.avatarUrl);
+
+    return this.prisma.chatRoom.update({
+      where: { id: dto.roomId },
+      data: {
+        name,
+        avatarUrl:
+          dto.avatarUrl === undefined ? undefined : dto.avatarUrl || null,
+        lastActivity: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Invite people to the group. People already in the group or invited are
+   * skipped; the new invitations are returned.
+   */
+  async inviteMembers(
+    userId: string,
+    dto: InviteToGroupDto,
+  ): Promise<ChatRoomMember[]> {
+    await this.requireRole(userId, dto.roomId, ChatRoomRole.ADMIN);
+
+    const existing = await this.prisma.chatRoomMember.findMany({
+      where: { roomId: dto.roomId },
+      select: { userId: true },
+    });
+    const existingIds = new Set(existing.map((member) => member.userId));
+    const inviteeIds = Array.from(new Set(dto.userIds)).filter(
+      (id) => !existingIds.has(id),
+    );
+    if (inviteeIds.length === 0) return [];
+
+    if (existing.length + inviteeIds.length > MAX_GROUP_SIZE) {
+      throw new BadRequestException(
+        `Groups are limited to ${MAX_GROUP_SIZE} members`,
+      );
+    }
+    await this.assertCanInvite(userId, inviteeIds);
+
+    await this.prisma.chatRoomMember.createMany({
+      data: inviteeIds.map((inviteeId) => ({
+        roomId: dto.roomId,
+        userId: inviteeId,
+        invitedBy: userId,
+      })),
+      skipDuplicates: true,
+    });
+
+    this.logger.log(
+      `${userId} invited ${inviteeIds.length} user(s) to group ${dto.roomId}`,
+    );
+    return this.prisma.chatRoomMember.findMany({
+      where: { roomId: dto.roomId, userId: { in: inviteeIds } },
+    });
+  }
+
+  /**
+   * Accept a pending invitation. The group's history is only loaded once
+   * the user is a member, starting from its newest page.
+   */
+  async joinGroup(userId: string, roomId: string): Promise<JoinedGroup> {
+    const room = await this.getGroup(roomId);
+    if (!room.isActive) {
+      throw new BadRequestException('This group has been closed');
+    }
+
+    const { count } = await this.prisma.chatRoomMember.updateMany({
+      where: { roomId, userId, joinedAt: null },
+      data: { joinedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException('You have no invitation to this group');
+    }
+
+    this.logger.log(`${userId} joined group ${roomId}`);
+    const [summary, history] = await Promise.all([
+      this.chatService.getChatRoomSummary(roomId),
+      this.chatService.getChatHistory(roomId, userId),
+    ]);
+    return { ...summary!, history };
+  }
+
+  /**
+   * Leave the group or decline an invitation. An owner who leaves hands the
+   * group to the longest-serving admin, or else member; the group closes
+   * when nobody is left.
+   */
+  async leaveGroup(userId: string, roomId: string): Promise<LeftGroup> {
+    await this.getGroup(roomId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const member = await tx.chatRoomMember.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+      });
+      if (!member) {
+        throw new ForbiddenException('You are not a member of this group');
+      }
+      await tx.chatRoomMember.delete({ where: { id: member.id } });
+
+      let newOwner: ChatRoomMember | null = null;
+      if (member.role === ChatRoomRole.OWNER) {
+        const remaining = await tx.chatRoomMember.findMany({
+          where: { roomId, joinedAt: { not: null } },
+          orderBy: { joinedAt: 'asc' },
+        });
+        const successor =
+          remaining.find((m) => m.role === ChatRoomRole.ADMIN) ?? remaining[0];
+        if (successor) {
+          newOwner = await tx.chatRoomMember.update({
+            where: { id: successor.id },
+            data: { role: ChatRoomRole.OWNER },
+          });
+        }
+      }
+
+      const left = await tx.chatRoomMember.count({
+        where: { roomId, joinedAt: { not: null } },
+      });
+      if (left === 0) {
+        await tx.chatRoom.update({
+          where: { id: roomId },
+          data: { isActive: false, closedAt: new Date() },
+        });
+      }
+
+      this.logger.log(`${userId} left group ${roomId}`);
+      return { member, newOwner, closed: left === 0 };
+    });
+  }
+
+  /** Remove a member or withdraw an invitation */
+  async removeMember(
+    userId: string,
+    roomId: string,
+    memberId: string,
+  ): Promise<ChatRoomMember> {
+    if (memberId === userId) {
+      throw new BadRequestException('Leave the group instead');
+    }
+    const actor = await this.requireRole(userId, roomId, ChatRoomRole.ADMIN);
+    const target = await this.prisma.chatRoomMember.findUnique({
+      where: { roomId_userId: { roomId, userId: memberId } },
+    });
+    if (!target) {
+      throw new NotFoundException('Member not found');
+    }
+    if (ROLE_RANK[target.role] >= ROLE_RANK[actor.role]) {
+      throw new ForbiddenException(
+        'You can only remove members below your role',
+      );
+    }
+
+    await this.prisma.chatRoomMember.delete({ where: { id: target.id } });
+    this.logger.log(`${userId} removed ${memberId} from group ${roomId}`);
+    return target;
+  }
+
+  /**
+   * Change a member's role. Only the owner can do this; making someone
+   * owner hands the group over and leaves the old owner an admin.
+   */
+  async setMemberRole(
+    userId: string,
+    dto: SetMemberRoleDto,
+  ): Promise<ChatRoomMember[]> {
+    if (dto.userId === userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+    const owner = await this.requireRole(
+      userId,
+      dto.roomId,
+      ChatRoomRole.OWNER,
+    );
+    const target = await this.prisma.chatRoomMember.findUnique({
+      where: { roomId_userId: { roomId: dto.roomId, userId: dto.userId } },
+    });
+    if (!target || !target.joinedAt) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = [
+        await tx.chatRoomMember.update({
+          where: { id: target.id },
+          data: { role: dto.role },
+        }),
+      ];
+      if (dto.role === ChatRoomRole.OWNER) {
+        updated.push(
+          await tx.chatRoomMember.update({
+            where: { id: owner.id },
+            data: { role: ChatRoomRole.ADMIN },
+          }),
+        );
+      }
+
+      this.logger.log(
+        `${userId} made ${dto.userId} ${dto.role} of group ${dto.roomId}`,
+      );
+      return updated;
+    });
+  }
+
+  private async getGroup(roomId: string) {
+    const room = await this.prisma.chatRoom.findUnique({
+      where: { id: roomId },
+    });
+    if (!room || room.type !== ChatRoomType.GROUP) {
+      throw new NotFoundException('Group not found');
+    }
+    return room;
+  }
+
+  /** The caller's membership of an open group, if their role is high enough */
+  private async requireRole(
+    userId: string,
+    roomId: string,
+    role: ChatRoomRole,
+  ) {
+    const room = await this.getGroup(roomId);
+    if (!room.isActive) {
+      throw new BadRequestException('This group has been closed');
+    }
+
+    const member = await this.prisma.chatRoomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+    });
+    if (!member || !member.joinedAt) {
+      throw new ForbiddenException('You are not a member of this group');
+    }
+    if (ROLE_RANK[member.role] < ROLE_RANK[role]) {
+      throw new ForbiddenException(
+        `Only the group ${role === ChatRoomRole.OWNER ? 'owner' : 'owner or admins'} can do this`,
+      );
+    }
+    return member;
+  }
+
+  /**
+   * People can only be added by someone allowed to chat with them, and
+   * never when the group would include a creator who charges for chat
+   */
+  private async assertCanInvite(inviterId: string, inviteeIds: string[]) {
+    await this.chatService.assertNoMonetizedUsers([inviterId, ...inviteeIds]);
+    for (const inviteeId of inviteeIds) {
+      if (!(await this.chatService.canInitiateChat(inviterId, inviteeId))) {
+        throw new ForbiddenException(
+          'You must follow a user to add them to a group',
+        );
+      }
+    }
+  }
+
+  private validName(value: string) {
+    const name = value?.trim();
+    if (!name || name.length > MAX_GROUP_NAME_LENGTH) {
+      throw new BadRequestException(
+        `Group name must be 1-${MAX_GROUP_NAME_LENGTH} characters`,
+      );
+    }
+    return name;
+  }
+
+  private assertAvatarUrl(value: string) {
+    let valid = false;
+    try {
+      valid = new URL(value).protocol === 'https:';
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw new BadRequestException('Group avatar must be an https URL');
+    }
+  }
+}
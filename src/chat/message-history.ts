@@ -0,0 +1,154 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 100;
+
+/** Relations loaded with every message in a history page */
+export const HISTORY_INCLUDE = {
+  repliedTo: true,
+  tip: { include: { gift: true } },
+  reactions: {
+    select: { emoji: true, userId: true },
+    orderBy: { createdAt: 'asc' },
+  },
+  readReceipts: { select: { userId: true } },
+  deliveryReceipts: { select: { userId: true } },
+} satisfies Prisma.MessageInclude;
+
+export type HistoryMessage = Prisma.MessageGetPayload<{
+  include: typeof HISTORY_INCLUDE;
+}>;
+
+/**
+ * Where a page of history starts: older than `before`, newer than `after`,
+ * or centred on `around` (included) to jump to a search result. Without a
+ * cursor the newest messages are returned. Cursors are message IDs, so
+ * pages stay put while new messages arrive.
+ */
+export interface HistoryCursor {
+  before?: string;
+  after?: string;
+  around?: string;
+  limit?: number;
+}
+
+export interface HistoryPage<M> {
+  /** Oldest first */
+  messages: M[];
+  /** There are older messages before the first one */
+  hasMore: boolean;
+  /** There are newer messages after the last one */
+  hasNewer: boolean;
+}
+
+type Anchor = { id: string; createdAt: Date };
+
+function olderThan(
+  anchor: Anchor,
+  inclusive: boolean,
+): Prisma.MessageWhereInput {
+  return {
+    OR: [
+      { createdAt: { lt: anchor.createdAt } },
+      {
+        createdAt: anchor.createdAt,
+        id: inclusive ? { lte: anchor.id } : { lt: anchor.id },
+      },
+    ],
+  };
+}
+
+export function newerThan(anchor: Anchor): Prisma.MessageWhereInput {
+  return {
+    OR: [
+      { createdAt: { gt: anchor.createdAt } },
+      { createdAt: anchor.createdAt, id: { gt: anchor.id } },
+    ],
+  };
+}
+
+/** Load one page of a room's messages relative to a cursor */
+export async function findHistoryPage(
+  prisma: PrismaService,
+  roomId: string,
+  cursor: HistoryCursor = {},
+): Promise<HistoryPage<HistoryMessage>> {
+  const anchorIds = [cursor.before, cursor.after, cursor.around].filter(
+    (id) => id !== undefined,
+  );
+  if (anchorIds.length > 1) {
+    throw new BadRequestException('Use only one of before, after and around');
+  }
+  const limit = Math.min(
+    Math.max(cursor.limit ?? DEFAULT_HISTORY_LIMIT, 1),
+    MAX_HISTORY_LIMIT,
+  );
+
+  let anchor: Anchor | null = null;
+  if (anchorIds.length > 0) {
+    anchor = await prisma.message.findFirst({
+      where: { id: anchorIds[0], chatRoomId: roomId },
+      select: { id: true, createdAt: true },
+    });
+    if (!anchor) {
+      throw new NotFoundException('Message not found');
+    }
+  }
+
+  // One extra row tells whether there is more beyond the page
+  const older = (take: number, inclusive: boolean) =>
+    prisma.message.findMany({
+      where: {
+        chatRoomId: roomId,
+        ...(anchor ? olderThan(anchor, inclusive) : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: take + 1,
+      include: HISTORY_INCLUDE,
+    });
+  const newer = (take: number) =>
+    prisma.message.findMany({
+      where: {
+        chatRoomId: roomId,
+        ...(anchor ? newerThan(anchor) : {}),
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: take + 1,
+      include: HISTORY_INCLUDE,
+    });
+
+  if (cursor.after !== undefined) {
+    const rows = await newer(limit);
+    return {
+      messages: rows.slice(0, limit),
+      hasMore: true,
+      hasNewer: rows.length > limit,
+    };
+  }
+
+  if (cursor.around !== undefined) {
+    const newerCount = Math.floor(limit / 2);
+    const olderCount = limit - newerCount;
+    const [before, after] = await Promise.all([
+      older(olderCount, true),
+      newer(newerCount),
+    ]);
+    return {
+      messages: [
+        ...before.slice(0, olderCount).reverse(),
+        ...after.slice(0, newerCount),
+      ],
+      hasMore: before.length > olderCount,
+      hasNewer: after.length > newerCount,
+    };
+  }
+
+  const rows = await older(limit, false);
+  return {
+    messages: rows.slice(0, limit).reverse(),
+    hasMore: rows.length > limit,
+    hasNewer: anchor !== null,
+  };
+}
@@ -0,0 +1,153 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { MessageReaction } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { roomsOfUser } from './room-membership';
+
+/** Different emoji one user may put on one message */
+const MAX_REACTIONS_PER_USER = 10;
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})/u;
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface ReactionUpdate {
+  roomId: string;
+  messageId: string;
+  userId: string;
+  emoji: string;
+  action: 'added' | 'removed';
+  reactions: ReactionSummary[];
+}
+
+/**
+ * Group a message's reactions by emoji, in the order each emoji was first
+ * used
+ */
+export function summarizeReactions(
+  reactions: Pick<MessageReaction, 'emoji' | 'userId'>[],
+): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  for (const { emoji, userId } of reactions) {
+    const summary = byEmoji.get(emoji) ?? { emoji, count: 0, userIds: [] };
+    summary.count += 1;
+    summary.userIds.push(userId);
+    byEmoji.set(emoji, summary);
+  }
+  return Array.from(byEmoji.values());
+}
+
+/**
+ * Emoji reactions on chat messages. Each user has a set of reactions per
+ * message: adding an emoji twice keeps one, and removing one leaves the
+ * rest.
+ */
+@Injectable()
+export class ReactionService {
+  private readonly logger = new Logger(ReactionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async addReaction(
+    userId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionUpdate> {
+    const value = this.validEmoji(emoji);
+    const message = await this.getReactableMessage(userId, messageId);
+
+    const existing = await this.prisma.messageReaction.findMany({
+      where: { messageId, userId },
+      select: { emoji: true },
+    });
+    if (
+      !existing.some((reaction) => reaction.emoji === value) &&
+      existing.length >= MAX_REACTIONS_PER_USER
+    ) {
+      throw new BadRequestException(
+        `You can add up to ${MAX_REACTIONS_PER_USER} reactions to a message`,
+      );
+    }
+
+    await this.prisma.messageReaction.upsert({
+      where: { messageId_userId_emoji: { messageId, userId, emoji: value } },
+      create: { messageId, userId, emoji: value },
+      update: {},
+    });
+
+    this.logger.log(`${userId} reacted ${value} to message ${messageId}`);
+    return this.update(message.chatRoomId, messageId, userId, value, 'added');
+  }
+
+  async removeReaction(
+    userId: string,
+    messageId: string,
+    emoji: string,
+  ): Promise<ReactionUpdate> {
+    const value = this.validEmoji(emoji);
+    const message = await this.getReactableMessage(userId, messageId);
+
+    await this.prisma.messageReaction.deleteMany({
+      where: { messageId, userId, emoji: value },
+    });
+
+    return this.update(message.chatRoomId, messageId, userId, value, 'removed');
+  }
+
+  private async update(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+    action: ReactionUpdate['action'],
+  ): Promise<ReactionUpdate> {
+    const reactions = await this.prisma.messageReaction.findMany({
+      where: { messageId },
+      orderBy: { createdAt: 'asc' },
+      select: { emoji: true, userId: true },
+    });
+    return {
+      roomId,
+      messageId,
+      userId,
+      emoji,
+      action,
+      reactions: summarizeReactions(reactions),
+    };
+  }
+
+  /** A live message in a room the user takes part in */
+  private async getReactableMessage(userId: string, messageId: string) {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+    });
+    if (!message || message.isDeleted) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const room = await this.prisma.chatRoom.findFirst({
+      where: { id: message.chatRoomId, ...roomsOfUser(userId) },
+      select: { id: true },
+    });
+    if (!room) {
+      throw new ForbiddenException('Access denied to this message');
+    }
+    return message;
+  }
+
+  private validEmoji(value: string) {
+    const emoji = value?.trim();
+    if (!emoji || emoji.length > 16 || !EMOJI_PATTERN.test(emoji)) {
+      throw new BadRequestException('Reactions must be a single emoji');
+    }
+    return emoji;
+  }
+}
@@ -0,0 +1,49 @@
+import { ChatRoom, ChatRoomMember, ChatRoomType, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+/**
+ * Rooms a user takes part in: either side of a direct chat, or a group
+ * they have joined. Pending invitations do not count.
+ */
+export function roomsOfUser(userId: string): Prisma.ChatRoomWhereInput {
+  return {
+    OR: [
+      { participant1: userId },
+      { participant2: userId },
+      { members: { some: { userId, joinedAt: { not: null } } } },
+    ],
+  };
+}
+
+/** Everyone taking part in a room; group members must be loaded with it */
+export function roomParticipantIds(
+  room: ChatRoom & { members?: ChatRoomMember[] },
+): string[] {
+  if (room.type === ChatRoomType.GROUP) {
+    return (room.members ?? [])
+      .filter((member) => member.joinedAt !== null)
+      .map((member) => member.userId);
+  }
+  return [room.participant1!, room.participant2!];
+}
+
+/** The other side of a direct chat; groups have none */
+export function otherParticipant(
+  room: ChatRoom,
+  userId: string,
+): string | null {
+  if (room.type === ChatRoomType.GROUP) return null;
+  return room.participant1 === userId ? room.participant2 : room.participant1;
+}
+
+/** The participants of each room, for rooms loaded without their members */
+export async function participantIdsByRoom(
+  prisma: PrismaService,
+  roomIds: string[],
+): Promise<Map<string, string[]>> {
+  const rooms = await prisma.chatRoom.findMany({
+    where: { id: { in: Array.from(new Set(roomIds)) } },
+    include: { members: true },
+  });
+  return new Map(rooms.map((room) => [room.id, roomParticipantIds(room)]));
+}
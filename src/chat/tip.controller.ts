@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ChatService } from './chat.service';
+import { SendTipDto } from './dto/chat.dto';
+import { AuthGuardService } from '../auth-guard/auth-guard.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('/api/v1/tips')
+@UseGuards(AuthGuardService)
+export class TipController {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * Tip a chat partner or send them a gift, same as the sendTip socket event
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async sendTip(@Req() req: AuthenticatedRequest, @Body() dto: SendTipDto) {
+    const { message, recipientId, duplicate } = await this.chatService.sendTip(
+      req.user.id,
+      dto,
+    );
+    if (duplicate) {
+      return message;
+    }
+
+    for (const userId of [req.user.id, recipientId]) {
+      this.realtimeService.emitToUser(userId, 'newMessage', {
+        ...message,
+        roomId: dto.roomId,
+      });
+    }
+    this.realtimeService.emitToUser(recipientId, 'tipReceived', {
+      roomId: dto.roomId,
+      message,
+    });
+
+    return message;
+  }
+}
@@ -18,12 +18,36 @@ import { GetUser } from 'auth/get-user.decorator';
 export class ChatlistController {
   constructor(private readonly chatlistService: ChatlistService) {}
 
+  /**
+   * Full-text search across the user's chat rooms
+   */
+  @Get('search')
+  async searchMessages(
+    @GetUser() user: User,
+    @Query('q') query: string,
+    @Query('roomId') roomId?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.chatlistService.searchMessages(user.id, query, {
+      roomId,
+      page,
+      limit,
+    });
+  }
+
+  /**
+   * A page of history, newest first unless a before, after or around
+   * message ID is given
+   */
   @Get(':roomId/history')
   async getChatHistory(
     @Param('roomId') roomId: string,
     @GetUser() user: User,
     @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
-    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number,
+    @Query('before') before?: string,
+    @Query('after') after?: string,
+    @Query('around') around?: string,
   ) {
     const userId = user.id;
 
@@ -36,8 +60,8 @@ export class ChatlistController {
 
     const historyData = await this.chatlistService.getChatHistory(
       roomId,
-      limit,
-      offset,
+      userId,
+      { before, after, around, limit },
     );
 
     return historyData;
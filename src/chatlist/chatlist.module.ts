@@ -4,9 +4,10 @@ import { ChatlistController } from './chatlist.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { ClerkModule } from 'src/clerk/clerk.module';
 import { UserService } from 'src/user/user.service';
+import { MonetizationModule } from 'src/monetization/monetization.module';
 
 @Module({
-  imports:[PrismaModule, ClerkModule],
+  imports:[PrismaModule, ClerkModule, MonetizationModule],
   controllers: [ChatlistController],
   providers: [ChatlistService,UserService],
   exports: [ChatlistService],
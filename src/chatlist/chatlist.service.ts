@@ -1,10 +1,35 @@
 import { User } from '@clerk/backend';
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import { Message } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { UserService } from 'src/user/user.service';
+import { PaidMediaService } from 'src/monetization/paid-media.service';
+import { participantIdsByRoom, roomsOfUser } from 'src/chat/room-membership';
+import {
+  findHistoryPage,
+  HISTORY_INCLUDE,
+  HistoryCursor,
+  HistoryMessage,
+  HistoryPage,
+} from 'src/chat/message-history';
+import { ReactionSummary, summarizeReactions } from 'src/chat/reaction.service';
+import { deliveryStatus, DeliveryStatus } from 'src/chat/delivery.service';
+
+const MAX_SEARCH_LENGTH = 100;
+// Postgres marks matches with control characters, which become <mark> tags
+// only after the snippet has been escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
 
 export interface MessageWithSender extends Message {
+  /** Pay-per-view media the viewer has not unlocked; fileUrl is withheld */
+  isLocked?: boolean;
   senderInfo?: {
     id: string;
     username: string | null;
@@ -14,12 +39,15 @@ export interface MessageWithSender extends Message {
   };
 
   repliedTo?: MessageWithSender;
+  reactions?: ReactionSummary[];
+  status?: DeliveryStatus;
 }
 @Injectable()
 export class ChatlistService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly userService: UserService,
+    private readonly paidMediaService: PaidMediaService,
   ) {}
 
   private extractUserInfo(user: User | null) {
@@ -45,29 +73,127 @@ export class ChatlistService {
 
   async getChatHistory(
     roomId: string,
-    limit: number = 50,
-    offset: number = 0,
-  ): Promise<{ messages: MessageWithSender[]; hasMore: boolean }> {
+    viewerId: string,
+    cursor: HistoryCursor = {},
+  ): Promise<HistoryPage<MessageWithSender>> {
     this.logger.log(
-      `Getting chat history for room: ${roomId}, limit: ${limit}, offset: ${offset}`,
+      `Getting chat history for room: ${roomId}, cursor: ${JSON.stringify(cursor)}`,
     );
 
-    const messagesToFetch = limit + 1;
+    const page = await findHistoryPage(this.prisma, roomId, cursor);
+    const messages = await this.formatMessages(viewerId, page.messages);
+    return { ...page, messages };
+  }
 
-    const messages = await this.prisma.message.findMany({
-      where: { chatRoomId: roomId },
-      orderBy: { createdAt: 'desc' },
-      take: messagesToFetch,
-      skip: offset,
-      include: { repliedTo: true },
+  /**
+   * Full-text search over the messages in the user's rooms, newest first.
+   * Matches in the snippet are wrapped in <mark>; open a result with the
+   * history `around` cursor to see it in context.
+   */
+  async searchMessages(
+    userId: string,
+    query: string,
+    options: { roomId?: string; page?: number; limit?: number } = {},
+  ) {
+    const term = query?.trim() ?? '';
+    if (term.length < 2 || term.length > MAX_SEARCH_LENGTH) {
+      throw new BadRequestException(
+        `Search for 2 to ${MAX_SEARCH_LENGTH} characters`,
+      );
+    }
+    const page = Math.max(options.page ?? 1, 1);
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 50);
+
+    let roomIds: string[];
+    if (options.roomId) {
+      if (!(await this.isUserInRoom(userId, options.roomId))) {
+        throw new ForbiddenException(
+          'You do not have permission to access this chat room.',
+        );
+      }
+      roomIds = [options.roomId];
+    } else {
+      const rooms = await this.prisma.chatRoom.findMany({
+        where: roomsOfUser(userId),
+        select: { id: true },
+      });
+      roomIds = rooms.map((room) => room.id);
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.prisma.$queryRaw<Array<{ id: string; snippet: string }>>`
+        SELECT m."id",
+          ts_headline('simple', m."message", q, ${HEADLINE_OPTIONS}) AS "snippet"
+        FROM "messages" m, websearch_to_tsquery('simple', ${term}) q
+        WHERE m."searchVector" @@ q
+          AND m."isDeleted" = false
+          AND m."chatRoomId" = ANY(${roomIds})
+        ORDER BY m."createdAt" DESC, m."id" DESC
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `,
+      this.prisma.$queryRaw<Array<{ total: bigint }>>`
+        SELECT COUNT(*) AS "total"
+        FROM "messages" m, websearch_to_tsquery('simple', ${term}) q
+        WHERE m."searchVector" @@ q
+          AND m."isDeleted" = false
+          AND m."chatRoomId" = ANY(${roomIds})
+      `,
+    ]);
+
+    const found = await this.prisma.message.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: HISTORY_INCLUDE,
     });
+    const messages = new Map(
+      (await this.formatMessages(userId, found)).map((message) => [
+        message.id,
+        message,
+      ]),
+    );
 
-    const hasMore = messages.length > limit;
+    return {
+      items: rows
+        .filter((row) => messages.has(row.id))
+        .map((row) => ({
+          roomId: messages.get(row.id)!.chatRoomId,
+          messageId: row.id,
+          snippet: this.highlight(row.snippet),
+          message: messages.get(row.id)!,
+        })),
+      pagination: {
+        page,
+        limit,
+        total: Number(total),
+        totalPages: Math.ceil(Number(total) / limit),
+      },
+    };
+  }
 
-    const resultMessages = hasMore ? messages.slice(0, limit) : messages;
+  async isUserInRoom(userId: string, roomId: string): Promise<boolean> {
+    const room = await this.prisma.chatRoom.findFirst({
+      where: {
+        id: roomId,
+        ...roomsOfUser(userId),
+      },
+      select: { id: true },
+    });
+    return !!room;
+  }
 
+  /**
+   * Apply the viewer's paid media access, and attach sender profiles,
+   * reaction counts and delivery status
+   */
+  private async formatMessages(
+    viewerId: string,
+    rawMessages: HistoryMessage[],
+  ): Promise<MessageWithSender[]> {
+    const resultMessages = await this.paidMediaService.viewAs(
+      viewerId,
+      rawMessages,
+    );
     if (resultMessages.length === 0) {
-      return { messages: [], hasMore: false };
+      return [];
     }
 
     const senderIds = new Set<string>();
@@ -78,15 +204,26 @@ export class ChatlistService {
       }
     });
 
-    const senders = await Promise.all(
-      Array.from(senderIds).map((id) => this.userService.getUser(id)),
-    );
+    const [senders, participants] = await Promise.all([
+      Promise.all(
+        Array.from(senderIds).map((id) => this.userService.getUser(id)),
+      ),
+      participantIdsByRoom(
+        this.prisma,
+        resultMessages.map((message) => message.chatRoomId),
+      ),
+    ]);
     const sendersMap = new Map(
       senders.map((sender) => [sender.id, this.extractUserInfo(sender)]),
     );
 
-    const formattedMessages = resultMessages.map((message) => ({
+    return resultMessages.map((message) => ({
       ...message,
+      reactions: summarizeReactions(message.reactions),
+      status: deliveryStatus(
+        message,
+        participants.get(message.chatRoomId) ?? [],
+      ),
       senderInfo: sendersMap.get(message.senderId),
       repliedTo: message.repliedTo
         ? {
@@ -95,18 +232,19 @@ export class ChatlistService {
           }
         : undefined,
     }));
-
-    return { messages: formattedMessages.reverse(), hasMore };
   }
 
-  async isUserInRoom(userId: string, roomId: string): Promise<boolean> {
-    const room = await this.prisma.chatRoom.findFirst({
-      where: {
-        id: roomId,
-        OR: [{ participant1: userId }, { participant2: userId }],
-      },
-      select: { id: true },
-    });
-    return !!room;
+  /**
+   * Escape the snippet as HTML and turn the match markers Postgres put in
+   * into <mark> tags, so message text cannot inject markup
+   */
+  private highlight(snippet: string) {
+    return snippet
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(new RegExp(MATCH_START, 'g'), '<mark>')
+      .replace(new RegExp(MATCH_END, 'g'), '</mark>');
   }
 }
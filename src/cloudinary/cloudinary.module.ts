@@ -8,6 +8,6 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
   imports: [ConfigModule],
   controllers: [CloudinaryController],
   providers: [CloudinaryService, CloudinaryProvider],
-  exports: [CloudinaryProvider],
+  exports: [CloudinaryProvider, CloudinaryService],
 })
 export class CloudinaryModule {}
@@ -6,6 +6,10 @@ import {
 } from 'cloudinary';
 import * as streamifier from 'streamifier';
 
+const PREVIEW_BLUR_STRENGTH = 2000;
+const UPLOAD_URL_PATTERN =
+  /^https:\/\/res\.cloudinary\.com\/([^/]+)\/(image|video)\/upload\/(?:v\d+\/)?(.+)\.[a-z0-9]+$/i;
+
 @Injectable()
 export class CloudinaryService {
   async uploadFile(
@@ -49,4 +53,33 @@ export class CloudinaryService {
   async deleteMultipleFiles(publicIds: string[]): Promise<any> {
     return cloudinary.api.delete_resources(publicIds);
   }
+
+  /**
+   * Blurred still of an uploaded image or video, rendered by a Cloudinary
+   * transformation so the original asset is never exposed. Returns null
+   * for URLs that were not uploaded to this cloud as the given type.
+   */
+  blurredPreviewUrl(
+    fileUrl: string,
+    resourceType: 'image' | 'video',
+  ): string | null {
+    const match = UPLOAD_URL_PATTERN.exec(fileUrl);
+    if (
+      !match ||
+      match[1] !== cloudinary.config().cloud_name ||
+      match[2] !== resourceType
+    ) {
+      return null;
+    }
+
+    return cloudinary.url(match[3], {
+      resource_type: resourceType,
+      secure: true,
+      format: 'jpg',
+      transformation: [
+        ...(resourceType === 'video' ? [{ start_offset: 0 }] : []),
+        { effect: `blur:${PREVIEW_BLUR_STRENGTH}`, quality: 'auto' },
+      ],
+    });
+  }
 }
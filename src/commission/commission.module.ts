@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CommissionService } from './commission.service';
+import { PrismaModule } from 'src/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  providers: [CommissionService],
+  exports: [CommissionService],
+})
+export class CommissionModule {}
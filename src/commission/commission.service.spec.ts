@@ -0,0 +1,146 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CommissionRule } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Money } from 'src/common/money/money';
+import { CommissionService } from './commission.service';
+
+function rule(overrides: Partial<CommissionRule>): CommissionRule {
+  return {
+    id: 'rule',
+    sellerId: null,
+    saleType: null,
+    rateBps: 2000,
+    startsAt: null,
+    endsAt: null,
+    isActive: true,
+    description: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+describe('CommissionService', () => {
+  let service: CommissionService;
+  let rules: CommissionRule[];
+  let config: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    rules = [];
+    config = {};
+
+    const module = await Test.createTestingModule({
+      providers: [
+        CommissionService,
+        {
+          provide: PrismaService,
+          useValue: {
+            commissionRule: {
+              findMany: jest.fn(() => Promise.resolve(rules)),
+            },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CommissionService);
+  });
+
+  it('applies the default 20% when no rule matches', async () => {
+    const fee = await service.quote('seller', 'CHAT_TIME', Money.of(10000));
+
+    expect(fee.platformFee.amount).toBe(2000);
+    expect(fee.sellerAmount.amount).toBe(8000);
+    expect(fee.rateBps).toBe(2000);
+    expect(fee.ruleId).toBeNull();
+  });
+
+  it('rounds the fee half up and gives the seller the remainder', async () => {
+    config.PLATFORM_COMMISSION_BPS = '1250';
+
+    const fee = await service.quote('seller', 'CONTENT', Money.of(1004));
+
+    // 12.5% of 1004 is 125.5
+    expect(fee.platformFee.amount).toBe(126);
+    expect(fee.sellerAmount.amount).toBe(878);
+    expect(fee.platformFee.add(fee.sellerAmount)).toEqual(fee.gross);
+  });
+
+  it('ignores an invalid configured rate', async () => {
+    config.PLATFORM_COMMISSION_BPS = '12000';
+
+    const fee = await service.quote('seller', 'CHAT_TIME', Money.of(100));
+
+    expect(fee.rateBps).toBe(2000);
+  });
+
+  it('prefers the most specific rule', async () => {
+    rules = [
+      rule({ id: 'global', rateBps: 3000 }),
+      rule({ id: 'sale-type', saleType: 'CHAT_TIME', rateBps: 2500 }),
+      rule({ id: 'seller', sellerId: 'seller', rateBps: 1500 }),
+    ];
+
+    const fee = await service.quote('seller', 'CHAT_TIME', Money.of(1000));
+
+    expect(fee.ruleId).toBe('seller');
+    expect(fee.platformFee.amount).toBe(150);
+    expect(fee.promotional).toBe(false);
+  });
+
+  it('lets a promotional window outrank seller rules', async () => {
+    rules = [
+      rule({ id: 'seller', sellerId: 'seller', rateBps: 1500 }),
+      rule({
+        id: 'launch',
+        rateBps: 0,
+        startsAt: new Date('2025-01-01'),
+        endsAt: new Date('2025-02-01'),
+      }),
+    ];
+
+    const fee = await service.quote(
+      'seller',
+      'CHAT_TIME',
+      Money.of(1000),
+      new Date('2025-01-15'),
+    );
+
+    expect(fee.ruleId).toBe('launch');
+    expect(fee.platformFee.isZero()).toBe(true);
+    expect(fee.promotional).toBe(true);
+  });
+
+  it('splits a stored fee back into its parts', () => {
+    const fee = service.breakdownOf('SERVICE_REQUEST', Money.of(3000), 600);
+
+    expect(fee.sellerAmount.amount).toBe(2400);
+    expect(fee.rateBps).toBe(2000);
+  });
+
+  it('credits the seller and the platform in the sale currency', () => {
+    const fee = service.breakdownOf('CHAT_TIME', Money.of(500, 'UGX'), 100);
+
+    expect(service.creditLegs('seller', fee)).toEqual([
+      {
+        account: { type: 'USER_WALLET', ownerId: 'seller', currency: 'UGX' },
+        amount: 400,
+        category: 'EARNING',
+      },
+      {
+        account: {
+          type: 'PLATFORM_REVENUE',
+          ownerId: 'system',
+          currency: 'UGX',
+        },
+        amount: 100,
+        category: 'EARNING',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CommissionRule, Prisma, SaleType } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Money } from 'src/common/money/money';
+import { LedgerLeg } from 'src/ledger/dto/ledger.dto';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { FeeBreakdown } from './dto/commission.dto';
+
+const BPS_DENOMINATOR = 10000;
+const DEFAULT_COMMISSION_BPS = 2000;
+
+@Injectable()
+export class CommissionService {
+  private readonly logger = new Logger(CommissionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Split a sale into platform fee and seller earnings using the rule in
+   * force at the given time. The fee rounds half up; the seller receives
+   * the remainder so the parts always add up to the gross price.
+   */
+  async quote(
+    sellerId: string,
+    saleType: SaleType,
+    gross: Money,
+    at: Date = new Date(),
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<FeeBreakdown> {
+    const rule = await this.resolveRule(sellerId, saleType, at, tx);
+    const rateBps = rule ? rule.rateBps : this.defaultRateBps();
+    const platformFee = gross.multiply(rateBps / BPS_DENOMINATOR);
+
+    return {
+      saleType,
+      gross,
+      platformFee,
+      sellerAmount: gross.subtract(platformFee),
+      rateBps,
+      ruleId: rule?.id ?? null,
+      promotional: !!rule && this.isPromotional(rule),
+    };
+  }
+
+  /**
+   * Split a stored fee back into its parts, e.g. when a sale recorded
+   * earlier is settled or refunded
+   */
+  breakdownOf(
+    saleType: SaleType,
+    gross: Money,
+    platformFee: number,
+  ): FeeBreakdown {
+    const fee = Money.of(platformFee, gross.currency);
+    return {
+      saleType,
+      gross,
+      platformFee: fee,
+      sellerAmount: gross.subtract(fee),
+      rateBps: gross.isZero()
+        ? 0
+        : Math.round((platformFee * BPS_DENOMINATOR) / gross.amount),
+      ruleId: null,
+      promotional: false,
+    };
+  }
+
+  /**
+   * Credit legs for a sale: seller earnings and platform revenue
+   */
+  creditLegs(sellerId: string, fee: FeeBreakdown): LedgerLeg[] {
+    return [
+      {
+        account: LedgerAccounts.wallet(sellerId, fee.gross.currency),
+        amount: fee.sellerAmount.amount,
+        category: 'EARNING',
+      },
+      {
+        account: LedgerAccounts.platformRevenue(fee.gross.currency),
+        amount: fee.platformFee.amount,
+        category: 'EARNING',
+      },
+    ];
+  }
+
+  private async resolveRule(
+    sellerId: string,
+    saleType: SaleType,
+    at: Date,
+    tx: Prisma.TransactionClient,
+  ): Promise<CommissionRule | null> {
+    const rules = await tx.commissionRule.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ sellerId }, { sellerId: null }] },
+          { OR: [{ saleType }, { saleType: null }] },
+          { OR: [{ startsAt: null }, { startsAt: { lte: at } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gt: at } }] },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (rules.length === 0) return null;
+
+    return rules.reduce((best, rule) =>
+      this.precedence(rule) > this.precedence(best) ? rule : best,
+    );
+  }
+
+  /**
+   * Promotional windows outrank everything, then specificity decides
+   */
+  private precedence(rule: CommissionRule): number {
+    return (
+      (this.isPromotional(rule) ? 4 : 0) +
+      (rule.sellerId ? 2 : 0) +
+      (rule.saleType ? 1 : 0)
+    );
+  }
+
+  private isPromotional(rule: CommissionRule): boolean {
+    return rule.startsAt !== null || rule.endsAt !== null;
+  }
+
+  private defaultRateBps(): number {
+    const raw = this.configService.get<string>('PLATFORM_COMMISSION_BPS');
+    if (raw === undefined || raw === '') return DEFAULT_COMMISSION_BPS;
+
+    const configured = Number(raw);
+    if (
+      Number.isInteger(configured) &&
+      configured >= 0 &&
+      configured <= BPS_DENOMINATOR
+    ) {
+      return configured;
+    }
+
+    this.logger.warn(
+      `Ignoring invalid PLATFORM_COMMISSION_BPS "${raw}", using ${DEFAULT_COMMISSION_BPS}`,
+    );
+    return DEFAULT_COMMISSION_BPS;
+  }
+}
@@ -0,0 +1,12 @@
+import { SaleType } from '@prisma/client';
+import { Money } from 'src/common/money/money';
+
+export interface FeeBreakdown {
+  saleType: SaleType;
+  gross: Money;
+  platformFee: Money;
+  sellerAmount: Money;
+  rateBps: number;
+  ruleId: string | null;
+  promotional: boolean;
+}
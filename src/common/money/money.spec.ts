@@ -0,0 +1,63 @@
+import { Money } from './money';
+
+describe('Money', () => {
+  it('only holds whole minor units', () => {
+    expect(() => Money.of(10.5)).toThrow('must be an integer');
+    expect(Money.of(1050, 'kes')).toEqual(Money.of(1050, 'KES'));
+  });
+
+  describe('fromMajor', () => {
+    it('uses the minor-unit scale of the currency', () => {
+      expect(Money.fromMajor(12.34).amount).toBe(1234);
+      expect(Money.fromMajor(1500, 'UGX').amount).toBe(1500);
+      expect(Money.fromMajor(1, 'TZS').amount).toBe(100);
+    });
+
+    it('ignores float noise before rounding', () => {
+      // 19.99 * 100 is 1998.9999999999998 in floating point
+      expect(Money.fromMajor(19.99).amount).toBe(1999);
+      expect(Money.fromMajor(0.1 + 0.2).amount).toBe(30);
+    });
+
+    it('rounds half away from zero by default', () => {
+      expect(Money.fromMajor(0.125).amount).toBe(13);
+      expect(Money.fromMajor(-0.125).amount).toBe(-13);
+    });
+
+    it('applies the requested rounding', () => {
+      expect(Money.fromMajor(0.121, 'KES', 'CEIL').amount).toBe(13);
+      expect(Money.fromMajor(0.129, 'KES', 'FLOOR').amount).toBe(12);
+    });
+  });
+
+  it('multiplies with rounding', () => {
+    expect(Money.of(1001).multiply(0.5).amount).toBe(501);
+    expect(Money.of(1001).multiply(0.5, 'FLOOR').amount).toBe(500);
+    expect(Money.of(1001).multiply(1 / 3, 'CEIL').amount).toBe(334);
+  });
+
+  it('prorates rounding down', () => {
+    expect(Money.of(1000).prorate(1, 3).amount).toBe(333);
+    expect(Money.of(1000).prorate(-5, 10).amount).toBe(0);
+    expect(Money.of(1000).prorate(5, 0).amount).toBe(0);
+  });
+
+  it('refuses to mix currencies', () => {
+    expect(() => Money.of(100).add(Money.of(100, 'UGX'))).toThrow(
+      'Currency mismatch: KES and UGX',
+    );
+    expect(() => Money.of(100).lessThan(Money.of(100, 'USD'))).toThrow();
+  });
+
+  it('formats with the digits of the currency', () => {
+    expect(Money.of(123456).format()).toBe('KES 1234.56');
+    expect(Money.of(1500, 'UGX').format()).toBe('UGX 1500');
+    expect(Money.of(-5).toMajor()).toBe(-0.05);
+  });
+
+  it('serialises as minor units and currency', () => {
+    expect(JSON.stringify({ price: Money.of(2500) })).toBe(
+      '{"price":{"amount":2500,"currency":"KES"}}',
+    );
+  });
+});
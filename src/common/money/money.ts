@@ -0,0 +1,132 @@
+export const DEFAULT_CURRENCY = 'KES';
+
+/** Number of minor units per major unit, keyed by ISO 4217 code */
+const MINOR_UNIT_SCALE: Record<string, number> = {
+  KES: 100,
+  UGX: 1,
+  TZS: 100,
+  USD: 100,
+};
+
+/**
+ * Rounding rules for amounts that do not land on a whole minor unit:
+ * - HALF_UP: converting external major-unit amounts (M-Pesa, legacy floats)
+ * - CEIL: metered usage billed to the buyer (partial seconds are charged)
+ * - FLOOR: prorated refunds (partial minor units stay with the seller)
+ */
+export type Rounding = 'HALF_UP' | 'CEIL' | 'FLOOR';
+
+export interface MoneyJson {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Immutable amount in integer minor units (e.g. cents) of an ISO currency.
+ * Every monetary column stores minor units; Money is how services carry
+ * them around and how they are serialised in API responses.
+ */
+export class Money {
+  private constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+
+  static of(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+    if (!Number.isSafeInteger(amount)) {
+      throw new Error(`Money amount must be an integer, got ${amount}`);
+    }
+    return new Money(amount, currency.toUpperCase());
+  }
+
+  static zero(currency: string = DEFAULT_CURRENCY): Money {
+    return Money.of(0, currency);
+  }
+
+  static fromMajor(
+    major: number,
+    currency: string = DEFAULT_CURRENCY,
+    rounding: Rounding = 'HALF_UP',
+  ): Money {
+    return Money.of(round(major * scaleOf(currency), rounding), currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount + other.amount, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount - other.amount, this.currency);
+  }
+
+  multiply(factor: number, rounding: Rounding = 'HALF_UP'): Money {
+    return Money.of(round(this.amount * factor, rounding), this.currency);
+  }
+
+  /**
+   * Share of this amount proportional to part/whole, rounded down
+   */
+  prorate(part: number, whole: number): Money {
+    if (whole <= 0) return Money.zero(this.currency);
+    return Money.of(
+      Math.floor((this.amount * Math.max(0, part)) / whole),
+      this.currency,
+    );
+  }
+
+  negate(): Money {
+    return Money.of(-this.amount, this.currency);
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount < other.amount;
+  }
+
+  toMajor(): number {
+    return this.amount / scaleOf(this.currency);
+  }
+
+  format(): string {
+    const digits = Math.round(Math.log10(scaleOf(this.currency)));
+    return `${this.currency} ${this.toMajor().toFixed(digits)}`;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): MoneyJson {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money) {
+    if (other.currency !== this.currency) {
+      throw new Error(
+        `Currency mismatch: ${this.currency} and ${other.currency}`,
+      );
+    }
+  }
+}
+
+function scaleOf(currency: string): number {
+  return MINOR_UNIT_SCALE[currency.toUpperCase()] ?? 100;
+}
+
+function round(value: number, rounding: Rounding): number {
+  // Trim float noise such as 1234.4999999998 before applying the rule
+  const trimmed = Math.round(value * 1e6) / 1e6;
+  if (rounding === 'CEIL') return Math.ceil(trimmed);
+  if (rounding === 'FLOOR') return Math.floor(trimmed);
+  return Math.sign(trimmed) * Math.round(Math.abs(trimmed));
+}
@@ -0,0 +1,141 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { DisputeStatus, DisputeSubjectType } from '@prisma/client';
+import { DisputeService } from './dispute.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+import {
+  OpenDisputeDto,
+  ResolveDisputeDto,
+  SubmitEvidenceDto,
+} from './dto/dispute.dto';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('api/v1/disputes')
+@UseGuards(AuthGuardService, RolesGuard)
+export class DisputeController {
+  constructor(private readonly disputeService: DisputeService) {}
+
+  /**
+   * Dispute a paid service session, chat session or content charge
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async openDispute(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: OpenDisputeDto,
+  ) {
+    return this.disputeService.openDispute(req.user.id, dto);
+  }
+
+  /**
+   * Disputes the user opened or that were opened against them
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getUserDisputes(
+    @Req() req: AuthenticatedRequest,
+    @Query('role') role?: 'buyer' | 'seller',
+    @Query('status') status?: DisputeStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.disputeService.getUserDisputes(
+      req.user.id,
+      role,
+      status,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * List all disputes for review
+   */
+  @Get('admin')
+  @HttpCode(HttpStatus.OK)
+  @Roles('support')
+  async getDisputes(
+    @Query('status') status?: DisputeStatus,
+    @Query('subjectType') subjectType?: DisputeSubjectType,
+    @Query('userId') userId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.disputeService.getDisputes(
+      { status, subjectType, userId },
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  @Get('admin/:disputeId')
+  @HttpCode(HttpStatus.OK)
+  @Roles('support')
+  async getDisputeDetails(@Param('disputeId') disputeId: string) {
+    return this.disputeService.getDisputeDetails(disputeId);
+  }
+
+  /**
+   * Refund the buyer in full or in part, or reject the dispute
+   */
+  @Post('admin/:disputeId/resolve')
+  @HttpCode(HttpStatus.OK)
+  @Roles('support')
+  async resolveDispute(
+    @Req() req: AuthenticatedRequest,
+    @Param('disputeId') disputeId: string,
+    @Body() dto: ResolveDisputeDto,
+  ) {
+    return this.disputeService.resolveDispute(req.user.id, disputeId, dto);
+  }
+
+  @Get(':disputeId')
+  @HttpCode(HttpStatus.OK)
+  async getDispute(
+    @Req() req: AuthenticatedRequest,
+    @Param('disputeId') disputeId: string,
+  ) {
+    return this.disputeService.getDispute(req.user.id, disputeId);
+  }
+
+  /**
+   * Add a note, chat messages or attachments to an open dispute
+   */
+  @Post(':disputeId/evidence')
+  @HttpCode(HttpStatus.CREATED)
+  async submitEvidence(
+    @Req() req: AuthenticatedRequest,
+    @Param('disputeId') disputeId: string,
+    @Body() dto: SubmitEvidenceDto,
+  ) {
+    return this.disputeService.submitEvidence(req.user.id, disputeId, dto);
+  }
+
+  @Post(':disputeId/withdraw')
+  @HttpCode(HttpStatus.OK)
+  async withdrawDispute(
+    @Req() req: AuthenticatedRequest,
+    @Param('disputeId') disputeId: string,
+  ) {
+    return this.disputeService.withdrawDispute(req.user.id, disputeId);
+  }
+}
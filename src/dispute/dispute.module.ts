@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DisputeService } from './dispute.service';
+import { DisputeController } from './dispute.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { RealtimeModule } from 'src/realtime/realtime.module';
+import { ServiceRequestModule } from 'src/service-request/service-request.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    ConfigModule,
+    LedgerModule,
+    AuditModule,
+    RealtimeModule,
+    ServiceRequestModule,
+  ],
+  controllers: [DisputeController],
+  providers: [DisputeService],
+  exports: [DisputeService],
+})
+export class DisputeModule {}
@@ -0,0 +1,252 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Dispute } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { AuditService } from 'src/audit/audit.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { ServiceNotificationService } from 'src/service-request/service-notification.service';
+import { LedgerLeg } from 'src/ledger/dto/ledger.dto';
+import { DisputeService } from './dispute.service';
+
+const HOUR = 3600 * 1000;
+
+const endedSession = {
+  id: 'chat_1',
+  buyerId: 'buyer',
+  sellerId: 'seller',
+  isPaid: true,
+  isActive: false,
+  isCancelled: false,
+  price: 1000,
+  platformFee: 200,
+  sellerAmount: 800,
+  currency: 'KES',
+  endTime: new Date(Date.now() - 2 * HOUR),
+  updatedAt: new Date(Date.now() - HOUR),
+};
+
+const openDispute: Dispute = {
+  id: 'dsp_1',
+  subjectType: 'CHAT_SESSION',
+  subjectId: 'chat_1',
+  buyerId: 'buyer',
+  sellerId: 'seller',
+  reason: 'Seller never replied',
+  status: 'OPEN',
+  amount: 1000,
+  platformFee: 200,
+  sellerAmount: 800,
+  currency: 'KES',
+  refundAmount: null,
+  resolutionNote: null,
+  resolvedBy: null,
+  resolvedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+/** Legs of the single ledger posting, as account type and amount */
+function postedLegs(post: jest.Mock) {
+  expect(post).toHaveBeenCalledTimes(1);
+  const [[, posting]] = post.mock.calls as [[unknown, { legs: LedgerLeg[] }]];
+  return posting.legs.map((leg) => [leg.account.type, leg.amount]);
+}
+
+describe('DisputeService', () => {
+  let service: DisputeService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let ledgerService: { post: jest.Mock };
+
+  function createPrisma() {
+    const client = {
+      $transaction: jest.fn(
+        (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(client),
+      ),
+      chatSession: { findUnique: jest.fn().mockResolvedValue(endedSession) },
+      ledgerEntry: { findMany: jest.fn().mockResolvedValue([]) },
+      dispute: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(openDispute),
+        create: jest.fn().mockResolvedValue(openDispute),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      disputeEvidence: { createMany: jest.fn() },
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        DisputeService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        {
+          provide: ServiceNotificationService,
+          useValue: { create: jest.fn(), publish: jest.fn() },
+        },
+        { provide: RealtimeService, useValue: { emitToUser: jest.fn() } },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get(DisputeService);
+  });
+
+  describe('openDispute', () => {
+    const open = () =>
+      service.openDispute('buyer', {
+        subjectType: 'CHAT_SESSION',
+        subjectId: 'chat_1',
+        reason: 'Seller never replied',
+      });
+
+    it("moves the seller's share into a dispute hold", async () => {
+      prisma.dispute.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue({ ...openDispute, evidence: [] });
+
+      await open();
+
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_WALLET', -800],
+        ['USER_DISPUTE_HOLD', 800],
+      ]);
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ kind: 'DISPUTE_HOLD', allowOverdraft: true }),
+      );
+    });
+
+    it('refuses a chat session that is still running', async () => {
+      prisma.chatSession.findUnique.mockResolvedValue({
+        ...endedSession,
+        isActive: true,
+        endTime: new Date(Date.now() + HOUR),
+      });
+
+      await expect(open()).rejects.toThrow(
+        'Chat sessions can be disputed once they have ended',
+      );
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('only holds what was not already refunded on cancellation', async () => {
+      prisma.chatSession.findUnique.mockResolvedValue({
+        ...endedSession,
+        isCancelled: true,
+      });
+      // Half the session was refunded: 400 from the seller, 100 fee
+      prisma.ledgerEntry.findMany.mockResolvedValue([
+        {
+          amount: -400,
+          account: { ownerId: 'seller', type: 'USER_WALLET' },
+        },
+        {
+          amount: -100,
+          account: { ownerId: 'system', type: 'PLATFORM_REVENUE' },
+        },
+        { amount: 500, account: { ownerId: 'buyer', type: 'USER_WALLET' } },
+      ]);
+      prisma.dispute.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue({ ...openDispute, evidence: [] });
+
+      await open();
+
+      expect(prisma.dispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 500,
+          platformFee: 100,
+          sellerAmount: 400,
+        }) as unknown,
+      });
+    });
+
+    it('refuses disputes after the window closes', async () => {
+      prisma.chatSession.findUnique.mockResolvedValue({
+        ...endedSession,
+        endTime: new Date(Date.now() - 8 * 24 * HOUR),
+        updatedAt: new Date(Date.now() - 8 * 24 * HOUR),
+      });
+
+      await expect(open()).rejects.toThrow('within 7 days');
+    });
+  });
+
+  describe('resolveDispute', () => {
+    beforeEach(() => {
+      prisma.dispute.findUnique.mockResolvedValue(openDispute);
+    });
+
+    const resolve = (
+      outcome: 'FULL_REFUND' | 'PARTIAL_REFUND' | 'REJECT',
+      refundAmount?: number,
+    ) =>
+      service.resolveDispute('support', 'dsp_1', {
+        outcome,
+        refundAmount,
+        note: 'Reviewed the chat',
+      });
+
+    it('refunds in full from the hold and the platform fee', async () => {
+      await resolve('FULL_REFUND');
+
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_DISPUTE_HOLD', -800],
+        ['USER_WALLET', 0],
+        ['PLATFORM_REVENUE', -200],
+        ['USER_WALLET', 1000],
+      ]);
+    });
+
+    it('splits a partial refund in proportion and releases the rest', async () => {
+      await resolve('PARTIAL_REFUND', 333);
+
+      // The fee gives back floor(200 * 333 / 1000) = 66, the seller 267
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_DISPUTE_HOLD', -800],
+        ['USER_WALLET', 533],
+        ['PLATFORM_REVENUE', -66],
+        ['USER_WALLET', 333],
+      ]);
+    });
+
+    it('releases the whole hold when rejected', async () => {
+      await resolve('REJECT');
+
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_DISPUTE_HOLD', -800],
+        ['USER_WALLET', 800],
+        ['PLATFORM_REVENUE', -0],
+        ['USER_WALLET', 0],
+      ]);
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ kind: 'DISPUTE_RELEASE' }),
+      );
+    });
+
+    it.each([0, 1000, 12.5])(
+      'rejects a partial refund of %p',
+      async (refundAmount) => {
+        await expect(resolve('PARTIAL_REFUND', refundAmount)).rejects.toThrow(
+          'Partial refunds must be between 1 and 999 minor units',
+        );
+      },
+    );
+
+    it('refuses to close a dispute twice', async () => {
+      prisma.dispute.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(resolve('FULL_REFUND')).rejects.toThrow(BadRequestException);
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+  });
+});
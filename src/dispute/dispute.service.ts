@@ -0,0 +1,814 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Dispute,
+  DisputeStatus,
+  DisputeSubjectType,
+  Prisma,
+  ServiceNotification,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts, SYSTEM_OWNER } from 'src/ledger/ledger-accounts';
+import { Money } from 'src/common/money/money';
+import { AuditService } from 'src/audit/audit.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { ServiceNotificationService } from 'src/service-request/service-notification.service';
+import {
+  DISPUTE_OUTCOMES,
+  DisputeSubject,
+  OpenDisputeDto,
+  ResolveDisputeDto,
+  SubmitEvidenceDto,
+} from './dto/dispute.dto';
+
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_EVIDENCE_ITEMS = 10;
+
+const RESOLVED_STATUS: Record<
+  ResolveDisputeDto['outcome'],
+  Extract<DisputeStatus, 'REFUNDED' | 'PARTIALLY_REFUNDED' | 'REJECTED'>
+> = {
+  FULL_REFUND: 'REFUNDED',
+  PARTIAL_REFUND: 'PARTIALLY_REFUNDED',
+  REJECT: 'REJECTED',
+};
+
+/**
+ * Buyer complaints about service sessions, chat time and paid content.
+ * Opening a dispute moves the seller's share into a dispute hold so it
+ * cannot be spent or withdrawn; support then refunds the buyer in full or
+ * in part, or rejects the dispute and releases the hold to the seller.
+ */
+@Injectable()
+export class DisputeService {
+  private readonly logger = new Logger(DisputeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly auditService: AuditService,
+    private readonly notificationService: ServiceNotificationService,
+    private readonly realtimeService: RealtimeService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async openDispute(buyerId: string, dto: OpenDisputeDto) {
+    if (!Object.values(DisputeSubjectType).includes(dto.subjectType)) {
+      throw new BadRequestException(
+        `Subject type must be one of ${Object.values(DisputeSubjectType).join(', ')}`,
+      );
+    }
+
+    if (!dto.subjectId || !dto.reason?.trim()) {
+      throw new BadRequestException('Subject ID and reason are required');
+    }
+
+    const subject = await this.findSubject(dto.subjectType, dto.subjectId);
+
+    if (subject.buyerId !== buyerId) {
+      throw new ForbiddenException('Only the buyer can dispute this purchase');
+    }
+
+    const windowDays = this.windowDays();
+    const closesAt = new Date(
+      subject.deliveredAt.getTime() + windowDays * 24 * 3600000,
+    );
+    if (closesAt < new Date()) {
+      throw new BadRequestException(
+        `Disputes must be opened within ${windowDays} days`,
+      );
+    }
+
+    if (subject.amount <= 0) {
+      throw new BadRequestException('Nothing is left to refund');
+    }
+
+    const existing = await this.prisma.dispute.findUnique({
+      where: {
+        subjectType_subjectId: {
+          subjectType: dto.subjectType,
+          subjectId: dto.subjectId,
+        },
+      },
+    });
+    if (existing) {
+      throw new ConflictException('This purchase has already been disputed');
+    }
+
+    const evidence = await this.validateEvidence(subject, dto);
+    const outbox: ServiceNotification[] = [];
+
+    const dispute = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.dispute.create({
+        data: {
+          subjectType: dto.subjectType,
+          subjectId: dto.subjectId,
+          buyerId,
+          sellerId: subject.sellerId,
+          reason: dto.reason.trim(),
+          amount: subject.amount,
+          platformFee: subject.platformFee,
+          sellerAmount: subject.sellerAmount,
+          currency: subject.currency,
+        },
+      });
+
+      // The seller may already have spent or withdrawn the earnings, so the
+      // hold can take their wallet below zero
+      if (subject.sellerAmount > 0) {
+        await this.ledgerService.post(tx, {
+          kind: 'DISPUTE_HOLD',
+          description: `Earnings held for dispute ${created.id}`,
+          referenceType: 'Dispute',
+          referenceId: created.id,
+          allowOverdraft: true,
+          legs: [
+            {
+              account: LedgerAccounts.wallet(
+                subject.sellerId,
+                subject.currency,
+              ),
+              amount: -subject.sellerAmount,
+              category: 'EARNING',
+            },
+            {
+              account: LedgerAccounts.disputeHold(
+                subject.sellerId,
+                subject.currency,
+              ),
+              amount: subject.sellerAmount,
+              category: 'EARNING',
+            },
+          ],
+        });
+      }
+
+      await this.addEvidence(tx, created.id, buyerId, evidence);
+
+      await this.auditService.record(
+        {
+          action: 'DISPUTE_OPENED',
+          entityType: 'Dispute',
+          entityId: created.id,
+          reason: created.reason,
+          after: created,
+        },
+        tx,
+      );
+
+      if (subject.requestId) {
+        outbox.push(
+          await this.notificationService.create(tx, {
+            userId: subject.sellerId,
+            requestId: subject.requestId,
+            notificationType: 'DISPUTE_OPENED',
+            title: 'Dispute Opened',
+            message: `A buyer disputed a payment of ${Money.of(subject.amount, subject.currency).format()}. The earnings are on hold until support reviews it`,
+            metadata: { disputeId: created.id },
+          }),
+        );
+      }
+
+      return created;
+    });
+
+    await this.notificationService.publish(outbox);
+    this.broadcast(dispute);
+
+    this.logger.log(
+      `Dispute ${dispute.id} opened on ${dispute.subjectType} ${dispute.subjectId}`,
+    );
+
+    return this.getDispute(buyerId, dispute.id);
+  }
+
+  async submitEvidence(
+    userId: string,
+    disputeId: string,
+    dto: SubmitEvidenceDto,
+  ) {
+    const dispute = await this.findForParticipant(userId, disputeId);
+
+    if (dispute.status !== 'OPEN') {
+      throw new BadRequestException('This dispute has been closed');
+    }
+
+    const evidence = await this.validateEvidence(dispute, dto);
+    if (evidence.length === 0) {
+      throw new BadRequestException(
+        'Add a note, chat messages or attachments as evidence',
+      );
+    }
+
+    await this.prisma.$transaction((tx) =>
+      this.addEvidence(tx, dispute.id, userId, evidence),
+    );
+
+    this.broadcast(dispute);
+
+    return this.getDispute(userId, dispute.id);
+  }
+
+  /**
+   * Let the buyer drop their dispute; the held earnings go back to the
+   * seller
+   */
+  async withdrawDispute(buyerId: string, disputeId: string) {
+    const dispute = await this.findForParticipant(buyerId, disputeId);
+
+    if (dispute.buyerId !== buyerId) {
+      throw new ForbiddenException('Only the buyer can withdraw a dispute');
+    }
+
+    const closed = await this.close(dispute, 'WITHDRAWN', 0, {
+      note: 'Withdrawn by the buyer',
+    });
+
+    return { success: true, dispute: this.present(closed) };
+  }
+
+  async resolveDispute(
+    supportId: string,
+    disputeId: string,
+    dto: ResolveDisputeDto,
+  ) {
+    if (!DISPUTE_OUTCOMES.includes(dto.outcome)) {
+      throw new BadRequestException(
+        `Outcome must be one of ${DISPUTE_OUTCOMES.join(', ')}`,
+      );
+    }
+
+    if (!dto.note?.trim()) {
+      throw new BadRequestException('A resolution note is required');
+    }
+
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    let refund = 0;
+    if (dto.outcome === 'FULL_REFUND') refund = dispute.amount;
+    if (dto.outcome === 'PARTIAL_REFUND') {
+      if (
+        !Number.isInteger(dto.refundAmount) ||
+        dto.refundAmount! <= 0 ||
+        dto.refundAmount! >= dispute.amount
+      ) {
+        throw new BadRequestException(
+          `Partial refunds must be between 1 and ${dispute.amount - 1} minor units`,
+        );
+      }
+      refund = dto.refundAmount!;
+    }
+
+    const closed = await this.close(
+      dispute,
+      RESOLVED_STATUS[dto.outcome],
+      refund,
+      { note: dto.note.trim(), resolvedBy: supportId },
+    );
+
+    return { success: true, dispute: this.present(closed) };
+  }
+
+  async getDispute(userId: string, disputeId: string) {
+    await this.findForParticipant(userId, disputeId);
+    return this.getDisputeDetails(disputeId);
+  }
+
+  async getDisputeDetails(disputeId: string) {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: { evidence: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    return this.present(dispute);
+  }
+
+  async getUserDisputes(
+    userId: string,
+    role?: 'buyer' | 'seller',
+    status?: DisputeStatus,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const where: Prisma.DisputeWhereInput = {
+      ...(role === 'buyer' && { buyerId: userId }),
+      ...(role === 'seller' && { sellerId: userId }),
+      ...(!role && { OR: [{ buyerId: userId }, { sellerId: userId }] }),
+      ...(status && { status }),
+    };
+
+    return this.list(where, page, limit);
+  }
+
+  async getDisputes(
+    filters: {
+      status?: DisputeStatus;
+      subjectType?: DisputeSubjectType;
+      userId?: string;
+    },
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const where: Prisma.DisputeWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.subjectType && { subjectType: filters.subjectType }),
+      ...(filters.userId && {
+        OR: [{ buyerId: filters.userId }, { sellerId: filters.userId }],
+      }),
+    };
+
+    return this.list(where, page, limit);
+  }
+
+  /**
+   * Close an open dispute: refund `refund` to the buyer out of the held
+   * earnings and platform fee in proportion, and return the rest of the
+   * hold to the seller
+   */
+  private async close(
+    dispute: Dispute,
+    status: Exclude<DisputeStatus, 'OPEN'>,
+    refund: number,
+    resolution: { note: string; resolvedBy?: string },
+  ) {
+    const currency = dispute.currency;
+    // The platform gives back its fee in proportion, rounded down; the
+    // seller covers the rest of the refund
+    const proratedFee = Money.of(dispute.platformFee, currency).prorate(
+      refund,
+      dispute.amount,
+    );
+    const sellerShare = Math.min(
+      dispute.sellerAmount,
+      refund - proratedFee.amount,
+    );
+    const platformShare = refund - sellerShare;
+    const outbox: ServiceNotification[] = [];
+
+    const closed = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.dispute.updateMany({
+        where: { id: dispute.id, status: 'OPEN' },
+        data: {
+          status,
+          refundAmount: refund,
+          resolutionNote: resolution.note,
+          resolvedBy: resolution.resolvedBy,
+          resolvedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('This dispute has already been closed');
+      }
+
+      const seller = LedgerAccounts.wallet(dispute.sellerId, currency);
+      const buyer = LedgerAccounts.wallet(dispute.buyerId, currency);
+      if (dispute.sellerAmount > 0 || refund > 0) {
+        await this.ledgerService.post(tx, {
+          kind: refund > 0 ? 'DISPUTE_REFUND' : 'DISPUTE_RELEASE',
+          description:
+            refund > 0
+              ? `Refund of ${Money.of(refund, currency).format()} for dispute ${dispute.id}`
+              : `Held earnings released for dispute ${dispute.id}`,
+          referenceType: 'Dispute',
+          referenceId: dispute.id,
+          legs: [
+            {
+              account: LedgerAccounts.disputeHold(dispute.sellerId, currency),
+              amount: -dispute.sellerAmount,
+              category: 'EARNING',
+            },
+            {
+              account: seller,
+              amount: dispute.sellerAmount - sellerShare,
+              category: 'EARNING',
+            },
+            {
+              account: LedgerAccounts.platformRevenue(currency),
+              amount: -platformShare,
+              category: 'EARNING',
+            },
+            { account: buyer, amount: refund, category: 'SPEND' },
+          ],
+        });
+      }
+
+      const updated = await tx.dispute.findUniqueOrThrow({
+        where: { id: dispute.id },
+      });
+
+      await this.auditService.record(
+        {
+          action: `DISPUTE_${status}`,
+          entityType: 'Dispute',
+          entityId: dispute.id,
+          reason: resolution.note,
+          before: dispute,
+          after: updated,
+        },
+        tx,
+      );
+
+      if (dispute.subjectType === 'SERVICE_SESSION') {
+        const session = await tx.serviceSession.findUniqueOrThrow({
+          where: { id: dispute.subjectId },
+        });
+
+        if (refund > 0) {
+          await this.recordServiceRefund(
+            tx,
+            dispute,
+            session,
+            refund,
+            sellerShare,
+          );
+        }
+
+        for (const userId of [dispute.buyerId, dispute.sellerId]) {
+          outbox.push(
+            await this.notificationService.create(tx, {
+              userId,
+              requestId: session.requestId,
+              notificationType: 'DISPUTE_RESOLVED',
+              title: 'Dispute Closed',
+              message: this.closingMessage(updated),
+              metadata: { disputeId: dispute.id, status },
+            }),
+          );
+        }
+      }
+
+      return updated;
+    });
+
+    await this.notificationService.publish(outbox);
+    this.broadcast(closed);
+
+    this.logger.log(
+      `Dispute ${dispute.id} closed as ${status}, refund ${Money.of(refund, currency).format()}`,
+    );
+
+    return closed;
+  }
+
+  /**
+   * Service sessions keep a per-user transaction history next to the
+   * ledger
+   */
+  private async recordServiceRefund(
+    tx: Prisma.TransactionClient,
+    dispute: Dispute,
+    session: { id: string; requestId: string },
+    refund: number,
+    sellerShare: number,
+  ) {
+    const balances = await tx.userBalance.findMany({
+      where: { userId: { in: [dispute.buyerId, dispute.sellerId] } },
+    });
+    const balanceOf = (userId: string) =>
+      balances.find((b) => b.userId === userId)?.availableBalance ?? 0;
+
+    await tx.serviceTransaction.createMany({
+      data: [
+        {
+          userId: dispute.buyerId,
+          requestId: session.requestId,
+          sessionId: session.id,
+          transactionType: 'REFUND',
+          amount: refund,
+          currency: dispute.currency,
+          previousBalance: balanceOf(dispute.buyerId) - refund,
+          newBalance: balanceOf(dispute.buyerId),
+          description: `Refund from dispute ${dispute.id}`,
+          metadata: { disputeId: dispute.id },
+        },
+        {
+          userId: dispute.sellerId,
+          requestId: session.requestId,
+          sessionId: session.id,
+          transactionType: 'REFUND',
+          amount: -sellerShare,
+          currency: dispute.currency,
+          previousBalance: balanceOf(dispute.sellerId),
+          newBalance: balanceOf(dispute.sellerId),
+          description: `Earnings refunded to the buyer for dispute ${dispute.id}`,
+          metadata: { disputeId: dispute.id },
+        },
+      ],
+    });
+  }
+
+  private closingMessage(dispute: Dispute) {
+    const refund = Money.of(dispute.refundAmount ?? 0, dispute.currency);
+    switch (dispute.status) {
+      case 'REFUNDED':
+        return `The dispute was resolved with a full refund of ${refund.format()}`;
+      case 'PARTIALLY_REFUNDED':
+        return `The dispute was resolved with a partial refund of ${refund.format()}`;
+      case 'REJECTED':
+        return 'The dispute was rejected and the held earnings were released';
+      default:
+        return 'The dispute was withdrawn and the held earnings were released';
+    }
+  }
+
+  private async findSubject(
+    type: DisputeSubjectType,
+    subjectId: string,
+  ): Promise<DisputeSubject> {
+    if (type === 'SERVICE_SESSION') {
+      const session = await this.prisma.serviceSession.findUnique({
+        where: { id: subjectId },
+        include: { request: true },
+      });
+
+      if (!session || !session.isPaid) {
+        throw new NotFoundException('Paid service session not found');
+      }
+
+      // Escrowed image payments are settled by confirmation or deadline
+      if (session.deliveryDueAt && !session.isCompleted) {
+        throw new BadRequestException(
+          'Image requests can be disputed once the payment has been released',
+        );
+      }
+
+      if (session.endReason === 'NOT_DELIVERED') {
+        throw new BadRequestException('This request was already refunded');
+      }
+
+      return {
+        buyerId: session.requesterId,
+        sellerId: session.providerId,
+        amount: session.request.price,
+        platformFee: session.request.platformFee,
+        sellerAmount: session.request.sellerAmount,
+        currency: session.request.currency,
+        requestId: session.requestId,
+        deliveredAt: session.actualEnd ?? session.endTime,
+      };
+    }
+
+    if (type === 'CHAT_SESSION') {
+      const now = new Date();
+      const session = await this.prisma.chatSession.findUnique({
+        where: { id: subjectId },
+      });
+
+      if (!session || !session.isPaid) {
+        throw new NotFoundException('Paid chat session not found');
+      }
+
+      // A running session could still be used after its refund
+      const ended =
+        !session.isActive || session.isCancelled || session.endTime <= now;
+      if (!ended) {
+        throw new BadRequestException(
+          'Chat sessions can be disputed once they have ended',
+        );
+      }
+
+      // Unused minutes refunded on cancellation are no longer disputable
+      const refunds = await this.prisma.ledgerEntry.findMany({
+        where: {
+          transaction: {
+            kind: 'CHAT_TIME_REFUND',
+            referenceType: 'ChatSession',
+            referenceId: session.id,
+          },
+          account: { type: { in: ['USER_WALLET', 'PLATFORM_REVENUE'] } },
+        },
+        include: { account: true },
+      });
+      const refunded = (ownerId: string, type: string) =>
+        refunds
+          .filter(
+            (e) => e.account.ownerId === ownerId && e.account.type === type,
+          )
+          .reduce((sum, e) => sum + Math.abs(e.amount), 0);
+
+      let platformFee =
+        session.platformFee - refunded(SYSTEM_OWNER, 'PLATFORM_REVENUE');
+      let sellerAmount =
+        session.sellerAmount - refunded(session.sellerId, 'USER_WALLET');
+
+      // When the platform funded a discount the sale was worth more than
+      // the buyer paid; only what they paid can be refunded, taken from the
+      // seller and the platform in proportion
+      const paid = session.price - refunded(session.buyerId, 'USER_WALLET');
+      if (paid < platformFee + sellerAmount) {
+        const fee = Money.of(platformFee, session.currency).prorate(
+          paid,
+          platformFee + sellerAmount,
+        ).amount;
+        platformFee = fee;
+        sellerAmount = paid - fee;
+      }
+
+      return {
+        buyerId: session.buyerId,
+        sellerId: session.sellerId,
+        amount: platformFee + sellerAmount,
+        platformFee,
+        sellerAmount,
+        currency: session.currency,
+        // Sessions closed early ended when they were closed
+        deliveredAt:
+          session.isActive || session.endTime <= session.updatedAt
+            ? session.endTime
+            : session.updatedAt,
+      };
+    }
+
+    const charge = await this.prisma.contentCharge.findUnique({
+      where: { id: subjectId },
+    });
+
+    if (!charge || !charge.isPaid) {
+      throw new NotFoundException('Paid content charge not found');
+    }
+
+    return {
+      // The sender of paid content pays the monetized recipient
+      buyerId: charge.senderId,
+      sellerId: charge.recipientId,
+      amount: charge.totalAmount,
+      platformFee: charge.platformFee,
+      sellerAmount: charge.sellerAmount,
+      currency: charge.currency,
+      deliveredAt: charge.paidAt ?? charge.createdAt,
+    };
+  }
+
+  /**
+   * Check submitted evidence: messages must be from the chat between the
+   * buyer and the seller, attachments must be https URLs
+   */
+  private async validateEvidence(
+    parties: { buyerId: string; sellerId: string },
+    dto: SubmitEvidenceDto,
+  ) {
+    const messageIds = [...new Set(dto.messageIds ?? [])];
+    const attachmentUrls = dto.attachmentUrls ?? [];
+    const note = dto.note?.trim();
+
+    if (messageIds.length + attachmentUrls.length > MAX_EVIDENCE_ITEMS) {
+      throw new BadRequestException(
+        `Submit at most ${MAX_EVIDENCE_ITEMS} messages and attachments at a time`,
+      );
+    }
+
+    for (const url of attachmentUrls) {
+      if (!this.isHttpsUrl(url)) {
+        throw new BadRequestException(`Invalid attachment URL: ${url}`);
+      }
+    }
+
+    if (messageIds.length > 0) {
+      const participants = [parties.buyerId, parties.sellerId];
+      const messages = await this.prisma.message.findMany({
+        where: {
+          id: { in: messageIds },
+          isDeleted: false,
+          senderId: { in: participants },
+          chatRoom: {
+            participant1: { in: participants },
+            participant2: { in: participants },
+          },
+        },
+        select: { id: true },
+      });
+
+      if (messages.length !== messageIds.length) {
+        throw new BadRequestException(
+          'Evidence can only include messages between the buyer and the seller',
+        );
+      }
+    }
+
+    return [
+      ...(note ? [{ note }] : []),
+      ...messageIds.map((messageId) => ({ messageId })),
+      ...attachmentUrls.map((attachmentUrl) => ({ attachmentUrl })),
+    ];
+  }
+
+  private addEvidence(
+    tx: Prisma.TransactionClient,
+    disputeId: string,
+    submittedBy: string,
+    evidence: Array<{
+      note?: string;
+      messageId?: string;
+      attachmentUrl?: string;
+    }>,
+  ) {
+    return tx.disputeEvidence.createMany({
+      data: evidence.map((item) => ({ ...item, disputeId, submittedBy })),
+    });
+  }
+
+  private async list(
+    where: Prisma.DisputeWhereInput,
+    page: number,
+    limit: number,
+  ) {
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      this.prisma.dispute.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      items: items.map((dispute) => this.present(dispute)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async findForParticipant(userId: string, disputeId: string) {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    if (dispute.buyerId !== userId && dispute.sellerId !== userId) {
+      throw new ForbiddenException('You are not a party to this dispute');
+    }
+
+    return dispute;
+  }
+
+  private present<T extends Dispute>(dispute: T) {
+    return {
+      ...dispute,
+      amount: Money.of(dispute.amount, dispute.currency),
+      platformFee: Money.of(dispute.platformFee, dispute.currency),
+      sellerAmount: Money.of(dispute.sellerAmount, dispute.currency),
+      refundAmount:
+        dispute.refundAmount === null
+          ? null
+          : Money.of(dispute.refundAmount, dispute.currency),
+    };
+  }
+
+  private broadcast(dispute: Dispute) {
+    const payload = {
+      disputeId: dispute.id,
+      subjectType: dispute.subjectType,
+      subjectId: dispute.subjectId,
+      status: dispute.status,
+    };
+    this.realtimeService.emitToUser(dispute.buyerId, 'disputeUpdated', payload);
+    this.realtimeService.emitToUser(
+      dispute.sellerId,
+      'disputeUpdated',
+      payload,
+    );
+  }
+
+  private isHttpsUrl(value: unknown) {
+    if (typeof value !== 'string') return false;
+    try {
+      return new URL(value).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  private windowDays() {
+    const value = Number(this.configService.get<string>('DISPUTE_WINDOW_DAYS'));
+    return Number.isInteger(value) && value > 0 ? value : DEFAULT_WINDOW_DAYS;
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { DisputeSubjectType } from '@prisma/client';
+
+export const DISPUTE_OUTCOMES = [
+  'FULL_REFUND',
+  'PARTIAL_REFUND',
+  'REJECT',
+] as const;
+export type DisputeOutcome = (typeof DISPUTE_OUTCOMES)[number];
+
+export class SubmitEvidenceDto {
+  @IsOptional()
+  @IsString()
+  note?: string;
+
+  /** Chat messages between the buyer and the seller */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  messageIds?: string[];
+
+  /** Files already uploaded through the upload endpoint */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  attachmentUrls?: string[];
+}
+
+export class OpenDisputeDto extends SubmitEvidenceDto {
+  @IsEnum(DisputeSubjectType)
+  subjectType: DisputeSubjectType;
+
+  @IsString()
+  @IsNotEmpty()
+  subjectId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ResolveDisputeDto {
+  @IsIn(DISPUTE_OUTCOMES)
+  outcome: DisputeOutcome;
+
+  /** Minor units; required for PARTIAL_REFUND */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  refundAmount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
+
+/**
+ * What the buyer paid for a disputed purchase and who received it
+ */
+export interface DisputeSubject {
+  buyerId: string;
+  sellerId: string;
+  amount: number;
+  platformFee: number;
+  sellerAmount: number;
+  currency: string;
+  /** The service request behind a service session, for notifications */
+  requestId?: string;
+  /** When the purchase was delivered; the dispute window runs from here */
+  deliveredAt: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  LedgerAccountType,
+  LedgerEntryCategory,
+  LedgerTransactionKind,
+  Prisma,
+} from '@prisma/client';
+
+export interface LedgerAccountRef {
+  type: LedgerAccountType;
+  ownerId: string;
+  currency?: string;
+}
+
+export interface LedgerLeg {
+  account: LedgerAccountRef;
+  /** Signed integer minor units */
+  amount: number;
+  category?: LedgerEntryCategory;
+}
+
+export interface LedgerPosting {
+  kind: LedgerTransactionKind;
+  description: string;
+  referenceType?: string;
+  referenceId?: string;
+  metadata?: Prisma.InputJsonValue;
+  legs: LedgerLeg[];
+  allowOverdraft?: boolean;
+}
+
+export interface BalanceProjection {
+  availableBalance: number;
+  pendingBalance: number;
+  totalEarnings: number;
+  totalSpent: number;
+  withdrawalPendingBalance: number;
+  disputeHoldBalance: number;
+}
+
+export interface BalanceMismatch {
+  userId: string;
+  field: keyof BalanceProjection;
+  cached: number;
+  ledger: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  balanced: boolean;
+  checkedUsers: number;
+  unbalancedTransactions: Array<{ transactionId: string; total: number }>;
+  mismatches: BalanceMismatch[];
+}
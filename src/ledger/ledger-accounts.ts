@@ -0,0 +1,49 @@
+import { LedgerAccountRef } from './dto/ledger.dto';
+
+export const SYSTEM_OWNER = 'system';
+
+export const LedgerAccounts = {
+  wallet: (userId: string, currency = 'KES'): LedgerAccountRef => ({
+    type: 'USER_WALLET',
+    ownerId: userId,
+    currency,
+  }),
+  escrow: (userId: string, currency = 'KES'): LedgerAccountRef => ({
+    type: 'USER_ESCROW',
+    ownerId: userId,
+    currency,
+  }),
+  withdrawalPending: (userId: string, currency = 'KES'): LedgerAccountRef => ({
+    type: 'USER_WITHDRAWAL_PENDING',
+    ownerId: userId,
+    currency,
+  }),
+  /** Seller earnings frozen while a dispute is open */
+  disputeHold: (userId: string, currency = 'KES'): LedgerAccountRef => ({
+    type: 'USER_DISPUTE_HOLD',
+    ownerId: userId,
+    currency,
+  }),
+  platformRevenue: (currency = 'KES'): LedgerAccountRef => ({
+    type: 'PLATFORM_REVENUE',
+    ownerId: SYSTEM_OWNER,
+    currency,
+  }),
+  mpesaClearing: (currency = 'KES'): LedgerAccountRef => ({
+    type: 'MPESA_CLEARING',
+    ownerId: SYSTEM_OWNER,
+    currency,
+  }),
+  /** Pays for platform-funded discounts, bonuses and vouchers */
+  promotions: (currency = 'KES'): LedgerAccountRef => ({
+    type: 'PLATFORM_PROMOTIONS',
+    ownerId: SYSTEM_OWNER,
+    currency,
+  }),
+  /** Counterpart of manual wallet credits and debits */
+  adjustments: (currency = 'KES'): LedgerAccountRef => ({
+    type: 'PLATFORM_ADJUSTMENT',
+    ownerId: SYSTEM_OWNER,
+    currency,
+  }),
+};
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { LedgerService } from './ledger.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('api/v1/ledger')
+@UseGuards(AuthGuardService, RolesGuard)
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  /**
+   * Get the ledger entries posted to the current user's accounts
+   */
+  @Get('statement')
+  @HttpCode(HttpStatus.OK)
+  async getStatement(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.ledgerService.getStatement(
+      req.user.id,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * Check the current user's cached balance against the ledger
+   */
+  @Get('reconcile')
+  @HttpCode(HttpStatus.OK)
+  async reconcile(@Req() req: AuthenticatedRequest) {
+    return this.ledgerService.reconcile(req.user.id);
+  }
+
+  /**
+   * Rebuild a user's cached balance from the ledger
+   */
+  @Post('rebuild/:userId')
+  @HttpCode(HttpStatus.OK)
+  @Roles('finance-admin')
+  async rebuild(@Param('userId') userId: string) {
+    return this.ledgerService.rebuildProjection(userId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { LedgerController } from './ledger.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { AuditModule } from 'src/audit/audit.module';
+
+@Module({
+  imports: [PrismaModule, ClerkModule, AuditModule],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
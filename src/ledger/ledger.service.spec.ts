@@ -0,0 +1,198 @@
+import { Test } from '@nestjs/testing';
+import {
+  BadRequestException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { LedgerService } from './ledger.service';
+import { LedgerAccounts } from './ledger-accounts';
+import { LedgerPosting } from './dto/ledger.dto';
+
+const emptyBalance = {
+  availableBalance: 0,
+  pendingBalance: 0,
+  withdrawalPendingBalance: 0,
+  disputeHoldBalance: 0,
+};
+
+function createTx(balance: Partial<typeof emptyBalance> = {}) {
+  return {
+    ledgerTransaction: {
+      create: jest.fn().mockResolvedValue({ id: 'ltx_1' }),
+    },
+    ledgerAccount: {
+      upsert: jest.fn(
+        ({ create }: { create: { type: string; ownerId: string } }) =>
+          Promise.resolve({ id: `${create.type}:${create.ownerId}` }),
+      ),
+    },
+    ledgerEntry: { createMany: jest.fn().mockResolvedValue({ count: 2 }) },
+    userBalance: {
+      upsert: jest.fn().mockResolvedValue({ ...emptyBalance, ...balance }),
+    },
+  };
+}
+
+function purchase(amount: number, overrides: Partial<LedgerPosting> = {}) {
+  return {
+    kind: 'CHAT_TIME_PURCHASE',
+    description: 'Chat time',
+    legs: [
+      {
+        account: LedgerAccounts.wallet('buyer'),
+        amount: -amount,
+        category: 'SPEND',
+      },
+      {
+        account: LedgerAccounts.wallet('seller'),
+        amount: amount - 100,
+        category: 'EARNING',
+      },
+      { account: LedgerAccounts.platformRevenue(), amount: 100 },
+    ],
+    ...overrides,
+  } as LedgerPosting;
+}
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let record: jest.Mock;
+
+  beforeEach(async () => {
+    record = jest.fn().mockResolvedValue(undefined);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: PrismaService, useValue: {} },
+        { provide: AuditService, useValue: { record } },
+      ],
+    }).compile();
+
+    service = module.get(LedgerService);
+  });
+
+  const post = (tx: ReturnType<typeof createTx>, posting: LedgerPosting) =>
+    service.post(tx as unknown as Prisma.TransactionClient, posting);
+
+  it('rejects legs that do not sum to zero', async () => {
+    const tx = createTx();
+    const posting = purchase(1000);
+    posting.legs[2].amount = 99;
+
+    await expect(post(tx, posting)).rejects.toThrow(
+      InternalServerErrorException,
+    );
+    expect(tx.ledgerTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects fractional minor units', async () => {
+    const tx = createTx();
+    const posting = purchase(1000);
+    posting.legs[0].amount = -1000.5;
+    posting.legs[1].amount = 900.5;
+
+    await expect(post(tx, posting)).rejects.toThrow(
+      'Ledger amounts must be integer minor units',
+    );
+  });
+
+  it('needs at least two non-zero legs', async () => {
+    const tx = createTx();
+    const posting = purchase(0, {
+      legs: [
+        { account: LedgerAccounts.wallet('buyer'), amount: 0 },
+        { account: LedgerAccounts.platformRevenue(), amount: 0 },
+      ],
+    });
+
+    await expect(post(tx, posting)).rejects.toThrow('at least two non-zero');
+  });
+
+  it('writes one entry per leg and projects user balances', async () => {
+    const tx = createTx({ availableBalance: 5000 });
+
+    await post(tx, purchase(1000));
+
+    expect(tx.ledgerEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          transactionId: 'ltx_1',
+          accountId: 'USER_WALLET:buyer',
+          amount: -1000,
+          category: 'SPEND',
+        },
+        {
+          transactionId: 'ltx_1',
+          accountId: 'USER_WALLET:seller',
+          amount: 900,
+          category: 'EARNING',
+        },
+        {
+          transactionId: 'ltx_1',
+          accountId: 'PLATFORM_REVENUE:system',
+          amount: 100,
+          category: 'TRANSFER',
+        },
+      ],
+    });
+
+    // Only user accounts have a cached balance
+    expect(tx.userBalance.upsert).toHaveBeenCalledTimes(2);
+    expect(tx.userBalance.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'buyer' },
+        update: expect.objectContaining({
+          availableBalance: { increment: -1000 },
+          totalSpent: { increment: 1000 },
+          totalEarnings: { increment: 0 },
+        }) as unknown,
+      }),
+    );
+    expect(tx.userBalance.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'seller' },
+        update: expect.objectContaining({
+          availableBalance: { increment: 900 },
+          totalEarnings: { increment: 900 },
+        }) as unknown,
+      }),
+    );
+    expect(record).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to overdraw a wallet', async () => {
+    const tx = createTx({ availableBalance: -400 });
+
+    await expect(post(tx, purchase(1000))).rejects.toThrow(
+      new BadRequestException(
+        'Insufficient balance. Required: KES 10.00, Available: KES 6.00',
+      ),
+    );
+  });
+
+  it('lets postings that allow it overdraw', async () => {
+    const tx = createTx({ availableBalance: -400 });
+
+    await expect(
+      post(tx, purchase(1000, { allowOverdraft: true })),
+    ).resolves.toEqual({ id: 'ltx_1' });
+  });
+
+  it('refuses to release more than is held for a withdrawal', async () => {
+    const tx = createTx({ withdrawalPendingBalance: -500 });
+
+    await expect(
+      post(tx, {
+        kind: 'WITHDRAWAL_REVERSAL',
+        description: 'Reversal',
+        legs: [
+          { account: LedgerAccounts.withdrawalPending('seller'), amount: -500 },
+          { account: LedgerAccounts.wallet('seller'), amount: 500 },
+        ],
+      }),
+    ).rejects.toThrow('Insufficient funds pending withdrawal');
+  });
+});
@@ -0,0 +1,410 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { LedgerAccountType, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Money } from 'src/common/money/money';
+import { AuditService } from 'src/audit/audit.service';
+import {
+  BalanceMismatch,
+  BalanceProjection,
+  LedgerAccountRef,
+  LedgerLeg,
+  LedgerPosting,
+  ReconciliationReport,
+} from './dto/ledger.dto';
+
+const USER_ACCOUNT_TYPES: LedgerAccountType[] = [
+  'USER_WALLET',
+  'USER_ESCROW',
+  'USER_WITHDRAWAL_PENDING',
+  'USER_DISPUTE_HOLD',
+];
+
+const PROJECTION_FIELDS: (keyof BalanceProjection)[] = [
+  'availableBalance',
+  'pendingBalance',
+  'totalEarnings',
+  'totalSpent',
+  'withdrawalPendingBalance',
+  'disputeHoldBalance',
+];
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Post a balanced transaction and refresh the cached UserBalance rows it
+   * touches. Runs inside the caller's transaction so the money movement
+   * commits together with the business records it belongs to, and is
+   * audited along with it.
+   */
+  async post(tx: Prisma.TransactionClient, posting: LedgerPosting) {
+    const legs = posting.legs.filter((leg) => leg.amount !== 0);
+
+    if (legs.length < 2) {
+      throw new InternalServerErrorException(
+        `Ledger transaction ${posting.kind} needs at least two non-zero legs`,
+      );
+    }
+
+    const fractional = legs.find((leg) => !Number.isInteger(leg.amount));
+    if (fractional) {
+      throw new InternalServerErrorException(
+        `Ledger amounts must be integer minor units, got ${fractional.amount}`,
+      );
+    }
+
+    const total = legs.reduce((sum, leg) => sum + leg.amount, 0);
+    if (total !== 0) {
+      throw new InternalServerErrorException(
+        `Unbalanced ledger transaction ${posting.kind}: legs sum to ${total}`,
+      );
+    }
+
+    const transaction = await tx.ledgerTransaction.create({
+      data: {
+        kind: posting.kind,
+        description: posting.description,
+        referenceType: posting.referenceType,
+        referenceId: posting.referenceId,
+        metadata: posting.metadata,
+      },
+    });
+
+    const entries: Prisma.LedgerEntryCreateManyInput[] = [];
+    for (const leg of legs) {
+      const account = await this.resolveAccount(tx, leg.account);
+      entries.push({
+        transactionId: transaction.id,
+        accountId: account.id,
+        amount: leg.amount,
+        category: leg.category ?? 'TRANSFER',
+      });
+    }
+    await tx.ledgerEntry.createMany({ data: entries });
+
+    await this.applyToProjection(tx, legs, posting.allowOverdraft ?? false);
+
+    await this.auditService.record(
+      {
+        action: `LEDGER_${posting.kind}`,
+        entityType: posting.referenceType ?? 'LedgerTransaction',
+        entityId: posting.referenceId ?? transaction.id,
+        reason: posting.description,
+        metadata: {
+          ledgerTransactionId: transaction.id,
+          legs: legs.map((leg) => ({
+            accountType: leg.account.type,
+            ownerId: leg.account.ownerId,
+            currency: leg.account.currency ?? 'KES',
+            amount: leg.amount,
+          })),
+        },
+      },
+      tx,
+    );
+
+    return transaction;
+  }
+
+  private resolveAccount(tx: Prisma.TransactionClient, ref: LedgerAccountRef) {
+    const currency = ref.currency ?? 'KES';
+    return tx.ledgerAccount.upsert({
+      where: {
+        type_ownerId_currency: {
+          type: ref.type,
+          ownerId: ref.ownerId,
+          currency,
+        },
+      },
+      update: {},
+      create: { type: ref.type, ownerId: ref.ownerId, currency },
+    });
+  }
+
+  private async applyToProjection(
+    tx: Prisma.TransactionClient,
+    legs: LedgerLeg[],
+    allowOverdraft: boolean,
+  ) {
+    const deltas = new Map<string, BalanceProjection & { currency: string }>();
+
+    for (const leg of legs) {
+      if (!USER_ACCOUNT_TYPES.includes(leg.account.type)) continue;
+
+      const delta = deltas.get(leg.account.ownerId) ?? {
+        availableBalance: 0,
+        pendingBalance: 0,
+        totalEarnings: 0,
+        totalSpent: 0,
+        withdrawalPendingBalance: 0,
+        disputeHoldBalance: 0,
+        currency: leg.account.currency ?? 'KES',
+      };
+      this.accumulate(delta, leg.account.type, leg.category, leg.amount);
+      deltas.set(leg.account.ownerId, delta);
+    }
+
+    for (const [userId, delta] of deltas) {
+      const balance = await tx.userBalance.upsert({
+        where: { userId },
+        update: {
+          availableBalance: { increment: delta.availableBalance },
+          pendingBalance: { increment: delta.pendingBalance },
+          totalEarnings: { increment: delta.totalEarnings },
+          totalSpent: { increment: delta.totalSpent },
+          withdrawalPendingBalance: {
+            increment: delta.withdrawalPendingBalance,
+          },
+          disputeHoldBalance: { increment: delta.disputeHoldBalance },
+          lastUpdated: new Date(),
+        },
+        create: {
+          userId,
+          currency: delta.currency,
+          availableBalance: delta.availableBalance,
+          pendingBalance: delta.pendingBalance,
+          totalEarnings: delta.totalEarnings,
+          totalSpent: delta.totalSpent,
+          withdrawalPendingBalance: delta.withdrawalPendingBalance,
+          disputeHoldBalance: delta.disputeHoldBalance,
+        },
+      });
+
+      if (allowOverdraft) continue;
+
+      if (delta.availableBalance < 0 && balance.availableBalance < 0) {
+        const required = Money.of(-delta.availableBalance, delta.currency);
+        const available = Money.of(
+          balance.availableBalance - delta.availableBalance,
+          delta.currency,
+        );
+        throw new BadRequestException(
+          `Insufficient balance. Required: ${required.format()}, Available: ${available.format()}`,
+        );
+      }
+
+      if (delta.pendingBalance < 0 && balance.pendingBalance < 0) {
+        throw new BadRequestException('Insufficient locked funds');
+      }
+
+      if (
+        delta.withdrawalPendingBalance < 0 &&
+        balance.withdrawalPendingBalance < 0
+      ) {
+        throw new BadRequestException('Insufficient funds pending withdrawal');
+      }
+
+      if (delta.disputeHoldBalance < 0 && balance.disputeHoldBalance < 0) {
+        throw new BadRequestException('Insufficient funds held for disputes');
+      }
+    }
+  }
+
+  private accumulate(
+    projection: BalanceProjection,
+    type: LedgerAccountType,
+    category: LedgerLeg['category'],
+    amount: number,
+  ) {
+    if (type === 'USER_WALLET') projection.availableBalance += amount;
+    if (type === 'USER_ESCROW') projection.pendingBalance += amount;
+    if (type === 'USER_WITHDRAWAL_PENDING') {
+      projection.withdrawalPendingBalance += amount;
+    }
+    if (type === 'USER_DISPUTE_HOLD') projection.disputeHoldBalance += amount;
+    if (category === 'EARNING') projection.totalEarnings += amount;
+    if (category === 'SPEND') projection.totalSpent -= amount;
+  }
+
+  /**
+   * Recompute balances from ledger entries for the given users
+   */
+  private async projectFromLedger(
+    userIds?: string[],
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const accounts = await db.ledgerAccount.findMany({
+      where: {
+        type: { in: USER_ACCOUNT_TYPES },
+        ...(userIds && { ownerId: { in: userIds } }),
+      },
+    });
+
+    const sums = await db.ledgerEntry.groupBy({
+      by: ['accountId', 'category'],
+      where: { accountId: { in: accounts.map((a) => a.id) } },
+      _sum: { amount: true },
+    });
+
+    const accountsById = new Map(accounts.map((a) => [a.id, a]));
+    const projections = new Map<string, BalanceProjection>();
+
+    for (const sum of sums) {
+      const account = accountsById.get(sum.accountId)!;
+      const projection = projections.get(account.ownerId) ?? {
+        availableBalance: 0,
+        pendingBalance: 0,
+        totalEarnings: 0,
+        totalSpent: 0,
+        withdrawalPendingBalance: 0,
+        disputeHoldBalance: 0,
+      };
+      this.accumulate(
+        projection,
+        account.type,
+        sum.category,
+        sum._sum.amount ?? 0,
+      );
+      projections.set(account.ownerId, projection);
+    }
+
+    return projections;
+  }
+
+  /**
+   * Prove that every transaction balances and that cached UserBalance rows
+   * equal the sum of their ledger entries
+   */
+  async reconcile(userId?: string): Promise<ReconciliationReport> {
+    const unbalancedTransactions = await this.prisma.$queryRaw<
+      Array<{ transactionId: string; total: bigint }>
+    >`
+      SELECT "transactionId", SUM("amount") AS "total"
+      FROM "ledger_entries"
+      GROUP BY "transactionId"
+      HAVING SUM("amount") <> 0
+    `;
+
+    const balances = await this.prisma.userBalance.findMany({
+      where: userId ? { userId } : undefined,
+    });
+    const projections = await this.projectFromLedger(
+      userId ? [userId] : undefined,
+    );
+
+    const userIds = new Set([
+      ...balances.map((b) => b.userId),
+      ...projections.keys(),
+    ]);
+    const balancesByUser = new Map(balances.map((b) => [b.userId, b]));
+    const mismatches: BalanceMismatch[] = [];
+
+    for (const id of userIds) {
+      const cached = balancesByUser.get(id);
+      const ledger = projections.get(id);
+
+      for (const field of PROJECTION_FIELDS) {
+        const cachedValue = cached?.[field] ?? 0;
+        const ledgerValue = ledger?.[field] ?? 0;
+        if (cachedValue !== ledgerValue) {
+          mismatches.push({
+            userId: id,
+            field,
+            cached: cachedValue,
+            ledger: ledgerValue,
+          });
+        }
+      }
+    }
+
+    if (mismatches.length > 0 || unbalancedTransactions.length > 0) {
+      this.logger.warn(
+        `Ledger reconciliation found ${mismatches.length} balance mismatches and ${unbalancedTransactions.length} unbalanced transactions`,
+      );
+    }
+
+    return {
+      checkedAt: new Date(),
+      balanced: mismatches.length === 0 && unbalancedTransactions.length === 0,
+      checkedUsers: userIds.size,
+      unbalancedTransactions: unbalancedTransactions.map((t) => ({
+        transactionId: t.transactionId,
+        total: Number(t.total),
+      })),
+      mismatches,
+    };
+  }
+
+  /**
+   * Overwrite a user's cached balance with the ledger-derived values. The
+   * balance row is locked first, so postings already in flight commit
+   * before the sum and later ones wait for the rebuild.
+   */
+  async rebuildProjection(userId: string) {
+    const balance = await this.prisma.$transaction(async (tx) => {
+      await tx.userBalance.upsert({
+        where: { userId },
+        update: {},
+        create: { userId },
+      });
+      await tx.$queryRaw`SELECT 1 FROM "user_balances" WHERE "userId" = ${userId} FOR UPDATE`;
+
+      const projection = (await this.projectFromLedger([userId], tx)).get(
+        userId,
+      ) ?? {
+        availableBalance: 0,
+        pendingBalance: 0,
+        totalEarnings: 0,
+        totalSpent: 0,
+        withdrawalPendingBalance: 0,
+        disputeHoldBalance: 0,
+      };
+
+      return tx.userBalance.update({
+        where: { userId },
+        data: { ...projection, lastUpdated: new Date() },
+      });
+    });
+
+    this.logger.log(`Rebuilt balance projection for user ${userId}`);
+
+    return balance;
+  }
+
+  async getStatement(userId: string, page: number = 1, limit: number = 20) {
+    const skip = (page - 1) * limit;
+    const where = { account: { ownerId: userId } };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.ledgerEntry.findMany({
+        where,
+        include: {
+          account: { select: { type: true, currency: true } },
+          transaction: {
+            select: {
+              kind: true,
+              description: true,
+              referenceType: true,
+              referenceId: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.ledgerEntry.count({ where }),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
@@ -3,7 +3,8 @@ import { AppModule } from './app.module';
 import { clerkMiddleware } from '@clerk/express';
 import * as cookieParser from 'cookie-parser';
 import * as morgan from 'morgan';
-import { IoAdapter } from '@nestjs/platform-socket.io';
+import { ClusterIoAdapter } from './realtime/cluster-io.adapter';
+import { RealtimeBus } from './realtime/realtime-bus';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -16,7 +17,7 @@ async function bootstrap() {
     allowedHeaders: ['Content-Type', 'Authorization'],
     credentials: true,
   });
-  app.useWebSocketAdapter(new IoAdapter(app));
+  app.useWebSocketAdapter(new ClusterIoAdapter(app, app.get(RealtimeBus)));
   const port = process.env.PORT || 3000;
   await app.listen(port, '0.0.0.0');
 }
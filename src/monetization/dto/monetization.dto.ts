@@ -10,15 +10,18 @@ import {
   IsInt,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { MessageType } from '@prisma/client';
+import { Message, MessageType, Subscription } from '@prisma/client';
+import { Money } from 'src/common/money/money';
+import { FeeBreakdown } from 'src/commission/dto/commission.dto';
 
 export class ChatTimeTierDto {
   @IsInt()
   @Min(1)
   durationMinutes: number;
 
-  @IsNumber()
-  @Min(0.01)
+  /** Price in minor units of the settings currency */
+  @IsInt()
+  @Min(1)
   price: number;
 
   @IsOptional()
@@ -40,27 +43,30 @@ export class SetMonetizationSettingsDto {
   @IsBoolean()
   monetizeVoiceNotes?: boolean;
 
+  /** Per-second price in minor units */
   @ValidateIf((o) => o.monetizeVoiceNotes === true)
-  @IsNumber()
-  @Min(0.01)
+  @IsInt()
+  @Min(1)
   voiceNotePrice?: number;
 
   @IsOptional()
   @IsBoolean()
   monetizeImages?: boolean;
 
+  /** Per-image price in minor units */
   @ValidateIf((o) => o.monetizeImages === true)
-  @IsNumber()
-  @Min(0.01)
+  @IsInt()
+  @Min(1)
   imagePrice?: number;
 
   @IsOptional()
   @IsBoolean()
   monetizeVideos?: boolean;
 
+  /** Per-second price in minor units */
   @ValidateIf((o) => o.monetizeVideos === true)
-  @IsNumber()
-  @Min(0.01)
+  @IsInt()
+  @Min(1)
   videoPrice?: number;
 
   @IsOptional()
@@ -83,27 +89,30 @@ export class UpdateMonetizationSettingsDto {
   @IsBoolean()
   monetizeVoiceNotes?: boolean;
 
+  /** Per-second price in minor units */
   @IsOptional()
-  @IsNumber()
-  @Min(0.01)
+  @IsInt()
+  @Min(1)
   voiceNotePrice?: number;
 
   @IsOptional()
   @IsBoolean()
   monetizeImages?: boolean;
 
+  /** Per-image price in minor units */
   @IsOptional()
-  @IsNumber()
-  @Min(0.01)
+  @IsInt()
+  @Min(1)
   imagePrice?: number;
 
   @IsOptional()
   @IsBoolean()
   monetizeVideos?: boolean;
 
+  /** Per-second price in minor units */
   @IsOptional()
-  @IsNumber()
-  @Min(0.01)
+  @IsInt()
+  @Min(1)
   videoPrice?: number;
 }
 
@@ -114,6 +123,10 @@ export class PurchaseChatTimeDto {
   @IsInt()
   @Min(1)
   durationMinutes: number;
+
+  @IsOptional()
+  @IsString()
+  promoCode?: string;
 }
 
 export class CalculateContentCostDto {
@@ -138,12 +151,12 @@ export interface MonetizationInfo {
   settings?: {
     chatTimeTiers: Array<{
       durationMinutes: number;
-      price: number;
+      price: Money;
       isActive: boolean;
     }>;
-    voiceNotePrice?: number;
-    imagePrice?: number;
-    videoPrice?: number;
+    voiceNotePrice?: Money;
+    imagePrice?: Money;
+    videoPrice?: Money;
     monetizeVoiceNotes: boolean;
     monetizeImages: boolean;
     monetizeVideos: boolean;
@@ -156,8 +169,9 @@ export interface ChatSessionInfo {
   buyerId: string;
   sellerId: string;
   durationMinutes: number;
-  price: number;
-  currency: string;
+  price: Money;
+  /** Promo discount taken off the tier price */
+  discount: Money;
   startTime: Date;
   endTime: Date;
   remainingMinutes: number;
@@ -172,15 +186,56 @@ export interface ContentCostCalculation {
   sessionCost?: {
     availableTiers: Array<{
       durationMinutes: number;
-      price: number;
+      price: Money;
     }>;
   };
   additionalCost?: {
     contentType: MessageType;
-    basePrice: number;
+    /** Unit rate: per second for audio and video, per image otherwise */
+    basePrice: Money;
+    /** Billed units; partial seconds are rounded up */
     units: number;
-    totalCost: number;
-    currency: string;
+    totalCost: Money;
+    /** How totalCost splits between the seller and the platform */
+    fee: FeeBreakdown;
     description: string;
   };
+  /** The image is covered by the sender's subscription allowance */
+  includedInSubscription?: boolean;
+}
+
+export type PaymentRequiredReason =
+  | 'SESSION_REQUIRED'
+  | 'SESSION_EXPIRED'
+  | 'INSUFFICIENT_BALANCE';
+
+export interface PaymentRequiredPayload {
+  reason: PaymentRequiredReason;
+  sellerId: string;
+  currency: string;
+  availableTiers: Array<{
+    durationMinutes: number;
+    price: Money;
+  }>;
+  requiredAmount?: Money;
+  availableBalance?: Money;
 }
+
+export interface MessageAccess {
+  session: ChatSessionInfo | null;
+  /** Set when the sender subscribes to the recipient */
+  subscription?: Subscription | null;
+  additionalCost?: ContentCostCalculation['additionalCost'];
+  /** The image uses up one of the subscription's included images */
+  includedImage?: boolean;
+}
+
+/** Columns that turn an image or video message into pay-per-view */
+export interface LockedMedia {
+  unlockPrice: number;
+  unlockCurrency: string;
+  previewUrl: string;
+}
+
+/** A message as one viewer sees it; locked media has no fileUrl */
+export type ViewedMessage<T extends Message> = T & { isLocked: boolean };
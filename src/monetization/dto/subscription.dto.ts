@@ -0,0 +1,77 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SubscriptionInterval } from '@prisma/client';
+
+export class CreateSubscriptionPlanDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+
+  @IsEnum(SubscriptionInterval)
+  interval: SubscriptionInterval;
+
+  /** Price per period in minor units of the seller's currency */
+  @IsInt()
+  @Min(1)
+  price: number;
+
+  /** Subscribers message without buying chat time; defaults to true */
+  @IsOptional()
+  @IsBoolean()
+  unlimitedChat?: boolean;
+
+  /** Images a subscriber can send each period without content charges */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  includedImages?: number;
+}
+
+export class UpdateSubscriptionPlanDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  price?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  unlimitedChat?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  includedImages?: number;
+
+  /** Deactivated plans take no new subscribers and stop renewing */
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class SubscribeDto {
+  @IsString()
+  @IsNotEmpty()
+  planId: string;
+
+  /** M-Pesa number prompted when the wallet cannot cover a renewal */
+  @IsOptional()
+  @IsString()
+  billingPhone?: string;
+}
+
+export type RenewalOutcome = 'renewed' | 'pastDue' | 'lapsed' | 'skipped';
@@ -0,0 +1,63 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Gift } from '@prisma/client';
+import { FeeBreakdown } from 'src/commission/dto/commission.dto';
+
+export class CreateGiftDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(40)
+  name: string;
+
+  @IsUrl({ protocols: ['https'] })
+  imageUrl: string;
+
+  /** Price in minor units */
+  @IsInt()
+  @Min(1)
+  price: number;
+
+  @IsOptional()
+  @IsInt()
+  sortOrder?: number;
+}
+
+export class UpdateGiftDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(40)
+  name?: string;
+
+  @IsOptional()
+  @IsUrl({ protocols: ['https'] })
+  imageUrl?: string;
+
+  /** Changes apply to gifts sent from now on */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  price?: number;
+
+  @IsOptional()
+  @IsInt()
+  sortOrder?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/** A priced tip, checked against the sender's balance before it is sent */
+export interface TipQuote {
+  gift: Gift | null;
+  fee: FeeBreakdown;
+}
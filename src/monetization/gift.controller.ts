@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { TipService } from './tip.service';
+import { AuthGuardService } from '../auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+import { CreateGiftDto, UpdateGiftDto } from './dto/tip.dto';
+
+@Controller('/api/v1/gifts')
+@UseGuards(AuthGuardService, RolesGuard)
+export class GiftController {
+  constructor(private readonly tipService: TipService) {}
+
+  /**
+   * Virtual gifts users can send in chat
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  getCatalog() {
+    return this.tipService.getCatalog();
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles('finance-admin')
+  createGift(@Body() dto: CreateGiftDto) {
+    return this.tipService.createGift(dto);
+  }
+
+  @Put('/:giftId')
+  @HttpCode(HttpStatus.OK)
+  @Roles('finance-admin')
+  updateGift(@Param('giftId') giftId: string, @Body() dto: UpdateGiftDto) {
+    return this.tipService.updateGift(giftId, dto);
+  }
+}
@@ -10,9 +10,18 @@ import {
   HttpStatus,
   UseGuards,
   BadRequestException,
+  Req,
 } from '@nestjs/common';
+import { Request } from 'express';
+import { MessageType } from '@prisma/client';
 import { MonetizationService } from './monetization.service';
+import { PaidMediaService } from './paid-media.service';
 import { AuthGuardService } from '../auth-guard/auth-guard.service';
+import { OwnershipGuard } from '../auth-guard/ownership.guard';
+import { Owner } from '../auth-guard/ownership.decorator';
+import { RolesGuard } from '../auth-guard/roles.guard';
+import { Roles } from '../auth-guard/roles.decorator';
+import { RedeemVoucherDto } from 'src/promotion/dto/promotion.dto';
 import {
   SetMonetizationSettingsDto,
   UpdateMonetizationSettingsDto,
@@ -20,13 +29,24 @@ import {
   CalculateContentCostDto,
 } from './dto/monetization.dto';
 
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
 @Controller('/api/v1/monetization')
-@UseGuards(AuthGuardService)
+@UseGuards(AuthGuardService, OwnershipGuard, RolesGuard)
 export class MonetizationController {
-  constructor(private readonly monetizationService: MonetizationService) {}
+  constructor(
+    private readonly monetizationService: MonetizationService,
+    private readonly paidMediaService: PaidMediaService,
+  ) {}
 
   @Post('/:userId/settings')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   setMonetizationSettings(
     @Param('userId') userId: string,
     @Body() dto: SetMonetizationSettingsDto,
@@ -38,6 +58,7 @@ export class MonetizationController {
   }
   @Put('/:userId/settings')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   updateMonetizationSettings(
     @Param('userId') userId: string,
     @Body() dto: UpdateMonetizationSettingsDto,
@@ -50,6 +71,7 @@ export class MonetizationController {
 
   @Get('/:userId/settings')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getMonetizationSettings(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -68,27 +90,49 @@ export class MonetizationController {
 
   @Post('/chat-time/purchase')
   @HttpCode(HttpStatus.CREATED)
-  purchaseChatTime(@Body() dto: PurchaseChatTimeDto & { buyerId: string }) {
-    if (!dto.buyerId) {
-      throw new BadRequestException('Buyer ID is required');
-    }
-    return this.monetizationService.purchaseChatTime(dto.buyerId, dto);
+  purchaseChatTime(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: PurchaseChatTimeDto,
+  ) {
+    return this.monetizationService.purchaseChatTime(req.user.id, dto);
+  }
+
+  /**
+   * Start a free chat session with a free-minute voucher
+   */
+  @Post('/chat-time/voucher')
+  @HttpCode(HttpStatus.CREATED)
+  redeemVoucher(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: RedeemVoucherDto,
+  ) {
+    return this.monetizationService.redeemVoucher(req.user.id, dto);
+  }
+
+  @Post('/messages/:messageId/unlock')
+  @HttpCode(HttpStatus.OK)
+  unlockMessage(
+    @Req() req: AuthenticatedRequest,
+    @Param('messageId') messageId: string,
+  ) {
+    return this.paidMediaService.unlock(req.user.id, messageId);
   }
 
   @Get('/sessions/active')
   @HttpCode(HttpStatus.OK)
   getActiveSession(
-    @Query('userId1') userId1: string,
-    @Query('userId2') userId2: string,
+    @Req() req: AuthenticatedRequest,
+    @Query('userId') otherUserId: string,
   ) {
-    if (!userId1 || !userId2) {
-      throw new BadRequestException('Both user IDs are required');
+    if (!otherUserId) {
+      throw new BadRequestException('User ID is required');
     }
-    return this.monetizationService.getActiveSession(userId1, userId2);
+    return this.monetizationService.getActiveSession(req.user.id, otherUserId);
   }
 
   @Get('/:userId/sessions')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getUserSessions(
     @Param('userId') userId: string,
     @Query('active') active?: string,
@@ -103,27 +147,28 @@ export class MonetizationController {
   @Post('/check-access')
   @HttpCode(HttpStatus.OK)
   checkMessageAccess(
+    @Req() req: AuthenticatedRequest,
     @Body()
     body: {
-      senderId: string;
       recipientId: string;
-      contentType: string;
+      contentType: MessageType;
       durationSeconds?: number;
     },
   ) {
-    if (!body.senderId || !body.recipientId) {
-      throw new BadRequestException('Both user IDs are required');
+    if (!body.recipientId) {
+      throw new BadRequestException('Recipient ID is required');
     }
     return this.monetizationService.canSendMessage(
-      body.senderId,
+      req.user.id,
       body.recipientId,
-      body.contentType as any,
+      body.contentType,
       body.durationSeconds,
     );
   }
 
   @Get('/:userId/balance')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getUserBalance(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -133,6 +178,7 @@ export class MonetizationController {
 
   @Get('/:userId/earnings')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getEarningStats(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -142,6 +188,7 @@ export class MonetizationController {
 
   @Put('/:userId/disable')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   disableMonetization(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -152,40 +199,44 @@ export class MonetizationController {
   @Post('/sessions/:sessionId/cancel')
   @HttpCode(HttpStatus.OK)
   cancelSession(
+    @Req() req: AuthenticatedRequest,
     @Param('sessionId') sessionId: string,
-    @Body('userId') userId: string,
   ) {
-    if (!userId) {
-      throw new BadRequestException('User ID is required');
-    }
-    return this.monetizationService.cancelSession(sessionId, userId);
+    return this.monetizationService.cancelSession(sessionId, req.user.id);
   }
   @Post('/sessions/:sessionId/pause')
   @HttpCode(HttpStatus.OK)
   pauseSession(
+    @Req() req: AuthenticatedRequest,
     @Param('sessionId') sessionId: string,
-    @Body('userId') userId: string,
   ) {
-    if (!userId) {
-      throw new BadRequestException('User ID is required');
-    }
-    return this.monetizationService.pauseSession(sessionId, userId);
+    return this.monetizationService.pauseSession(sessionId, req.user.id);
   }
 
   @Post('/sessions/:sessionId/activate')
   @HttpCode(HttpStatus.OK)
-  activateSession(@Param('sessionId') sessionId: string) {
-    return this.monetizationService.activateSession(sessionId);
+  activateSession(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.monetizationService.activateSession(sessionId, req.user.id);
   }
 
   @Post('/sessions/:sessionId/activity')
   @HttpCode(HttpStatus.OK)
-  updateSessionActivity(@Param('sessionId') sessionId: string) {
-    return this.monetizationService.updateSessionActivity(sessionId);
+  updateSessionActivity(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.monetizationService.updateSessionActivity(
+      sessionId,
+      req.user.id,
+    );
   }
 
   @Post('/sessions/auto-pause')
   @HttpCode(HttpStatus.OK)
+  @Roles('support')
   autoPauseInactiveSessions(
     @Body('inactivityMinutes') inactivityMinutes?: number,
   ) {
@@ -1,12 +1,47 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { MonetizationService } from './monetization.service';
 import { MonetizationController } from './monetization.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { ClerkModule } from 'src/clerk/clerk.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { CommissionModule } from 'src/commission/commission.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { CloudinaryModule } from 'src/cloudinary/cloudinary.module';
+import { RealtimeModule } from 'src/realtime/realtime.module';
+import { PaymentModule } from 'src/payment/payment.module';
+import { PromotionModule } from 'src/promotion/promotion.module';
+import { PaidMediaService } from './paid-media.service';
+import { SubscriptionService } from './subscription.service';
+import { SubscriptionController } from './subscription.controller';
+import { TipService } from './tip.service';
+import { GiftController } from './gift.controller';
 
 @Module({
-  imports:[PrismaModule, ClerkModule],
-  controllers: [MonetizationController],
-  providers: [MonetizationService],
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    LedgerModule,
+    CommissionModule,
+    AuditModule,
+    CloudinaryModule,
+    RealtimeModule,
+    PaymentModule,
+    PromotionModule,
+    ConfigModule,
+  ],
+  controllers: [MonetizationController, SubscriptionController, GiftController],
+  providers: [
+    MonetizationService,
+    PaidMediaService,
+    SubscriptionService,
+    TipService,
+  ],
+  exports: [
+    MonetizationService,
+    PaidMediaService,
+    SubscriptionService,
+    TipService,
+  ],
 })
 export class MonetizationModule {}
@@ -0,0 +1,294 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { CommissionService } from 'src/commission/commission.service';
+import { AuditService } from 'src/audit/audit.service';
+import { PromotionService } from 'src/promotion/promotion.service';
+import { LedgerLeg } from 'src/ledger/dto/ledger.dto';
+import { SubscriptionService } from './subscription.service';
+import { PaymentRequiredException } from './payment-required.exception';
+import { MonetizationService } from './monetization.service';
+
+const MINUTE = 60 * 1000;
+
+const sellerSettings = {
+  userId: 'seller',
+  isEnabled: true,
+  currency: 'KES',
+  monetizeVoiceNotes: true,
+  voiceNotePrice: 100,
+  monetizeImages: true,
+  imagePrice: 5000,
+  monetizeVideos: false,
+  videoPrice: 0,
+  chatTimeTiers: [{ durationMinutes: 30, price: 20000, isActive: true }],
+};
+
+const activeSession = {
+  id: 'chat_1',
+  buyerId: 'buyer',
+  sellerId: 'seller',
+  durationMinutes: 30,
+  usedMinutes: 0,
+  price: 20000,
+  discountAmount: 0,
+  currency: 'KES',
+  startTime: new Date(Date.now() - 10 * MINUTE),
+  endTime: new Date(Date.now() + 20 * MINUTE),
+  lastActiveAt: null,
+  resumedAt: null,
+  isPaused: false,
+  isActive: true,
+  isCancelled: false,
+  isPaid: true,
+};
+
+/** Legs of the single ledger posting, as account type and amount */
+function postedLegs(post: jest.Mock) {
+  expect(post).toHaveBeenCalledTimes(1);
+  const [[, posting]] = post.mock.calls as [[unknown, { legs: LedgerLeg[] }]];
+  return posting.legs.map((leg) => [leg.account.type, leg.amount]);
+}
+
+describe('MonetizationService', () => {
+  let service: MonetizationService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let ledgerService: { post: jest.Mock };
+  let subscriptionService: { findActive: jest.Mock };
+
+  function createPrisma() {
+    return {
+      userMonetizationSettings: {
+        findUnique: jest.fn().mockResolvedValue(sellerSettings),
+      },
+      chatSession: {
+        findFirst: jest.fn().mockResolvedValue(activeSession),
+        findUnique: jest.fn().mockResolvedValue(activeSession),
+        update: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ ...activeSession, ...data }),
+        ),
+      },
+      userBalance: {
+        findUnique: jest.fn().mockResolvedValue({ availableBalance: 10000 }),
+      },
+      contentCharge: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'charge_1', ...data }),
+        ),
+      },
+      commissionRule: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+    subscriptionService = { findActive: jest.fn().mockResolvedValue(null) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        MonetizationService,
+        CommissionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: SubscriptionService, useValue: subscriptionService },
+        { provide: PromotionService, useValue: {} },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(MonetizationService);
+  });
+
+  describe('authorizeMessage', () => {
+    it('lets anyone message a user who does not charge', async () => {
+      prisma.userMonetizationSettings.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.authorizeMessage('buyer', 'seller', 'TEXT'),
+      ).resolves.toEqual({ session: null });
+    });
+
+    it('asks for a chat session before the first message', async () => {
+      prisma.chatSession.findFirst.mockResolvedValue(null);
+
+      const error = await service
+        .authorizeMessage('buyer', 'seller', 'TEXT')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PaymentRequiredException);
+      const { payload } = error as PaymentRequiredException;
+      expect(payload.reason).toBe('SESSION_REQUIRED');
+      expect(payload.availableTiers.map((t) => t.price.amount)).toEqual([
+        20000,
+      ]);
+    });
+
+    it("does not accept the seller's own session as the buyer's", async () => {
+      prisma.chatSession.findFirst.mockResolvedValue({
+        ...activeSession,
+        buyerId: 'seller',
+        sellerId: 'buyer',
+      });
+
+      await expect(
+        service.authorizeMessage('buyer', 'seller', 'TEXT'),
+      ).rejects.toThrow(PaymentRequiredException);
+    });
+
+    it('refuses a voice note the buyer cannot pay for', async () => {
+      prisma.userBalance.findUnique.mockResolvedValue({
+        availableBalance: 2999,
+      });
+
+      const error = await service
+        .authorizeMessage('buyer', 'seller', 'AUDIO', 29.2)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PaymentRequiredException);
+      const { payload } = error as PaymentRequiredException;
+      expect(payload.reason).toBe('INSUFFICIENT_BALANCE');
+      expect(payload.requiredAmount?.amount).toBe(3000);
+      expect(payload.availableBalance?.amount).toBe(2999);
+      expect(prisma.chatSession.update).not.toHaveBeenCalled();
+    });
+
+    it('meters the session and splits the content price with the platform', async () => {
+      const access = await service.authorizeMessage(
+        'buyer',
+        'seller',
+        'AUDIO',
+        30,
+      );
+
+      expect(access.session?.id).toBe('chat_1');
+      expect(prisma.chatSession.update).toHaveBeenCalledWith({
+        where: { id: 'chat_1' },
+        data: { lastActiveAt: expect.any(Date) as unknown },
+      });
+      expect(access.additionalCost?.totalCost.amount).toBe(3000);
+      expect(access.additionalCost?.fee.platformFee.amount).toBe(600);
+      expect(access.additionalCost?.fee.sellerAmount.amount).toBe(2400);
+    });
+
+    it('lets a subscriber with unlimited chat send included images free', async () => {
+      subscriptionService.findActive.mockResolvedValue({
+        id: 'sub_1',
+        unlimitedChat: true,
+        includedImages: 5,
+        imagesUsed: 4,
+      });
+      prisma.userBalance.findUnique.mockResolvedValue({ availableBalance: 0 });
+
+      const access = await service.authorizeMessage('buyer', 'seller', 'IMAGE');
+
+      expect(access.session).toBeNull();
+      expect(access.includedImage).toBe(true);
+      expect(access.additionalCost).toBeUndefined();
+      expect(prisma.chatSession.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canSendMessage', () => {
+    it('reports that a session is needed without throwing', async () => {
+      prisma.chatSession.findFirst.mockResolvedValue(null);
+
+      const result = await service.canSendMessage('buyer', 'seller', 'TEXT');
+
+      expect(result.sessionRequired).toBe(true);
+      expect(result.sessionCost?.availableTiers).toHaveLength(1);
+    });
+
+    it('rejects content the buyer cannot pay for', async () => {
+      prisma.userBalance.findUnique.mockResolvedValue({
+        availableBalance: 4999,
+      });
+
+      await expect(
+        service.canSendMessage('buyer', 'seller', 'IMAGE'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('applyContentCharge', () => {
+    const tx = () => prisma as unknown as Prisma.TransactionClient;
+
+    async function voiceNoteCost() {
+      const { additionalCost } = await service.authorizeMessage(
+        'buyer',
+        'seller',
+        'AUDIO',
+        30,
+      );
+      return additionalCost!;
+    }
+
+    it('moves the price from the buyer to the seller and the platform', async () => {
+      const cost = await voiceNoteCost();
+
+      const charge = await service.applyContentCharge(tx(), {
+        messageId: 'msg_1',
+        sessionId: 'chat_1',
+        senderId: 'buyer',
+        recipientId: 'seller',
+        cost,
+      });
+
+      expect(charge).toMatchObject({
+        messageId: 'msg_1',
+        totalAmount: 3000,
+        platformFee: 600,
+        sellerAmount: 2400,
+        isPaid: true,
+      });
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_WALLET', -3000],
+        ['USER_WALLET', 2400],
+        ['PLATFORM_REVENUE', 600],
+      ]);
+    });
+
+    it('checks the balance again when the buyer spent it meanwhile', async () => {
+      const cost = await voiceNoteCost();
+      prisma.userBalance.findUnique.mockResolvedValue({
+        availableBalance: 1000,
+      });
+
+      await expect(
+        service.applyContentCharge(tx(), {
+          messageId: 'msg_1',
+          senderId: 'buyer',
+          recipientId: 'seller',
+          cost,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.contentCharge.create).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('never charges the same message twice', async () => {
+      const cost = await voiceNoteCost();
+      prisma.contentCharge.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      await expect(
+        service.applyContentCharge(tx(), {
+          messageId: 'msg_1',
+          senderId: 'buyer',
+          recipientId: 'seller',
+          cost,
+        }),
+      ).rejects.toThrow(Prisma.PrismaClientKnownRequestError);
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,9 +5,18 @@ import {
   InternalServerErrorException,
   Logger,
   ForbiddenException,
+  HttpException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { MessageType } from '@prisma/client';
+import {
+  ChatSession,
+  ChatTimeTier,
+  MessageType,
+  Prisma,
+  PromoFunder,
+  Subscription,
+  UserMonetizationSettings,
+} from '@prisma/client';
 import {
   SetMonetizationSettingsDto,
   UpdateMonetizationSettingsDto,
@@ -15,13 +24,56 @@ import {
   PurchaseChatTimeDto,
   ChatSessionInfo,
   ContentCostCalculation,
+  MessageAccess,
+  PaymentRequiredPayload,
+  PaymentRequiredReason,
 } from './dto/monetization.dto';
+import { PaymentRequiredException } from './payment-required.exception';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { Money } from 'src/common/money/money';
+import { CommissionService } from 'src/commission/commission.service';
+import { AuditService } from 'src/audit/audit.service';
+import { SubscriptionService } from './subscription.service';
+import { PromotionService } from 'src/promotion/promotion.service';
+import { RedeemVoucherDto } from 'src/promotion/dto/promotion.dto';
+
+type ContentCost = NonNullable<ContentCostCalculation['additionalCost']>;
+
+type SellerSettings = UserMonetizationSettings & {
+  chatTimeTiers: ChatTimeTier[];
+};
+
+/** Outcome of the checks before a message to a monetized seller */
+type MessageCheck =
+  | { reason: 'SESSION_REQUIRED'; settings: SellerSettings }
+  | {
+      reason: 'INSUFFICIENT_BALANCE';
+      settings: SellerSettings;
+      additionalCost: ContentCost;
+      availableBalance: Money;
+    }
+  | {
+      reason: null;
+      settings: SellerSettings;
+      subscription: Subscription | null;
+      activeSession: ChatSessionInfo | null;
+      additionalCost?: ContentCost;
+      includedImage: boolean;
+    };
 
 @Injectable()
 export class MonetizationService {
   private readonly logger = new Logger(MonetizationService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly commissionService: CommissionService,
+    private readonly auditService: AuditService,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly promotionService: PromotionService,
+  ) {}
 
   /**
    * Set user's monetization settings
@@ -69,6 +121,7 @@ export class MonetizationService {
     }
 
     try {
+      const before = await this.findSettingsWithTiers(userId);
       const settings = await this.prisma.userMonetizationSettings.upsert({
         where: { userId },
         update: {
@@ -109,6 +162,11 @@ export class MonetizationService {
         });
       }
 
+      await this.auditSettingsChange(
+        userId,
+        'MONETIZATION_SETTINGS_UPDATED',
+        before,
+      );
       this.logger.log(`Monetization settings updated for user ${userId}`);
 
       return {
@@ -146,6 +204,19 @@ export class MonetizationService {
     };
   }
 
+  /**
+   * Which of these users charge for chat
+   */
+  async findMonetizedUsers(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) return [];
+
+    const settings = await this.prisma.userMonetizationSettings.findMany({
+      where: { userId: { in: userIds }, isEnabled: true },
+      select: { userId: true },
+    });
+    return settings.map((s) => s.userId);
+  }
+
   /**
    * Get monetization info for display (public)
    */
@@ -164,14 +235,18 @@ export class MonetizationService {
       settings: {
         chatTimeTiers: settings.chatTimeTiers.map((t) => ({
           durationMinutes: t.durationMinutes,
-          price: t.price,
+          price: Money.of(t.price, settings.currency),
           isActive: t.isActive,
         })),
         voiceNotePrice: settings.monetizeVoiceNotes
-          ? settings.voiceNotePrice
+          ? Money.of(settings.voiceNotePrice, settings.currency)
+          : undefined,
+        imagePrice: settings.monetizeImages
+          ? Money.of(settings.imagePrice, settings.currency)
+          : undefined,
+        videoPrice: settings.monetizeVideos
+          ? Money.of(settings.videoPrice, settings.currency)
           : undefined,
-        imagePrice: settings.monetizeImages ? settings.imagePrice : undefined,
-        videoPrice: settings.monetizeVideos ? settings.videoPrice : undefined,
         monetizeVoiceNotes: settings.monetizeVoiceNotes,
         monetizeImages: settings.monetizeImages,
         monetizeVideos: settings.monetizeVideos,
@@ -186,88 +261,298 @@ export class MonetizationService {
     contentType: MessageType,
     durationSeconds?: number,
   ): Promise<ContentCostCalculation> {
-    const settings = await this.prisma.userMonetizationSettings.findUnique({
-      where: { userId: recipientId },
-      include: { chatTimeTiers: { where: { isActive: true } } },
-    });
+    const check = await this.checkMessage(
+      senderId,
+      recipientId,
+      contentType,
+      durationSeconds,
+    );
 
-    if (!settings || !settings.isEnabled) {
+    if (!check) {
       return {
         sessionRequired: false,
       };
     }
 
-    const session = await this.getActiveSession(senderId, recipientId);
-
-    if (!session || session.buyerId !== senderId) {
+    if (check.reason === 'SESSION_REQUIRED') {
       return {
         sessionRequired: true,
         sessionCost: {
-          availableTiers: settings.chatTimeTiers.map((t) => ({
-            durationMinutes: t.durationMinutes,
-            price: t.price,
-          })),
+          availableTiers: this.formatTiers(check.settings),
         },
       };
     }
 
-    let additionalCost;
+    if (check.reason === 'INSUFFICIENT_BALANCE') {
+      throw new BadRequestException(
+        `Insufficient balance for ${contentType}. Required: ${check.additionalCost.totalCost.format()}, Available: ${check.availableBalance.format()}`,
+      );
+    }
+
+    return {
+      sessionRequired: false,
+      additionalCost: check.additionalCost,
+      includedInSubscription: check.includedImage,
+    };
+  }
+
+  /**
+   * Gate a chat message on an active paid session and meter its time.
+   * Throws PaymentRequiredException when the sender has no usable session
+   * or cannot cover the content charge.
+   */
+  async authorizeMessage(
+    senderId: string,
+    recipientId: string,
+    contentType: MessageType,
+    durationSeconds?: number,
+  ): Promise<MessageAccess> {
+    const check = await this.checkMessage(
+      senderId,
+      recipientId,
+      contentType,
+      durationSeconds,
+    );
+
+    if (!check) {
+      return { session: null };
+    }
+
+    if (check.reason === 'SESSION_REQUIRED') {
+      throw new PaymentRequiredException(
+        this.buildPaymentRequired(
+          'SESSION_REQUIRED',
+          recipientId,
+          check.settings,
+        ),
+      );
+    }
+
+    if (check.reason === 'INSUFFICIENT_BALANCE') {
+      throw new PaymentRequiredException({
+        ...this.buildPaymentRequired(
+          'INSUFFICIENT_BALANCE',
+          recipientId,
+          check.settings,
+        ),
+        requiredAmount: check.additionalCost.totalCost,
+        availableBalance: check.availableBalance,
+      });
+    }
+
+    const {
+      settings,
+      subscription,
+      activeSession,
+      additionalCost,
+      includedImage,
+    } = check;
+
+    if (!activeSession) {
+      return { session: null, subscription, additionalCost, includedImage };
+    }
+
+    let session: ChatSessionInfo;
+    try {
+      session = await this.updateSessionActivity(activeSession.id, senderId);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw new PaymentRequiredException(
+          this.buildPaymentRequired('SESSION_EXPIRED', recipientId, settings),
+        );
+      }
+      throw error;
+    }
+
+    return { session, subscription, additionalCost, includedImage };
+  }
+
+  /**
+   * The checks shared by canSendMessage and authorizeMessage: whether the
+   * sender needs a session, and whether they can pay for the content.
+   * Returns null when the recipient is not monetized.
+   */
+  private async checkMessage(
+    senderId: string,
+    recipientId: string,
+    contentType: MessageType,
+    durationSeconds?: number,
+  ): Promise<MessageCheck | null> {
+    const settings = await this.prisma.userMonetizationSettings.findUnique({
+      where: { userId: recipientId },
+      include: { chatTimeTiers: { where: { isActive: true } } },
+    });
+
+    if (!settings || !settings.isEnabled) {
+      return null;
+    }
+
+    // A subscription with unlimited chat stands in for a chat session
+    const subscription = await this.subscriptionService.findActive(
+      senderId,
+      recipientId,
+    );
+    const activeSession = subscription?.unlimitedChat
+      ? null
+      : await this.getActiveSession(senderId, recipientId);
+
+    if (
+      !subscription?.unlimitedChat &&
+      (!activeSession || activeSession.buyerId !== senderId)
+    ) {
+      return { reason: 'SESSION_REQUIRED', settings };
+    }
+
+    const includedImage = this.isIncludedImage(subscription, contentType);
+    const additionalCost = includedImage
+      ? undefined
+      : await this.calculateContentCost(settings, contentType, durationSeconds);
+
+    if (additionalCost) {
+      const senderBalance = await this.prisma.userBalance.findUnique({
+        where: { userId: senderId },
+      });
+      const availableBalance = Money.of(
+        senderBalance?.availableBalance || 0,
+        settings.currency,
+      );
+
+      if (availableBalance.lessThan(additionalCost.totalCost)) {
+        return {
+          reason: 'INSUFFICIENT_BALANCE',
+          settings,
+          additionalCost,
+          availableBalance,
+        };
+      }
+    }
+
+    return {
+      reason: null,
+      settings,
+      subscription,
+      activeSession,
+      additionalCost,
+      includedImage,
+    };
+  }
+
+  /**
+   * Images are free while the subscription's allowance for the period
+   * lasts
+   */
+  private isIncludedImage(
+    subscription: Subscription | null,
+    contentType: MessageType,
+  ): boolean {
+    return (
+      contentType === MessageType.IMAGE &&
+      !!subscription &&
+      subscription.imagesUsed < subscription.includedImages
+    );
+  }
+
+  private buildPaymentRequired(
+    reason: PaymentRequiredReason,
+    sellerId: string,
+    settings: SellerSettings,
+  ): PaymentRequiredPayload {
+    return {
+      reason,
+      sellerId,
+      currency: settings.currency,
+      availableTiers: this.formatTiers(settings),
+    };
+  }
+
+  private formatTiers(settings: SellerSettings) {
+    return settings.chatTimeTiers.map((t) => ({
+      durationMinutes: t.durationMinutes,
+      price: Money.of(t.price, settings.currency),
+    }));
+  }
+
+  /**
+   * Price a piece of content and split it into seller earnings and
+   * platform fee. Returns undefined when the content type is free.
+   */
+  private async calculateContentCost(
+    settings: UserMonetizationSettings,
+    contentType: MessageType,
+    durationSeconds?: number,
+  ): Promise<ContentCostCalculation['additionalCost']> {
+    const cost = this.rateContent(settings, contentType, durationSeconds);
+    if (!cost) return undefined;
+
+    const fee = await this.commissionService.quote(
+      settings.userId,
+      'CONTENT',
+      cost.totalCost,
+    );
+
+    return { ...cost, fee };
+  }
 
+  /**
+   * Price a piece of content against the recipient's settings.
+   * Audio and video are billed per started second: the duration is rounded
+   * up to whole seconds and multiplied by the integer per-second rate, so
+   * the total is exact in minor units.
+   */
+  private rateContent(
+    settings: UserMonetizationSettings,
+    contentType: MessageType,
+    durationSeconds?: number,
+  ): Omit<ContentCost, 'fee'> | undefined {
     if (contentType === MessageType.AUDIO && settings.monetizeVoiceNotes) {
       if (!durationSeconds) {
         throw new BadRequestException('Duration is required for voice notes');
       }
-      const total = settings.voiceNotePrice * durationSeconds;
-      additionalCost = {
+      return this.perSecondCost(
         contentType,
-        basePrice: settings.voiceNotePrice,
-        units: durationSeconds,
-        totalCost: total,
-        currency: settings.currency,
-        description: `${durationSeconds} seconds @ ${settings.currency} ${settings.voiceNotePrice}/sec = ${settings.currency} ${total.toFixed(2)}`,
-      };
-    } else if (contentType === MessageType.IMAGE && settings.monetizeImages) {
-      additionalCost = {
+        Money.of(settings.voiceNotePrice, settings.currency),
+        durationSeconds,
+      );
+    }
+
+    if (contentType === MessageType.IMAGE && settings.monetizeImages) {
+      const price = Money.of(settings.imagePrice, settings.currency);
+      return {
         contentType,
-        basePrice: settings.imagePrice,
+        basePrice: price,
         units: 1,
-        totalCost: settings.imagePrice,
-        currency: settings.currency,
-        description: `1 image @ ${settings.currency} ${settings.imagePrice.toFixed(2)}`,
+        totalCost: price,
+        description: `1 image @ ${price.format()}`,
       };
-    } else if (contentType === MessageType.VIDEO && settings.monetizeVideos) {
+    }
+
+    if (contentType === MessageType.VIDEO && settings.monetizeVideos) {
       if (!durationSeconds) {
         throw new BadRequestException('Duration is required for videos');
       }
-      const total = settings.videoPrice * durationSeconds;
-      additionalCost = {
+      return this.perSecondCost(
         contentType,
-        basePrice: settings.videoPrice,
-        units: durationSeconds,
-        totalCost: total,
-        currency: settings.currency,
-        description: `${durationSeconds} seconds @ ${settings.currency} ${settings.videoPrice}/sec = ${settings.currency} ${total.toFixed(2)}`,
-      };
+        Money.of(settings.videoPrice, settings.currency),
+        durationSeconds,
+      );
     }
 
-    if (additionalCost) {
-      const senderBalance = await this.prisma.userBalance.findUnique({
-        where: { userId: senderId },
-      });
-
-      if (
-        !senderBalance ||
-        senderBalance.availableBalance < additionalCost.totalCost
-      ) {
-        throw new BadRequestException(
-          `Insufficient balance for ${contentType}. Required: ${additionalCost.currency} ${additionalCost.totalCost}, Available: ${additionalCost.currency} ${senderBalance?.availableBalance || 0}`,
-        );
-      }
-    }
+    return undefined;
+  }
 
+  private perSecondCost(
+    contentType: MessageType,
+    rate: Money,
+    durationSeconds: number,
+  ): Omit<ContentCost, 'fee'> {
+    const seconds = Math.ceil(durationSeconds);
+    const total = rate.multiply(seconds);
     return {
-      sessionRequired: false,
-      additionalCost,
+      contentType,
+      basePrice: rate,
+      units: seconds,
+      totalCost: total,
+      description: `${seconds} seconds @ ${rate.format()}/sec = ${total.format()}`,
     };
   }
 
@@ -290,95 +575,26 @@ export class MonetizationService {
       return null;
     }
 
-    let basePrice = 0;
-    let units = 0;
-    let totalAmount = 0;
+    const cost = await this.calculateContentCost(
+      settings,
+      contentType,
+      durationSeconds,
+    );
 
-    if (contentType === MessageType.TEXT) {
-      return null;
-    } else if (
-      contentType === MessageType.AUDIO &&
-      settings.monetizeVoiceNotes
-    ) {
-      if (!durationSeconds) {
-        throw new BadRequestException('Duration required for voice notes');
-      }
-      basePrice = settings.voiceNotePrice;
-      units = durationSeconds;
-      totalAmount = basePrice * units;
-    } else if (contentType === MessageType.IMAGE && settings.monetizeImages) {
-      basePrice = settings.imagePrice;
-      units = 1;
-      totalAmount = basePrice;
-    } else if (contentType === MessageType.VIDEO && settings.monetizeVideos) {
-      if (!durationSeconds) {
-        throw new BadRequestException('Duration required for videos');
-      }
-      basePrice = settings.videoPrice;
-      units = durationSeconds;
-      totalAmount = basePrice * units;
-    } else {
+    if (!cost) {
       return null;
     }
 
     try {
-      const result = await this.prisma.$transaction(async (tx) => {
-        const senderBalance = await tx.userBalance.findUnique({
-          where: { userId: senderId },
-        });
-
-        if (!senderBalance || senderBalance.availableBalance < totalAmount) {
-          throw new BadRequestException(
-            `Insufficient balance. Required: ${settings.currency} ${totalAmount}`,
-          );
-        }
-
-        await tx.userBalance.update({
-          where: { userId: senderId },
-          data: {
-            availableBalance: { decrement: totalAmount },
-            totalSpent: { increment: totalAmount },
-            lastUpdated: new Date(),
-          },
-        });
-
-        await tx.userBalance.upsert({
-          where: { userId: recipientId },
-          update: {
-            availableBalance: { increment: totalAmount },
-            totalEarnings: { increment: totalAmount },
-            lastUpdated: new Date(),
-          },
-          create: {
-            userId: recipientId,
-            availableBalance: totalAmount,
-            totalEarnings: totalAmount,
-          },
-        });
-
-        const charge = await tx.contentCharge.create({
-          data: {
-            messageId,
-            sessionId,
-            senderId,
-            recipientId,
-            contentType,
-            basePrice,
-            units,
-            totalAmount,
-            isPaid: true,
-            paidAt: new Date(),
-          },
-        });
-
-        return charge;
-      });
-
-      this.logger.log(
-        `Content charge processed: ${contentType} = ${settings.currency} ${totalAmount.toFixed(2)}`,
+      return await this.prisma.$transaction((tx) =>
+        this.applyContentCharge(tx, {
+          messageId,
+          sessionId,
+          senderId,
+          recipientId,
+          cost,
+        }),
       );
-
-      return result;
     } catch (error) {
       this.logger.error('Failed to create content charge:', error);
       if (error instanceof BadRequestException) {
@@ -390,22 +606,103 @@ export class MonetizationService {
     }
   }
 
+  /**
+   * Charge the sender for a message inside the caller's transaction so the
+   * charge commits or rolls back together with the message row
+   */
+  async applyContentCharge(
+    tx: Prisma.TransactionClient,
+    params: {
+      messageId: string;
+      sessionId?: string;
+      subscriptionId?: string;
+      senderId: string;
+      recipientId: string;
+      cost: ContentCost;
+    },
+  ) {
+    const {
+      messageId,
+      sessionId,
+      subscriptionId,
+      senderId,
+      recipientId,
+      cost,
+    } = params;
+    const totalAmount = cost.totalCost.amount;
+    const currency = cost.totalCost.currency;
+
+    const senderBalance = await tx.userBalance.findUnique({
+      where: { userId: senderId },
+    });
+
+    if (!senderBalance || senderBalance.availableBalance < totalAmount) {
+      throw new BadRequestException(
+        `Insufficient balance. Required: ${cost.totalCost.format()}`,
+      );
+    }
+
+    const charge = await tx.contentCharge.create({
+      data: {
+        messageId,
+        sessionId,
+        subscriptionId,
+        senderId,
+        recipientId,
+        contentType: cost.contentType,
+        basePrice: cost.basePrice.amount,
+        units: cost.units,
+        totalAmount,
+        platformFee: cost.fee.platformFee.amount,
+        sellerAmount: cost.fee.sellerAmount.amount,
+        currency,
+        isPaid: true,
+        paidAt: new Date(),
+      },
+    });
+
+    await this.ledgerService.post(tx, {
+      kind: 'CONTENT_CHARGE',
+      description: `${cost.contentType} message charge`,
+      referenceType: 'ContentCharge',
+      referenceId: charge.id,
+      legs: [
+        {
+          account: LedgerAccounts.wallet(senderId, currency),
+          amount: -totalAmount,
+          category: 'SPEND',
+        },
+        ...this.commissionService.creditLegs(recipientId, cost.fee),
+      ],
+    });
+
+    this.logger.log(
+      `Content charge processed: ${cost.contentType} = ${cost.totalCost.format()} (platform fee ${cost.fee.platformFee.format()})`,
+    );
+
+    return charge;
+  }
+
   async getUserBalance(userId: string) {
     const balance = await this.prisma.userBalance.findUnique({
       where: { userId },
     });
 
-    if (!balance) {
-      return {
-        availableBalance: 0,
-        pendingBalance: 0,
-        totalEarnings: 0,
-        totalSpent: 0,
-        currency: 'KES',
-      };
-    }
+    const currency = balance?.currency ?? 'KES';
 
-    return balance;
+    return {
+      availableBalance: Money.of(balance?.availableBalance ?? 0, currency),
+      pendingBalance: Money.of(balance?.pendingBalance ?? 0, currency),
+      totalEarnings: Money.of(balance?.totalEarnings ?? 0, currency),
+      totalSpent: Money.of(balance?.totalSpent ?? 0, currency),
+      withdrawalPendingBalance: Money.of(
+        balance?.withdrawalPendingBalance ?? 0,
+        currency,
+      ),
+      disputeHoldBalance: Money.of(balance?.disputeHoldBalance ?? 0, currency),
+      currency,
+      lastUpdated: balance?.lastUpdated,
+    };
   }
 
   async getUserSessions(userId: string, isActive?: boolean) {
@@ -448,17 +745,25 @@ export class MonetizationService {
       activeSessions: sessions.filter(
         (s) => s.isActive && s.endTime > new Date(),
       ).length,
-      sessionEarnings: sessions.reduce((sum, s) => sum + s.price, 0),
-      additionalCharges: charges.reduce((sum, c) => sum + c.totalAmount, 0),
+      sessionEarnings: Money.of(
+        sessions.reduce((sum, s) => sum + s.price, 0),
+        balance.currency,
+      ),
+      additionalCharges: Money.of(
+        charges.reduce((sum, c) => sum + c.totalAmount, 0),
+        balance.currency,
+      ),
     };
   }
 
   async disableMonetization(userId: string) {
     try {
+      const before = await this.findSettingsWithTiers(userId);
       const settings = await this.prisma.userMonetizationSettings.update({
         where: { userId },
         data: { isEnabled: false },
       });
+      await this.auditSettingsChange(userId, 'MONETIZATION_DISABLED', before);
 
       return {
         success: true,
@@ -502,59 +807,46 @@ export class MonetizationService {
       );
     }
 
-    const existingSession = await this.prisma.chatSession.findFirst({
-      where: {
-        buyerId,
-        sellerId: dto.sellerId,
-        isActive: true,
-        isCancelled: false,
-      },
-    });
-
-    if (
-      existingSession &&
-      existingSession.usedMinutes < existingSession.durationMinutes
-    ) {
-      throw new BadRequestException(
-        `You already have an active session with ${existingSession.durationMinutes - existingSession.usedMinutes} minutes remaining`,
-      );
-    }
+    await this.assertNoActiveSession(buyerId, dto.sellerId);
 
     const buyerBalance = await this.prisma.userBalance.findUnique({
       where: { userId: buyerId },
     });
 
-    if (!buyerBalance || buyerBalance.availableBalance < tier.price) {
+    const listPrice = Money.of(tier.price, settings.currency);
+    const promo = dto.promoCode
+      ? await this.promotionService.quoteChatTime(
+          buyerId,
+          dto.sellerId,
+          dto.promoCode,
+          listPrice,
+        )
+      : null;
+    const discount = promo?.discount ?? Money.zero(settings.currency);
+    const price = listPrice.subtract(discount);
+    // The platform tops up discounts it funds, so the seller earns as if
+    // the full tier price was paid; creator-funded discounts come out of
+    // the sale itself
+    const platformFunded = promo?.fundedBy === PromoFunder.PLATFORM;
+    const availableBalance = Money.of(
+      buyerBalance?.availableBalance || 0,
+      settings.currency,
+    );
+
+    if (availableBalance.lessThan(price)) {
       throw new BadRequestException(
-        `Insufficient balance. Required: ${settings.currency} ${tier.price}, Available: ${settings.currency} ${buyerBalance?.availableBalance || 0}`,
+        `Insufficient balance. Required: ${price.format()}, Available: ${availableBalance.format()}`,
       );
     }
 
+    const fee = await this.commissionService.quote(
+      dto.sellerId,
+      'CHAT_TIME',
+      platformFunded ? listPrice : price,
+    );
+
     try {
       const result = await this.prisma.$transaction(async (tx) => {
-        await tx.userBalance.update({
-          where: { userId: buyerId },
-          data: {
-            availableBalance: { decrement: tier.price },
-            totalSpent: { increment: tier.price },
-            lastUpdated: new Date(),
-          },
-        });
-
-        await tx.userBalance.upsert({
-          where: { userId: dto.sellerId },
-          update: {
-            availableBalance: { increment: tier.price },
-            totalEarnings: { increment: tier.price },
-            lastUpdated: new Date(),
-          },
-          create: {
-            userId: dto.sellerId,
-            availableBalance: tier.price,
-            totalEarnings: tier.price,
-          },
-        });
-
         const startTime = new Date();
 
         const session = await tx.chatSession.create({
@@ -562,8 +854,12 @@ export class MonetizationService {
             buyerId,
             sellerId: dto.sellerId,
             durationMinutes: tier.durationMinutes,
-            price: tier.price,
+            price: price.amount,
+            platformFee: fee.platformFee.amount,
+            sellerAmount: fee.sellerAmount.amount,
             currency: settings.currency,
+            discountAmount: discount.amount,
+            discountFundedBy: promo?.fundedBy,
             startTime,
             endTime: startTime,
             isPaid: true,
@@ -574,24 +870,201 @@ export class MonetizationService {
           },
         });
 
+        if (
+          promo &&
+          !(await this.promotionService.redeem(tx, {
+            promoCode: promo.promoCode,
+            userId: buyerId,
+            value: discount,
+            chatSessionId: session.id,
+          }))
+        ) {
+          throw new BadRequestException('This promo code has no uses left');
+        }
+
+        // A creator-funded discount can make the session free
+        if (fee.gross.isPositive()) {
+          await this.ledgerService.post(tx, {
+            kind: 'CHAT_TIME_PURCHASE',
+            description: `${tier.durationMinutes} minute chat session`,
+            referenceType: 'ChatSession',
+            referenceId: session.id,
+            legs: [
+              {
+                account: LedgerAccounts.wallet(buyerId, settings.currency),
+                amount: -price.amount,
+                category: 'SPEND',
+              },
+              {
+                account: LedgerAccounts.promotions(settings.currency),
+                amount: platformFunded ? -discount.amount : 0,
+              },
+              ...this.commissionService.creditLegs(dto.sellerId, fee),
+            ],
+            metadata: promo
+              ? {
+                  promoCodeId: promo.promoCode.id,
+                  discount: discount.amount,
+                  fundedBy: promo.fundedBy,
+                }
+              : undefined,
+          });
+        }
+
         return session;
       });
 
       this.logger.log(
-        `Chat session purchased: ${buyerId} -> ${dto.sellerId} for ${tier.durationMinutes} mins @ ${settings.currency} ${tier.price}`,
+        `Chat session purchased: ${buyerId} -> ${dto.sellerId} for ${tier.durationMinutes} mins @ ${price.format()}` +
+          (promo
+            ? ` (${discount.format()} off with ${promo.promoCode.code})`
+            : ''),
       );
 
       return this.formatChatSessionInfo(result);
     } catch (error) {
+      if (error instanceof HttpException) throw error;
       this.logger.error('Failed to purchase chat time:', error);
       throw new InternalServerErrorException('Failed to complete purchase');
     }
   }
 
+  /**
+   * Start a free session with a free-minute voucher. Platform vouchers pay
+   * the seller for the minutes at their cheapest per-minute rate; creator
+   * vouchers are given away by the creator.
+   */
+  async redeemVoucher(
+    buyerId: string,
+    dto: RedeemVoucherDto,
+  ): Promise<ChatSessionInfo> {
+    const settings = await this.prisma.userMonetizationSettings.findUnique({
+      where: { userId: dto.sellerId },
+      include: { chatTimeTiers: { where: { isActive: true } } },
+    });
+
+    if (!settings || !settings.isEnabled) {
+      throw new BadRequestException(
+        'This user does not have monetization enabled',
+      );
+    }
+    if (settings.chatTimeTiers.length === 0) {
+      throw new BadRequestException('This user does not sell chat time');
+    }
+
+    await this.assertNoActiveSession(buyerId, dto.sellerId);
+
+    const promoCode = await this.promotionService.findVoucher(
+      buyerId,
+      dto.sellerId,
+      dto.code,
+    );
+    const minutes = promoCode.freeMinutes ?? 0;
+
+    const cheapest = settings.chatTimeTiers.reduce((best, tier) =>
+      tier.price / tier.durationMinutes < best.price / best.durationMinutes
+        ? tier
+        : best,
+    );
+    const value = Money.of(cheapest.price, settings.currency).prorate(
+      minutes,
+      cheapest.durationMinutes,
+    );
+    const platformFunded = promoCode.fundedBy === PromoFunder.PLATFORM;
+    const fee = await this.commissionService.quote(
+      dto.sellerId,
+      'CHAT_TIME',
+      platformFunded ? value : Money.zero(settings.currency),
+    );
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const startTime = new Date();
+
+      const session = await tx.chatSession.create({
+        data: {
+          buyerId,
+          sellerId: dto.sellerId,
+          durationMinutes: minutes,
+          price: 0,
+          platformFee: fee.platformFee.amount,
+          sellerAmount: fee.sellerAmount.amount,
+          currency: settings.currency,
+          discountAmount: value.amount,
+          discountFundedBy: promoCode.fundedBy,
+          startTime,
+          endTime: startTime,
+          isPaid: true,
+          paidAt: new Date(),
+          isActive: true,
+          usedMinutes: 0,
+          isPaused: true,
+        },
+      });
+
+      const redeemed = await this.promotionService.redeem(tx, {
+        promoCode,
+        userId: buyerId,
+        value,
+        chatSessionId: session.id,
+      });
+      if (!redeemed) {
+        throw new BadRequestException('This voucher has no uses left');
+      }
+
+      if (fee.gross.isPositive()) {
+        await this.ledgerService.post(tx, {
+          kind: 'PROMO_VOUCHER',
+          description: `${minutes} free chat minutes with ${promoCode.code}`,
+          referenceType: 'ChatSession',
+          referenceId: session.id,
+          legs: [
+            {
+              account: LedgerAccounts.promotions(settings.currency),
+              amount: -value.amount,
+            },
+            ...this.commissionService.creditLegs(dto.sellerId, fee),
+          ],
+          metadata: { promoCodeId: promoCode.id },
+        });
+      }
+
+      return session;
+    });
+
+    this.logger.log(
+      `Voucher ${promoCode.code} redeemed: ${buyerId} -> ${dto.sellerId} for ${minutes} mins worth ${value.format()}`,
+    );
+
+    return this.formatChatSessionInfo(result);
+  }
+
+  private async assertNoActiveSession(buyerId: string, sellerId: string) {
+    const existingSession = await this.prisma.chatSession.findFirst({
+      where: {
+        buyerId,
+        sellerId,
+        isActive: true,
+        isCancelled: false,
+      },
+    });
+
+    if (
+      existingSession &&
+      existingSession.usedMinutes < existingSession.durationMinutes
+    ) {
+      throw new BadRequestException(
+        `You already have an active session with ${existingSession.durationMinutes - existingSession.usedMinutes} minutes remaining`,
+      );
+    }
+  }
+
   /**
    * Resume or activate session (called when sending first message)
    */
-  async activateSession(sessionId: string): Promise<ChatSessionInfo> {
+  async activateSession(
+    sessionId: string,
+    userId: string,
+  ): Promise<ChatSessionInfo> {
     const session = await this.prisma.chatSession.findUnique({
       where: { id: sessionId },
     });
@@ -600,6 +1073,10 @@ export class MonetizationService {
       throw new NotFoundException('Session not found');
     }
 
+    if (session.buyerId !== userId && session.sellerId !== userId) {
+      throw new ForbiddenException('You are not part of this chat session');
+    }
+
     if (!session.isActive || session.isCancelled) {
       throw new BadRequestException('Session is not available');
     }
@@ -683,7 +1160,7 @@ export class MonetizationService {
   /**
    * Update session activity (called when message is sent)
    */
-  async updateSessionActivity(sessionId: string) {
+  async updateSessionActivity(sessionId: string, userId: string) {
     const session = await this.prisma.chatSession.findUnique({
       where: { id: sessionId },
     });
@@ -692,10 +1169,14 @@ export class MonetizationService {
       throw new NotFoundException('Session not found');
     }
 
+    if (session.buyerId !== userId && session.sellerId !== userId) {
+      throw new ForbiddenException('You are not part of this chat session');
+    }
+
     const now = new Date();
 
     if (session.isPaused) {
-      return this.activateSession(sessionId);
+      return this.activateSession(sessionId, userId);
     }
 
     if (now > session.endTime) {
@@ -775,7 +1256,7 @@ export class MonetizationService {
   }
 
   /**
-   * Auto-pause session after inactivity (run via cron job)
+   * Auto-pause session after inactivity (run every minute by the scheduler)
    */
   async autoPauseInactiveSessions(inactivityMinutes: number = 5) {
     const cutoffTime = new Date(Date.now() - inactivityMinutes * 60 * 1000);
@@ -817,7 +1298,7 @@ export class MonetizationService {
     };
   }
 
-  private formatChatSessionInfo(session: any): ChatSessionInfo {
+  private formatChatSessionInfo(session: ChatSession): ChatSessionInfo {
     const now = new Date();
     let remaining = 0;
 
@@ -838,8 +1319,8 @@ export class MonetizationService {
       buyerId: session.buyerId,
       sellerId: session.sellerId,
       durationMinutes: session.durationMinutes,
-      price: session.price,
-      currency: session.currency,
+      price: Money.of(session.price, session.currency),
+      discount: Money.of(session.discountAmount, session.currency),
       startTime: session.startTime,
       endTime: session.endTime,
       remainingMinutes: Math.round(remaining * 100) / 100,
@@ -881,12 +1362,35 @@ export class MonetizationService {
     }
 
     const remainingMinutes = Math.max(0, session.durationMinutes - totalUsed);
-    const refundAmount =
-      (session.price / session.durationMinutes) * remainingMinutes;
+    // Prorated refunds round down so partial minor units stay with the seller.
+    // The seller and the platform each give back their share of the refund.
+    const refund = Money.of(session.price, session.currency).prorate(
+      remainingMinutes,
+      session.durationMinutes,
+    );
+    // A discount the platform funded was paid out on top of the buyer's
+    // price, so its share of the unused time goes back to promotions
+    const gross = Money.of(
+      session.price +
+        (session.discountFundedBy === PromoFunder.PLATFORM
+          ? session.discountAmount
+          : 0),
+      session.currency,
+    );
+    const grossRefund = gross.prorate(
+      remainingMinutes,
+      session.durationMinutes,
+    );
+    const platformRefund = Money.of(
+      session.platformFee,
+      session.currency,
+    ).prorate(grossRefund.amount, gross.amount);
+    const sellerRefund = grossRefund.subtract(platformRefund);
+    const promotionRefund = grossRefund.subtract(refund);
 
     try {
       await this.prisma.$transaction(async (tx) => {
-        await tx.chatSession.update({
+        const cancelled = await tx.chatSession.update({
           where: { id: sessionId },
           data: {
             isActive: false,
@@ -897,35 +1401,64 @@ export class MonetizationService {
           },
         });
 
-        if (refundAmount > 0) {
-          await tx.userBalance.update({
-            where: { userId: session.buyerId },
-            data: {
-              availableBalance: { increment: refundAmount },
-              totalSpent: { decrement: refundAmount },
-              lastUpdated: new Date(),
-            },
-          });
+        await this.auditService.record(
+          {
+            action: 'CHAT_SESSION_CANCELLED',
+            entityType: 'ChatSession',
+            entityId: sessionId,
+            before: session,
+            after: cancelled,
+            metadata: { refund: refund.amount, currency: session.currency },
+          },
+          tx,
+        );
 
-          await tx.userBalance.update({
-            where: { userId: session.sellerId },
-            data: {
-              availableBalance: { decrement: refundAmount },
-              totalEarnings: { decrement: refundAmount },
-              lastUpdated: new Date(),
-            },
+        if (grossRefund.isPositive()) {
+          await this.ledgerService.post(tx, {
+            kind: 'CHAT_TIME_REFUND',
+            description: `Refund of ${remainingMinutes.toFixed(2)} unused chat minutes`,
+            referenceType: 'ChatSession',
+            referenceId: sessionId,
+            allowOverdraft: true,
+            legs: [
+              {
+                account: LedgerAccounts.wallet(
+                  session.sellerId,
+                  session.currency,
+                ),
+                amount: -sellerRefund.amount,
+                category: 'EARNING',
+              },
+              {
+                account: LedgerAccounts.platformRevenue(session.currency),
+                amount: -platformRefund.amount,
+                category: 'EARNING',
+              },
+              {
+                account: LedgerAccounts.promotions(session.currency),
+                amount: promotionRefund.amount,
+              },
+              {
+                account: LedgerAccounts.wallet(
+                  session.buyerId,
+                  session.currency,
+                ),
+                amount: refund.amount,
+                category: 'SPEND',
+              },
+            ],
           });
         }
       });
 
       this.logger.log(
-        `Session cancelled: ${sessionId}, refund: ${refundAmount}`,
+        `Session cancelled: ${sessionId}, refund: ${refund.format()}`,
       );
 
       return {
         success: true,
         message: 'Session cancelled successfully',
-        refundAmount: Math.round(refundAmount * 100) / 100,
+        refundAmount: refund,
         usedMinutes: Math.round(totalUsed * 100) / 100,
         remainingMinutes: Math.round(remainingMinutes * 100) / 100,
       };
@@ -935,7 +1468,6 @@ export class MonetizationService {
     }
   }
 
-
   async updateMonetizationSettings(
     userId: string,
     dto: UpdateMonetizationSettingsDto,
@@ -1037,6 +1569,11 @@ export class MonetizationService {
         });
       }
 
+      await this.auditSettingsChange(
+        userId,
+        'MONETIZATION_SETTINGS_UPDATED',
+        existingSettings,
+      );
       this.logger.log(`Monetization settings updated for user ${userId}`);
 
       return {
@@ -1057,4 +1594,31 @@ export class MonetizationService {
       );
     }
   }
+
+  private findSettingsWithTiers(userId: string) {
+    return this.prisma.userMonetizationSettings.findUnique({
+      where: { userId },
+      include: { chatTimeTiers: true },
+    });
+  }
+
+  /**
+   * Audit a pricing change with the settings and tiers before and after it
+   */
+  private async auditSettingsChange(
+    userId: string,
+    action: string,
+    before: UserMonetizationSettings | null,
+  ) {
+    const after = await this.findSettingsWithTiers(userId);
+
+    await this.auditService.record({
+      action,
+      entityType: 'UserMonetizationSettings',
+      entityId: after?.id ?? before?.id,
+      before,
+      after,
+      metadata: { userId },
+    });
+  }
 }
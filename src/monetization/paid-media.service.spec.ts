@@ -0,0 +1,159 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Message, MessageUnlock, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { CommissionService } from 'src/commission/commission.service';
+import { CloudinaryService } from 'src/cloudinary/cloudinary.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { LedgerLeg } from 'src/ledger/dto/ledger.dto';
+import { PaidMediaService } from './paid-media.service';
+
+const lockedPhoto = {
+  id: 'msg_1',
+  chatRoomId: 'room_1',
+  senderId: 'seller',
+  messageType: 'IMAGE',
+  fileUrl: 'https://res.cloudinary.com/demo/image/upload/photo.jpg',
+  unlockPrice: 50000,
+  unlockCurrency: 'KES',
+  isDeleted: false,
+} as Message;
+
+const receipt = {
+  id: 'unl_1',
+  messageId: 'msg_1',
+  buyerId: 'buyer',
+  sellerId: 'seller',
+  amount: 50000,
+  platformFee: 10000,
+  sellerAmount: 40000,
+  currency: 'KES',
+} as MessageUnlock;
+
+/** Legs of the single ledger posting, as account type and amount */
+function postedLegs(post: jest.Mock) {
+  expect(post).toHaveBeenCalledTimes(1);
+  const [[, posting]] = post.mock.calls as [[unknown, { legs: LedgerLeg[] }]];
+  return posting.legs.map((leg) => [leg.account.type, leg.amount]);
+}
+
+describe('PaidMediaService', () => {
+  let service: PaidMediaService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let ledgerService: { post: jest.Mock };
+  let realtimeService: { emitToUser: jest.Mock };
+
+  function createPrisma() {
+    const client = {
+      $transaction: jest.fn(
+        (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(client),
+      ),
+      message: { findUnique: jest.fn().mockResolvedValue(lockedPhoto) },
+      chatRoom: { findFirst: jest.fn().mockResolvedValue({ id: 'room_1' }) },
+      userBalance: {
+        findUnique: jest.fn().mockResolvedValue({ availableBalance: 80000 }),
+      },
+      messageUnlock: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue(receipt),
+      },
+      commissionRule: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+    realtimeService = { emitToUser: jest.fn() };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaidMediaService,
+        CommissionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: CloudinaryService, useValue: {} },
+        { provide: RealtimeService, useValue: realtimeService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(PaidMediaService);
+  });
+
+  describe('unlock', () => {
+    it("splits the price between the seller and the platform's commission", async () => {
+      const { message } = await service.unlock('buyer', 'msg_1');
+
+      expect(message.isLocked).toBe(false);
+      expect(message.fileUrl).toBe(lockedPhoto.fileUrl);
+      expect(prisma.messageUnlock.create).toHaveBeenCalledWith({
+        data: {
+          messageId: 'msg_1',
+          buyerId: 'buyer',
+          sellerId: 'seller',
+          amount: 50000,
+          platformFee: 10000,
+          sellerAmount: 40000,
+          currency: 'KES',
+        },
+      });
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_WALLET', -50000],
+        ['USER_WALLET', 40000],
+        ['PLATFORM_REVENUE', 10000],
+      ]);
+    });
+
+    it('refuses a buyer who cannot cover the price', async () => {
+      prisma.userBalance.findUnique.mockResolvedValue({
+        availableBalance: 49999,
+      });
+
+      await expect(service.unlock('buyer', 'msg_1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.messageUnlock.create).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('returns the existing receipt without charging twice', async () => {
+      prisma.messageUnlock.findUnique.mockResolvedValue(receipt);
+
+      const { unlock } = await service.unlock('buyer', 'msg_1');
+
+      expect(unlock).toBe(receipt);
+      expect(prisma.messageUnlock.create).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+      expect(realtimeService.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('returns the receipt when another device unlocked it first', async () => {
+      prisma.messageUnlock.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(receipt);
+      prisma.messageUnlock.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      const { unlock } = await service.unlock('buyer', 'msg_1');
+
+      expect(unlock).toBe(receipt);
+      expect(realtimeService.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('does not charge the sender for their own media', async () => {
+      await expect(service.unlock('seller', 'msg_1')).rejects.toThrow(
+        'This message is not locked',
+      );
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+  });
+});
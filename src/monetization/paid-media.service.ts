@@ -0,0 +1,259 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Message, MessageType, MessageUnlock, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { CommissionService } from 'src/commission/commission.service';
+import { CloudinaryService } from 'src/cloudinary/cloudinary.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { Money } from 'src/common/money/money';
+import { LockedMedia, ViewedMessage } from './dto/monetization.dto';
+
+type MessageWithReply = Message & { repliedTo?: Message | null };
+
+/**
+ * Pay-per-view media: creators lock an image or video behind a price, the
+ * other participant sees a blurred preview until they pay, and each payment
+ * leaves a MessageUnlock receipt that decides what fileUrl a viewer gets.
+ */
+@Injectable()
+export class PaidMediaService {
+  private readonly logger = new Logger(PaidMediaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly commissionService: CommissionService,
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * Validate a locked media message before it is stored and return the
+   * columns that lock it. Only monetized users can sell media, priced in
+   * their settlement currency.
+   */
+  async lock(
+    senderId: string,
+    messageType: MessageType,
+    fileUrl: string | undefined,
+    unlockPrice: number,
+  ): Promise<LockedMedia> {
+    if (
+      messageType !== MessageType.IMAGE &&
+      messageType !== MessageType.VIDEO
+    ) {
+      throw new BadRequestException(
+        'Only image and video messages can be locked',
+      );
+    }
+    if (!fileUrl) {
+      throw new BadRequestException('Locked media requires a fileUrl');
+    }
+    if (!Number.isInteger(unlockPrice) || unlockPrice < 1) {
+      throw new BadRequestException(
+        'unlockPrice must be a positive whole amount in minor units',
+      );
+    }
+
+    const settings = await this.prisma.userMonetizationSettings.findUnique({
+      where: { userId: senderId },
+    });
+    if (!settings?.isEnabled) {
+      throw new ForbiddenException('Enable monetization to send locked media');
+    }
+
+    const previewUrl = this.cloudinaryService.blurredPreviewUrl(
+      fileUrl,
+      messageType === MessageType.IMAGE ? 'image' : 'video',
+    );
+    if (!previewUrl) {
+      throw new BadRequestException(
+        'Locked media must be uploaded through the upload endpoint',
+      );
+    }
+
+    return { unlockPrice, unlockCurrency: settings.currency, previewUrl };
+  }
+
+  /**
+   * Pay for a locked message and reveal it. Unlocking twice returns the
+   * existing receipt without charging again.
+   */
+  async unlock(
+    buyerId: string,
+    messageId: string,
+  ): Promise<{ message: ViewedMessage<Message>; unlock: MessageUnlock }> {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+    });
+    const room =
+      message &&
+      (await this.prisma.chatRoom.findFirst({
+        where: {
+          id: message.chatRoomId,
+          OR: [{ participant1: buyerId }, { participant2: buyerId }],
+        },
+        select: { id: true },
+      }));
+    if (!message || !room) {
+      throw new NotFoundException('Message not found');
+    }
+    if (message.unlockPrice === null || message.senderId === buyerId) {
+      throw new BadRequestException('This message is not locked');
+    }
+    if (message.isDeleted) {
+      throw new BadRequestException('This message was deleted');
+    }
+
+    const existing = await this.findUnlock(buyerId, messageId);
+    if (existing) {
+      return { message: { ...message, isLocked: false }, unlock: existing };
+    }
+
+    const price = Money.of(
+      message.unlockPrice,
+      message.unlockCurrency ?? 'KES',
+    );
+    const buyerBalance = await this.prisma.userBalance.findUnique({
+      where: { userId: buyerId },
+    });
+    const availableBalance = Money.of(
+      buyerBalance?.availableBalance ?? 0,
+      price.currency,
+    );
+    if (availableBalance.lessThan(price)) {
+      throw new BadRequestException(
+        `Insufficient balance. Required: ${price.format()}, Available: ${availableBalance.format()}`,
+      );
+    }
+
+    const fee = await this.commissionService.quote(
+      message.senderId,
+      'CONTENT',
+      price,
+    );
+
+    let unlock: MessageUnlock;
+    try {
+      unlock = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.messageUnlock.create({
+          data: {
+            messageId,
+            buyerId,
+            sellerId: message.senderId,
+            amount: price.amount,
+            platformFee: fee.platformFee.amount,
+            sellerAmount: fee.sellerAmount.amount,
+            currency: price.currency,
+          },
+        });
+
+        await this.ledgerService.post(tx, {
+          kind: 'MEDIA_UNLOCK',
+          description: `Unlocked ${message.messageType.toLowerCase()} message`,
+          referenceType: 'MessageUnlock',
+          referenceId: created.id,
+          legs: [
+            {
+              account: LedgerAccounts.wallet(buyerId, price.currency),
+              amount: -price.amount,
+              category: 'SPEND',
+            },
+            ...this.commissionService.creditLegs(message.senderId, fee),
+          ],
+        });
+
+        return created;
+      });
+    } catch (error) {
+      // Another device of the same buyer unlocked it first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const receipt = await this.findUnlock(buyerId, messageId);
+        if (receipt) {
+          return { message: { ...message, isLocked: false }, unlock: receipt };
+        }
+      }
+      throw error;
+    }
+
+    const unlocked = { ...message, isLocked: false };
+    this.realtimeService.emitToUser(buyerId, 'messageUnlocked', {
+      roomId: message.chatRoomId,
+      message: unlocked,
+    });
+    this.realtimeService.emitToUser(message.senderId, 'mediaUnlocked', {
+      roomId: message.chatRoomId,
+      messageId,
+      buyerId,
+      earned: fee.sellerAmount,
+    });
+
+    this.logger.log(
+      `Message ${messageId} unlocked by ${buyerId} for ${price.format()} (platform fee ${fee.platformFee.format()})`,
+    );
+
+    return { message: unlocked, unlock };
+  }
+
+  /**
+   * Messages as one viewer sees them: locked media they neither sent nor
+   * paid for loses its fileUrl. A null viewer stands for a broadcast to the
+   * whole room, where every locked message stays locked.
+   */
+  async viewAs<T extends MessageWithReply>(
+    viewerId: string | null,
+    messages: T[],
+  ): Promise<ViewedMessage<T>[]> {
+    const lockedIds = messages
+      .flatMap((message) => [message, message.repliedTo])
+      .filter(
+        (message): message is Message =>
+          !!message && this.requiresUnlock(message, viewerId),
+      )
+      .map((message) => message.id);
+
+    const unlockedIds = new Set<string>();
+    if (viewerId && lockedIds.length > 0) {
+      const receipts = await this.prisma.messageUnlock.findMany({
+        where: { buyerId: viewerId, messageId: { in: lockedIds } },
+        select: { messageId: true },
+      });
+      receipts.forEach((receipt) => unlockedIds.add(receipt.messageId));
+    }
+
+    const view = <M extends Message>(message: M): ViewedMessage<M> => {
+      const isLocked =
+        this.requiresUnlock(message, viewerId) && !unlockedIds.has(message.id);
+      return {
+        ...message,
+        fileUrl: isLocked ? null : message.fileUrl,
+        isLocked,
+      };
+    };
+
+    return messages.map((message) => ({
+      ...view(message),
+      repliedTo: message.repliedTo && view(message.repliedTo),
+    }));
+  }
+
+  private requiresUnlock(message: Message, viewerId: string | null): boolean {
+    return message.unlockPrice !== null && message.senderId !== viewerId;
+  }
+
+  private findUnlock(buyerId: string, messageId: string) {
+    return this.prisma.messageUnlock.findUnique({
+      where: { messageId_buyerId: { messageId, buyerId } },
+    });
+  }
+}
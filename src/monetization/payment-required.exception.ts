@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { PaymentRequiredPayload } from './dto/monetization.dto';
+
+const REASON_MESSAGES: Record<PaymentRequiredPayload['reason'], string> = {
+  SESSION_REQUIRED: 'An active chat session is required to message this user',
+  SESSION_EXPIRED: 'Your chat session with this user has ended',
+  INSUFFICIENT_BALANCE: 'Insufficient balance to send this content',
+};
+
+export class PaymentRequiredException extends HttpException {
+  constructor(public readonly payload: PaymentRequiredPayload) {
+    super(
+      { message: REASON_MESSAGES[payload.reason], ...payload },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
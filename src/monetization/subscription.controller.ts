@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { SubscriptionStatus } from '@prisma/client';
+import { SubscriptionService } from './subscription.service';
+import { AuthGuardService } from '../auth-guard/auth-guard.service';
+import {
+  CreateSubscriptionPlanDto,
+  SubscribeDto,
+  UpdateSubscriptionPlanDto,
+} from './dto/subscription.dto';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('/api/v1/subscriptions')
+@UseGuards(AuthGuardService)
+export class SubscriptionController {
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  /**
+   * Offer a new plan to fans
+   */
+  @Post('/plans')
+  @HttpCode(HttpStatus.CREATED)
+  createPlan(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateSubscriptionPlanDto,
+  ) {
+    return this.subscriptionService.createPlan(req.user.id, dto);
+  }
+
+  @Put('/plans/:planId')
+  @HttpCode(HttpStatus.OK)
+  updatePlan(
+    @Req() req: AuthenticatedRequest,
+    @Param('planId') planId: string,
+    @Body() dto: UpdateSubscriptionPlanDto,
+  ) {
+    return this.subscriptionService.updatePlan(req.user.id, planId, dto);
+  }
+
+  /**
+   * Plans a creator currently offers
+   */
+  @Get('/plans/:sellerId')
+  @HttpCode(HttpStatus.OK)
+  getPlans(@Param('sellerId') sellerId: string) {
+    return this.subscriptionService.getPlans(sellerId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  subscribe(@Req() req: AuthenticatedRequest, @Body() dto: SubscribeDto) {
+    return this.subscriptionService.subscribe(req.user.id, dto);
+  }
+
+  /**
+   * The caller's own subscriptions
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  getUserSubscriptions(
+    @Req() req: AuthenticatedRequest,
+    @Query('status') status?: SubscriptionStatus,
+  ) {
+    return this.subscriptionService.getUserSubscriptions(req.user.id, status);
+  }
+
+  /**
+   * Fans subscribed to the caller
+   */
+  @Get('/subscribers')
+  @HttpCode(HttpStatus.OK)
+  getSubscribers(
+    @Req() req: AuthenticatedRequest,
+    @Query('status') status?: SubscriptionStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.subscriptionService.getSubscribers(
+      req.user.id,
+      status,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  @Post('/:subscriptionId/cancel')
+  @HttpCode(HttpStatus.OK)
+  cancel(
+    @Req() req: AuthenticatedRequest,
+    @Param('subscriptionId') subscriptionId: string,
+  ) {
+    return this.subscriptionService.cancel(req.user.id, subscriptionId);
+  }
+
+  @Post('/:subscriptionId/resume')
+  @HttpCode(HttpStatus.OK)
+  resume(
+    @Req() req: AuthenticatedRequest,
+    @Param('subscriptionId') subscriptionId: string,
+  ) {
+    return this.subscriptionService.resume(req.user.id, subscriptionId);
+  }
+}
@@ -0,0 +1,693 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  Subscription,
+  SubscriptionInterval,
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { CommissionService } from 'src/commission/commission.service';
+import { FeeBreakdown } from 'src/commission/dto/commission.dto';
+import { PaymentService } from 'src/payment/payment.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { Money } from 'src/common/money/money';
+import {
+  CreateSubscriptionPlanDto,
+  RenewalOutcome,
+  SubscribeDto,
+  UpdateSubscriptionPlanDto,
+} from './dto/subscription.dto';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const DEFAULT_GRACE_HOURS = 72;
+/** Renewals are charged this long before the period ends */
+const RENEWAL_LEAD_MS = HOUR;
+const RENEWAL_BATCH_SIZE = 100;
+const MAX_PLANS_PER_SELLER = 5;
+
+const CURRENT_STATUSES: SubscriptionStatus[] = ['ACTIVE', 'PAST_DUE'];
+
+type SubscriptionWithPlan = Subscription & { plan: SubscriptionPlan };
+
+/**
+ * Recurring subscriptions to a creator, billed from the subscriber's
+ * wallet each week or month. A renewal the wallet cannot cover puts the
+ * subscription PAST_DUE: access continues through a grace period while the
+ * charge is retried and an STK push prompts a top-up, after which it
+ * lapses.
+ */
+@Injectable()
+export class SubscriptionService {
+  private readonly logger = new Logger(SubscriptionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly commissionService: CommissionService,
+    private readonly paymentService: PaymentService,
+    private readonly realtimeService: RealtimeService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createPlan(sellerId: string, dto: CreateSubscriptionPlanDto) {
+    const name = dto.name?.trim();
+    if (!name || name.length > 60) {
+      throw new BadRequestException('Plan name must be 1-60 characters');
+    }
+    if (!Object.values(SubscriptionInterval).includes(dto.interval)) {
+      throw new BadRequestException('Interval must be WEEKLY or MONTHLY');
+    }
+    this.assertPerks(dto);
+    this.assertPrice(dto.price);
+
+    const settings = await this.prisma.userMonetizationSettings.findUnique({
+      where: { userId: sellerId },
+    });
+    if (!settings?.isEnabled) {
+      throw new ForbiddenException(
+        'Enable monetization to offer subscriptions',
+      );
+    }
+
+    await this.assertPlanLimit(sellerId);
+
+    const plan = await this.prisma.subscriptionPlan.create({
+      data: {
+        sellerId,
+        name,
+        interval: dto.interval,
+        price: dto.price,
+        currency: settings.currency,
+        unlimitedChat: dto.unlimitedChat ?? true,
+        includedImages: dto.includedImages ?? 0,
+      },
+    });
+
+    this.logger.log(`Subscription plan ${plan.id} created by ${sellerId}`);
+    return this.presentPlan(plan);
+  }
+
+  /**
+   * Change a plan. Current subscribers keep their terms until their next
+   * renewal.
+   */
+  async updatePlan(
+    sellerId: string,
+    planId: string,
+    dto: UpdateSubscriptionPlanDto,
+  ) {
+    const plan = await this.prisma.subscriptionPlan.findUnique({
+      where: { id: planId },
+    });
+    if (!plan || plan.sellerId !== sellerId) {
+      throw new NotFoundException('Subscription plan not found');
+    }
+
+    const name = dto.name?.trim();
+    if (dto.name !== undefined && (!name || name.length > 60)) {
+      throw new BadRequestException('Plan name must be 1-60 characters');
+    }
+    if (dto.price !== undefined) {
+      this.assertPrice(dto.price);
+    }
+    this.assertPerks(dto);
+    if (dto.isActive && !plan.isActive) {
+      await this.assertPlanLimit(sellerId);
+    }
+
+    const updated = await this.prisma.subscriptionPlan.update({
+      where: { id: planId },
+      data: {
+        name,
+        price: dto.price,
+        unlimitedChat: dto.unlimitedChat,
+        includedImages: dto.includedImages,
+        isActive: dto.isActive,
+      },
+    });
+
+    return this.presentPlan(updated);
+  }
+
+  async getPlans(sellerId: string) {
+    const plans = await this.prisma.subscriptionPlan.findMany({
+      where: { sellerId, isActive: true },
+      orderBy: { price: 'asc' },
+    });
+    return plans.map((plan) => this.presentPlan(plan));
+  }
+
+  /**
+   * Subscribe to a plan, paying the first period from the wallet
+   */
+  async subscribe(subscriberId: string, dto: SubscribeDto) {
+    const plan = dto.planId
+      ? await this.prisma.subscriptionPlan.findUnique({
+          where: { id: dto.planId },
+        })
+      : null;
+    if (!plan || !plan.isActive) {
+      throw new NotFoundException('Subscription plan not found');
+    }
+    if (plan.sellerId === subscriberId) {
+      throw new BadRequestException('You cannot subscribe to yourself');
+    }
+
+    const existing = await this.prisma.subscription.findFirst({
+      where: {
+        subscriberId,
+        sellerId: plan.sellerId,
+        status: { in: CURRENT_STATUSES },
+      },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        'You already have a subscription with this creator',
+      );
+    }
+
+    const billingPhone = dto.billingPhone
+      ? this.paymentService.formatPhoneNumber(dto.billingPhone)
+      : null;
+    if (billingPhone && !/^254\d{9}$/.test(billingPhone)) {
+      throw new BadRequestException('Invalid billing phone number');
+    }
+
+    const price = Money.of(plan.price, plan.currency);
+    const availableBalance = await this.availableBalance(subscriberId, price);
+    if (availableBalance.lessThan(price)) {
+      throw new BadRequestException(
+        `Insufficient balance. Required: ${price.format()}, Available: ${availableBalance.format()}`,
+      );
+    }
+
+    const fee = await this.commissionService.quote(
+      plan.sellerId,
+      'SUBSCRIPTION',
+      price,
+    );
+    const now = new Date();
+
+    const subscription = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.subscription.create({
+        data: {
+          planId: plan.id,
+          subscriberId,
+          sellerId: plan.sellerId,
+          ...this.periodTerms(plan, fee, now),
+          billingPhone,
+        },
+      });
+
+      await this.charge(tx, created, fee, `${plan.name} subscription`);
+
+      return created;
+    });
+
+    this.logger.log(
+      `${subscriberId} subscribed to ${plan.sellerId} on plan ${plan.id} for ${price.format()}`,
+    );
+    this.broadcast(subscription);
+
+    return this.present(subscription);
+  }
+
+  /**
+   * Stop auto-renewal. The subscription stays usable until the paid
+   * period ends; an unpaid one lapses straight away.
+   */
+  async cancel(subscriberId: string, subscriptionId: string) {
+    const subscription = await this.findOwn(subscriberId, subscriptionId);
+    if (subscription.status === 'LAPSED') {
+      throw new BadRequestException('This subscription has already lapsed');
+    }
+
+    if (subscription.status === 'PAST_DUE') {
+      return this.present(
+        (await this.lapse(subscription, 'Cancelled while payment was due')) ??
+          subscription,
+      );
+    }
+
+    const updated = await this.prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { autoRenew: false, cancelledAt: new Date() },
+    });
+    this.broadcast(updated);
+
+    return this.present(updated);
+  }
+
+  async resume(subscriberId: string, subscriptionId: string) {
+    const subscription = await this.findOwn(subscriberId, subscriptionId);
+    if (subscription.status === 'LAPSED') {
+      throw new BadRequestException(
+        'This subscription has lapsed; subscribe again to renew it',
+      );
+    }
+
+    const updated = await this.prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { autoRenew: true, cancelledAt: null },
+    });
+    this.broadcast(updated);
+
+    return this.present(updated);
+  }
+
+  async getUserSubscriptions(userId: string, status?: SubscriptionStatus) {
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: { subscriberId: userId, ...(status && { status }) },
+      include: { plan: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return subscriptions.map((subscription) => ({
+      ...this.present(subscription),
+      billingPhone: subscription.billingPhone,
+      plan: this.presentPlan(subscription.plan),
+    }));
+  }
+
+  async getSubscribers(
+    sellerId: string,
+    status?: SubscriptionStatus,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const where: Prisma.SubscriptionWhereInput = {
+      sellerId,
+      ...(status && { status }),
+    };
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      this.prisma.subscription.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.subscription.count({ where }),
+    ]);
+
+    return {
+      items: items.map((subscription) => this.present(subscription)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * The subscription that currently gives the subscriber access to the
+   * seller, including one in its grace period after a failed renewal
+   */
+  findActive(subscriberId: string, sellerId: string) {
+    const now = new Date();
+    return this.prisma.subscription.findFirst({
+      where: {
+        subscriberId,
+        sellerId,
+        OR: [
+          { status: 'ACTIVE', currentPeriodEnd: { gt: now } },
+          { status: 'PAST_DUE', graceEndsAt: { gt: now } },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Count an image against the period's allowance inside the message
+   * transaction. Returns false when a concurrent message used it up.
+   */
+  async useIncludedImage(
+    tx: Prisma.TransactionClient,
+    subscriptionId: string,
+  ): Promise<boolean> {
+    const { count } = await tx.subscription.updateMany({
+      where: {
+        id: subscriptionId,
+        imagesUsed: { lt: this.prisma.subscription.fields.includedImages },
+      },
+      data: { imagesUsed: { increment: 1 } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Renew subscriptions whose period is about to end, retry past-due ones
+   * and lapse those that were cancelled or ran out of grace
+   */
+  async processRenewals() {
+    const now = new Date();
+    const due = await this.prisma.subscription.findMany({
+      where: {
+        OR: [
+          {
+            status: 'ACTIVE',
+            currentPeriodEnd: {
+              lte: new Date(now.getTime() + RENEWAL_LEAD_MS),
+            },
+          },
+          { status: 'PAST_DUE' },
+        ],
+      },
+      include: { plan: true },
+      orderBy: { currentPeriodEnd: 'asc' },
+      take: RENEWAL_BATCH_SIZE,
+    });
+
+    const outcomes: Record<RenewalOutcome, number> = {
+      renewed: 0,
+      pastDue: 0,
+      lapsed: 0,
+      skipped: 0,
+    };
+
+    for (const subscription of due) {
+      try {
+        outcomes[await this.renew(subscription, now)]++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to renew subscription ${subscription.id}:`,
+          error,
+        );
+      }
+    }
+
+    return { processed: due.length, ...outcomes };
+  }
+
+  private async renew(
+    subscription: SubscriptionWithPlan,
+    now: Date,
+  ): Promise<RenewalOutcome> {
+    const { plan } = subscription;
+
+    if (!subscription.autoRenew || !plan.isActive) {
+      if (subscription.currentPeriodEnd > now) return 'skipped';
+      const lapsed = await this.lapse(
+        subscription,
+        subscription.autoRenew
+          ? 'Plan discontinued'
+          : 'Cancelled by subscriber',
+      );
+      return lapsed ? 'lapsed' : 'skipped';
+    }
+
+    if (subscription.graceEndsAt && subscription.graceEndsAt <= now) {
+      const lapsed = await this.lapse(subscription, 'Renewal not paid');
+      return lapsed ? 'lapsed' : 'skipped';
+    }
+
+    const price = Money.of(plan.price, plan.currency);
+    const availableBalance = await this.availableBalance(
+      subscription.subscriberId,
+      price,
+    );
+    if (availableBalance.lessThan(price)) {
+      await this.markPastDue(subscription, price.subtract(availableBalance));
+      return 'pastDue';
+    }
+
+    const fee = await this.commissionService.quote(
+      subscription.sellerId,
+      'SUBSCRIPTION',
+      price,
+      now,
+    );
+    const periodStart = subscription.currentPeriodEnd;
+
+    const renewed = await this.prisma.$transaction(async (tx) => {
+      // Claim the period; another instance that renewed it first wins
+      const { count } = await tx.subscription.updateMany({
+        where: {
+          id: subscription.id,
+          status: subscription.status,
+          currentPeriodEnd: subscription.currentPeriodEnd,
+        },
+        data: {
+          status: 'ACTIVE',
+          ...this.periodTerms(plan, fee, periodStart),
+          imagesUsed: 0,
+          graceEndsAt: null,
+          renewalCheckoutRequestId: null,
+        },
+      });
+      if (count === 0) return null;
+
+      await this.charge(
+        tx,
+        subscription,
+        fee,
+        `${plan.name} subscription renewal`,
+      );
+
+      return tx.subscription.findUniqueOrThrow({
+        where: { id: subscription.id },
+      });
+    });
+
+    if (!renewed) return 'skipped';
+
+    this.logger.log(
+      `Renewed subscription ${subscription.id} until ${renewed.currentPeriodEnd.toISOString()}`,
+    );
+    this.broadcast(renewed);
+
+    return 'renewed';
+  }
+
+  /**
+   * Start the grace period after a renewal the wallet could not cover and
+   * prompt the subscriber's phone for the shortfall once per period
+   */
+  private async markPastDue(subscription: Subscription, shortfall: Money) {
+    if (subscription.status === 'ACTIVE') {
+      const graceEndsAt = new Date(
+        subscription.currentPeriodEnd.getTime() + this.graceHours() * HOUR,
+      );
+      const { count } = await this.prisma.subscription.updateMany({
+        where: { id: subscription.id, status: 'ACTIVE' },
+        data: { status: 'PAST_DUE', graceEndsAt },
+      });
+      if (count > 0) {
+        this.broadcast({ ...subscription, status: 'PAST_DUE', graceEndsAt });
+      }
+    }
+
+    if (!subscription.billingPhone || subscription.renewalCheckoutRequestId) {
+      return;
+    }
+
+    // M-Pesa only collects KES; other plans wait for a wallet top-up
+    if (shortfall.currency !== 'KES') {
+      this.logger.log(
+        `Not prompting an M-Pesa top-up for ${shortfall.currency} subscription ${subscription.id}`,
+      );
+      return;
+    }
+
+    // M-Pesa only takes whole shillings
+    const amount = Math.max(1, Math.ceil(shortfall.toMajor()));
+    const result = await this.paymentService.mpesaPayment(
+      { amount, phoneNumber: subscription.billingPhone },
+      subscription.subscriberId,
+    );
+
+    if (result && 'CheckoutRequestID' in result && result.CheckoutRequestID) {
+      await this.prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { renewalCheckoutRequestId: result.CheckoutRequestID },
+      });
+      this.logger.log(
+        `Prompted ${subscription.subscriberId} to top up ${amount} for subscription ${subscription.id}`,
+      );
+    } else {
+      this.logger.warn(
+        `Could not prompt a top-up for subscription ${subscription.id}`,
+      );
+    }
+  }
+
+  private async lapse(subscription: Subscription, reason: string) {
+    const lapsedAt = new Date();
+    const { count } = await this.prisma.subscription.updateMany({
+      where: { id: subscription.id, status: { in: CURRENT_STATUSES } },
+      data: { status: 'LAPSED', lapsedAt, autoRenew: false },
+    });
+    if (count === 0) return null;
+
+    const lapsed: Subscription = {
+      ...subscription,
+      status: 'LAPSED',
+      lapsedAt,
+      autoRenew: false,
+    };
+    this.logger.log(`Subscription ${subscription.id} lapsed: ${reason}`);
+    this.broadcast(lapsed, reason);
+
+    return lapsed;
+  }
+
+  private charge(
+    tx: Prisma.TransactionClient,
+    subscription: Subscription,
+    fee: FeeBreakdown,
+    description: string,
+  ) {
+    return this.ledgerService.post(tx, {
+      kind: 'SUBSCRIPTION_CHARGE',
+      description,
+      referenceType: 'Subscription',
+      referenceId: subscription.id,
+      legs: [
+        {
+          account: LedgerAccounts.wallet(
+            subscription.subscriberId,
+            fee.gross.currency,
+          ),
+          amount: -fee.gross.amount,
+          category: 'SPEND',
+        },
+        ...this.commissionService.creditLegs(subscription.sellerId, fee),
+      ],
+    });
+  }
+
+  /**
+   * Price and perks of a period starting at `start`, taken from the plan
+   */
+  private periodTerms(plan: SubscriptionPlan, fee: FeeBreakdown, start: Date) {
+    return {
+      price: fee.gross.amount,
+      platformFee: fee.platformFee.amount,
+      sellerAmount: fee.sellerAmount.amount,
+      currency: fee.gross.currency,
+      unlimitedChat: plan.unlimitedChat,
+      includedImages: plan.includedImages,
+      currentPeriodStart: start,
+      currentPeriodEnd: this.periodEnd(start, plan.interval),
+    };
+  }
+
+  private periodEnd(start: Date, interval: SubscriptionInterval): Date {
+    if (interval === 'WEEKLY') {
+      return new Date(start.getTime() + 7 * DAY);
+    }
+
+    const end = new Date(start);
+    end.setUTCMonth(end.getUTCMonth() + 1);
+    // Jan 31 plus a month overflows into March; end on the last day instead
+    if (end.getUTCDate() < start.getUTCDate()) {
+      end.setUTCDate(0);
+    }
+    return end;
+  }
+
+  private async availableBalance(userId: string, price: Money) {
+    const balance = await this.prisma.userBalance.findUnique({
+      where: { userId },
+    });
+    return Money.of(balance?.availableBalance ?? 0, price.currency);
+  }
+
+  private async findOwn(subscriberId: string, subscriptionId: string) {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+    });
+    if (!subscription || subscription.subscriberId !== subscriberId) {
+      throw new NotFoundException('Subscription not found');
+    }
+    return subscription;
+  }
+
+  private async assertPlanLimit(sellerId: string) {
+    const activePlans = await this.prisma.subscriptionPlan.count({
+      where: { sellerId, isActive: true },
+    });
+    if (activePlans >= MAX_PLANS_PER_SELLER) {
+      throw new BadRequestException(
+        `You can offer at most ${MAX_PLANS_PER_SELLER} subscription plans`,
+      );
+    }
+  }
+
+  private assertPrice(price: number) {
+    if (!Number.isInteger(price) || price < 1) {
+      throw new BadRequestException(
+        'Price must be a positive whole amount in minor units',
+      );
+    }
+  }
+
+  private assertPerks(dto: UpdateSubscriptionPlanDto) {
+    if (
+      dto.includedImages !== undefined &&
+      (!Number.isInteger(dto.includedImages) || dto.includedImages < 0)
+    ) {
+      throw new BadRequestException(
+        'includedImages must be a non-negative whole number',
+      );
+    }
+  }
+
+  private graceHours() {
+    const value = Number(
+      this.configService.get<string>('SUBSCRIPTION_GRACE_HOURS'),
+    );
+    return value > 0 ? value : DEFAULT_GRACE_HOURS;
+  }
+
+  private broadcast(subscription: Subscription, reason?: string) {
+    const payload = { subscription: this.present(subscription), reason };
+    this.realtimeService.emitToUser(
+      subscription.subscriberId,
+      'subscriptionUpdated',
+      payload,
+    );
+    this.realtimeService.emitToUser(
+      subscription.sellerId,
+      'subscriptionUpdated',
+      payload,
+    );
+  }
+
+  /**
+   * Client view of a subscription. Billing details stay with the
+   * subscriber and are left out of anything the seller can see.
+   */
+  private present(subscription: Subscription) {
+    return {
+      ...subscription,
+      billingPhone: undefined,
+      renewalCheckoutRequestId: undefined,
+      price: Money.of(subscription.price, subscription.currency),
+      platformFee: Money.of(subscription.platformFee, subscription.currency),
+      sellerAmount: Money.of(subscription.sellerAmount, subscription.currency),
+      includedImagesLeft: Math.max(
+        0,
+        subscription.includedImages - subscription.imagesUsed,
+      ),
+    };
+  }
+
+  private presentPlan(plan: SubscriptionPlan) {
+    return { ...plan, price: Money.of(plan.price, plan.currency) };
+  }
+}
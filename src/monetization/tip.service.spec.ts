@@ -0,0 +1,141 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Gift, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { CommissionService } from 'src/commission/commission.service';
+import { AuditService } from 'src/audit/audit.service';
+import { LedgerLeg } from 'src/ledger/dto/ledger.dto';
+import { TipService } from './tip.service';
+
+const rose = {
+  id: 'gift_rose',
+  name: 'Rose',
+  imageUrl: 'https://cdn.example.com/rose.png',
+  price: 25000,
+  currency: 'KES',
+  isActive: true,
+} as Gift;
+
+/** Legs of the single ledger posting, as account type and amount */
+function postedLegs(post: jest.Mock) {
+  expect(post).toHaveBeenCalledTimes(1);
+  const [[, posting]] = post.mock.calls as [[unknown, { legs: LedgerLeg[] }]];
+  return posting.legs.map((leg) => [leg.account.type, leg.amount]);
+}
+
+describe('TipService', () => {
+  let service: TipService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let ledgerService: { post: jest.Mock };
+
+  function createPrisma() {
+    return {
+      gift: { findUnique: jest.fn().mockResolvedValue(rose) },
+      userMonetizationSettings: {
+        findUnique: jest.fn().mockResolvedValue({ currency: 'KES' }),
+      },
+      userBalance: {
+        findUnique: jest.fn().mockResolvedValue({ availableBalance: 30000 }),
+      },
+      tip: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'tip_1', ...data, gift: null }),
+        ),
+      },
+      commissionRule: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TipService,
+        CommissionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(TipService);
+  });
+
+  describe('quote', () => {
+    it("splits a tip between the recipient and the platform's commission", async () => {
+      const { gift, fee } = await service.quote('fan', 'creator', {
+        amount: 10050,
+      });
+
+      expect(gift).toBeNull();
+      expect(fee.gross.amount).toBe(10050);
+      expect(fee.platformFee.amount).toBe(2010);
+      expect(fee.sellerAmount.amount).toBe(8040);
+    });
+
+    it('prices a gift from the catalog', async () => {
+      const { gift, fee } = await service.quote('fan', 'creator', {
+        giftId: 'gift_rose',
+      });
+
+      expect(gift).toBe(rose);
+      expect(fee.gross.amount).toBe(25000);
+      expect(fee.sellerAmount.amount).toBe(20000);
+    });
+
+    it('refuses a sender who cannot cover the tip', async () => {
+      await expect(
+        service.quote('fan', 'creator', { amount: 30001 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('refuses a gift that was taken off the catalog', async () => {
+      prisma.gift.findUnique.mockResolvedValue({ ...rose, isActive: false });
+
+      await expect(
+        service.quote('fan', 'creator', { giftId: 'gift_rose' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('refuses fractional amounts', async () => {
+      await expect(
+        service.quote('fan', 'creator', { amount: 99.5 }),
+      ).rejects.toThrow('Tip must be a whole amount');
+    });
+  });
+
+  describe('apply', () => {
+    it('moves the tip from the sender to the recipient and the platform', async () => {
+      const quote = await service.quote('fan', 'creator', { amount: 10050 });
+
+      const tip = await service.apply(
+        prisma as unknown as Prisma.TransactionClient,
+        {
+          messageId: 'msg_1',
+          senderId: 'fan',
+          recipientId: 'creator',
+          quote,
+        },
+      );
+
+      expect(tip).toMatchObject({
+        messageId: 'msg_1',
+        amount: 10050,
+        platformFee: 2010,
+        sellerAmount: 8040,
+        currency: 'KES',
+      });
+      expect(postedLegs(ledgerService.post)).toEqual([
+        ['USER_WALLET', -10050],
+        ['USER_WALLET', 8040],
+        ['PLATFORM_REVENUE', 2010],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Gift, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { CommissionService } from 'src/commission/commission.service';
+import { AuditService } from 'src/audit/audit.service';
+import { Money } from 'src/common/money/money';
+import { CreateGiftDto, TipQuote, UpdateGiftDto } from './dto/tip.dto';
+
+/** Largest plain tip, in minor units */
+const MAX_TIP_AMOUNT = 10_000_000;
+
+/**
+ * Tips and catalog gifts sent between chat partners. The sender pays from
+ * their wallet and the recipient is credited as seller earnings, split
+ * with the platform like any other content sale.
+ */
+@Injectable()
+export class TipService {
+  private readonly logger = new Logger(TipService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly commissionService: CommissionService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async getCatalog() {
+    const gifts = await this.prisma.gift.findMany({
+      where: { isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { price: 'asc' }],
+    });
+    return gifts.map((gift) => this.presentGift(gift));
+  }
+
+  async createGift(dto: CreateGiftDto) {
+    const name = this.validName(dto.name);
+    this.assertImageUrl(dto.imageUrl);
+    this.assertPrice(dto.price);
+
+    const gift = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.gift.create({
+        data: {
+          name,
+          imageUrl: dto.imageUrl,
+          price: dto.price,
+          sortOrder: dto.sortOrder ?? 0,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: 'GIFT_CREATED',
+          entityType: 'Gift',
+          entityId: created.id,
+          after: created,
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    return this.presentGift(gift);
+  }
+
+  async updateGift(giftId: string, dto: UpdateGiftDto) {
+    const gift = await this.prisma.gift.findUnique({ where: { id: giftId } });
+    if (!gift) {
+      throw new NotFoundException('Gift not found');
+    }
+
+    const name = dto.name === undefined ? undefined : this.validName(dto.name);
+    if (dto.imageUrl !== undefined) this.assertImageUrl(dto.imageUrl);
+    if (dto.price !== undefined) this.assertPrice(dto.price);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.gift.update({
+        where: { id: giftId },
+        data: {
+          name,
+          imageUrl: dto.imageUrl,
+          price: dto.price,
+          sortOrder: dto.sortOrder,
+          isActive: dto.isActive,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: 'GIFT_UPDATED',
+          entityType: 'Gift',
+          entityId: giftId,
+          before: gift,
+          after: result,
+        },
+        tx,
+      );
+
+      return result;
+    });
+
+    return this.presentGift(updated);
+  }
+
+  /**
+   * Price a tip or gift and check the sender can pay for it. Plain tips
+   * are in the recipient's currency.
+   */
+  async quote(
+    senderId: string,
+    recipientId: string,
+    tip: { amount?: number; giftId?: string },
+  ): Promise<TipQuote> {
+    if ((tip.amount === undefined) === (tip.giftId === undefined)) {
+      throw new BadRequestException('Send either an amount or a gift');
+    }
+
+    let gift: Gift | null = null;
+    let price: Money;
+    if (tip.giftId !== undefined) {
+      gift = await this.prisma.gift.findUnique({ where: { id: tip.giftId } });
+      if (!gift || !gift.isActive) {
+        throw new NotFoundException('Gift not found');
+      }
+      price = Money.of(gift.price, gift.currency);
+    } else {
+      const amount = tip.amount!;
+      if (!Number.isInteger(amount) || amount < 1 || amount > MAX_TIP_AMOUNT) {
+        throw new BadRequestException(
+          `Tip must be a whole amount in minor units between 1 and ${MAX_TIP_AMOUNT}`,
+        );
+      }
+      const settings = await this.prisma.userMonetizationSettings.findUnique({
+        where: { userId: recipientId },
+      });
+      price = Money.of(amount, settings?.currency ?? 'KES');
+    }
+
+    const balance = await this.prisma.userBalance.findUnique({
+      where: { userId: senderId },
+    });
+    const availableBalance = Money.of(
+      balance?.availableBalance ?? 0,
+      price.currency,
+    );
+    if (availableBalance.lessThan(price)) {
+      throw new BadRequestException(
+        `Insufficient balance. Required: ${price.format()}, Available: ${availableBalance.format()}`,
+      );
+    }
+
+    const fee = await this.commissionService.quote(recipientId, 'TIP', price);
+    return { gift, fee };
+  }
+
+  /**
+   * Record the tip and move the money inside the caller's transaction, so
+   * it commits or rolls back together with its chat message
+   */
+  async apply(
+    tx: Prisma.TransactionClient,
+    params: {
+      messageId: string;
+      senderId: string;
+      recipientId: string;
+      quote: TipQuote;
+    },
+  ) {
+    const { messageId, senderId, recipientId, quote } = params;
+    const { gift, fee } = quote;
+
+    const tip = await tx.tip.create({
+      data: {
+        messageId,
+        senderId,
+        recipientId,
+        giftId: gift?.id,
+        amount: fee.gross.amount,
+        platformFee: fee.platformFee.amount,
+        sellerAmount: fee.sellerAmount.amount,
+        currency: fee.gross.currency,
+      },
+      include: { gift: true },
+    });
+
+    await this.ledgerService.post(tx, {
+      kind: 'TIP',
+      description: gift ? `${gift.name} gift` : 'Chat tip',
+      referenceType: 'Tip',
+      referenceId: tip.id,
+      legs: [
+        {
+          account: LedgerAccounts.wallet(senderId, fee.gross.currency),
+          amount: -fee.gross.amount,
+          category: 'SPEND',
+        },
+        ...this.commissionService.creditLegs(recipientId, fee),
+      ],
+    });
+
+    this.logger.log(
+      `Tip ${tip.id}: ${senderId} -> ${recipientId} ${fee.gross.format()} (platform fee ${fee.platformFee.format()})`,
+    );
+
+    return tip;
+  }
+
+  private validName(value: string) {
+    const name = value?.trim();
+    if (!name || name.length > 40) {
+      throw new BadRequestException('Gift name must be 1-40 characters');
+    }
+    return name;
+  }
+
+  private assertImageUrl(value: string) {
+    let valid = false;
+    try {
+      valid = new URL(value).protocol === 'https:';
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw new BadRequestException('Gift image must be an https URL');
+    }
+  }
+
+  private assertPrice(price: number) {
+    if (!Number.isInteger(price) || price < 1) {
+      throw new BadRequestException(
+        'Price must be a positive whole amount in minor units',
+      );
+    }
+  }
+
+  private presentGift(gift: Gift) {
+    return { ...gift, price: Money.of(gift.price, gift.currency) };
+  }
+}
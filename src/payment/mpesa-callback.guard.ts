@@ -0,0 +1,149 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { CallbackRejectionReason } from '@prisma/client';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { PaymentService } from './payment.service';
+import { MpesaCallbackDto } from './dto/callback.dto';
+
+/** Addresses Safaricom documents as the origin of Daraja callbacks */
+const SAFARICOM_CALLBACK_IPS = [
+  '196.201.214.200',
+  '196.201.214.206',
+  '196.201.213.114',
+  '196.201.214.207',
+  '196.201.214.208',
+  '196.201.213.44',
+  '196.201.212.127',
+  '196.201.212.138',
+  '196.201.212.129',
+  '196.201.212.136',
+  '196.201.212.74',
+  '196.201.212.69',
+];
+
+/**
+ * The platform load balancer appends the connecting address to
+ * X-Forwarded-For, so the last entry is the one a caller cannot forge
+ */
+export function callbackSourceIp(
+  request: Pick<Request, 'headers'> & { socket: { remoteAddress?: string } },
+): string | undefined {
+  const forwarded = request.headers['x-forwarded-for'];
+  const header = Array.isArray(forwarded) ? forwarded.join(',') : forwarded;
+  const hops = header
+    ?.split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+
+  const ip = hops?.length
+    ? hops[hops.length - 1]
+    : request.socket.remoteAddress;
+  return ip?.replace(/^::ffff:/, '');
+}
+
+export const CallbackSourceIp = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    callbackSourceIp(context.switchToHttp().getRequest<Request>()),
+);
+
+export const CALLBACK_ENDPOINT_KEY = 'mpesaCallbackEndpoint';
+
+/**
+ * Name a callback route in the rejected callback log. Routes without it are
+ * logged as `stk-callback`.
+ */
+export const CallbackEndpoint = (endpoint: string) =>
+  SetMetadata(CALLBACK_ENDPOINT_KEY, endpoint);
+
+/**
+ * Only lets M-Pesa callbacks through when they come from an allowed address
+ * and carry the shared secret that was embedded in the callback URL.
+ * Set MPESA_CALLBACK_ALLOWED_IPS to a comma-separated list to override the
+ * Safaricom defaults, or to `*` to skip the address check (sandbox only).
+ */
+@Injectable()
+export class MpesaCallbackGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const sourceIp = callbackSourceIp(request);
+    const reason = this.rejectionReason(request, sourceIp);
+
+    if (!reason) {
+      return true;
+    }
+
+    const body = request.body as Partial<MpesaCallbackDto> | undefined;
+    const endpoint = this.reflector.getAllAndOverride<string | undefined>(
+      CALLBACK_ENDPOINT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    await this.paymentService.recordRejectedCallback({
+      endpoint: endpoint ?? 'stk-callback',
+      reason,
+      checkoutRequestId: body?.Body?.stkCallback?.CheckoutRequestID,
+      sourceIp,
+      payload: body,
+    });
+
+    throw new ForbiddenException('Callback rejected');
+  }
+
+  private rejectionReason(
+    request: Request,
+    sourceIp: string | undefined,
+  ): CallbackRejectionReason | null {
+    const allowedIps = this.allowedIps();
+    if (allowedIps !== '*' && (!sourceIp || !allowedIps.includes(sourceIp))) {
+      return 'SOURCE_NOT_ALLOWED';
+    }
+
+    const secret = this.configService.get<string>('MPESA_CALLBACK_SECRET');
+    const token = request.params.token;
+    if (!secret || !token || !this.safeEqual(token, secret)) {
+      return 'INVALID_SECRET';
+    }
+
+    return null;
+  }
+
+  private allowedIps(): string[] | '*' {
+    const configured = this.configService.get<string>(
+      'MPESA_CALLBACK_ALLOWED_IPS',
+    );
+
+    if (!configured) {
+      return SAFARICOM_CALLBACK_IPS;
+    }
+
+    if (configured.trim() === '*') {
+      return '*';
+    }
+
+    return configured
+      .split(',')
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
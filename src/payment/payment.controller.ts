@@ -11,7 +11,22 @@ import {
 } from '@nestjs/common';
 import { PaymentService, PaymentDto, B2CDto } from './payment.service';
 import { MpesaCallbackDto } from './dto/callback.dto';
+import { B2CResultDto, TransactionStatusResultDto } from './dto/b2c.dto';
 import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { ownerScope } from 'src/auth-guard/ownership.guard';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+import { hasRole } from 'src/auth-guard/roles';
+import {
+  CallbackEndpoint,
+  CallbackSourceIp,
+  MpesaCallbackGuard,
+} from './mpesa-callback.guard';
+import { User } from '@clerk/backend';
+
+interface AuthenticatedRequest extends Request {
+  user: User;
+}
 
 @Controller('api/v1/pay')
 export class PaymentController {
@@ -73,16 +88,22 @@ export class PaymentController {
     }
   }
 
-  @Post('callback')
-  async handleCallback(@Body() callbackData: MpesaCallbackDto) {
+  @Post('callback/:token')
+  @UseGuards(MpesaCallbackGuard)
+  async handleCallback(
+    @Body() callbackData: MpesaCallbackDto,
+    @CallbackSourceIp() sourceIp?: string,
+  ) {
     try {
       console.log(
         'Received M-Pesa callback:',
         JSON.stringify(callbackData, null, 2),
       );
 
-      const processedCallback =
-        await this.paymentService.processCallback(callbackData);
+      const processedCallback = await this.paymentService.processCallback(
+        callbackData,
+        sourceIp,
+      );
 
       console.log('Processed callback:', processedCallback);
 
@@ -104,10 +125,13 @@ export class PaymentController {
   @UseGuards(AuthGuardService)
   async getPaymentStatus(
     @Param('checkoutRequestId') checkoutRequestId: string,
+    @Req() req: AuthenticatedRequest,
   ) {
     try {
-      const paymentStatus =
-        await this.paymentService.getPaymentStatus(checkoutRequestId);
+      const paymentStatus = await this.paymentService.getPaymentStatus(
+        checkoutRequestId,
+        ownerScope(req.user),
+      );
 
       if (!paymentStatus) {
         return {
@@ -130,7 +154,8 @@ export class PaymentController {
   }
 
   @Post('b2c/salary')
-  @UseGuards(AuthGuardService)
+  @UseGuards(AuthGuardService, RolesGuard)
+  @Roles('finance-admin')
   async initiateSalaryPayment(
     @Body() paymentData: B2CDto,
     @Req() req: Request,
@@ -189,7 +214,8 @@ export class PaymentController {
   }
 
   @Post('b2c/business')
-  @UseGuards(AuthGuardService)
+  @UseGuards(AuthGuardService, RolesGuard)
+  @Roles('finance-admin')
   async initiateBusinessPayment(
     @Body() paymentData: B2CDto,
     @Req() req: Request,
@@ -248,22 +274,26 @@ export class PaymentController {
     }
   }
 
-  @Post('b2c-result')
-  async handleB2CResult(@Body() resultData: any) {
+  @Post('b2c-result/:token')
+  @UseGuards(MpesaCallbackGuard)
+  @CallbackEndpoint('b2c-result')
+  async handleB2CResult(@Body() resultData: B2CResultDto) {
     try {
       this.logger.log('--- M-PESA B2C RESULT CALLBACK RECEIVED ---');
-    this.logger.log(JSON.stringify(resultData, null, 2));
+      this.logger.log(JSON.stringify(resultData, null, 2));
       const processedResult =
         await this.paymentService.processB2CResult(resultData);
 
-      console.log('Processed B2C result:', processedResult);
+      this.logger.log(
+        `Processed B2C result: ${JSON.stringify(processedResult)}`,
+      );
 
       return {
         ResultCode: 0,
         ResultDesc: 'Accepted',
       };
     } catch (error) {
-      console.error('B2C result processing error:', error);
+      this.logger.error('B2C result processing error:', error);
 
       return {
         ResultCode: 0,
@@ -272,25 +302,28 @@ export class PaymentController {
     }
   }
 
-  @Post('b2c-timeout')
-  async handleB2CTimeout(@Body() timeoutData: any) {
+  @Post('b2c-timeout/:token')
+  @UseGuards(MpesaCallbackGuard)
+  @CallbackEndpoint('b2c-timeout')
+  async handleB2CTimeout(@Body() timeoutData: B2CResultDto) {
     try {
-      console.log(
-        'Received B2C timeout:',
-        JSON.stringify(timeoutData, null, 2),
+      this.logger.log(
+        `Received B2C timeout: ${JSON.stringify(timeoutData, null, 2)}`,
       );
 
       const processedTimeout =
         await this.paymentService.processB2CTimeout(timeoutData);
 
-      console.log('Processed B2C timeout:', processedTimeout);
+      this.logger.log(
+        `Processed B2C timeout: ${JSON.stringify(processedTimeout)}`,
+      );
 
       return {
         ResultCode: 0,
         ResultDesc: 'Accepted',
       };
     } catch (error) {
-      console.error('B2C timeout processing error:', error);
+      this.logger.error('B2C timeout processing error:', error);
 
       return {
         ResultCode: 0,
@@ -303,10 +336,14 @@ export class PaymentController {
   @UseGuards(AuthGuardService)
   async getB2CTransactionStatus(
     @Param('conversationId') conversationId: string,
+    @Req() req: AuthenticatedRequest,
   ) {
     try {
       const transactionStatus =
-        await this.paymentService.getB2CTransactionStatus(conversationId);
+        await this.paymentService.getB2CTransactionStatus(
+          conversationId,
+          ownerScope(req.user),
+        );
 
       if (!transactionStatus) {
         return {
@@ -385,7 +422,7 @@ export class PaymentController {
       const pageNum = parseInt(page);
       const limitNum = parseInt(limit);
 
-      console.log(userId)
+      console.log(userId);
 
       if (pageNum < 1 || limitNum < 1 || limitNum > 100) {
         return {
@@ -421,10 +458,24 @@ export class PaymentController {
   @UseGuards(AuthGuardService)
   async queryTransactionStatus(
     @Body() body: { transactionId: string },
-    @Req() req: Request,
+    @Req() req: AuthenticatedRequest,
   ) {
     try {
-      const userId = (req as any).user.id;
+      const userId = req.user.id;
+
+      if (
+        !hasRole(req.user, ['finance-admin']) &&
+        !(await this.paymentService.isTransactionOwner(
+          body.transactionId,
+          userId,
+        ))
+      ) {
+        return {
+          success: false,
+          message: 'Transaction not found',
+        };
+      }
+
       const result = await this.paymentService.queryTransactionStatus(
         body.transactionId,
         userId,
@@ -453,7 +504,8 @@ export class PaymentController {
   }
 
   @Post('account-balance')
-  @UseGuards(AuthGuardService)
+  @UseGuards(AuthGuardService, RolesGuard)
+  @Roles('finance-admin')
   async queryAccountBalance(@Req() req: Request) {
     try {
       const userId = (req as any).user.id;
@@ -482,16 +534,19 @@ export class PaymentController {
   }
 
   // Result endpoints for status and balance queries
-  @Post('b2c-result/status')
-  async handleTransactionStatusResult(@Body() resultData: any) {
+  @Post('b2c-result/:token/status')
+  @UseGuards(MpesaCallbackGuard)
+  @CallbackEndpoint('b2c-result/status')
+  async handleTransactionStatusResult(
+    @Body() resultData: TransactionStatusResultDto,
+  ) {
     try {
       console.log(
         'Received transaction status result:',
         JSON.stringify(resultData, null, 2),
       );
 
-      // Store the result in TransactionStatusQuery model if needed
-      // This is optional - you can implement based on your requirements
+      await this.paymentService.processTransactionStatusResult(resultData);
 
       return {
         ResultCode: 0,
@@ -506,7 +561,9 @@ export class PaymentController {
     }
   }
 
-  @Post('b2c-timeout/status')
+  @Post('b2c-timeout/:token/status')
+  @UseGuards(MpesaCallbackGuard)
+  @CallbackEndpoint('b2c-timeout/status')
   async handleTransactionStatusTimeout(@Body() timeoutData: any) {
     try {
       console.log(
@@ -527,7 +584,9 @@ export class PaymentController {
     }
   }
 
-  @Post('b2c-result/balance')
+  @Post('b2c-result/:token/balance')
+  @UseGuards(MpesaCallbackGuard)
+  @CallbackEndpoint('b2c-result/balance')
   async handleAccountBalanceResult(@Body() resultData: any) {
     try {
       console.log(
@@ -548,7 +607,9 @@ export class PaymentController {
     }
   }
 
-  @Post('b2c-timeout/balance')
+  @Post('b2c-timeout/:token/balance')
+  @UseGuards(MpesaCallbackGuard)
+  @CallbackEndpoint('b2c-timeout/balance')
   async handleAccountBalanceTimeout(@Body() timeoutData: any) {
     try {
       console.log(
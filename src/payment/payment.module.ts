@@ -5,9 +5,19 @@ import { PrismaModule } from 'src/prisma/prisma.module';
 import { ClerkModule } from 'src/clerk/clerk.module';
 import { MpesaSecurityService } from './mpesa-security.service';
 import { ConfigModule } from '@nestjs/config';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { PromotionModule } from 'src/promotion/promotion.module';
 
 @Module({
-  imports: [PrismaModule, ClerkModule,ConfigModule],
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    ConfigModule,
+    LedgerModule,
+    AuditModule,
+    PromotionModule,
+  ],
   controllers: [PaymentController],
   providers: [PaymentService, MpesaSecurityService],
   exports: [PaymentService, MpesaSecurityService],
@@ -0,0 +1,307 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { AuditService } from 'src/audit/audit.service';
+import { PromotionService } from 'src/promotion/promotion.service';
+import { MpesaSecurityService } from './mpesa-security.service';
+import { PaymentService, StkQueryResponse } from './payment.service';
+import { MpesaCallbackDto } from './dto/callback.dto';
+import { B2CResultDto } from './dto/b2c.dto';
+
+const payment = {
+  id: 'pay_1',
+  userId: 'buyer',
+  checkoutRequestId: 'ws_CO_1',
+  phoneNumber: '254712345678',
+  amount: 50000,
+  status: 'PENDING',
+};
+
+const b2cTransaction = {
+  id: 'b2c_1',
+  userId: 'seller',
+  conversationId: 'AG_1',
+  originatorConversationId: 'orig_1',
+  transactionId: null,
+  amount: 50000,
+  status: 'PENDING',
+};
+
+function stkCallback(resultCode: number, amount = 500): MpesaCallbackDto {
+  return {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: 'mr_1',
+        CheckoutRequestID: 'ws_CO_1',
+        ResultCode: resultCode,
+        ResultDesc: resultCode === 0 ? 'Success' : 'Cancelled by user',
+        CallbackMetadata:
+          resultCode === 0
+            ? {
+                Item: [
+                  { Name: 'Amount', Value: amount },
+                  { Name: 'MpesaReceiptNumber', Value: 'RCP123' },
+                  { Name: 'PhoneNumber', Value: 254712345678 },
+                ],
+              }
+            : undefined,
+      },
+    },
+  };
+}
+
+function b2cResult(resultCode: number): B2CResultDto {
+  return {
+    Result: {
+      ConversationID: 'AG_1',
+      OriginatorConversationID: 'orig_1',
+      ResultCode: resultCode,
+      ResultDesc: resultCode === 0 ? 'Completed' : 'Declined',
+      ResultParameters: {
+        ResultParameter: [
+          { Key: 'TransactionID', Value: 'TX123' },
+          { Key: 'TransactionReceipt', Value: 'TX123' },
+          { Key: 'B2CChargesPaidAccountAvailableFunds', Value: 12.5 },
+        ],
+      },
+    },
+  };
+}
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let ledgerService: { post: jest.Mock };
+  let queryStkPush: jest.SpyInstance;
+  let queryTransactionStatus: jest.SpyInstance;
+
+  function createPrisma() {
+    const client = {
+      $transaction: jest.fn(
+        (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(client),
+      ),
+      payment: {
+        findUnique: jest.fn().mockResolvedValue(payment),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      paymentCallback: { create: jest.fn() },
+      payoutAccount: { updateMany: jest.fn() },
+      rejectedCallback: { create: jest.fn() },
+      b2CTransaction: {
+        findUnique: jest.fn().mockResolvedValue(b2cTransaction),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      withdrawal: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'wd_1',
+          userId: 'seller',
+          amount: 50000,
+          currency: 'KES',
+          status: 'PROCESSING',
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      transactionStatusQuery: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'tsq_1',
+          b2cTransaction,
+        }),
+        update: jest.fn(),
+      },
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        {
+          provide: PromotionService,
+          useValue: { applyTopUpBonus: jest.fn() },
+        },
+        { provide: MpesaSecurityService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: () => 'callback-secret' },
+        },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(PaymentService);
+    queryStkPush = jest
+      .spyOn(service, 'queryStkPush')
+      .mockResolvedValue({ ResultCode: '0' } as StkQueryResponse);
+    queryTransactionStatus = jest
+      .spyOn(service, 'queryTransactionStatus')
+      .mockResolvedValue({ ConversationID: 'AG_Q' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses to start without a callback secret', () => {
+    expect(
+      () =>
+        new PaymentService(
+          prisma as unknown as PrismaService,
+          {} as MpesaSecurityService,
+          { get: () => undefined } as unknown as ConfigService,
+          ledgerService as unknown as LedgerService,
+          {} as AuditService,
+          {} as PromotionService,
+        ),
+    ).toThrow('MPESA_CALLBACK_SECRET must be set');
+  });
+
+  describe('processCallback', () => {
+    it('credits the wallet once for a confirmed payment', async () => {
+      await service.processCallback(stkCallback(0));
+
+      expect(queryStkPush).toHaveBeenCalledWith('ws_CO_1');
+      expect(ledgerService.post).toHaveBeenCalledTimes(1);
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ kind: 'TOP_UP', referenceId: 'pay_1' }),
+      );
+    });
+
+    it('ignores a repeated callback for a settled payment', async () => {
+      prisma.payment.findUnique.mockResolvedValue({
+        ...payment,
+        status: 'COMPLETED',
+      });
+
+      const result = await service.processCallback(stkCallback(0));
+
+      expect(result.resultDesc).toBe('Already processed');
+      expect(queryStkPush).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('does not credit a retry that loses the race to settle', async () => {
+      prisma.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.processCallback(stkCallback(0));
+
+      expect(prisma.paymentCallback.create).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('rejects a callback whose amount differs from the request', async () => {
+      const result = await service.processCallback(stkCallback(0, 5));
+
+      expect(result.resultDesc).toContain('Rejected');
+      expect(prisma.rejectedCallback.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ reason: 'AMOUNT_MISMATCH' }) as unknown,
+      });
+      expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a callback the STK query contradicts', async () => {
+      queryStkPush.mockResolvedValue({ ResultCode: '1032' });
+
+      await service.processCallback(stkCallback(0));
+
+      expect(prisma.rejectedCallback.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ reason: 'QUERY_MISMATCH' }) as unknown,
+      });
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('marks a cancelled payment failed without crediting', async () => {
+      queryStkPush.mockResolvedValue({ ResultCode: '1032' });
+
+      await service.processCallback(stkCallback(1032));
+
+      expect(prisma.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pay_1', status: 'PENDING' },
+        data: { status: 'FAILED' },
+      });
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('B2C results', () => {
+    it('pays out a successful result only while the payout is pending', async () => {
+      await service.processB2CResult(b2cResult(0));
+
+      expect(prisma.b2CTransaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'b2c_1', status: 'PENDING' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          transactionReceipt: 'TX123',
+          charges: 1250,
+        }) as unknown,
+      });
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ kind: 'WITHDRAWAL_PAYOUT' }),
+      );
+    });
+
+    it('ignores results for a payout that is no longer pending', async () => {
+      prisma.b2CTransaction.findUnique.mockResolvedValue({
+        ...b2cTransaction,
+        status: 'COMPLETED',
+      });
+
+      await service.processB2CResult(b2cResult(2001));
+
+      expect(prisma.b2CTransaction.updateMany).not.toHaveBeenCalled();
+      expect(queryTransactionStatus).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('confirms a failure with a status query before reversing', async () => {
+      await expect(service.processB2CResult(b2cResult(2001))).resolves.toEqual(
+        expect.objectContaining({ status: 'PENDING' }),
+      );
+      expect(queryTransactionStatus).toHaveBeenCalledWith(
+        'orig_1',
+        'seller',
+        b2cTransaction,
+      );
+      expect(prisma.withdrawal.updateMany).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('does not reverse a payout on timeout', async () => {
+      await service.processB2CTimeout(b2cResult(1));
+
+      expect(queryTransactionStatus).toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('reverses a withdrawal once the status query reports a failure', async () => {
+      await service.processTransactionStatusResult({
+        Result: {
+          ConversationID: 'AG_Q',
+          OriginatorConversationID: 'orig_q',
+          ResultCode: 0,
+          ResultDesc: 'OK',
+          ResultParameters: {
+            ResultParameter: [{ Key: 'TransactionStatus', Value: 'Failed' }],
+          },
+        },
+      });
+
+      expect(prisma.b2CTransaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'b2c_1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'FAILED' }) as unknown,
+      });
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ kind: 'WITHDRAWAL_REVERSAL' }),
+      );
+    });
+  });
+});
@@ -1,9 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { MpesaCallbackDto, ProcessedCallback } from './dto/callback.dto';
+import { B2CResultDto, TransactionStatusResultDto } from './dto/b2c.dto';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { PaymentStatus } from '@prisma/client';
+import {
+  B2CTransaction,
+  CallbackRejectionReason,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  Withdrawal,
+} from '@prisma/client';
 import { MpesaSecurityService } from './mpesa-security.service';
 import { ConfigService } from '@nestjs/config';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { AuditService } from 'src/audit/audit.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { Money } from 'src/common/money/money';
+import { PromotionService } from 'src/promotion/promotion.service';
+
+/** Transaction status query outcomes after which a payout will not change */
+const FAILED_TRANSACTION_STATUSES = [
+  'Failed',
+  'Declined',
+  'Cancelled',
+  'Expired',
+];
 
 interface AuthResponse {
   access_token: string;
@@ -32,6 +53,15 @@ export interface PaymentResponse {
   CustomerMessage: string;
 }
 
+export interface StkQueryResponse {
+  ResponseCode: string;
+  ResponseDescription: string;
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: string;
+  ResultDesc: string;
+}
+
 export interface ErrorResponse {
   requestId: string;
   errorCode: string;
@@ -39,8 +69,11 @@ export interface ErrorResponse {
 }
 
 export interface PaymentDto {
+  /** Whole shillings, as accepted by M-Pesa */
   amount: number;
   phoneNumber: string;
+  /** Top-up bonus code, credited once the payment settles */
+  promoCode?: string;
 }
 
 interface B2CRequest {
@@ -57,6 +90,15 @@ interface B2CRequest {
   Occasion: string;
 }
 
+/**
+ * What became of a B2C payout submission. UNCERTAIN means M-Pesa may have
+ * accepted it; `conversationId` is set when it did but recording failed.
+ */
+export type B2CSubmission =
+  | { outcome: 'ACCEPTED'; transaction: B2CTransaction }
+  | { outcome: 'REJECTED' }
+  | { outcome: 'UNCERTAIN'; conversationId?: string };
+
 export interface B2CResponse {
   ConversationID: string;
   OriginatorConversationID: string;
@@ -64,7 +106,11 @@ export interface B2CResponse {
   ResponseDescription: string;
 }
 
+/** Called once an STK push has settled, after its transaction commits */
+export type PaymentSettledListener = (payment: Payment) => Promise<void>;
+
 export interface B2CDto {
+  /** Whole shillings, as accepted by M-Pesa */
   amount: number;
   phoneNumber: string;
   remarks?: string;
@@ -74,6 +120,7 @@ export interface B2CDto {
 @Injectable()
 export class PaymentService {
   private readonly logger = new Logger(PaymentService.name);
+  private readonly settledListeners: PaymentSettledListener[] = [];
 
   private readonly consumerKey =
     'j2dniwbVn7G35PimKt4RAzifEhXMsuGXK6kqpPjnurgxikFB';
@@ -85,22 +132,39 @@ export class PaymentService {
 
   private readonly initiatorName = 'GEOFREY TEGERET';
 
-  private readonly b2cQueueTimeOutURL =
-    'https://tinsel-backend-app-e9iwg.ondigitalocean.app/api/v1/pay/b2c-timeout';
-
-  private readonly b2cResultURL =
-    'https://tinsel-backend-app-e9iwg.ondigitalocean.app/api/v1/pay/b2c-result';
-
   private readonly passkey =
     '1e87335f6f6f0251c19c8eca632c425953d426c41b40ee4c31b68de5b665cdcb';
 
   private readonly password = 'Tin@105117';
 
+  /** Embedded in callback URLs and checked by MpesaCallbackGuard */
+  private readonly callbackSecret: string;
+
   constructor(
     private prisma: PrismaService,
     private readonly mpesaSecurityService: MpesaSecurityService, // This is the crucial line
     private readonly configService: ConfigService,
-  ) {}
+    private readonly ledgerService: LedgerService,
+    private readonly auditService: AuditService,
+    private readonly promotionService: PromotionService,
+  ) {
+    // Without it every callback URL is unverifiable and the guard would
+    // reject every real payment
+    const secret = this.configService.get<string>('MPESA_CALLBACK_SECRET');
+    if (!secret) {
+      throw new Error('MPESA_CALLBACK_SECRET must be set');
+    }
+    this.callbackSecret = secret;
+  }
+
+  /** B2C results carry the callback secret too, since they move money */
+  private get b2cQueueTimeOutURL() {
+    return `https://tinsel-backend-app-e9iwg.ondigitalocean.app/api/v1/pay/b2c-timeout/${this.callbackSecret}`;
+  }
+
+  private get b2cResultURL() {
+    return `https://tinsel-backend-app-e9iwg.ondigitalocean.app/api/v1/pay/b2c-result/${this.callbackSecret}`;
+  }
 
   async getAccessToken(): Promise<string | null> {
     const buffer = Buffer.from(`${this.consumerKey}:${this.consumerSecret}`);
@@ -147,7 +211,15 @@ export class PaymentService {
     paymentData: PaymentDto,
     userId: string,
   ): Promise<PaymentResponse | ErrorResponse | null> {
-    const { amount, phoneNumber } = paymentData;
+    const { amount, phoneNumber, promoCode } = paymentData;
+
+    const bonusCode = promoCode
+      ? await this.promotionService.findTopUpBonus(
+          userId,
+          promoCode,
+          Money.fromMajor(amount),
+        )
+      : null;
 
     const formattedPhone = this.formatPhoneNumber(phoneNumber);
     const timestamp = this.generateTimestamp();
@@ -166,8 +238,7 @@ export class PaymentService {
       PartyA: formattedPhone,
       PartyB: this.businessShortCode,
       PhoneNumber: formattedPhone,
-      CallBackURL:
-        'https://tinsel-backend-app-e9iwg.ondigitalocean.app/api/v1/pay/callback',
+      CallBackURL: `https://tinsel-backend-app-e9iwg.ondigitalocean.app/api/v1/pay/callback/${this.callbackSecret}`,
       AccountReference: accountReference,
       TransactionDesc: `Payment of KES ${amount}`,
     };
@@ -231,7 +302,7 @@ export class PaymentService {
             userId,
             merchantRequestId: result.MerchantRequestID,
             checkoutRequestId: result.CheckoutRequestID,
-            amount,
+            amount: Money.fromMajor(amount).amount,
             phoneNumber: formattedPhone,
             accountReference,
             transactionDesc: paymentRequest.TransactionDesc,
@@ -239,6 +310,7 @@ export class PaymentService {
             responseDescription: result.ResponseDescription,
             customerMessage: result.CustomerMessage,
             status: PaymentStatus.PENDING,
+            promoCodeId: bonusCode?.id,
           },
         });
       }
@@ -255,8 +327,15 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Settle an STK push from its callback. Safaricom retries callbacks and
+   * the URL is public, so only the first callback for a pending payment has
+   * any effect, and it is only trusted once a fresh STK query agrees with it
+   * and the amount matches what we asked for.
+   */
   async processCallback(
     callbackData: MpesaCallbackDto,
+    sourceIp?: string,
   ): Promise<ProcessedCallback> {
     const { stkCallback } = callbackData.Body;
 
@@ -264,21 +343,6 @@ export class PaymentService {
       'Processing M-Pesa callback:',
       JSON.stringify(stkCallback, null, 2),
     );
-    const payment = await this.prisma.payment.findUnique({
-      where: { checkoutRequestId: stkCallback.CheckoutRequestID },
-    });
-
-    if (!payment) {
-      console.error(
-        `FATAL: Payment record not found for CheckoutRequestID: ${stkCallback.CheckoutRequestID}. Callback data will not be saved.`,
-      );
-      return {
-        merchantRequestId: stkCallback.MerchantRequestID,
-        checkoutRequestId: stkCallback.CheckoutRequestID,
-        resultCode: stkCallback.ResultCode,
-        resultDesc: 'Error: Original payment record not found.',
-      };
-    }
 
     const processedCallback: ProcessedCallback = {
       merchantRequestId: stkCallback.MerchantRequestID,
@@ -287,6 +351,36 @@ export class PaymentService {
       resultDesc: stkCallback.ResultDesc,
     };
 
+    const reject = async (
+      reason: CallbackRejectionReason,
+      detail: string,
+    ): Promise<ProcessedCallback> => {
+      await this.recordRejectedCallback({
+        endpoint: 'stk-callback',
+        reason,
+        detail,
+        checkoutRequestId: stkCallback.CheckoutRequestID,
+        sourceIp,
+        payload: callbackData,
+      });
+      return { ...processedCallback, resultDesc: `Rejected: ${detail}` };
+    };
+
+    const payment = await this.prisma.payment.findUnique({
+      where: { checkoutRequestId: stkCallback.CheckoutRequestID },
+    });
+
+    if (!payment) {
+      return reject('UNKNOWN_PAYMENT', 'Original payment record not found');
+    }
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      this.logger.log(
+        `Ignoring repeated callback for Payment ${payment.id} already ${payment.status}`,
+      );
+      return { ...processedCallback, resultDesc: 'Already processed' };
+    }
+
     if (stkCallback.ResultCode === 0 && stkCallback.CallbackMetadata) {
       const metadata = stkCallback.CallbackMetadata.Item;
       metadata.forEach((item) => {
@@ -307,68 +401,323 @@ export class PaymentService {
       });
     }
 
-    const newStatus =
-      stkCallback.ResultCode === 0
-        ? PaymentStatus.COMPLETED
-        : PaymentStatus.FAILED;
+    const succeeded = stkCallback.ResultCode === 0;
+
+    if (succeeded) {
+      if (processedCallback.amount === undefined) {
+        return reject('AMOUNT_MISMATCH', 'Callback carries no amount');
+      }
+
+      const paid = Money.fromMajor(processedCallback.amount);
+      if (paid.amount !== payment.amount) {
+        return reject(
+          'AMOUNT_MISMATCH',
+          `Callback amount ${paid.format()} does not match requested ${Money.of(payment.amount).format()}`,
+        );
+      }
+    }
+
+    const query = await this.queryStkPush(stkCallback.CheckoutRequestID);
+
+    if (!query) {
+      return reject('QUERY_FAILED', 'STK query did not return a final result');
+    }
+
+    if ((Number(query.ResultCode) === 0) !== succeeded) {
+      return reject(
+        'QUERY_MISMATCH',
+        `Callback result ${stkCallback.ResultCode} but STK query returned ${query.ResultCode}: ${query.ResultDesc}`,
+      );
+    }
 
     try {
-      await this.prisma.$transaction(async (tx) => {
-        await tx.payment.update({
-          where: { id: payment.id },
-          data: { status: newStatus },
+      await this.settleStkPayment(payment, {
+        merchantRequestId: stkCallback.MerchantRequestID,
+        resultCode: stkCallback.ResultCode,
+        resultDesc: stkCallback.ResultDesc,
+        mpesaReceiptNumber: processedCallback.mpesaReceiptNumber,
+        transactionDate: processedCallback.transactionDate,
+        phoneNumber: processedCallback.phoneNumber,
+      });
+    } catch (error) {
+      console.error(
+        `Error during database transaction for CheckoutRequestID: ${stkCallback.CheckoutRequestID}`,
+        error,
+      );
+    }
+
+    return processedCallback;
+  }
+
+  /**
+   * Record the final result of an STK push and credit the wallet on
+   * success. Returns null when the payment had already been settled.
+   */
+  private async settleStkPayment(
+    payment: Payment,
+    result: {
+      merchantRequestId: string;
+      resultCode: number;
+      resultDesc: string;
+      mpesaReceiptNumber?: string;
+      transactionDate?: string;
+      phoneNumber?: string;
+    },
+  ): Promise<PaymentStatus | null> {
+    const succeeded = result.resultCode === 0;
+    const newStatus = succeeded
+      ? PaymentStatus.COMPLETED
+      : PaymentStatus.FAILED;
+
+    const settled = await this.prisma.$transaction(async (tx) => {
+      // Claim the payment; a concurrent retry that loses the race stops here
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
+        data: { status: newStatus },
+      });
+
+      if (count === 0) {
+        this.logger.log(`Payment ${payment.id} was already settled`);
+        return false;
+      }
+
+      await tx.paymentCallback.create({
+        data: {
+          paymentId: payment.id,
+          merchantRequestId: result.merchantRequestId,
+          checkoutRequestId: payment.checkoutRequestId ?? '',
+          resultCode: result.resultCode,
+          resultDesc: result.resultDesc,
+          amount: succeeded ? payment.amount : undefined,
+          mpesaReceiptNumber: result.mpesaReceiptNumber,
+          transactionDate: result.transactionDate,
+          phoneNumber: result.phoneNumber,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: 'PAYMENT_SETTLED',
+          entityType: 'Payment',
+          entityId: payment.id,
+          reason: result.resultDesc,
+          before: payment,
+          after: { ...payment, status: newStatus },
+          metadata: {
+            resultCode: result.resultCode,
+            mpesaReceiptNumber: result.mpesaReceiptNumber ?? null,
+          },
+        },
+        tx,
+      );
+
+      if (succeeded && payment.userId) {
+        await this.ledgerService.post(tx, {
+          kind: 'TOP_UP',
+          description: `M-Pesa top-up ${result.mpesaReceiptNumber ?? payment.checkoutRequestId}`,
+          referenceType: 'Payment',
+          referenceId: payment.id,
+          legs: [
+            {
+              account: LedgerAccounts.mpesaClearing(),
+              amount: -payment.amount,
+            },
+            {
+              account: LedgerAccounts.wallet(payment.userId),
+              amount: payment.amount,
+            },
+          ],
         });
+        this.logger.log(
+          `Updated balance for user ${payment.userId} by ${Money.of(payment.amount).format()}`,
+        );
+
+        await this.promotionService.applyTopUpBonus(tx, payment);
 
-        await tx.paymentCallback.create({
+        // A completed top-up proves the user controls this number
+        await tx.payoutAccount.updateMany({
+          where: {
+            userId: payment.userId,
+            phoneNumber: payment.phoneNumber,
+            isVerified: false,
+          },
           data: {
-            paymentId: payment.id,
-            merchantRequestId: stkCallback.MerchantRequestID,
-            checkoutRequestId: stkCallback.CheckoutRequestID,
-            resultCode: stkCallback.ResultCode,
-            resultDesc: stkCallback.ResultDesc,
-            amount: processedCallback.amount,
-            mpesaReceiptNumber: processedCallback.mpesaReceiptNumber,
-            transactionDate: processedCallback.transactionDate,
-            phoneNumber: processedCallback.phoneNumber,
+            isVerified: true,
+            verifiedAt: new Date(),
+            verificationPaymentId: payment.id,
           },
         });
+      }
 
-        if (newStatus === PaymentStatus.COMPLETED && payment.userId) {
-          await tx.userBalance.upsert({
-            where: { userId: payment.userId },
-            update: {
-              availableBalance: {
-                increment: processedCallback.amount,
-              },
-            },
-            create: {
-              userId: payment.userId,
-              availableBalance: processedCallback.amount,
-            },
-          });
-          this.logger.log(
-            `Updated balance for user ${payment.userId} by ${processedCallback.amount}`,
-          );
+      return true;
+    });
+
+    if (!settled) {
+      return null;
+    }
+
+    this.logger.log(`Settled Payment ${payment.id}. Status: ${newStatus}`);
+
+    for (const listener of this.settledListeners) {
+      try {
+        await listener({ ...payment, status: newStatus });
+      } catch (error) {
+        this.logger.error(
+          `Payment settled listener failed for Payment ${payment.id}:`,
+          error,
+        );
+      }
+    }
+
+    return newStatus;
+  }
+
+  /**
+   * Run follow-up work, such as a queued purchase, when an STK push
+   * settles. Listener failures are logged and never undo the settlement.
+   */
+  onSettled(listener: PaymentSettledListener) {
+    this.settledListeners.push(listener);
+  }
+
+  /**
+   * Resolve STK pushes whose callback never arrived by asking M-Pesa for
+   * their final result
+   */
+  async reconcilePendingPayments(
+    olderThanMinutes: number = 10,
+    limit: number = 50,
+  ) {
+    const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        status: PaymentStatus.PENDING,
+        checkoutRequestId: { not: null },
+        createdAt: { lt: cutoff },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    let completed = 0;
+    let failed = 0;
+    let unresolved = 0;
+
+    for (const payment of payments) {
+      try {
+        const query = await this.queryStkPush(payment.checkoutRequestId!);
+        if (!query) {
+          unresolved++;
+          continue;
         }
-      });
 
-      this.logger.log(
-        `Successfully processed callback for Payment ${payment.id}. Status: ${newStatus}`,
+        const status = await this.settleStkPayment(payment, {
+          merchantRequestId: query.MerchantRequestID,
+          resultCode: Number(query.ResultCode),
+          resultDesc: query.ResultDesc,
+        });
+
+        if (status === PaymentStatus.COMPLETED) completed++;
+        if (status === PaymentStatus.FAILED) failed++;
+      } catch (error) {
+        unresolved++;
+        this.logger.error(`Failed to reconcile Payment ${payment.id}:`, error);
+      }
+    }
+
+    return { checked: payments.length, completed, failed, unresolved };
+  }
+
+  /**
+   * Ask M-Pesa for the final result of an STK push. Returns null while the
+   * push is still being processed or when the query itself fails.
+   */
+  async queryStkPush(
+    checkoutRequestId: string,
+  ): Promise<StkQueryResponse | null> {
+    const timestamp = this.generateTimestamp();
+    const password = Buffer.from(
+      `${this.businessShortCode}${this.passkey}${timestamp}`,
+    ).toString('base64');
+
+    try {
+      const accessToken = await this.getAccessToken();
+      if (!accessToken) {
+        throw new Error('Failed to retrieve access token');
+      }
+
+      const headers = new Headers();
+      headers.append('Authorization', `Bearer ${accessToken}`);
+      headers.append('Content-Type', 'application/json');
+
+      const response = await fetch(
+        'https://api.safaricom.co.ke/mpesa/stkpushquery/v1/query',
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            BusinessShortCode: this.businessShortCode,
+            Password: password,
+            Timestamp: timestamp,
+            CheckoutRequestID: checkoutRequestId,
+          }),
+        },
       );
+
+      if (!response.ok) {
+        this.logger.warn(
+          `STK query for ${checkoutRequestId} failed: ${response.status} ${await response.text()}`,
+        );
+        return null;
+      }
+
+      const result = (await response.json()) as StkQueryResponse;
+      return result.ResultCode !== undefined ? result : null;
     } catch (error) {
-      console.error(
-        `Error during database transaction for CheckoutRequestID: ${stkCallback.CheckoutRequestID}`,
-        error,
-      );
+      this.logger.error(`Error querying STK push ${checkoutRequestId}:`, error);
+      return null;
     }
+  }
 
-    return processedCallback;
+  async recordRejectedCallback(data: {
+    endpoint: string;
+    reason: CallbackRejectionReason;
+    detail?: string;
+    checkoutRequestId?: string;
+    sourceIp?: string;
+    payload?: unknown;
+  }) {
+    this.logger.warn(
+      `Rejected ${data.endpoint} callback from ${data.sourceIp ?? 'unknown'}: ${data.reason} ${data.detail ?? ''}`,
+    );
+
+    try {
+      await this.prisma.rejectedCallback.create({
+        data: {
+          endpoint: data.endpoint,
+          reason: data.reason,
+          detail: data.detail,
+          checkoutRequestId: data.checkoutRequestId,
+          sourceIp: data.sourceIp,
+          payload: (data.payload ?? undefined) as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      this.logger.error('Failed to record rejected callback:', error);
+    }
   }
 
-  async getPaymentStatus(checkoutRequestId: string): Promise<any> {
+  /**
+   * Pass the user ID to only find the user's own payment
+   */
+  async getPaymentStatus(
+    checkoutRequestId: string,
+    userId?: string,
+  ): Promise<any> {
     try {
-      const payment = await this.prisma.payment.findUnique({
-        where: { checkoutRequestId },
+      const payment = await this.prisma.payment.findFirst({
+        where: { checkoutRequestId, ...(userId && { userId }) },
         include: { callback: true },
       });
 
@@ -379,7 +728,7 @@ export class PaymentService {
     }
   }
 
-  private formatPhoneNumber(phoneNumber: string): string {
+  formatPhoneNumber(phoneNumber: string): string {
     let cleaned = phoneNumber.replace(/[\s\-\+]/g, '');
     if (cleaned.startsWith('0')) {
       cleaned = '254' + cleaned.substring(1);
@@ -402,6 +751,7 @@ export class PaymentService {
     } = paymentData;
 
     const formattedPhone = this.formatPhoneNumber(phoneNumber);
+    const payout = Money.fromMajor(amount);
     const securityCredential =
       this.mpesaSecurityService.generateSecurityCredential(this.password);
 
@@ -424,7 +774,7 @@ export class PaymentService {
         where: { userId },
       });
 
-      if (!userBalance || userBalance.availableBalance < amount) {
+      if (!userBalance || userBalance.availableBalance < payout.amount) {
         throw new Error('Insufficient balance for salary payment');
       }
 
@@ -481,29 +831,39 @@ export class PaymentService {
       console.log('Parsed B2C response:', result);
 
       if (result.ConversationID) {
-        await this.prisma.b2CTransaction.create({
-          data: {
-            userId,
-            conversationId: result.ConversationID,
-            originatorConversationId: result.OriginatorConversationID,
-            amount,
-            phoneNumber: formattedPhone,
-            remarks,
-            occasion,
-            commandID: 'SalaryPayment',
-            responseCode: result.ResponseCode,
-            responseDescription: result.ResponseDescription,
-            status: 'PENDING',
-          },
-        });
-
-        await this.prisma.userBalance.update({
-          where: { userId },
-          data: {
-            availableBalance: {
-              decrement: amount,
+        await this.prisma.$transaction(async (tx) => {
+          const b2cTransaction = await tx.b2CTransaction.create({
+            data: {
+              userId,
+              conversationId: result.ConversationID,
+              originatorConversationId: result.OriginatorConversationID,
+              amount: payout.amount,
+              phoneNumber: formattedPhone,
+              remarks,
+              occasion,
+              commandID: 'SalaryPayment',
+              responseCode: result.ResponseCode,
+              responseDescription: result.ResponseDescription,
+              status: 'PENDING',
             },
-          },
+          });
+
+          await this.ledgerService.post(tx, {
+            kind: 'PAYOUT',
+            description: `M-Pesa payout to ${formattedPhone}`,
+            referenceType: 'B2CTransaction',
+            referenceId: b2cTransaction.id,
+            legs: [
+              {
+                account: LedgerAccounts.wallet(userId),
+                amount: -payout.amount,
+              },
+              {
+                account: LedgerAccounts.mpesaClearing(),
+                amount: payout.amount,
+              },
+            ],
+          });
         });
 
         this.logger.log(
@@ -526,6 +886,7 @@ export class PaymentService {
   async queryTransactionStatus(
     transactionId: string,
     userId: string,
+    b2cTransaction?: B2CTransaction,
   ): Promise<any> {
     const securityCredential =
       this.mpesaSecurityService.generateSecurityCredential(this.password);
@@ -541,6 +902,9 @@ export class PaymentService {
       QueueTimeOutURL: `${this.b2cQueueTimeOutURL}/status`,
       Remarks: 'Transaction status query',
       Occasion: 'Status Check',
+      ...(b2cTransaction && {
+        OriginalConversationID: b2cTransaction.originatorConversationId,
+      }),
     };
 
     try {
@@ -571,9 +935,22 @@ export class PaymentService {
         return null;
       }
 
-      const result = await response.json();
+      const result = (await response.json()) as B2CResponse;
       console.log('Transaction status response:', result);
 
+      if (result.ConversationID) {
+        await this.prisma.transactionStatusQuery.create({
+          data: {
+            userId,
+            transactionId,
+            conversationId: result.ConversationID,
+            queryResponse: { ...result },
+            status: 'PENDING',
+            b2cTransactionId: b2cTransaction?.id,
+          },
+        });
+      }
+
       return result;
     } catch (error) {
       console.error('Error querying transaction status:', error);
@@ -646,6 +1023,7 @@ export class PaymentService {
     } = paymentData;
 
     const formattedPhone = this.formatPhoneNumber(phoneNumber);
+    const payout = Money.fromMajor(amount);
     const securityCredential =
       this.mpesaSecurityService.generateSecurityCredential();
 
@@ -668,7 +1046,7 @@ export class PaymentService {
         where: { userId },
       });
 
-      if (!userBalance || userBalance.availableBalance < amount) {
+      if (!userBalance || userBalance.availableBalance < payout.amount) {
         throw new Error('Insufficient balance for business payment');
       }
 
@@ -704,15 +1082,145 @@ export class PaymentService {
       const result = await response.json();
 
       if (result.ConversationID) {
-        await this.prisma.b2CTransaction.create({
+        await this.prisma.$transaction(async (tx) => {
+          const b2cTransaction = await tx.b2CTransaction.create({
+            data: {
+              userId,
+              conversationId: result.ConversationID,
+              originatorConversationId: result.OriginatorConversationID,
+              amount: payout.amount,
+              phoneNumber: formattedPhone,
+              remarks,
+              occasion,
+              commandID: 'BusinessPayment',
+              responseCode: result.ResponseCode,
+              responseDescription: result.ResponseDescription,
+              status: 'PENDING',
+            },
+          });
+
+          await this.ledgerService.post(tx, {
+            kind: 'PAYOUT',
+            description: `M-Pesa payout to ${formattedPhone}`,
+            referenceType: 'B2CTransaction',
+            referenceId: b2cTransaction.id,
+            legs: [
+              {
+                account: LedgerAccounts.wallet(userId),
+                amount: -payout.amount,
+              },
+              {
+                account: LedgerAccounts.mpesaClearing(),
+                amount: payout.amount,
+              },
+            ],
+          });
+        });
+
+        this.logger.log(
+          `Business payment initiated: ${amount} to ${formattedPhone}`,
+        );
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error processing B2C business payment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Submit a B2C payout whose funds the caller has already moved out of the
+   * wallet. `onAccepted` runs in the transaction that records the
+   * B2CTransaction, so callers can link their own records before the result
+   * callback can arrive. Only a request M-Pesa answered with a rejection is
+   * REJECTED; if the request may have gone through but could not be
+   * recorded, the outcome is UNCERTAIN and the funds must stay held.
+   */
+  async submitB2CPayout(
+    params: {
+      userId: string;
+      amount: Money;
+      phoneNumber: string;
+      remarks: string;
+      occasion: string;
+    },
+    onAccepted?: (
+      tx: Prisma.TransactionClient,
+      transaction: B2CTransaction,
+    ) => Promise<void>,
+  ): Promise<B2CSubmission> {
+    const formattedPhone = this.formatPhoneNumber(params.phoneNumber);
+
+    const b2cRequest: B2CRequest = {
+      OriginatorConversationID: crypto.randomUUID(),
+      InitiatorName: this.initiatorName,
+      SecurityCredential:
+        this.mpesaSecurityService.generateSecurityCredential(),
+      CommandID: 'BusinessPayment',
+      Amount: params.amount.toMajor(),
+      PartyA: this.businessShortCode,
+      PartyB: formattedPhone,
+      Remarks: params.remarks,
+      QueueTimeOutURL: this.b2cQueueTimeOutURL,
+      ResultURL: this.b2cResultURL,
+      Occasion: params.occasion,
+    };
+
+    const accessToken = await this.getAccessToken();
+    if (!accessToken) {
+      this.logger.error('B2C payout not sent: failed to retrieve access token');
+      return { outcome: 'REJECTED' };
+    }
+
+    const headers = new Headers();
+    headers.append('Authorization', `Bearer ${accessToken}`);
+    headers.append('Content-Type', 'application/json');
+
+    let result: B2CResponse;
+    try {
+      const response = await fetch(
+        'https://api.safaricom.co.ke/mpesa/b2c/v3/paymentrequest',
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(b2cRequest),
+        },
+      );
+
+      if (!response.ok) {
+        this.logger.error(
+          `B2C payout request failed: ${response.status} ${await response.text()}`,
+        );
+        return { outcome: 'REJECTED' };
+      }
+
+      result = (await response.json()) as B2CResponse;
+    } catch (error) {
+      // The request may have reached M-Pesa before the connection failed
+      this.logger.error(
+        `B2C payout ${b2cRequest.OriginatorConversationID} has no response:`,
+        error,
+      );
+      return { outcome: 'UNCERTAIN' };
+    }
+
+    if (!result.ConversationID) {
+      this.logger.error(`B2C payout rejected: ${JSON.stringify(result)}`);
+      return { outcome: 'REJECTED' };
+    }
+
+    try {
+      const transaction = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.b2CTransaction.create({
           data: {
-            userId,
+            userId: params.userId,
             conversationId: result.ConversationID,
             originatorConversationId: result.OriginatorConversationID,
-            amount,
+            amount: params.amount.amount,
             phoneNumber: formattedPhone,
-            remarks,
-            occasion,
+            remarks: params.remarks,
+            occasion: params.occasion,
             commandID: 'BusinessPayment',
             responseCode: result.ResponseCode,
             responseDescription: result.ResponseDescription,
@@ -720,47 +1228,146 @@ export class PaymentService {
           },
         });
 
-        await this.prisma.userBalance.update({
-          where: { userId },
-          data: {
-            availableBalance: {
-              decrement: amount,
-            },
-          },
-        });
+        if (onAccepted) {
+          await onAccepted(tx, created);
+        }
 
-        this.logger.log(
-          `Business payment initiated: ${amount} to ${formattedPhone}`,
-        );
-      }
+        return created;
+      });
 
-      return result;
+      return { outcome: 'ACCEPTED', transaction };
     } catch (error) {
-      console.error('Error processing B2C business payment:', error);
-      return null;
+      this.logger.error(
+        `B2C payout ${result.ConversationID} was accepted but not recorded:`,
+        error,
+      );
+      return { outcome: 'UNCERTAIN', conversationId: result.ConversationID };
     }
   }
 
-  async processB2CResult(resultData: any): Promise<any> {
+  /**
+   * Finish a withdrawal: on success the held funds leave through M-Pesa
+   * clearing, otherwise they return to the seller's wallet. Safe to call
+   * more than once; only the first call for an open withdrawal has effect.
+   */
+  async settleWithdrawal(
+    tx: Prisma.TransactionClient,
+    withdrawal: Withdrawal,
+    succeeded: boolean,
+    failureReason?: string,
+  ) {
+    const data: Prisma.WithdrawalUpdateManyMutationInput = succeeded
+      ? { status: 'COMPLETED', completedAt: new Date() }
+      : { status: 'FAILED', failureReason };
+    const { count } = await tx.withdrawal.updateMany({
+      where: {
+        id: withdrawal.id,
+        status: { in: ['PENDING', 'PROCESSING'] },
+      },
+      data,
+    });
+
+    if (count === 0) return;
+
+    await this.auditService.record(
+      {
+        action: 'WITHDRAWAL_SETTLED',
+        entityType: 'Withdrawal',
+        entityId: withdrawal.id,
+        reason: failureReason,
+        before: withdrawal,
+        after: { ...withdrawal, ...data },
+      },
+      tx,
+    );
+
+    const held = LedgerAccounts.withdrawalPending(
+      withdrawal.userId,
+      withdrawal.currency,
+    );
+
+    await this.ledgerService.post(tx, {
+      kind: succeeded ? 'WITHDRAWAL_PAYOUT' : 'WITHDRAWAL_REVERSAL',
+      description: succeeded
+        ? 'Withdrawal paid out via M-Pesa'
+        : `Withdrawal reversed: ${failureReason ?? 'payout failed'}`,
+      referenceType: 'Withdrawal',
+      referenceId: withdrawal.id,
+      legs: [
+        { account: held, amount: -withdrawal.amount },
+        {
+          account: succeeded
+            ? LedgerAccounts.mpesaClearing(withdrawal.currency)
+            : LedgerAccounts.wallet(withdrawal.userId, withdrawal.currency),
+          amount: withdrawal.amount,
+        },
+      ],
+    });
+
+    this.logger.log(
+      `Withdrawal ${withdrawal.id} ${succeeded ? 'completed' : 'reversed'}`,
+    );
+  }
+
+  async processB2CResult(resultData: B2CResultDto) {
     const { Result } = resultData;
 
-    console.log('Processing B2C result:', JSON.stringify(Result, null, 2));
+    this.logger.log(
+      `Processing B2C result: ${JSON.stringify(Result, null, 2)}`,
+    );
 
     const transaction = await this.prisma.b2CTransaction.findUnique({
       where: { conversationId: Result.ConversationID },
     });
 
     if (!transaction) {
-      console.error(
+      this.logger.error(
         `B2C transaction not found for ConversationID: ${Result.ConversationID}`,
       );
       return { error: 'Transaction not found' };
     }
 
+    if (transaction.status !== 'PENDING') {
+      this.logger.log(
+        `Ignoring B2C result for ${transaction.id}, already ${transaction.status}`,
+      );
+      return {
+        conversationId: Result.ConversationID,
+        resultCode: Result.ResultCode,
+        resultDesc: Result.ResultDesc,
+        status: transaction.status,
+      };
+    }
+
     const isSuccess = Result.ResultCode === 0;
-    const newStatus = isSuccess ? 'COMPLETED' : 'FAILED';
 
-    let transactionDetails = {
+    if (!isSuccess) {
+      const { count } = await this.prisma.b2CTransaction.updateMany({
+        where: { id: transaction.id, status: 'PENDING' },
+        data: { resultCode: Result.ResultCode, resultDesc: Result.ResultDesc },
+      });
+
+      if (count > 0) {
+        await this.confirmB2CStatus(transaction);
+      }
+
+      return {
+        conversationId: Result.ConversationID,
+        resultCode: Result.ResultCode,
+        resultDesc: Result.ResultDesc,
+        status: 'PENDING',
+      };
+    }
+
+    const transactionDetails: Pick<
+      B2CTransaction,
+      | 'transactionId'
+      | 'transactionReceipt'
+      | 'recipientRegistered'
+      | 'charges'
+      | 'transactionCompletedDateTime'
+      | 'receiverPartyPublicName'
+    > = {
       transactionId: null,
       transactionReceipt: null,
       recipientRegistered: null,
@@ -769,27 +1376,30 @@ export class PaymentService {
       receiverPartyPublicName: null,
     };
 
-    if (isSuccess && Result.ResultParameters?.ResultParameter) {
-      Result.ResultParameters.ResultParameter.forEach((param: any) => {
+    if (Result.ResultParameters?.ResultParameter) {
+      Result.ResultParameters.ResultParameter.forEach((param) => {
+        const value = String(param.Value);
         switch (param.Key) {
           case 'TransactionID':
-            transactionDetails.transactionId = param.Value;
+            transactionDetails.transactionId = value;
             break;
           case 'TransactionReceipt':
-            transactionDetails.transactionReceipt = param.Value;
+            transactionDetails.transactionReceipt = value;
             break;
           case 'ReceiverPartyPublicName':
-            transactionDetails.receiverPartyPublicName = param.Value;
+            transactionDetails.receiverPartyPublicName = value;
             break;
           case 'TransactionCompletedDateTime':
-            transactionDetails.transactionCompletedDateTime = param.Value;
+            transactionDetails.transactionCompletedDateTime = value;
             break;
 
           case 'B2CRecipientIsRegisteredCustomer':
-            transactionDetails.recipientRegistered = param.Value;
+            transactionDetails.recipientRegistered = value;
             break;
           case 'B2CChargesPaidAccountAvailableFunds':
-            transactionDetails.charges = parseFloat(param.Value) as any;
+            transactionDetails.charges = Money.fromMajor(
+              parseFloat(value),
+            ).amount;
             break;
         }
       });
@@ -797,10 +1407,10 @@ export class PaymentService {
 
     try {
       await this.prisma.$transaction(async (tx) => {
-        await tx.b2CTransaction.update({
-          where: { id: transaction.id },
+        const { count } = await tx.b2CTransaction.updateMany({
+          where: { id: transaction.id, status: 'PENDING' },
           data: {
-            status: newStatus,
+            status: 'COMPLETED',
             resultCode: Result.ResultCode,
             resultDesc: Result.ResultDesc,
             transactionId: transactionDetails.transactionId,
@@ -813,93 +1423,253 @@ export class PaymentService {
           },
         });
 
-        if (!isSuccess && transaction.userId) {
-          await tx.userBalance.update({
-            where: { userId: transaction.userId },
-            data: {
-              availableBalance: {
-                increment: transaction.amount,
-              },
-            },
-          });
-          this.logger.log(
-            `Refunded ${transaction.amount} to user ${transaction.userId} due to failed B2C`,
-          );
-        }
+        if (count === 0) return;
+
+        await this.finalizeB2C(tx, transaction, true, Result.ResultDesc);
       });
 
-      this.logger.log(
-        `B2C transaction ${transaction.id} updated to ${newStatus}`,
-      );
+      this.logger.log(`B2C transaction ${transaction.id} updated to COMPLETED`);
     } catch (error) {
-      console.error('Error updating B2C transaction:', error);
+      this.logger.error('Error updating B2C transaction:', error);
     }
 
     return {
       conversationId: Result.ConversationID,
       resultCode: Result.ResultCode,
       resultDesc: Result.ResultDesc,
-      status: newStatus,
+      status: 'COMPLETED',
     };
   }
 
-  async processB2CTimeout(timeoutData: any): Promise<any> {
+  /**
+   * Failure results and timeouts don't reverse a payout by themselves: M-Pesa
+   * is asked for the transaction's status first, and the answer settles it
+   * in processTransactionStatusResult. A query that can't be sent is retried
+   * by reconcilePendingB2C.
+   */
+  private async confirmB2CStatus(
+    transaction: B2CTransaction,
+  ): Promise<boolean> {
+    const result: unknown = await this.queryTransactionStatus(
+      transaction.transactionId ?? transaction.originatorConversationId,
+      transaction.userId,
+      transaction,
+    );
+
+    if (!result) {
+      this.logger.warn(
+        `Could not confirm status of B2C transaction ${transaction.id}`,
+      );
+    }
+
+    return Boolean(result);
+  }
+
+  /**
+   * Apply the money side of a finished B2C payout: withdrawals settle
+   * through their held funds, other failed payouts are refunded to the
+   * wallet. `transaction` is the row as it was before this result.
+   */
+  private async finalizeB2C(
+    tx: Prisma.TransactionClient,
+    transaction: B2CTransaction,
+    succeeded: boolean,
+    reason: string,
+  ) {
+    await this.auditService.record(
+      {
+        action: 'B2C_FINALIZED',
+        entityType: 'B2CTransaction',
+        entityId: transaction.id,
+        reason,
+        before: transaction,
+        after: await tx.b2CTransaction.findUnique({
+          where: { id: transaction.id },
+        }),
+      },
+      tx,
+    );
+
+    const withdrawal = await tx.withdrawal.findUnique({
+      where: { b2cTransactionId: transaction.id },
+    });
+
+    if (withdrawal) {
+      await this.settleWithdrawal(tx, withdrawal, succeeded, reason);
+      return;
+    }
+
+    if (succeeded || !transaction.userId || transaction.status !== 'PENDING') {
+      return;
+    }
+
+    await this.ledgerService.post(tx, {
+      kind: 'PAYOUT_REVERSAL',
+      description: `Reversal of payout: ${reason}`,
+      referenceType: 'B2CTransaction',
+      referenceId: transaction.id,
+      legs: [
+        {
+          account: LedgerAccounts.mpesaClearing(),
+          amount: -transaction.amount,
+        },
+        {
+          account: LedgerAccounts.wallet(transaction.userId),
+          amount: transaction.amount,
+        },
+      ],
+    });
+    this.logger.log(
+      `Refunded ${transaction.amount} to user ${transaction.userId}: ${reason}`,
+    );
+  }
+
+  /**
+   * Ask M-Pesa about B2C payouts that never received a result callback.
+   * Answers arrive asynchronously at processTransactionStatusResult.
+   */
+  async reconcilePendingB2C(olderThanMinutes: number = 30, limit: number = 20) {
+    const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+
+    const transactions = await this.prisma.b2CTransaction.findMany({
+      where: {
+        status: 'PENDING',
+        createdAt: { lt: cutoff },
+        // Give the previous query time to be answered before asking again
+        statusQueries: { none: { createdAt: { gte: cutoff } } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    let queried = 0;
+
+    for (const transaction of transactions) {
+      if (await this.confirmB2CStatus(transaction)) queried++;
+    }
+
+    return { checked: transactions.length, queried };
+  }
+
+  /**
+   * Settle a pending B2C payout from a transaction status query result.
+   * Only final statuses are acted on, and only while the payout is still
+   * pending, so a late result callback and this cannot both apply.
+   */
+  async processTransactionStatusResult(
+    resultData: TransactionStatusResultDto,
+  ): Promise<any> {
+    const { Result } = resultData;
+
+    const query = await this.prisma.transactionStatusQuery.findFirst({
+      where: { conversationId: Result.ConversationID },
+      include: { b2cTransaction: true },
+    });
+
+    if (!query) {
+      this.logger.warn(
+        `Transaction status query not found for ConversationID: ${Result.ConversationID}`,
+      );
+      return { error: 'Query not found' };
+    }
+
+    const params = new Map(
+      (Result.ResultParameters?.ResultParameter ?? []).map((param) => [
+        param.Key,
+        String(param.Value),
+      ]),
+    );
+    const transactionStatus =
+      Result.ResultCode === 0 ? params.get('TransactionStatus') : undefined;
+
+    await this.prisma.transactionStatusQuery.update({
+      where: { id: query.id },
+      data: {
+        status: transactionStatus ?? `ERROR_${Result.ResultCode}`,
+        queryResponse: { ...resultData },
+      },
+    });
+
+    const transaction = query.b2cTransaction;
+    const succeeded = transactionStatus === 'Completed';
+    const failed =
+      transactionStatus !== undefined &&
+      FAILED_TRANSACTION_STATUSES.includes(transactionStatus);
+
+    if (!transaction || (!succeeded && !failed)) {
+      return { conversationId: Result.ConversationID, transactionStatus };
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.b2CTransaction.updateMany({
+        where: { id: transaction.id, status: 'PENDING' },
+        data: {
+          status: succeeded ? 'COMPLETED' : 'FAILED',
+          resultDesc: `Transaction status query: ${transactionStatus}`,
+          transactionReceipt: params.get('ReceiptNo'),
+        },
+      });
+
+      if (count === 0) return;
+
+      await this.finalizeB2C(
+        tx,
+        transaction,
+        succeeded,
+        `transaction status ${transactionStatus}`,
+      );
+    });
+
+    this.logger.log(
+      `B2C transaction ${transaction.id} resolved by status query: ${transactionStatus}`,
+    );
+
+    return { conversationId: Result.ConversationID, transactionStatus };
+  }
+
+  async processB2CTimeout(timeoutData: B2CResultDto) {
     const { Result } = timeoutData;
 
-    console.log('Processing B2C timeout:', JSON.stringify(Result, null, 2));
+    this.logger.log(
+      `Processing B2C timeout: ${JSON.stringify(Result, null, 2)}`,
+    );
 
     const transaction = await this.prisma.b2CTransaction.findUnique({
       where: { conversationId: Result.ConversationID },
     });
 
     if (!transaction) {
-      console.error(
+      this.logger.error(
         `B2C transaction not found for ConversationID: ${Result.ConversationID}`,
       );
       return { error: 'Transaction not found' };
     }
 
-    try {
-      await this.prisma.$transaction(async (tx) => {
-        await tx.b2CTransaction.update({
-          where: { id: transaction.id },
-          data: {
-            status: 'TIMEOUT',
-            resultCode: Result.ResultCode,
-            resultDesc: Result.ResultDesc,
-          },
-        });
-
-        if (transaction.userId) {
-          await tx.userBalance.update({
-            where: { userId: transaction.userId },
-            data: {
-              availableBalance: {
-                increment: transaction.amount,
-              },
-            },
-          });
-          this.logger.log(
-            `Refunded ${transaction.amount} to user ${transaction.userId} due to B2C timeout`,
-          );
-        }
-      });
+    const { count } = await this.prisma.b2CTransaction.updateMany({
+      where: { id: transaction.id, status: 'PENDING' },
+      data: { resultCode: Result.ResultCode, resultDesc: Result.ResultDesc },
+    });
 
-      this.logger.log(`B2C transaction ${transaction.id} marked as timeout`);
-    } catch (error) {
-      console.error('Error handling B2C timeout:', error);
+    if (count > 0) {
+      await this.confirmB2CStatus(transaction);
     }
 
     return {
       conversationId: Result.ConversationID,
-      status: 'TIMEOUT',
+      status: count > 0 ? 'PENDING' : transaction.status,
     };
   }
 
-  async getB2CTransactionStatus(conversationId: string): Promise<any> {
+  /**
+   * Pass the user ID to only find the user's own transaction
+   */
+  async getB2CTransactionStatus(
+    conversationId: string,
+    userId?: string,
+  ): Promise<any> {
     try {
-      const transaction = await this.prisma.b2CTransaction.findUnique({
-        where: { conversationId },
+      const transaction = await this.prisma.b2CTransaction.findFirst({
+        where: { conversationId, ...(userId && { userId }) },
       });
 
       return transaction;
@@ -909,6 +1679,23 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Whether an M-Pesa transaction ID belongs to one of the user's payments
+   * or payouts
+   */
+  async isTransactionOwner(transactionId: string, userId: string) {
+    const [callback, b2cTransaction] = await Promise.all([
+      this.prisma.paymentCallback.findFirst({
+        where: { mpesaReceiptNumber: transactionId, payment: { userId } },
+      }),
+      this.prisma.b2CTransaction.findFirst({
+        where: { transactionId, userId },
+      }),
+    ]);
+
+    return !!callback || !!b2cTransaction;
+  }
+
   // async getB2CHistory(userId?: string): Promise<any[]> {
   //   try {
   //     const transactions = await this.prisma.b2CTransaction.findMany({
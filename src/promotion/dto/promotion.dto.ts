@@ -0,0 +1,165 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import {
+  PromoCode,
+  PromoDiscountType,
+  PromoFunder,
+  PromoKind,
+} from '@prisma/client';
+import { Money } from 'src/common/money/money';
+
+export class CreatePromoCodeDto {
+  /** Letters, digits, dashes and underscores; stored upper case */
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsEnum(PromoKind)
+  kind: PromoKind;
+
+  /** Limit the code to chats with one creator */
+  @IsOptional()
+  @IsString()
+  creatorId?: string;
+
+  /** Required for discounts and top-up bonuses */
+  @IsOptional()
+  @IsEnum(PromoDiscountType)
+  discountType?: PromoDiscountType;
+
+  /** Percent for PERCENTAGE, minor units for FIXED */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  discountValue?: number;
+
+  /** Required for FREE_MINUTES vouchers */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  freeMinutes?: number;
+
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  /** Smallest purchase or top-up, in minor units */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minAmount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  firstPurchaseOnly?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+/** Creators issue discounts and vouchers for their own chat time */
+export class CreateCreatorPromoCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsIn([PromoKind.CHAT_TIME_DISCOUNT, PromoKind.FREE_MINUTES])
+  kind: PromoKind;
+
+  @IsOptional()
+  @IsEnum(PromoDiscountType)
+  discountType?: PromoDiscountType;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  discountValue?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  freeMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minAmount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  firstPurchaseOnly?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class UpdatePromoCodeDto {
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class RedeemVoucherDto {
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  sellerId: string;
+}
+
+/** A promo code priced against one purchase */
+export interface PromoDiscount {
+  promoCode: PromoCode;
+  discount: Money;
+  fundedBy: PromoFunder;
+}
@@ -0,0 +1,154 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { PromoKind } from '@prisma/client';
+import { PromotionService } from './promotion.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+import {
+  CreateCreatorPromoCodeDto,
+  CreatePromoCodeDto,
+  UpdatePromoCodeDto,
+} from './dto/promotion.dto';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('api/v1/promotions')
+@UseGuards(AuthGuardService, RolesGuard)
+export class PromotionController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  /**
+   * Issue a creator's own chat time discount or free-minute voucher
+   */
+  @Post('creator')
+  @HttpCode(HttpStatus.CREATED)
+  async createCreatorCode(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateCreatorPromoCodeDto,
+  ) {
+    return this.promotionService.createCreatorCode(req.user.id, dto);
+  }
+
+  /**
+   * Codes usable with the creator's chat time, including platform codes
+   */
+  @Get('creator')
+  @HttpCode(HttpStatus.OK)
+  async getCreatorCodes(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.promotionService.getCodes(
+      { creatorId: req.user.id },
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  @Put('creator/:codeId')
+  @HttpCode(HttpStatus.OK)
+  async updateCreatorCode(
+    @Req() req: AuthenticatedRequest,
+    @Param('codeId') codeId: string,
+    @Body() dto: UpdatePromoCodeDto,
+  ) {
+    return this.promotionService.updateCode(codeId, dto, req.user.id);
+  }
+
+  @Get('creator/:codeId/redemptions')
+  @HttpCode(HttpStatus.OK)
+  async getCreatorCodeRedemptions(
+    @Req() req: AuthenticatedRequest,
+    @Param('codeId') codeId: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.promotionService.getRedemptions(
+      codeId,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Issue a platform-funded promo code
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles('finance-admin')
+  async createCode(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreatePromoCodeDto,
+  ) {
+    return this.promotionService.createCode(req.user.id, dto);
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @Roles('finance-admin')
+  async getCodes(
+    @Query('kind') kind?: PromoKind,
+    @Query('creatorId') creatorId?: string,
+    @Query('isActive') isActive?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.promotionService.getCodes(
+      {
+        kind,
+        creatorId,
+        isActive: isActive === undefined ? undefined : isActive === 'true',
+      },
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  @Put(':codeId')
+  @HttpCode(HttpStatus.OK)
+  @Roles('finance-admin')
+  async updateCode(
+    @Param('codeId') codeId: string,
+    @Body() dto: UpdatePromoCodeDto,
+  ) {
+    return this.promotionService.updateCode(codeId, dto);
+  }
+
+  /**
+   * Usage of a code and the total value given away
+   */
+  @Get(':codeId/redemptions')
+  @HttpCode(HttpStatus.OK)
+  @Roles('finance-admin')
+  async getRedemptions(
+    @Param('codeId') codeId: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.promotionService.getRedemptions(
+      codeId,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PromotionService } from './promotion.service';
+import { PromotionController } from './promotion.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { AuditModule } from 'src/audit/audit.module';
+
+@Module({
+  imports: [PrismaModule, ClerkModule, LedgerModule, AuditModule],
+  controllers: [PromotionController],
+  providers: [PromotionService],
+  exports: [PromotionService],
+})
+export class PromotionModule {}
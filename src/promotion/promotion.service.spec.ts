@@ -0,0 +1,219 @@
+import { Test } from '@nestjs/testing';
+import { Payment, Prisma, PromoCode } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { AuditService } from 'src/audit/audit.service';
+import { Money } from 'src/common/money/money';
+import { PromotionService } from './promotion.service';
+
+function code(overrides: Partial<PromoCode> = {}): PromoCode {
+  return {
+    id: 'promo_1',
+    code: 'LAUNCH',
+    kind: 'CHAT_TIME_DISCOUNT',
+    creatorId: null,
+    fundedBy: 'PLATFORM',
+    discountType: 'PERCENTAGE',
+    discountValue: 25,
+    freeMinutes: null,
+    currency: 'KES',
+    minAmount: null,
+    maxRedemptions: 100,
+    perUserLimit: 1,
+    firstPurchaseOnly: false,
+    startsAt: null,
+    expiresAt: null,
+    isActive: true,
+    redemptionCount: 0,
+    createdById: 'admin',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let ledgerService: { post: jest.Mock };
+
+  function createPrisma() {
+    return {
+      promoCode: {
+        fields: { maxRedemptions: 'maxRedemptions' },
+        findUnique: jest.fn().mockResolvedValue(code()),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      promoRedemption: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(),
+      },
+    };
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PromotionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(PromotionService);
+  });
+
+  describe('quoteChatTime', () => {
+    const quote = (price: Money) =>
+      service.quoteChatTime('buyer', 'seller', 'launch', price);
+
+    it('prices a percentage discount against the purchase', async () => {
+      const { discount } = await quote(Money.of(10000));
+
+      expect(discount.amount).toBe(2500);
+    });
+
+    it('never discounts more than the price', async () => {
+      prisma.promoCode.findUnique.mockResolvedValue(
+        code({ discountType: 'FIXED', discountValue: 50000 }),
+      );
+
+      const { discount } = await quote(Money.of(10000));
+
+      expect(discount.amount).toBe(10000);
+    });
+
+    it('refuses a code that has been fully redeemed', async () => {
+      prisma.promoCode.findUnique.mockResolvedValue(
+        code({ maxRedemptions: 100, redemptionCount: 100 }),
+      );
+
+      await expect(quote(Money.of(10000))).rejects.toThrow(
+        'This promo code has been fully redeemed',
+      );
+    });
+
+    it('refuses a user who has used up their uses', async () => {
+      prisma.promoRedemption.count.mockResolvedValue(1);
+
+      await expect(quote(Money.of(10000))).rejects.toThrow(
+        'You have already used this promo code',
+      );
+    });
+  });
+
+  describe('redeem', () => {
+    const redeem = () =>
+      service.redeem(prisma as unknown as Prisma.TransactionClient, {
+        promoCode: code(),
+        userId: 'buyer',
+        value: Money.of(2500),
+        chatSessionId: 'chat_1',
+      });
+
+    it('claims a use before counting the user', async () => {
+      await expect(redeem()).resolves.toBe(true);
+
+      const [claim] = prisma.promoCode.updateMany.mock.invocationCallOrder;
+      const [count] = prisma.promoRedemption.count.mock.invocationCallOrder;
+      expect(claim).toBeLessThan(count);
+      expect(prisma.promoRedemption.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          promoCodeId: 'promo_1',
+          userId: 'buyer',
+          amount: 2500,
+          fundedBy: 'PLATFORM',
+        }) as unknown,
+      });
+    });
+
+    it('stops once the code has run out of uses', async () => {
+      prisma.promoCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(redeem()).resolves.toBe(false);
+      expect(prisma.promoRedemption.count).not.toHaveBeenCalled();
+      expect(prisma.promoRedemption.create).not.toHaveBeenCalled();
+    });
+
+    it('gives the use back when the user is over their limit', async () => {
+      prisma.promoRedemption.count.mockResolvedValue(1);
+
+      await expect(redeem()).resolves.toBe(false);
+      expect(prisma.promoCode.update).toHaveBeenCalledWith({
+        where: { id: 'promo_1' },
+        data: { redemptionCount: { decrement: 1 } },
+      });
+      expect(prisma.promoRedemption.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyTopUpBonus', () => {
+    const payment = {
+      id: 'pay_1',
+      userId: 'buyer',
+      amount: 100000,
+      promoCodeId: 'promo_1',
+    } as Payment;
+
+    beforeEach(() => {
+      prisma.promoCode.findUnique.mockResolvedValue(
+        code({
+          kind: 'TOP_UP_BONUS',
+          discountType: 'PERCENTAGE',
+          discountValue: 10,
+        }),
+      );
+    });
+
+    it('credits the bonus from the promotions account', async () => {
+      const bonus = await service.applyTopUpBonus(
+        prisma as unknown as Prisma.TransactionClient,
+        payment,
+      );
+
+      expect(bonus?.amount).toBe(10000);
+      expect(ledgerService.post).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          kind: 'PROMO_BONUS',
+          legs: [
+            {
+              account: {
+                type: 'PLATFORM_PROMOTIONS',
+                ownerId: 'system',
+                currency: 'KES',
+              },
+              amount: -10000,
+            },
+            {
+              account: {
+                type: 'USER_WALLET',
+                ownerId: 'buyer',
+                currency: 'KES',
+              },
+              amount: 10000,
+            },
+          ],
+        }),
+      );
+    });
+
+    it('skips the bonus when the code ran out after the top-up started', async () => {
+      prisma.promoCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.applyTopUpBonus(
+          prisma as unknown as Prisma.TransactionClient,
+          payment,
+        ),
+      ).resolves.toBeNull();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,620 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Payment,
+  PaymentStatus,
+  Prisma,
+  PromoCode,
+  PromoDiscountType,
+  PromoFunder,
+  PromoKind,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { AuditService } from 'src/audit/audit.service';
+import { Money } from 'src/common/money/money';
+import {
+  CreateCreatorPromoCodeDto,
+  CreatePromoCodeDto,
+  PromoDiscount,
+  UpdatePromoCodeDto,
+} from './dto/promotion.dto';
+
+const CODE_PATTERN = /^[A-Z0-9_-]{4,32}$/;
+
+type PromoTerms = Omit<CreatePromoCodeDto, 'code' | 'creatorId' | 'currency'>;
+
+/**
+ * Promo codes: chat time discounts, wallet top-up bonuses and free-minute
+ * vouchers. Every use leaves a PromoRedemption recording its value and who
+ * paid for it. Platform-funded promotions are paid out of the promotions
+ * ledger account; creator-funded ones reduce the creator's earnings.
+ */
+@Injectable()
+export class PromotionService {
+  private readonly logger = new Logger(PromotionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Issue a platform-funded code, optionally limited to one creator
+   */
+  async createCode(createdById: string, dto: CreatePromoCodeDto) {
+    if (dto.kind === PromoKind.TOP_UP_BONUS && dto.creatorId) {
+      throw new BadRequestException(
+        'Top-up bonuses cannot be limited to a creator',
+      );
+    }
+
+    return this.create({
+      ...this.validTerms(dto),
+      code: this.normalizeCode(dto.code),
+      creatorId: dto.creatorId ?? null,
+      fundedBy: PromoFunder.PLATFORM,
+      currency: (dto.currency ?? 'KES').toUpperCase(),
+      createdById,
+    });
+  }
+
+  /**
+   * Issue a code for the creator's own chat time, paid for out of their
+   * earnings and priced in their settlement currency
+   */
+  async createCreatorCode(creatorId: string, dto: CreateCreatorPromoCodeDto) {
+    if (
+      dto.kind !== PromoKind.CHAT_TIME_DISCOUNT &&
+      dto.kind !== PromoKind.FREE_MINUTES
+    ) {
+      throw new BadRequestException(
+        'Creators can only issue chat time discounts and free-minute vouchers',
+      );
+    }
+
+    const settings = await this.prisma.userMonetizationSettings.findUnique({
+      where: { userId: creatorId },
+    });
+    if (!settings?.isEnabled) {
+      throw new ForbiddenException('Enable monetization to issue promo codes');
+    }
+
+    return this.create({
+      ...this.validTerms(dto),
+      code: this.normalizeCode(dto.code),
+      creatorId,
+      fundedBy: PromoFunder.CREATOR,
+      currency: settings.currency,
+      createdById: creatorId,
+    });
+  }
+
+  /**
+   * Change a code's availability. Pass creatorId to limit the change to a
+   * creator's own codes.
+   */
+  async updateCode(
+    codeId: string,
+    dto: UpdatePromoCodeDto,
+    creatorId?: string,
+  ) {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { id: codeId },
+    });
+    if (
+      !promoCode ||
+      (creatorId !== undefined &&
+        (promoCode.creatorId !== creatorId ||
+          promoCode.fundedBy !== PromoFunder.CREATOR))
+    ) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    const expiresAt =
+      dto.expiresAt === undefined ? undefined : new Date(dto.expiresAt);
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      throw new BadRequestException('Invalid expiresAt');
+    }
+    if (
+      dto.maxRedemptions !== undefined &&
+      (!Number.isInteger(dto.maxRedemptions) || dto.maxRedemptions < 1)
+    ) {
+      throw new BadRequestException('maxRedemptions must be at least 1');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.promoCode.update({
+        where: { id: codeId },
+        data: {
+          isActive: dto.isActive,
+          maxRedemptions: dto.maxRedemptions,
+          expiresAt,
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: 'PROMO_CODE_UPDATED',
+          entityType: 'PromoCode',
+          entityId: codeId,
+          before: promoCode,
+          after: updated,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+  }
+
+  async getCodes(
+    filters: { kind?: PromoKind; creatorId?: string; isActive?: boolean },
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const where: Prisma.PromoCodeWhereInput = {
+      ...(filters.kind && { kind: filters.kind }),
+      ...(filters.creatorId && { creatorId: filters.creatorId }),
+      ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+    };
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      this.prisma.promoCode.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.promoCode.count({ where }),
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Who used a code and what it was worth to them. Pass creatorId to limit
+   * the lookup to a creator's own codes.
+   */
+  async getRedemptions(
+    codeId: string,
+    page: number = 1,
+    limit: number = 20,
+    creatorId?: string,
+  ) {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { id: codeId },
+    });
+    if (
+      !promoCode ||
+      (creatorId !== undefined && promoCode.creatorId !== creatorId)
+    ) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    const where: Prisma.PromoRedemptionWhereInput = { promoCodeId: codeId };
+    const skip = (page - 1) * limit;
+
+    const [items, total, value] = await Promise.all([
+      this.prisma.promoRedemption.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.promoRedemption.count({ where }),
+      this.prisma.promoRedemption.aggregate({
+        where,
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return {
+      promoCode,
+      totalValue: Money.of(value._sum.amount ?? 0, promoCode.currency),
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Price a discount code against a chat time purchase
+   */
+  async quoteChatTime(
+    buyerId: string,
+    sellerId: string,
+    code: string,
+    price: Money,
+  ): Promise<PromoDiscount> {
+    const promoCode = await this.findRedeemable(
+      buyerId,
+      code,
+      PromoKind.CHAT_TIME_DISCOUNT,
+      sellerId,
+    );
+    this.assertMinAmount(promoCode, price);
+
+    return {
+      promoCode,
+      discount: this.valueOf(promoCode, price),
+      fundedBy: promoCode.fundedBy,
+    };
+  }
+
+  /**
+   * A free-minute voucher the buyer can use with this seller
+   */
+  findVoucher(buyerId: string, sellerId: string, code: string) {
+    return this.findRedeemable(buyerId, code, PromoKind.FREE_MINUTES, sellerId);
+  }
+
+  /**
+   * A bonus code the user can attach to a top-up of this amount. The bonus
+   * itself is credited once the payment settles.
+   */
+  async findTopUpBonus(userId: string, code: string, amount: Money) {
+    const promoCode = await this.findRedeemable(
+      userId,
+      code,
+      PromoKind.TOP_UP_BONUS,
+    );
+    this.assertMinAmount(promoCode, amount);
+    return promoCode;
+  }
+
+  /**
+   * Count one use of a code inside the caller's transaction. Returns false
+   * when the user or the code has run out of uses since it was quoted.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    params: {
+      promoCode: PromoCode;
+      userId: string;
+      value: Money;
+      chatSessionId?: string;
+      paymentId?: string;
+    },
+  ): Promise<boolean> {
+    const { promoCode, userId, value } = params;
+
+    // Claiming a use locks the code's row, so the per-user count below
+    // can't race another redemption of the same code
+    const { count } = await tx.promoCode.updateMany({
+      where: {
+        id: promoCode.id,
+        OR: [
+          { maxRedemptions: null },
+          {
+            redemptionCount: {
+              lt: this.prisma.promoCode.fields.maxRedemptions,
+            },
+          },
+        ],
+      },
+      data: { redemptionCount: { increment: 1 } },
+    });
+    if (count === 0) return false;
+
+    const used = await tx.promoRedemption.count({
+      where: { promoCodeId: promoCode.id, userId },
+    });
+    if (used >= promoCode.perUserLimit) {
+      await tx.promoCode.update({
+        where: { id: promoCode.id },
+        data: { redemptionCount: { decrement: 1 } },
+      });
+      return false;
+    }
+
+    await tx.promoRedemption.create({
+      data: {
+        promoCodeId: promoCode.id,
+        userId,
+        chatSessionId: params.chatSessionId,
+        paymentId: params.paymentId,
+        amount: value.amount,
+        currency: value.currency,
+        fundedBy: promoCode.fundedBy,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Credit the bonus for a settled top-up that was started with a bonus
+   * code. A code that ran out in the meantime is skipped rather than
+   * failing the top-up.
+   */
+  async applyTopUpBonus(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+  ): Promise<Money | null> {
+    if (!payment.promoCodeId) return null;
+
+    const promoCode = await tx.promoCode.findUnique({
+      where: { id: payment.promoCodeId },
+    });
+    if (!promoCode?.isActive) {
+      this.logger.warn(
+        `Skipping top-up bonus for payment ${payment.id}: code is no longer active`,
+      );
+      return null;
+    }
+
+    const bonus = this.valueOf(promoCode, Money.of(payment.amount));
+    const redeemed = await this.redeem(tx, {
+      promoCode,
+      userId: payment.userId,
+      value: bonus,
+      paymentId: payment.id,
+    });
+    if (!redeemed) {
+      this.logger.warn(
+        `Skipping top-up bonus for payment ${payment.id}: ${promoCode.code} has no uses left`,
+      );
+      return null;
+    }
+
+    await this.ledgerService.post(tx, {
+      kind: 'PROMO_BONUS',
+      description: `Top-up bonus ${promoCode.code}`,
+      referenceType: 'Payment',
+      referenceId: payment.id,
+      legs: [
+        {
+          account: LedgerAccounts.promotions(bonus.currency),
+          amount: -bonus.amount,
+        },
+        {
+          account: LedgerAccounts.wallet(payment.userId, bonus.currency),
+          amount: bonus.amount,
+        },
+      ],
+      metadata: { promoCodeId: promoCode.id },
+    });
+
+    this.logger.log(
+      `Credited ${bonus.format()} top-up bonus to ${payment.userId} with ${promoCode.code}`,
+    );
+    return bonus;
+  }
+
+  /**
+   * The discount or bonus a code is worth on an amount, never more than
+   * the amount itself
+   */
+  private valueOf(promoCode: PromoCode, amount: Money): Money {
+    const value =
+      promoCode.discountType === PromoDiscountType.PERCENTAGE
+        ? amount.prorate(promoCode.discountValue ?? 0, 100)
+        : this.fixedValue(promoCode, amount.currency);
+
+    return amount.lessThan(value) ? amount : value;
+  }
+
+  private fixedValue(promoCode: PromoCode, currency: string): Money {
+    if (promoCode.currency !== currency) {
+      throw new BadRequestException(
+        `This promo code only applies to ${promoCode.currency} purchases`,
+      );
+    }
+    return Money.of(promoCode.discountValue ?? 0, currency);
+  }
+
+  private assertMinAmount(promoCode: PromoCode, amount: Money) {
+    if (promoCode.minAmount === null) return;
+
+    const minimum = Money.of(promoCode.minAmount, promoCode.currency);
+    if (minimum.currency === amount.currency && amount.lessThan(minimum)) {
+      throw new BadRequestException(
+        `This promo code requires a minimum of ${minimum.format()}`,
+      );
+    }
+  }
+
+  /**
+   * Load a code and check the user may use it now
+   */
+  private async findRedeemable(
+    userId: string,
+    code: string,
+    kind: PromoKind,
+    sellerId?: string,
+  ): Promise<PromoCode> {
+    const promoCode =
+      typeof code === 'string'
+        ? await this.prisma.promoCode.findUnique({
+            where: { code: code.trim().toUpperCase() },
+          })
+        : null;
+    if (!promoCode || !promoCode.isActive) {
+      throw new NotFoundException('Promo code not found');
+    }
+    if (promoCode.kind !== kind) {
+      throw new BadRequestException('This promo code cannot be used here');
+    }
+
+    const now = new Date();
+    if (promoCode.startsAt && promoCode.startsAt > now) {
+      throw new BadRequestException('This promo code is not active yet');
+    }
+    if (promoCode.expiresAt && promoCode.expiresAt <= now) {
+      throw new BadRequestException('This promo code has expired');
+    }
+    if (
+      promoCode.maxRedemptions !== null &&
+      promoCode.redemptionCount >= promoCode.maxRedemptions
+    ) {
+      throw new BadRequestException('This promo code has been fully redeemed');
+    }
+    if (promoCode.creatorId && promoCode.creatorId !== sellerId) {
+      throw new BadRequestException(
+        'This promo code is only valid for chats with the creator who issued it',
+      );
+    }
+    if (promoCode.creatorId === userId) {
+      throw new BadRequestException('You cannot redeem your own promo code');
+    }
+
+    const used = await this.prisma.promoRedemption.count({
+      where: { promoCodeId: promoCode.id, userId },
+    });
+    if (used >= promoCode.perUserLimit) {
+      throw new BadRequestException('You have already used this promo code');
+    }
+
+    if (
+      promoCode.firstPurchaseOnly &&
+      (await this.hasPurchased(userId, kind))
+    ) {
+      throw new BadRequestException(
+        'This promo code is only valid on your first purchase',
+      );
+    }
+
+    return promoCode;
+  }
+
+  private async hasPurchased(userId: string, kind: PromoKind) {
+    if (kind === PromoKind.TOP_UP_BONUS) {
+      const payment = await this.prisma.payment.findFirst({
+        where: { userId, status: PaymentStatus.COMPLETED },
+        select: { id: true },
+      });
+      return !!payment;
+    }
+
+    const session = await this.prisma.chatSession.findFirst({
+      where: { buyerId: userId, isPaid: true },
+      select: { id: true },
+    });
+    return !!session;
+  }
+
+  private normalizeCode(code: string) {
+    const normalized = code?.trim().toUpperCase();
+    if (!normalized || !CODE_PATTERN.test(normalized)) {
+      throw new BadRequestException(
+        'Codes are 4-32 letters, digits, dashes or underscores',
+      );
+    }
+    return normalized;
+  }
+
+  /**
+   * Check the terms make sense for the kind of code and drop the ones
+   * that do not apply to it
+   */
+  private validTerms(dto: PromoTerms) {
+    const positive = (value: number | undefined, field: string) => {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new BadRequestException(`${field} must be a positive integer`);
+      }
+    };
+    positive(dto.discountValue, 'discountValue');
+    positive(dto.freeMinutes, 'freeMinutes');
+    positive(dto.minAmount, 'minAmount');
+    positive(dto.maxRedemptions, 'maxRedemptions');
+    positive(dto.perUserLimit, 'perUserLimit');
+
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : null;
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (
+      (startsAt && isNaN(startsAt.getTime())) ||
+      (expiresAt && isNaN(expiresAt.getTime()))
+    ) {
+      throw new BadRequestException('Invalid startsAt or expiresAt');
+    }
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      throw new BadRequestException('expiresAt must be after startsAt');
+    }
+
+    const terms = {
+      kind: dto.kind,
+      discountType: null as PromoDiscountType | null,
+      discountValue: null as number | null,
+      freeMinutes: null as number | null,
+      minAmount: dto.minAmount ?? null,
+      maxRedemptions: dto.maxRedemptions ?? null,
+      perUserLimit: dto.perUserLimit ?? 1,
+      firstPurchaseOnly: dto.firstPurchaseOnly ?? false,
+      startsAt,
+      expiresAt,
+    };
+
+    if (dto.kind === PromoKind.FREE_MINUTES) {
+      if (!dto.freeMinutes) {
+        throw new BadRequestException('Vouchers need freeMinutes');
+      }
+      return { ...terms, freeMinutes: dto.freeMinutes };
+    }
+
+    if (!dto.discountType || !dto.discountValue) {
+      throw new BadRequestException(
+        'Discounts and bonuses need a discountType and discountValue',
+      );
+    }
+    if (
+      dto.discountType === PromoDiscountType.PERCENTAGE &&
+      dto.discountValue > 100
+    ) {
+      throw new BadRequestException('Percentages cannot exceed 100');
+    }
+    return {
+      ...terms,
+      discountType: dto.discountType,
+      discountValue: dto.discountValue,
+    };
+  }
+
+  private async create(data: Prisma.PromoCodeUncheckedCreateInput) {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const promoCode = await tx.promoCode.create({ data });
+
+        await this.auditService.record(
+          {
+            action: 'PROMO_CODE_CREATED',
+            entityType: 'PromoCode',
+            entityId: promoCode.id,
+            after: promoCode,
+          },
+          tx,
+        );
+
+        return promoCode;
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new BadRequestException('This code is already taken');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { Namespace, Server, ServerOptions } from 'socket.io';
+import {
+  RealtimeBus,
+  RealtimeBusMessage,
+  RealtimeOperation,
+} from './realtime-bus';
+
+interface BroadcastOptions {
+  rooms: Set<string>;
+  except?: Set<string>;
+  flags?: { local?: boolean; [flag: string]: unknown };
+}
+
+/** The operations of socket.io's in-memory adapter that are relayed */
+interface LocalAdapter {
+  broadcast(packet: unknown, opts: BroadcastOptions): void;
+  addSockets(opts: BroadcastOptions, rooms: string[]): void;
+  delSockets(opts: BroadcastOptions, rooms: string[]): void;
+  disconnectSockets(opts: BroadcastOptions, close: boolean): void;
+}
+
+/**
+ * Socket.io server whose broadcasts and room changes also reach sockets on
+ * the other API instances. Each namespace keeps socket.io's in-memory
+ * adapter for its own sockets and relays the operation over the realtime
+ * bus; other instances replay it locally. Fetching sockets and acks stay
+ * local to the instance.
+ */
+export class ClusterIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(ClusterIoAdapter.name);
+  private readonly namespaces = new Map<string, LocalAdapter>();
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly bus: RealtimeBus,
+  ) {
+    super(app);
+    this.bus.subscribe((message) => this.replay(message));
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    this.relay(server.sockets);
+    server.sockets.on('new_namespace', (nsp: Namespace) => this.relay(nsp));
+    return server;
+  }
+
+  private relay(nsp: Namespace) {
+    const adapter = nsp.adapter as LocalAdapter;
+    this.namespaces.set(nsp.name, adapter);
+
+    // Unpatched methods, which act on this instance's sockets only
+    const broadcast = adapter.broadcast.bind(
+      adapter,
+    ) as LocalAdapter['broadcast'];
+    const addSockets = adapter.addSockets.bind(
+      adapter,
+    ) as LocalAdapter['addSockets'];
+    const delSockets = adapter.delSockets.bind(
+      adapter,
+    ) as LocalAdapter['delSockets'];
+    const disconnectSockets = adapter.disconnectSockets.bind(
+      adapter,
+    ) as LocalAdapter['disconnectSockets'];
+
+    adapter.broadcast = (packet: unknown, opts: BroadcastOptions) => {
+      broadcast(packet, opts);
+      if (opts.flags?.local) return;
+      this.publish(nsp, opts, {
+        type: 'broadcast',
+        packet,
+        flags: { ...opts.flags },
+      });
+    };
+    adapter.addSockets = (opts: BroadcastOptions, rooms: string[]) => {
+      addSockets(opts, rooms);
+      if (opts.flags?.local) return;
+      this.publish(nsp, opts, { type: 'addSockets', targetRooms: rooms });
+    };
+    adapter.delSockets = (opts: BroadcastOptions, rooms: string[]) => {
+      delSockets(opts, rooms);
+      if (opts.flags?.local) return;
+      this.publish(nsp, opts, { type: 'delSockets', targetRooms: rooms });
+    };
+    adapter.disconnectSockets = (opts: BroadcastOptions, close: boolean) => {
+      disconnectSockets(opts, close);
+      if (opts.flags?.local) return;
+      this.publish(nsp, opts, { type: 'disconnectSockets', close });
+    };
+  }
+
+  private publish(
+    nsp: Namespace,
+    opts: BroadcastOptions,
+    operation: RealtimeOperation,
+  ) {
+    const message: RealtimeBusMessage = {
+      instanceId: this.bus.instanceId,
+      nsp: nsp.name,
+      rooms: Array.from(opts.rooms),
+      except: Array.from(opts.except ?? []),
+      ...operation,
+    };
+
+    this.bus.publish(message).catch((error) => {
+      this.logger.error(`Failed to relay ${operation.type}:`, error);
+    });
+  }
+
+  /** Apply another instance's operation to the sockets connected here */
+  private replay(message: RealtimeBusMessage) {
+    const adapter = this.namespaces.get(message.nsp);
+    if (!adapter) return;
+
+    const opts: BroadcastOptions = {
+      rooms: new Set(message.rooms),
+      except: new Set(message.except),
+      flags: { local: true },
+    };
+
+    switch (message.type) {
+      case 'broadcast':
+        adapter.broadcast(message.packet, {
+          ...opts,
+          flags: { ...message.flags, local: true },
+        });
+        break;
+      case 'addSockets':
+        adapter.addSockets(opts, message.targetRooms);
+        break;
+      case 'delSockets':
+        adapter.delSockets(opts, message.targetRooms);
+        break;
+      case 'disconnectSockets':
+        adapter.disconnectSockets(opts, message.close);
+        break;
+    }
+  }
+}
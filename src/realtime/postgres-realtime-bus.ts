@@ -0,0 +1,121 @@
+import { Logger, OnApplicationShutdown } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  newInstanceId,
+  RealtimeBus,
+  RealtimeBusHandler,
+  RealtimeBusMessage,
+} from './realtime-bus';
+
+const POLL_INTERVAL_MS = 250;
+/** Re-read this far behind the newest event, for inserts committed late */
+const COMMIT_LAG_MS = 5 * 1000;
+const RETENTION_MS = 60 * 1000;
+const PRUNE_EVERY_POLLS = 240;
+
+/**
+ * Bus shared by every instance on the same database. Messages are rows in
+ * realtime_events, which each instance polls for rows from the others.
+ */
+export class PostgresRealtimeBus
+  extends RealtimeBus
+  implements OnApplicationShutdown
+{
+  readonly instanceId = newInstanceId();
+  private readonly logger = new Logger(PostgresRealtimeBus.name);
+  private readonly handlers: RealtimeBusHandler[] = [];
+  /** Events already handled inside the lag window, with their times */
+  private readonly seen = new Map<string, number>();
+  private startedAt: Date | null = null;
+  private since: Date | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private polls = 0;
+
+  constructor(private readonly prisma: PrismaService) {
+    super();
+  }
+
+  async publish(message: RealtimeBusMessage) {
+    await this.prisma.realtimeEvent.create({
+      data: {
+        instanceId: this.instanceId,
+        payload: JSON.parse(JSON.stringify(message)) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  subscribe(handler: RealtimeBusHandler) {
+    this.handlers.push(handler);
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      // Start from the database clock so instances don't depend on their own
+      if (!this.startedAt || !this.since) {
+        const [{ now }] = await this.prisma.$queryRaw<
+          { now: Date }[]
+        >`SELECT now() AS now`;
+        this.startedAt = now;
+        this.since = now;
+      }
+
+      const from = Math.max(
+        this.since.getTime() - COMMIT_LAG_MS,
+        this.startedAt.getTime(),
+      );
+      const events = await this.prisma.realtimeEvent.findMany({
+        where: {
+          createdAt: { gte: new Date(from) },
+          instanceId: { not: this.instanceId },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+
+      for (const event of events) {
+        if (this.seen.has(event.id)) continue;
+        this.seen.set(event.id, event.createdAt.getTime());
+        if (event.createdAt > this.since) this.since = event.createdAt;
+
+        for (const handler of this.handlers) {
+          try {
+            handler(event.payload as unknown as RealtimeBusMessage);
+          } catch (error) {
+            this.logger.error(
+              `Failed to handle realtime event ${event.id}:`,
+              error,
+            );
+          }
+        }
+      }
+
+      const horizon = this.since.getTime() - COMMIT_LAG_MS;
+      for (const [id, createdAt] of this.seen) {
+        if (createdAt < horizon) this.seen.delete(id);
+      }
+
+      if (++this.polls % PRUNE_EVERY_POLLS === 0) {
+        await this.prisma.realtimeEvent.deleteMany({
+          where: { createdAt: { lt: new Date(Date.now() - RETENTION_MS) } },
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to poll realtime events:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
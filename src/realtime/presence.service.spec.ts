@@ -0,0 +1,167 @@
+import { Test } from '@nestjs/testing';
+import { PresenceConnection, UserStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { InMemoryRealtimeBus, RealtimeBus } from './realtime-bus';
+import { PresenceService } from './presence.service';
+
+type ConnectionWhere = {
+  socketId?: string | { in: string[] };
+  userId?: string;
+  instanceId?: string;
+};
+
+/** user_status and presence_connections for one test */
+function createDatabase() {
+  const statuses = new Map<string, UserStatus>();
+  const created = new Date('2025-01-01');
+  const connections = new Map<string, PresenceConnection>();
+
+  const matches = (connection: PresenceConnection, where: ConnectionWhere) =>
+    (where.userId === undefined || connection.userId === where.userId) &&
+    (where.instanceId === undefined ||
+      connection.instanceId === where.instanceId) &&
+    (where.socketId === undefined ||
+      (typeof where.socketId === 'string'
+        ? connection.socketId === where.socketId
+        : where.socketId.in.includes(connection.socketId)));
+
+  const client = {
+    $transaction: jest.fn(
+      (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(client),
+    ),
+    $queryRaw: jest.fn((_query: TemplateStringsArray, userId: string) =>
+      Promise.resolve([{ isOnline: statuses.get(userId)!.isOnline }]),
+    ),
+    userStatus: {
+      findMany: jest.fn(() => Promise.resolve([...statuses.values()])),
+      upsert: jest.fn(({ where }: { where: { userId: string } }) => {
+        if (!statuses.has(where.userId)) {
+          statuses.set(where.userId, {
+            userId: where.userId,
+            isOnline: false,
+            lastSeen: created,
+          } as UserStatus);
+        }
+        return Promise.resolve(statuses.get(where.userId));
+      }),
+      update: jest.fn(
+        ({
+          where,
+          data,
+        }: {
+          where: { userId: string };
+          data: Partial<UserStatus>;
+        }) =>
+          Promise.resolve(
+            Object.assign(statuses.get(where.userId)!, data) as UserStatus,
+          ),
+      ),
+    },
+    presenceConnection: {
+      create: jest.fn(({ data }: { data: PresenceConnection }) => {
+        connections.set(data.socketId, data);
+        return Promise.resolve(data);
+      }),
+      findUnique: jest.fn(({ where }: { where: { socketId: string } }) =>
+        Promise.resolve(connections.get(where.socketId) ?? null),
+      ),
+      findMany: jest.fn(({ where }: { where: ConnectionWhere }) =>
+        Promise.resolve(
+          [...connections.values()].filter((c) => matches(c, where)),
+        ),
+      ),
+      count: jest.fn(({ where }: { where: ConnectionWhere }) =>
+        Promise.resolve(
+          [...connections.values()].filter((c) => matches(c, where)).length,
+        ),
+      ),
+      deleteMany: jest.fn(({ where }: { where: ConnectionWhere }) => {
+        let count = 0;
+        for (const connection of [...connections.values()]) {
+          if (matches(connection, where)) {
+            connections.delete(connection.socketId);
+            count += 1;
+          }
+        }
+        return Promise.resolve({ count });
+      }),
+    },
+  };
+
+  return { statuses, connections, client, created };
+}
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+  let db: ReturnType<typeof createDatabase>;
+
+  beforeEach(async () => {
+    db = createDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        { provide: PrismaService, useValue: db.client },
+        {
+          provide: RealtimeBus,
+          useValue: new InMemoryRealtimeBus('instance-a'),
+        },
+      ],
+    }).compile();
+
+    service = module.get(PresenceService);
+  });
+
+  it('comes online with the first connection only', async () => {
+    await expect(service.connect('alice', 'phone')).resolves.toEqual(
+      expect.objectContaining({ isOnline: true, changed: true }),
+    );
+    await expect(service.connect('alice', 'laptop')).resolves.toEqual(
+      expect.objectContaining({ isOnline: true, changed: false }),
+    );
+  });
+
+  it('stays online until the last connection closes', async () => {
+    await service.connect('alice', 'phone');
+    await service.connect('alice', 'laptop');
+
+    await expect(service.disconnect('phone')).resolves.toEqual(
+      expect.objectContaining({ isOnline: true, changed: false }),
+    );
+    await expect(service.disconnect('laptop')).resolves.toEqual(
+      expect.objectContaining({ isOnline: false, changed: true }),
+    );
+    expect(db.statuses.get('alice')!.lastSeen > db.created).toBe(true);
+  });
+
+  it('ignores a socket that never registered', async () => {
+    await expect(service.disconnect('unknown')).resolves.toBeNull();
+    expect(db.client.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("closes this instance's connections on shutdown", async () => {
+    await service.connect('alice', 'phone');
+    await service.connect('bob', 'tablet');
+    db.connections.set('desktop', {
+      socketId: 'desktop',
+      userId: 'bob',
+      instanceId: 'instance-b',
+    } as PresenceConnection);
+
+    await service.onApplicationShutdown();
+
+    expect(db.statuses.get('alice')?.isOnline).toBe(false);
+    // Bob is still connected through the other instance
+    expect(db.statuses.get('bob')?.isOnline).toBe(true);
+    expect([...db.connections.keys()]).toEqual(['desktop']);
+  });
+
+  it('reports users who never connected as offline', async () => {
+    await service.connect('alice', 'phone');
+
+    await expect(service.getStatuses(['alice', 'carol'])).resolves.toEqual([
+      expect.objectContaining({ userId: 'alice', isOnline: true }),
+      { userId: 'carol', isOnline: false, lastSeen: null },
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RealtimeBus } from './realtime-bus';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+/** Connections of an instance that has missed this many heartbeats are dead */
+const STALE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+export interface UserPresence {
+  userId: string;
+  isOnline: boolean;
+  /** Null for users who have never connected */
+  lastSeen: Date | null;
+}
+
+export interface PresenceChange extends UserPresence {
+  /** The user came online or went offline with this connection */
+  changed: boolean;
+}
+
+/**
+ * Online status kept in UserStatus, derived from the user's open sockets
+ * on every instance. A user is online from their first connection until
+ * their last one closes; each instance heartbeats its connections so the
+ * ones left behind by a crashed instance are swept.
+ */
+@Injectable()
+export class PresenceService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(PresenceService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly bus: RealtimeBus,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.timer = setInterval(
+      () => void this.heartbeat(),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  async onApplicationShutdown() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.closeConnections({ instanceId: this.bus.instanceId });
+  }
+
+  async connect(userId: string, socketId: string): Promise<PresenceChange> {
+    return this.update(userId, async (tx) => {
+      await tx.presenceConnection.create({
+        data: { socketId, userId, instanceId: this.bus.instanceId },
+      });
+    });
+  }
+
+  /** Null when the socket was never registered, e.g. it failed to authenticate */
+  async disconnect(socketId: string): Promise<PresenceChange | null> {
+    const connection = await this.prisma.presenceConnection.findUnique({
+      where: { socketId },
+    });
+    if (!connection) return null;
+
+    return this.update(connection.userId, async (tx) => {
+      await tx.presenceConnection.deleteMany({ where: { socketId } });
+    });
+  }
+
+  async getStatuses(userIds: string[]): Promise<UserPresence[]> {
+    const statuses = await this.prisma.userStatus.findMany({
+      where: { userId: { in: userIds } },
+    });
+    const byUser = new Map(statuses.map((status) => [status.userId, status]));
+
+    return userIds.map((userId) => ({
+      userId,
+      isOnline: byUser.get(userId)?.isOnline ?? false,
+      lastSeen: byUser.get(userId)?.lastSeen ?? null,
+    }));
+  }
+
+  /** Bring a user's status back in line with their open connections */
+  async refresh(userId: string): Promise<PresenceChange> {
+    return this.update(userId, () => Promise.resolve());
+  }
+
+  /**
+   * Apply a change to the user's connections and recompute their status.
+   * The status row is locked first, so concurrent connects and disconnects
+   * of one user's devices are applied one after another.
+   */
+  private async update(
+    userId: string,
+    change: (tx: Prisma.TransactionClient) => Promise<void>,
+  ): Promise<PresenceChange> {
+    await this.prisma.userStatus.upsert({
+      where: { userId },
+      update: {},
+      create: { userId, isOnline: false },
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      const [previous] = await tx.$queryRaw<{ isOnline: boolean }[]>`
+        SELECT "isOnline" FROM "public"."user_status"
+        WHERE "userId" = ${userId}
+        FOR UPDATE`;
+
+      await change(tx);
+
+      const connections = await tx.presenceConnection.count({
+        where: { userId },
+      });
+      const isOnline = connections > 0;
+      const changed = previous.isOnline !== isOnline;
+
+      // lastSeen moves when the user comes online and when they leave
+      const status = await tx.userStatus.update({
+        where: { userId },
+        data: changed || isOnline ? { isOnline, lastSeen: new Date() } : {},
+      });
+
+      return {
+        userId,
+        isOnline: status.isOnline,
+        lastSeen: status.lastSeen,
+        changed,
+      };
+    });
+  }
+
+  private async heartbeat() {
+    try {
+      await this.prisma.presenceConnection.updateMany({
+        where: { instanceId: this.bus.instanceId },
+        data: { heartbeatAt: new Date() },
+      });
+
+      const swept = await this.closeConnections({
+        heartbeatAt: { lt: new Date(Date.now() - STALE_AFTER_MS) },
+      });
+      if (swept > 0) {
+        this.logger.warn(
+          `Swept ${swept} user(s) left online by a dead instance`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Presence heartbeat failed:', error);
+    }
+  }
+
+  /** Drop matching connections and return how many users went offline */
+  private async closeConnections(
+    where: Prisma.PresenceConnectionWhereInput,
+  ): Promise<number> {
+    const connections = await this.prisma.presenceConnection.findMany({
+      where,
+      select: { socketId: true, userId: true },
+    });
+
+    let offline = 0;
+    for (const userId of new Set(connections.map((c) => c.userId))) {
+      const socketIds = connections
+        .filter((c) => c.userId === userId)
+        .map((c) => c.socketId);
+      const presence = await this.update(userId, async (tx) => {
+        await tx.presenceConnection.deleteMany({
+          where: { socketId: { in: socketIds } },
+        });
+      });
+      if (presence.changed) offline += 1;
+    }
+    return offline;
+  }
+}
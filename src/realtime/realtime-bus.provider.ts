@@ -0,0 +1,18 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { InMemoryRealtimeBus, RealtimeBus } from './realtime-bus';
+import { PostgresRealtimeBus } from './postgres-realtime-bus';
+
+/**
+ * Set REALTIME_BUS=postgres when running more than one instance; the
+ * default in-memory bus only reaches sockets in this process.
+ */
+export const RealtimeBusProvider = {
+  provide: RealtimeBus,
+  useFactory: (configService: ConfigService, prisma: PrismaService) => {
+    return configService.get<string>('REALTIME_BUS') === 'postgres'
+      ? new PostgresRealtimeBus(prisma)
+      : new InMemoryRealtimeBus();
+  },
+  inject: [ConfigService, PrismaService],
+};
@@ -0,0 +1,65 @@
+import { EventEmitter } from 'events';
+import { InMemoryRealtimeBus, RealtimeBusMessage } from './realtime-bus';
+
+describe('InMemoryRealtimeBus', () => {
+  let hub: EventEmitter;
+
+  beforeEach(() => {
+    hub = new EventEmitter();
+  });
+
+  function broadcast(instanceId: string, packet: unknown): RealtimeBusMessage {
+    return {
+      instanceId,
+      nsp: '/',
+      rooms: ['user:alice'],
+      except: [],
+      type: 'broadcast',
+      packet,
+      flags: {},
+    };
+  }
+
+  it("delivers to the other instances but not the publisher's own", async () => {
+    const a = new InMemoryRealtimeBus('a', hub);
+    const b = new InMemoryRealtimeBus('b', hub);
+    const c = new InMemoryRealtimeBus('c', hub);
+    const received = { a: jest.fn(), b: jest.fn(), c: jest.fn() };
+    a.subscribe(received.a);
+    b.subscribe(received.b);
+    c.subscribe(received.c);
+
+    await a.publish(broadcast('a', { type: 2, data: ['message'] }));
+
+    expect(received.a).not.toHaveBeenCalled();
+    expect(received.b).toHaveBeenCalledWith(
+      broadcast('a', { type: 2, data: ['message'] }),
+    );
+    expect(received.c).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes payloads through JSON like the Postgres bus', async () => {
+    const a = new InMemoryRealtimeBus('a', hub);
+    const b = new InMemoryRealtimeBus('b', hub);
+    const handler = jest.fn();
+    b.subscribe(handler);
+
+    const sentAt = new Date('2025-06-01T10:00:00Z');
+    await a.publish(broadcast('a', { sentAt, skipped: undefined }));
+
+    expect(handler).toHaveBeenCalledWith(
+      broadcast('a', { sentAt: '2025-06-01T10:00:00.000Z' }),
+    );
+  });
+
+  it('keeps buses on separate hubs apart', async () => {
+    const a = new InMemoryRealtimeBus('a', hub);
+    const other = new InMemoryRealtimeBus('b', new EventEmitter());
+    const handler = jest.fn();
+    other.subscribe(handler);
+
+    await a.publish(broadcast('a', {}));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
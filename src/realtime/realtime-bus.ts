@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+/** The socket.io adapter operations that are relayed between instances */
+export type RealtimeOperation =
+  | { type: 'broadcast'; packet: unknown; flags: Record<string, unknown> }
+  | { type: 'addSockets' | 'delSockets'; targetRooms: string[] }
+  | { type: 'disconnectSockets'; close: boolean };
+
+/**
+ * An operation to replay on the other instances, for the sockets in `rooms`
+ * but not in `except`. Sets are sent as arrays, and packets as JSON.
+ */
+export type RealtimeBusMessage = {
+  /** The instance that published it, which skips its own messages */
+  instanceId: string;
+  nsp: string;
+  rooms: string[];
+  except: string[];
+} & RealtimeOperation;
+
+export type RealtimeBusHandler = (message: RealtimeBusMessage) => void;
+
+export function newInstanceId() {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Carries socket.io operations between API instances so a broadcast reaches
+ * sockets connected to any of them. Each bus belongs to one instance.
+ */
+export abstract class RealtimeBus {
+  abstract readonly instanceId: string;
+
+  abstract publish(message: RealtimeBusMessage): Promise<void>;
+
+  /** Receive messages published by other instances */
+  abstract subscribe(handler: RealtimeBusHandler): void;
+}
+
+const sharedHub = new EventEmitter().setMaxListeners(0);
+
+/**
+ * Bus for a single process. Buses created on the same hub see each other's
+ * messages, so tests can stand up several "instances" in one process.
+ */
+export class InMemoryRealtimeBus extends RealtimeBus {
+  constructor(
+    readonly instanceId: string = newInstanceId(),
+    private readonly hub: EventEmitter = sharedHub,
+  ) {
+    super();
+  }
+
+  publish(message: RealtimeBusMessage): Promise<void> {
+    // Round-trip through JSON so payloads match what Postgres would return
+    this.hub.emit(
+      'message',
+      JSON.parse(JSON.stringify(message)) as RealtimeBusMessage,
+    );
+    return Promise.resolve();
+  }
+
+  subscribe(handler: RealtimeBusHandler) {
+    this.hub.on('message', (message: RealtimeBusMessage) => {
+      if (message.instanceId !== this.instanceId) handler(message);
+    });
+  }
+}
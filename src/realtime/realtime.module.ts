@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { RealtimeService } from './realtime.service';
+import { PresenceService } from './presence.service';
+import { RealtimeBusProvider } from './realtime-bus.provider';
+
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  providers: [RealtimeService, PresenceService, RealtimeBusProvider],
+  exports: [RealtimeService, PresenceService, RealtimeBusProvider],
+})
+export class RealtimeModule {}
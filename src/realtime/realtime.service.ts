@@ -0,0 +1,27 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Server } from 'socket.io';
+
+/**
+ * Lets services outside the chat gateway push events to connected users.
+ * The gateway hands over its server once socket.io is initialised; until
+ * then events are dropped, and clients pick them up through catch-up on
+ * their next connection.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+  private server: Server | null = null;
+
+  attach(server: Server) {
+    this.server = server;
+  }
+
+  emitToUser(userId: string, event: string, payload: unknown) {
+    if (!this.server) {
+      this.logger.warn(`Socket server not ready, dropping ${event}`);
+      return;
+    }
+
+    this.server.to(`user_${userId}`).emit(event, payload);
+  }
+}
@@ -0,0 +1,19 @@
+import { JobRun } from '@prisma/client';
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  intervalMs: number;
+  /** How long a run may hold the lock before another instance takes over */
+  lockTtlMs?: number;
+  run: () => Promise<unknown>;
+}
+
+export interface JobSummary {
+  name: string;
+  description: string;
+  intervalMs: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastRun: JobRun | null;
+}
@@ -0,0 +1,96 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+import { ServiceRequestService } from 'src/service-request/service-request.service';
+import { ServiceSessionService } from 'src/service-request/service-session.service';
+import { MonetizationService } from 'src/monetization/monetization.service';
+import { PaymentService } from 'src/payment/payment.service';
+import { SubscriptionService } from 'src/monetization/subscription.service';
+import { TopUpService } from 'src/top-up/top-up.service';
+import { WithdrawalService } from 'src/withdrawal/withdrawal.service';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Housekeeping that used to depend on someone calling the manual endpoints
+ */
+@Injectable()
+export class MaintenanceJobs implements OnModuleInit {
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly serviceRequestService: ServiceRequestService,
+    private readonly serviceSessionService: ServiceSessionService,
+    private readonly monetizationService: MonetizationService,
+    private readonly paymentService: PaymentService,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly topUpService: TopUpService,
+    private readonly withdrawalService: WithdrawalService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: 'expire-service-requests',
+      description: 'Expire stale pending service requests and refund escrow',
+      intervalMs: 60 * MINUTE,
+      run: () => this.serviceRequestService.autoExpireOldRequests(),
+    });
+
+    this.schedulerService.register({
+      name: 'service-session-clock',
+      description: 'Warn before and end service sessions whose time is up',
+      intervalMs: 30 * 1000,
+      lockTtlMs: 2 * MINUTE,
+      run: () => this.serviceSessionService.processDueSessions(),
+    });
+
+    this.schedulerService.register({
+      name: 'image-delivery-escrow',
+      description:
+        'Release escrow of unconfirmed image deliveries and refund missed deadlines',
+      intervalMs: 5 * MINUTE,
+      run: () => this.serviceRequestService.settleImageDeliveries(),
+    });
+
+    this.schedulerService.register({
+      name: 'auto-pause-sessions',
+      description: 'Pause paid chat sessions with no recent activity',
+      intervalMs: MINUTE,
+      lockTtlMs: 5 * MINUTE,
+      run: () => this.monetizationService.autoPauseInactiveSessions(),
+    });
+
+    this.schedulerService.register({
+      name: 'subscription-renewals',
+      description:
+        'Charge due subscription renewals, retry past-due ones and lapse expired ones',
+      intervalMs: 15 * MINUTE,
+      run: () => this.subscriptionService.processRenewals(),
+    });
+
+    this.schedulerService.register({
+      name: 'reconcile-payments',
+      description:
+        'Resolve STK pushes and B2C payouts stuck in PENDING with M-Pesa',
+      intervalMs: 5 * MINUTE,
+      run: async () => ({
+        payments: await this.paymentService.reconcilePendingPayments(),
+        b2c: await this.paymentService.reconcilePendingB2C(),
+      }),
+    });
+
+    this.schedulerService.register({
+      name: 'top-up-intents',
+      description:
+        'Run purchases for top-ups settled while no listener was attached and fail interrupted ones',
+      intervalMs: 5 * MINUTE,
+      run: () => this.topUpService.processPendingIntents(),
+    });
+
+    this.schedulerService.register({
+      name: 'stale-withdrawals',
+      description:
+        'Reverse withdrawals never sent to M-Pesa and report ones with an unknown outcome',
+      intervalMs: 15 * MINUTE,
+      run: () => this.withdrawalService.sweepStaleWithdrawals(),
+    });
+  }
+}
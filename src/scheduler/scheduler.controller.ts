@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JobRunStatus } from '@prisma/client';
+import { SchedulerService } from './scheduler.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
+
+@Controller('api/v1/scheduler')
+@UseGuards(AuthGuardService, RolesGuard)
+@Roles('super-admin')
+export class SchedulerController {
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  /**
+   * List registered jobs with their lock state and latest run
+   */
+  @Get('jobs')
+  @HttpCode(HttpStatus.OK)
+  async getJobs() {
+    return this.schedulerService.getJobs();
+  }
+
+  /**
+   * Get job run history
+   */
+  @Get('runs')
+  @HttpCode(HttpStatus.OK)
+  async getRuns(
+    @Query('jobName') jobName?: string,
+    @Query('status') status?: JobRunStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.schedulerService.getRuns(
+      jobName,
+      status,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  /**
+   * Run a job immediately
+   */
+  @Post('jobs/:name/run')
+  @HttpCode(HttpStatus.OK)
+  async runJob(@Param('name') name: string) {
+    return this.schedulerService.trigger(name);
+  }
+}
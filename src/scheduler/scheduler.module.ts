@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SchedulerService } from './scheduler.service';
+import { SchedulerController } from './scheduler.controller';
+import { MaintenanceJobs } from './maintenance.jobs';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { ServiceRequestModule } from 'src/service-request/service-request.module';
+import { MonetizationModule } from 'src/monetization/monetization.module';
+import { PaymentModule } from 'src/payment/payment.module';
+import { TopUpModule } from 'src/top-up/top-up.module';
+import { WithdrawalModule } from 'src/withdrawal/withdrawal.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    ConfigModule,
+    ServiceRequestModule,
+    MonetizationModule,
+    PaymentModule,
+    TopUpModule,
+    WithdrawalModule,
+  ],
+  controllers: [SchedulerController],
+  providers: [SchedulerService, MaintenanceJobs],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,184 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobLock, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SchedulerService } from './scheduler.service';
+import { ScheduledJob } from './dto/scheduler.dto';
+
+type LockWhere = {
+  name: string;
+  lockedBy?: string;
+  lockedUntil?: { lt: Date };
+};
+
+/** job_locks and job_runs shared by every "instance" in a test */
+function createDatabase() {
+  const locks = new Map<string, JobLock>();
+  let runs = 0;
+
+  const prisma = {
+    jobLock: {
+      updateMany: jest.fn(
+        ({ where, data }: { where: LockWhere; data: Partial<JobLock> }) => {
+          const lock = locks.get(where.name);
+          const matches =
+            !!lock &&
+            (!where.lockedBy || lock.lockedBy === where.lockedBy) &&
+            (!where.lockedUntil || lock.lockedUntil < where.lockedUntil.lt);
+          if (matches) Object.assign(lock, data);
+          return Promise.resolve({ count: matches ? 1 : 0 });
+        },
+      ),
+      create: jest.fn(({ data }: { data: JobLock }) => {
+        if (locks.has(data.name)) {
+          return Promise.reject(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+              code: 'P2002',
+              clientVersion: 'test',
+            }),
+          );
+        }
+        locks.set(data.name, { ...data });
+        return Promise.resolve(data);
+      }),
+    },
+    jobRun: {
+      create: jest.fn(({ data }: { data: object }) =>
+        Promise.resolve({ id: `run_${++runs}`, ...data }),
+      ),
+      update: jest.fn(({ where, data }: { where: object; data: object }) =>
+        Promise.resolve({ ...where, ...data }),
+      ),
+    },
+  };
+
+  return { locks, prisma };
+}
+
+/** An instance with its timers off, so only triggered runs happen */
+function createInstance(prisma: object) {
+  return new SchedulerService(
+    prisma as PrismaService,
+    { get: () => 'false' } as unknown as ConfigService,
+  );
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('SchedulerService', () => {
+  const MINUTE = 60 * 1000;
+
+  let db: ReturnType<typeof createDatabase>;
+
+  beforeEach(() => {
+    db = createDatabase();
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  function register(scheduler: SchedulerService, run: ScheduledJob['run']) {
+    scheduler.register({
+      name: 'reconcile',
+      description: 'Reconcile',
+      intervalMs: 5 * MINUTE,
+      run,
+    });
+  }
+
+  it('refuses to register a job twice', () => {
+    const scheduler = createInstance(db.prisma);
+    register(scheduler, () => Promise.resolve());
+
+    expect(() => register(scheduler, () => Promise.resolve())).toThrow(
+      'already registered',
+    );
+  });
+
+  it('lets only the instance holding the lease run a job', async () => {
+    // The clock stands still, so the lease is taken back in the same
+    // millisecond it was released
+    jest.useFakeTimers({ now: new Date('2025-06-01T10:00:00Z') });
+    const first = createInstance(db.prisma);
+    const second = createInstance(db.prisma);
+    const gate = deferred();
+    const runs: string[] = [];
+
+    register(first, async () => {
+      runs.push('first');
+      await gate.promise;
+    });
+    register(second, () => {
+      runs.push('second');
+      return Promise.resolve();
+    });
+
+    const running = first.trigger('reconcile');
+    await expect(second.trigger('reconcile')).rejects.toThrow(
+      ConflictException,
+    );
+
+    gate.resolve();
+    await expect(running).resolves.toEqual(
+      expect.objectContaining({ status: 'SUCCEEDED' }),
+    );
+    expect(runs).toEqual(['first']);
+
+    // A manual run hands the lease straight back
+    await expect(second.trigger('reconcile')).resolves.toBeDefined();
+    expect(runs).toEqual(['first', 'second']);
+  });
+
+  it('takes over a lease that has expired', async () => {
+    db.locks.set('reconcile', {
+      name: 'reconcile',
+      lockedBy: 'crashed-instance',
+      lockedUntil: new Date(Date.now() - 1000),
+      updatedAt: new Date(),
+    });
+    const scheduler = createInstance(db.prisma);
+    const run = jest.fn(() => Promise.resolve({ checked: 3 }));
+    register(scheduler, run);
+
+    await expect(scheduler.trigger('reconcile')).resolves.toEqual(
+      expect.objectContaining({ status: 'SUCCEEDED', result: { checked: 3 } }),
+    );
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the lease of a scheduled run until just before the next period', async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-01T10:00:00Z') });
+    const scheduler = new SchedulerService(
+      db.prisma as unknown as PrismaService,
+      { get: () => undefined } as unknown as ConfigService,
+    );
+    register(scheduler, () => Promise.resolve());
+
+    scheduler.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+    scheduler.onApplicationShutdown();
+
+    // Started at 10:05, 30 seconds of slack before the 10:10 tick
+    expect(db.locks.get('reconcile')?.lockedUntil).toEqual(
+      new Date('2025-06-01T10:09:30Z'),
+    );
+  });
+
+  it('records a failed run and releases the lease', async () => {
+    const scheduler = createInstance(db.prisma);
+    register(scheduler, () => Promise.reject(new Error('M-Pesa unreachable')));
+
+    await expect(scheduler.trigger('reconcile')).resolves.toEqual(
+      expect.objectContaining({
+        status: 'FAILED',
+        error: 'M-Pesa unreachable',
+      }),
+    );
+    expect(
+      db.locks.get('reconcile')!.lockedUntil.getTime(),
+    ).toBeLessThanOrEqual(Date.now());
+  });
+});
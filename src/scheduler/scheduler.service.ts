@@ -0,0 +1,266 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobRun, JobRunStatus, JobTrigger, Prisma } from '@prisma/client';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { JobSummary, ScheduledJob } from './dto/scheduler.dto';
+
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Runs registered jobs on fixed intervals inside the API process. Every
+ * instance ticks, but a run first has to take the job's lease in the
+ * job_locks table, so each period is handled by exactly one instance.
+ */
+@Injectable()
+export class SchedulerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Set<string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  register(job: ScheduledJob) {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  onApplicationBootstrap() {
+    if (this.configService.get<string>('SCHEDULER_ENABLED') === 'false') {
+      this.logger.log('Scheduler disabled by SCHEDULER_ENABLED=false');
+      return;
+    }
+
+    for (const job of this.jobs.values()) {
+      const timer = setInterval(
+        () => void this.runJob(job, 'SCHEDULE'),
+        job.intervalMs,
+      );
+      timer.unref();
+      this.timers.set(job.name, timer);
+    }
+
+    this.logger.log(
+      `Scheduler started ${this.jobs.size} jobs on instance ${this.instanceId}`,
+    );
+  }
+
+  onApplicationShutdown() {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Run a job now, outside its schedule
+   */
+  async trigger(name: string): Promise<JobRun> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new NotFoundException(`Job ${name} not found`);
+    }
+
+    const run = await this.runJob(job, 'MANUAL');
+    if (!run) {
+      throw new ConflictException(`Job ${name} is already running`);
+    }
+
+    return run;
+  }
+
+  async getJobs(): Promise<JobSummary[]> {
+    const names = [...this.jobs.keys()];
+
+    const [locks, lastRuns] = await Promise.all([
+      this.prisma.jobLock.findMany({ where: { name: { in: names } } }),
+      Promise.all(
+        names.map((jobName) =>
+          this.prisma.jobRun.findFirst({
+            where: { jobName },
+            orderBy: { startedAt: 'desc' },
+          }),
+        ),
+      ),
+    ]);
+
+    const locksByName = new Map(locks.map((lock) => [lock.name, lock]));
+
+    return names.map((name, index) => {
+      const job = this.jobs.get(name)!;
+      const lock = locksByName.get(name);
+      return {
+        name,
+        description: job.description,
+        intervalMs: job.intervalMs,
+        lockedBy: lock?.lockedBy ?? null,
+        lockedUntil: lock?.lockedUntil ?? null,
+        lastRun: lastRuns[index],
+      };
+    });
+  }
+
+  async getRuns(
+    jobName?: string,
+    status?: JobRunStatus,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const skip = (page - 1) * limit;
+    const where: Prisma.JobRunWhereInput = {
+      ...(jobName && { jobName }),
+      ...(status && { status }),
+    };
+
+    const [runs, total] = await Promise.all([
+      this.prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.jobRun.count({ where }),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async runJob(
+    job: ScheduledJob,
+    trigger: JobTrigger,
+  ): Promise<JobRun | null> {
+    if (this.running.has(job.name)) {
+      return null;
+    }
+    this.running.add(job.name);
+
+    try {
+      const startedAt = new Date();
+      if (!(await this.acquireLock(job, startedAt))) {
+        return null;
+      }
+
+      const run = await this.prisma.jobRun.create({
+        data: { jobName: job.name, instanceId: this.instanceId, trigger },
+      });
+
+      let status: JobRunStatus = 'SUCCEEDED';
+      let result: Prisma.InputJsonValue | undefined;
+      let error: string | undefined;
+
+      try {
+        const output = await job.run();
+        // Round-trip through JSON so values like Money serialise as in responses
+        result =
+          output === undefined
+            ? undefined
+            : (JSON.parse(JSON.stringify(output)) as Prisma.InputJsonValue);
+      } catch (err) {
+        status = 'FAILED';
+        error = err instanceof Error ? err.message : String(err);
+        this.logger.error(`Job ${job.name} failed:`, err);
+      } finally {
+        await this.releaseLock(job, trigger, startedAt);
+      }
+
+      const finishedAt = new Date();
+
+      return await this.prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status,
+          result,
+          error,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Scheduler could not run job ${job.name}:`, error);
+      return null;
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+
+  /**
+   * Take the job's lease if it is free or has expired
+   */
+  private async acquireLock(job: ScheduledJob, now: Date): Promise<boolean> {
+    const lockedUntil = new Date(
+      now.getTime() + (job.lockTtlMs ?? DEFAULT_LOCK_TTL_MS),
+    );
+
+    const { count } = await this.prisma.jobLock.updateMany({
+      where: { name: job.name, lockedUntil: { lt: now } },
+      data: { lockedBy: this.instanceId, lockedUntil },
+    });
+
+    if (count > 0) {
+      return true;
+    }
+
+    try {
+      await this.prisma.jobLock.create({
+        data: { name: job.name, lockedBy: this.instanceId, lockedUntil },
+      });
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * After a scheduled run the lease is kept until just before the next
+   * period, so other instances' timers for the same period find it taken.
+   * Manual runs hand the lease straight back, releasing it to the epoch
+   * so it can be taken again within the same millisecond.
+   */
+  private async releaseLock(
+    job: ScheduledJob,
+    trigger: JobTrigger,
+    startedAt: Date,
+  ) {
+    const slack = Math.min(job.intervalMs / 10, 30 * 1000);
+    const lockedUntil =
+      trigger === 'SCHEDULE'
+        ? new Date(startedAt.getTime() + job.intervalMs - slack)
+        : new Date(0);
+
+    await this.prisma.jobLock.updateMany({
+      where: { name: job.name, lockedBy: this.instanceId },
+      data: { lockedUntil },
+    });
+  }
+}
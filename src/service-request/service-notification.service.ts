@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, ServiceNotification } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+
+const CATCH_UP_LIMIT = 50;
+
+/**
+ * Stores service notifications and pushes them to the recipient's socket
+ * room. Rows are written inside the caller's transaction and only
+ * published once it has committed.
+ */
+@Injectable()
+export class ServiceNotificationService {
+  private readonly logger = new Logger(ServiceNotificationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  create(
+    tx: Prisma.TransactionClient,
+    data: Prisma.ServiceNotificationUncheckedCreateInput,
+  ) {
+    return tx.serviceNotification.create({ data });
+  }
+
+  /**
+   * Emit committed notifications live, followed by each recipient's new
+   * unread count
+   */
+  async publish(notifications: ServiceNotification[]) {
+    for (const notification of notifications) {
+      this.realtimeService.emitToUser(
+        notification.userId,
+        'serviceNotification',
+        notification,
+      );
+    }
+
+    const userIds = new Set(notifications.map((n) => n.userId));
+    for (const userId of userIds) {
+      await this.publishUnreadCount(userId);
+    }
+  }
+
+  /**
+   * Push the unread badge count. Failures are only logged: the
+   * notification itself is already stored and shows up on catch-up.
+   */
+  async publishUnreadCount(userId: string) {
+    try {
+      this.realtimeService.emitToUser(userId, 'notificationBadge', {
+        unreadCount: await this.getUnreadCount(userId),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to publish badge for ${userId}:`, error);
+    }
+  }
+
+  getUnreadCount(userId: string) {
+    return this.prisma.serviceNotification.count({
+      where: { userId, isRead: false },
+    });
+  }
+
+  /**
+   * Notifications a user missed while disconnected: everything created
+   * after `since`, or their latest unread ones when the client does not
+   * know when it was last connected
+   */
+  async getCatchUp(userId: string, since?: Date) {
+    const [notifications, unreadCount] = await Promise.all([
+      this.prisma.serviceNotification.findMany({
+        where: since
+          ? { userId, createdAt: { gt: since } }
+          : { userId, isRead: false },
+        orderBy: { createdAt: 'desc' },
+        take: CATCH_UP_LIMIT,
+      }),
+      this.getUnreadCount(userId),
+    ]);
+
+    return { notifications: notifications.reverse(), unreadCount };
+  }
+}
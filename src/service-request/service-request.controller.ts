@@ -15,6 +15,8 @@ import { Request } from 'express';
 import { ServiceRequestService } from './service-request.service';
 import { ServiceType, ServiceRequestStatus } from '@prisma/client';
 import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { RolesGuard } from 'src/auth-guard/roles.guard';
+import { Roles } from 'src/auth-guard/roles.decorator';
 
 
 interface AuthenticatedRequest extends Request {
@@ -38,7 +40,7 @@ class RespondToRequestDto {
 }
 
 @Controller('api/v1/service-requests')
-@UseGuards(AuthGuardService)
+@UseGuards(AuthGuardService, RolesGuard)
 export class ServiceRequestController {
   constructor(
     private readonly serviceRequestService: ServiceRequestService,
@@ -59,6 +61,24 @@ export class ServiceRequestController {
     );
   }
 
+  /**
+   * Quote a service request's price and fee split without locking funds
+   */
+  @Get('quote')
+  @HttpCode(HttpStatus.OK)
+  async quoteRequest(
+    @Req() req: AuthenticatedRequest,
+    @Query('providerId') providerId: string,
+    @Query('serviceType') serviceType: ServiceType,
+    @Query('duration') duration?: string,
+  ) {
+    return this.serviceRequestService.quoteServiceRequest(req.user.id, {
+      providerId,
+      serviceType,
+      duration: duration ? parseInt(duration) : undefined,
+    });
+  }
+
   /**
    * Respond to a service request (accept/reject)
    */
@@ -201,6 +221,7 @@ export class ServiceRequestController {
    */
   @Post('admin/expire-old')
   @HttpCode(HttpStatus.OK)
+  @Roles('support')
   async expireOldRequests() {
     return this.serviceRequestService.autoExpireOldRequests();
   }
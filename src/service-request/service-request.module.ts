@@ -1,12 +1,37 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { ServiceRequestService } from './service-request.service';
 import { ServiceRequestController } from './service-request.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { ClerkModule } from 'src/clerk/clerk.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { CommissionModule } from 'src/commission/commission.module';
+import { RealtimeModule } from 'src/realtime/realtime.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { ServiceNotificationService } from './service-notification.service';
+import { ServiceSessionService } from './service-session.service';
+import { ServiceSessionController } from './service-session.controller';
 
 @Module({
-  imports: [PrismaModule, ClerkModule],
-  controllers: [ServiceRequestController],
-  providers: [ServiceRequestService],
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    ConfigModule,
+    LedgerModule,
+    CommissionModule,
+    RealtimeModule,
+    AuditModule,
+  ],
+  controllers: [ServiceRequestController, ServiceSessionController],
+  providers: [
+    ServiceRequestService,
+    ServiceNotificationService,
+    ServiceSessionService,
+  ],
+  exports: [
+    ServiceRequestService,
+    ServiceNotificationService,
+    ServiceSessionService,
+  ],
 })
 export class ServiceRequestModule {}
@@ -5,8 +5,23 @@ import {
   ForbiddenException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
-import { ServiceType, ServiceRequestStatus } from '@prisma/client';
+import {
+  Prisma,
+  ServiceNotification,
+  ServiceRequest,
+  ServiceSession,
+  ServiceType,
+  ServiceRequestStatus,
+} from '@prisma/client';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { Money } from 'src/common/money/money';
+import { CommissionService } from 'src/commission/commission.service';
+import { ServiceNotificationService } from './service-notification.service';
+import { ServiceSessionService } from './service-session.service';
+import { AuditService } from 'src/audit/audit.service';
 
 interface CreateServiceRequestDto {
   providerId: string;
@@ -24,10 +39,45 @@ interface RespondToRequestDto {
 export class ServiceRequestService {
   private readonly logger = new Logger(ServiceRequestService.name);
   private readonly EXPIRATION_DAYS = 7;
+  private readonly DEFAULT_IMAGE_DELIVERY_HOURS = 48;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly commissionService: CommissionService,
+    private readonly notificationService: ServiceNotificationService,
+    private readonly auditService: AuditService,
+    private readonly serviceSessionService: ServiceSessionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Price a service request and show the seller/platform split before the
+   * requester commits any funds
+   */
+  async quoteServiceRequest(requesterId: string, dto: CreateServiceRequestDto) {
+    const quote = await this.priceServiceRequest(requesterId, dto);
+
+    const requesterBalance = await this.prisma.userBalance.findUnique({
+      where: { userId: requesterId },
+    });
+    const availableBalance = Money.of(
+      requesterBalance?.availableBalance || 0,
+      quote.price.currency,
+    );
 
-  constructor(private readonly prisma: PrismaService) {}
+    return {
+      providerId: dto.providerId,
+      serviceType: dto.serviceType,
+      duration: quote.duration,
+      price: quote.price,
+      fee: quote.fee,
+      availableBalance,
+      canAfford: !availableBalance.lessThan(quote.price),
+    };
+  }
 
-  async createServiceRequest(
+  private async priceServiceRequest(
     requesterId: string,
     dto: CreateServiceRequestDto,
   ) {
@@ -74,16 +124,37 @@ export class ServiceRequestService {
       duration = 1;
     }
 
+    const gross = Money.of(price, providerSettings.currency);
+    const fee = await this.commissionService.quote(
+      dto.providerId,
+      'SERVICE_REQUEST',
+      gross,
+    );
+
+    return { price: gross, duration, fee };
+  }
+
+  async createServiceRequest(
+    requesterId: string,
+    dto: CreateServiceRequestDto,
+  ) {
+    const quote = await this.priceServiceRequest(requesterId, dto);
+    const { duration, fee } = quote;
+    const price = quote.price.amount;
+    const currency = quote.price.currency;
+
     const requesterBalance = await this.prisma.userBalance.findUnique({
       where: { userId: requesterId },
     });
 
     if (!requesterBalance || requesterBalance.availableBalance < price) {
       throw new BadRequestException(
-        `Insufficient balance. Required: ${providerSettings.currency} ${price}`,
+        `Insufficient balance. Required: ${quote.price.format()}`,
       );
     }
 
+    const outbox: ServiceNotification[] = [];
+
     try {
       const result = await this.prisma.$transaction(async (tx) => {
         const request = await tx.serviceRequest.create({
@@ -93,16 +164,28 @@ export class ServiceRequestService {
             serviceType: dto.serviceType,
             duration,
             price,
-            currency: providerSettings.currency,
+            platformFee: fee.platformFee.amount,
+            sellerAmount: fee.sellerAmount.amount,
+            currency,
             message: dto.message,
           },
         });
 
+        await this.auditService.record(
+          {
+            action: 'SERVICE_REQUEST_CREATED',
+            entityType: 'ServiceRequest',
+            entityId: request.id,
+            after: request,
+          },
+          tx,
+        );
+
         await tx.pendingBalance.create({
           data: {
             userId: requesterId,
             amount: price,
-            currency: providerSettings.currency,
+            currency,
             status: 'LOCKED',
             sourceType: 'SERVICE_REQUEST',
             sourceId: request.id,
@@ -110,12 +193,21 @@ export class ServiceRequestService {
           },
         });
 
-        await tx.userBalance.update({
-          where: { userId: requesterId },
-          data: {
-            availableBalance: { decrement: price },
-            pendingBalance: { increment: price },
-          },
+        await this.ledgerService.post(tx, {
+          kind: 'ESCROW_LOCK',
+          description: `Locked funds for ${dto.serviceType} request`,
+          referenceType: 'ServiceRequest',
+          referenceId: request.id,
+          legs: [
+            {
+              account: LedgerAccounts.wallet(requesterId, currency),
+              amount: -price,
+            },
+            {
+              account: LedgerAccounts.escrow(requesterId, currency),
+              amount: price,
+            },
+          ],
         });
 
         const currentBalance = await tx.userBalance.findUnique({
@@ -128,10 +220,10 @@ export class ServiceRequestService {
             requestId: request.id,
             transactionType: 'LOCK',
             amount: price,
-            currency: providerSettings.currency,
+            currency,
             previousBalance: requesterBalance.availableBalance,
             newBalance: currentBalance!.availableBalance,
-            description: `Locked ${price} for ${dto.serviceType} request`,
+            description: `Locked ${quote.price.format()} for ${dto.serviceType} request`,
             metadata: {
               serviceType: dto.serviceType,
               duration,
@@ -146,8 +238,8 @@ export class ServiceRequestService {
             : dto.message ||
               `User wants to ${dto.serviceType.toLowerCase()} for ${duration} minutes`;
 
-        await tx.serviceNotification.create({
-          data: {
+        outbox.push(
+          await this.notificationService.create(tx, {
             userId: dto.providerId,
             requestId: request.id,
             notificationType: 'SERVICE_REQUEST',
@@ -159,12 +251,14 @@ export class ServiceRequestService {
               duration,
               price,
             },
-          },
-        });
+          }),
+        );
 
         return request;
       });
 
+      await this.notificationService.publish(outbox);
+
       this.logger.log(
         `Service request created: ${result.id} (${dto.serviceType})`,
       );
@@ -221,98 +315,24 @@ export class ServiceRequestService {
     }
   }
 
-  private async acceptRequest(request: any) {
+  private async acceptRequest(request: ServiceRequest) {
+    const outbox: ServiceNotification[] = [];
     const result = await this.prisma.$transaction(async (tx) => {
-      const updatedRequest = await tx.serviceRequest.update({
-        where: { id: request.id },
-        data: {
-          status: 'ACCEPTED',
-          respondedAt: new Date(),
-        },
-      });
-
-      const pendingBalance = await tx.pendingBalance.findFirst({
-        where: {
-          userId: request.requesterId,
-          sourceId: request.id,
-          status: 'LOCKED',
-        },
-      });
-
-      if (pendingBalance) {
-        await tx.pendingBalance.update({
-          where: { id: pendingBalance.id },
-          data: {
-            status: 'RELEASED',
-            releasedAt: new Date(),
-          },
-        });
-
-        const requesterBalance = await tx.userBalance.findUnique({
-          where: { userId: request.requesterId },
-        });
-
-        await tx.userBalance.update({
-          where: { userId: request.requesterId },
-          data: {
-            pendingBalance: { decrement: request.price },
-          },
-        });
-
-        await tx.serviceTransaction.create({
-          data: {
-            userId: request.requesterId,
-            requestId: request.id,
-            transactionType: 'PAYMENT',
-            amount: request.price,
-            currency: request.currency,
-            previousBalance: requesterBalance!.availableBalance,
-            newBalance: requesterBalance!.availableBalance,
-            description: `Payment for ${request.serviceType} ${request.serviceType === 'IMAGE' ? 'request' : 'session'}`,
-          },
-        });
-
-        // Update provider balance
-        const providerBalance = await tx.userBalance.findUnique({
-          where: { userId: request.providerId },
-        });
-
-        await tx.userBalance.upsert({
-          where: { userId: request.providerId },
-          update: {
-            availableBalance: { increment: request.price },
-            totalEarnings: { increment: request.price },
-          },
-          create: {
-            userId: request.providerId,
-            availableBalance: request.price,
-            totalEarnings: request.price,
-          },
-        });
+      const updatedRequest = await this.setStatus(tx, request, 'ACCEPTED');
 
-        const newProviderBalance = await tx.userBalance.findUnique({
-          where: { userId: request.providerId },
-        });
-
-        await tx.serviceTransaction.create({
-          data: {
-            userId: request.providerId,
-            requestId: request.id,
-            transactionType: 'EARNING',
-            amount: request.price,
-            currency: request.currency,
-            previousBalance: providerBalance?.availableBalance || 0,
-            newBalance: newProviderBalance!.availableBalance,
-            description: `Earned from ${request.serviceType} ${request.serviceType === 'IMAGE' ? 'request' : 'session'}`,
-          },
-        });
+      // Image requests stay in escrow until the image is delivered
+      if (request.serviceType !== 'IMAGE') {
+        await this.releaseEscrow(tx, request);
       }
 
       const startTime = new Date();
-      const endTime =
+      const deliveryDueAt =
         request.serviceType === 'IMAGE'
-          ? new Date(startTime.getTime() + 1000) 
-          : new Date(startTime.getTime() + request.duration * 60000);
+          ? new Date(startTime.getTime() + this.imageDeliveryHours() * 3600000)
+          : null;
+      const endTime =
+        deliveryDueAt ??
+        new Date(startTime.getTime() + request.duration * 60000);
 
       const session = await tx.serviceSession.create({
         data: {
@@ -325,24 +345,27 @@ export class ServiceRequestService {
           currency: request.currency,
           startTime,
           endTime,
+          deliveryDueAt,
           isPaid: true,
           paidAt: new Date(),
         },
       });
 
-      await tx.serviceNotification.create({
-        data: {
+      outbox.push(
+        await this.notificationService.create(tx, {
           userId: request.requesterId,
           requestId: request.id,
           notificationType: 'REQUEST_ACCEPTED',
           title: 'Request Accepted',
-          message: `Your ${request.serviceType} request has been accepted`,
+          message: deliveryDueAt
+            ? `Your IMAGE request has been accepted. Your payment stays in escrow until the image is delivered`
+            : `Your ${request.serviceType} request has been accepted`,
           metadata: { sessionId: session.id },
-        },
-      });
+        }),
+      );
 
-      await tx.serviceNotification.create({
-        data: {
+      outbox.push(
+        await this.notificationService.create(tx, {
           userId: request.providerId,
           requestId: request.id,
           notificationType: 'SESSION_STARTED',
@@ -350,17 +373,18 @@ export class ServiceRequestService {
             request.serviceType === 'IMAGE'
               ? 'Image Request Accepted'
               : 'Session Started',
-          message:
-            request.serviceType === 'IMAGE'
-              ? 'You can now send the requested image'
-              : `${request.serviceType} session has started`,
+          message: deliveryDueAt
+            ? `Send the requested image by ${deliveryDueAt.toISOString()} to get paid`
+            : `${request.serviceType} session has started`,
           metadata: { sessionId: session.id },
-        },
-      });
+        }),
+      );
 
       return { request: updatedRequest, session };
     });
 
+    await this.notificationService.publish(outbox);
+
     this.logger.log(
       `Request accepted: ${request.id}, Session: ${result.session.id}`,
     );
@@ -372,77 +396,38 @@ export class ServiceRequestService {
     };
   }
 
-  private async rejectRequest(request: any, reason?: string) {
+  private async rejectRequest(request: ServiceRequest, reason?: string) {
+    const outbox: ServiceNotification[] = [];
     const result = await this.prisma.$transaction(async (tx) => {
-      const updatedRequest = await tx.serviceRequest.update({
-        where: { id: request.id },
-        data: {
-          status: 'REJECTED',
-          respondedAt: new Date(),
-        },
-      });
-
-      const pendingBalance = await tx.pendingBalance.findFirst({
-        where: {
-          userId: request.requesterId,
-          sourceId: request.id,
-          status: 'LOCKED',
-        },
-      });
-
-      if (pendingBalance) {
-        await tx.pendingBalance.update({
-          where: { id: pendingBalance.id },
-          data: {
-            status: 'REFUNDED',
-            releasedAt: new Date(),
-          },
-        });
-
-        const requesterBalance = await tx.userBalance.findUnique({
-          where: { userId: request.requesterId },
-        });
-
-        await tx.userBalance.update({
-          where: { userId: request.requesterId },
-          data: {
-            availableBalance: { increment: request.price },
-            pendingBalance: { decrement: request.price },
-          },
-        });
-
-        const newBalance = await tx.userBalance.findUnique({
-          where: { userId: request.requesterId },
-        });
+      const updatedRequest = await this.setStatus(
+        tx,
+        request,
+        'REJECTED',
+        reason,
+      );
 
-        await tx.serviceTransaction.create({
-          data: {
-            userId: request.requesterId,
-            requestId: request.id,
-            transactionType: 'REFUND',
-            amount: request.price,
-            currency: request.currency,
-            previousBalance: requesterBalance!.availableBalance,
-            newBalance: newBalance!.availableBalance,
-            description: `Refund for rejected ${request.serviceType} request`,
-          },
-        });
-      }
+      await this.refundEscrow(
+        tx,
+        request,
+        `Refund for rejected ${request.serviceType} request`,
+      );
 
-      await tx.serviceNotification.create({
-        data: {
+      outbox.push(
+        await this.notificationService.create(tx, {
           userId: request.requesterId,
           requestId: request.id,
           notificationType: 'REQUEST_REJECTED',
           title: 'Request Rejected',
           message: reason || `Your ${request.serviceType} request was rejected`,
           metadata: { reason },
-        },
-      });
+        }),
+      );
 
       return updatedRequest;
     });
 
+    await this.notificationService.publish(outbox);
+
     this.logger.log(`Request rejected: ${request.id}`);
 
     return {
@@ -458,14 +443,9 @@ export class ServiceRequestService {
 
     if (!request || request.status !== 'PENDING') return;
 
+    const outbox: ServiceNotification[] = [];
     await this.prisma.$transaction(async (tx) => {
-      await tx.serviceRequest.update({
-        where: { id: requestId },
-        data: {
-          status: 'EXPIRED',
-          respondedAt: new Date(),
-        },
-      });
+      await this.setStatus(tx, request, 'EXPIRED');
 
       const pendingBalance = await tx.pendingBalance.findFirst({
         where: {
@@ -488,12 +468,27 @@ export class ServiceRequestService {
           where: { userId: request.requesterId },
         });
 
-        await tx.userBalance.update({
-          where: { userId: request.requesterId },
-          data: {
-            availableBalance: { increment: request.price },
-            pendingBalance: { decrement: request.price },
-          },
+        await this.ledgerService.post(tx, {
+          kind: 'ESCROW_REFUND',
+          description: `Refund for expired ${request.serviceType} request`,
+          referenceType: 'ServiceRequest',
+          referenceId: request.id,
+          legs: [
+            {
+              account: LedgerAccounts.escrow(
+                request.requesterId,
+                request.currency,
+              ),
+              amount: -request.price,
+            },
+            {
+              account: LedgerAccounts.wallet(
+                request.requesterId,
+                request.currency,
+              ),
+              amount: request.price,
+            },
+          ],
         });
 
         const newBalance = await tx.userBalance.findUnique({
@@ -514,26 +509,26 @@ export class ServiceRequestService {
         });
       }
 
-      await tx.serviceNotification.createMany({
-        data: [
-          {
-            userId: request.requesterId,
-            requestId,
-            notificationType: 'REQUEST_EXPIRED',
-            title: 'Request Expired',
-            message: 'Your service request has expired (7 days)',
-          },
-          {
-            userId: request.providerId,
-            requestId,
-            notificationType: 'REQUEST_EXPIRED',
-            title: 'Request Expired',
-            message: 'Service request has expired (7 days)',
-          },
-        ],
-      });
+      outbox.push(
+        await this.notificationService.create(tx, {
+          userId: request.requesterId,
+          requestId,
+          notificationType: 'REQUEST_EXPIRED',
+          title: 'Request Expired',
+          message: 'Your service request has expired (7 days)',
+        }),
+        await this.notificationService.create(tx, {
+          userId: request.providerId,
+          requestId,
+          notificationType: 'REQUEST_EXPIRED',
+          title: 'Request Expired',
+          message: 'Service request has expired (7 days)',
+        }),
+      );
     });
 
+    await this.notificationService.publish(outbox);
+
     this.logger.log(`Request expired: ${requestId}`);
   }
 
@@ -554,15 +549,40 @@ export class ServiceRequestService {
       throw new BadRequestException('Can only cancel pending requests');
     }
 
+    return this.cancelPendingRequest(request);
+  }
+
+  /**
+   * Cancel a pending request on behalf of either party and refund the
+   * requester
+   */
+  async cancelRequestAsAdmin(requestId: string, reason: string) {
+    const request = await this.prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Service request not found');
+    }
+
+    if (request.status !== 'PENDING') {
+      throw new BadRequestException('Can only cancel pending requests');
+    }
+
+    return this.cancelPendingRequest(request, reason);
+  }
+
+  private async cancelPendingRequest(
+    request: ServiceRequest,
+    adminReason?: string,
+  ) {
+    const requestId = request.id;
+    const requesterId = request.requesterId;
+    const outbox: ServiceNotification[] = [];
+
     try {
       await this.prisma.$transaction(async (tx) => {
-        await tx.serviceRequest.update({
-          where: { id: requestId },
-          data: {
-            status: 'CANCELLED',
-            respondedAt: new Date(),
-          },
-        });
+        await this.setStatus(tx, request, 'CANCELLED', adminReason);
 
         const pendingBalance = await tx.pendingBalance.findFirst({
           where: {
@@ -586,12 +606,21 @@ export class ServiceRequestService {
           });
 
           if (requesterBalance) {
-            await tx.userBalance.update({
-              where: { userId: requesterId },
-              data: {
-                availableBalance: { increment: request.price },
-                pendingBalance: { decrement: request.price },
-              },
+            await this.ledgerService.post(tx, {
+              kind: 'ESCROW_REFUND',
+              description: `Refund for cancelled ${request.serviceType} request`,
+              referenceType: 'ServiceRequest',
+              referenceId: request.id,
+              legs: [
+                {
+                  account: LedgerAccounts.escrow(requesterId, request.currency),
+                  amount: -request.price,
+                },
+                {
+                  account: LedgerAccounts.wallet(requesterId, request.currency),
+                  amount: request.price,
+                },
+              ],
             });
 
             const newBalance = await tx.userBalance.findUnique({
@@ -613,18 +642,36 @@ export class ServiceRequestService {
           }
         }
 
-        await tx.serviceNotification.create({
-          data: {
-            userId: request.providerId,
-            requestId,
-            notificationType: 'REQUEST_REJECTED', 
-            title: 'Request Cancelled',
-            message: `User cancelled their ${request.serviceType} request`,
-          },
-        });
+        if (adminReason) {
+          for (const userId of [requesterId, request.providerId]) {
+            outbox.push(
+              await this.notificationService.create(tx, {
+                userId,
+                requestId,
+                notificationType: 'REQUEST_REJECTED',
+                title: 'Request Cancelled',
+                message: `The ${request.serviceType} request was cancelled by support: ${adminReason}`,
+              }),
+            );
+          }
+        } else {
+          outbox.push(
+            await this.notificationService.create(tx, {
+              userId: request.providerId,
+              requestId,
+              notificationType: 'REQUEST_REJECTED',
+              title: 'Request Cancelled',
+              message: `User cancelled their ${request.serviceType} request`,
+            }),
+          );
+        }
       });
 
-      this.logger.log(`Request cancelled by user: ${requestId}`);
+      await this.notificationService.publish(outbox);
+
+      this.logger.log(
+        `Request cancelled by ${adminReason ? 'admin' : 'user'}: ${requestId}`,
+      );
 
       return {
         success: true,
@@ -694,13 +741,17 @@ export class ServiceRequestService {
       throw new ForbiddenException('Not authorized');
     }
 
-    return this.prisma.serviceNotification.update({
+    const updated = await this.prisma.serviceNotification.update({
       where: { id: notificationId },
       data: {
         isRead: true,
         readAt: new Date(),
       },
     });
+
+    await this.notificationService.publishUnreadCount(userId);
+
+    return updated;
   }
 
   // Mark all notifications as read
@@ -716,6 +767,8 @@ export class ServiceRequestService {
       },
     });
 
+    await this.notificationService.publishUnreadCount(userId);
+
     return {
       success: true,
       updatedCount: result.count,
@@ -756,7 +809,10 @@ export class ServiceRequestService {
       },
     });
 
-    const totalLocked = locked.reduce((sum, pb) => sum + pb.amount, 0);
+    const totalLocked = Money.of(
+      locked.reduce((sum, pb) => sum + pb.amount, 0),
+      locked[0]?.currency,
+    );
 
     return {
       totalLocked,
@@ -794,7 +850,7 @@ export class ServiceRequestService {
     };
   }
 
-  // Auto-expire old requests (run via cron - weekly)
+  // Auto-expire old requests (run hourly by the scheduler)
   async autoExpireOldRequests() {
     const weekAgo = new Date();
     weekAgo.setDate(weekAgo.getDate() - this.EXPIRATION_DAYS);
@@ -820,6 +876,120 @@ export class ServiceRequestService {
     };
   }
 
+  /**
+   * Accept a delivered image and release the escrowed payment to the
+   * provider
+   */
+  async confirmDelivery(requesterId: string, sessionId: string) {
+    const session = await this.prisma.serviceSession.findUnique({
+      where: { id: sessionId },
+      include: { request: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Service session not found');
+    }
+
+    if (session.requesterId !== requesterId) {
+      throw new ForbiddenException('Only the requester can confirm delivery');
+    }
+
+    if (!session.deliveryDueAt || session.isCompleted) {
+      throw new BadRequestException('This request has no payment in escrow');
+    }
+
+    if (!session.deliveredAt) {
+      throw new BadRequestException('The image has not been delivered yet');
+    }
+
+    const state = await this.serviceSessionService.settleEscrow(
+      session,
+      'DELIVERY_CONFIRMED',
+      (tx) => this.releaseEscrow(tx, session.request),
+    );
+
+    if (!state) {
+      throw new BadRequestException('This request has already been settled');
+    }
+
+    return { success: true, message: 'Payment released', session: state };
+  }
+
+  /**
+   * Release escrow of delivered images the requester did not confirm in
+   * time, and refund images not delivered by their deadline. Run by the
+   * scheduler.
+   */
+  async settleImageDeliveries() {
+    const now = new Date();
+    const open: Prisma.ServiceSessionWhereInput = {
+      serviceType: 'IMAGE',
+      isCompleted: false,
+      deliveryDueAt: { not: null },
+    };
+
+    const unconfirmed = await this.prisma.serviceSession.findMany({
+      where: { ...open, releaseAt: { lte: now } },
+      include: { request: true },
+    });
+    const undelivered = await this.prisma.serviceSession.findMany({
+      where: { ...open, deliveredAt: null, deliveryDueAt: { lte: now } },
+      include: { request: true },
+    });
+
+    let released = 0;
+    for (const session of unconfirmed) {
+      if (
+        await this.settleImageSession(session, 'DELIVERY_AUTO_RELEASED', (tx) =>
+          this.releaseEscrow(tx, session.request),
+        )
+      ) {
+        released++;
+      }
+    }
+
+    let refunded = 0;
+    for (const session of undelivered) {
+      if (
+        await this.settleImageSession(session, 'NOT_DELIVERED', (tx) =>
+          this.refundEscrow(
+            tx,
+            session.request,
+            'Refund for an IMAGE request that was not delivered',
+          ),
+        )
+      ) {
+        refunded++;
+      }
+    }
+
+    return { released, refunded };
+  }
+
+  private async settleImageSession(
+    session: ServiceSession,
+    reason: 'DELIVERY_AUTO_RELEASED' | 'NOT_DELIVERED',
+    settle: (tx: Prisma.TransactionClient) => Promise<void>,
+  ) {
+    try {
+      return !!(await this.serviceSessionService.settleEscrow(
+        session,
+        reason,
+        settle,
+      ));
+    } catch (error) {
+      this.logger.error(`Failed to settle session ${session.id}:`, error);
+      return false;
+    }
+  }
+
+  private imageDeliveryHours() {
+    const value = Number(
+      this.configService.get<string>('IMAGE_DELIVERY_HOURS'),
+    );
+    return value > 0 ? value : this.DEFAULT_IMAGE_DELIVERY_HOURS;
+  }
+
   // Get request statistics
   async getRequestStats(userId: string, userType: 'requester' | 'provider') {
     const field = userType === 'requester' ? 'requesterId' : 'providerId';
@@ -850,4 +1020,199 @@ export class ServiceRequestService {
       expired,
     };
   }
+
+  /**
+   * Pay the provider out of the requester's escrow with the split quoted
+   * when the request was created
+   */
+  private async releaseEscrow(
+    tx: Prisma.TransactionClient,
+    request: ServiceRequest,
+  ) {
+    const pendingBalance = await tx.pendingBalance.findFirst({
+      where: {
+        userId: request.requesterId,
+        sourceId: request.id,
+        status: 'LOCKED',
+      },
+    });
+
+    if (pendingBalance) {
+      await tx.pendingBalance.update({
+        where: { id: pendingBalance.id },
+        data: {
+          status: 'RELEASED',
+          releasedAt: new Date(),
+        },
+      });
+
+      const requesterBalance = await tx.userBalance.findUnique({
+        where: { userId: request.requesterId },
+      });
+      const providerBalance = await tx.userBalance.findUnique({
+        where: { userId: request.providerId },
+      });
+
+      const fee = this.commissionService.breakdownOf(
+        'SERVICE_REQUEST',
+        Money.of(request.price, request.currency),
+        request.platformFee,
+      );
+
+      await this.ledgerService.post(tx, {
+        kind: 'ESCROW_RELEASE',
+        description: `Payment for ${request.serviceType} ${request.serviceType === 'IMAGE' ? 'request' : 'session'}`,
+        referenceType: 'ServiceRequest',
+        referenceId: request.id,
+        legs: [
+          {
+            account: LedgerAccounts.escrow(
+              request.requesterId,
+              request.currency,
+            ),
+            amount: -request.price,
+            category: 'SPEND',
+          },
+          ...this.commissionService.creditLegs(request.providerId, fee),
+        ],
+      });
+
+      await tx.serviceTransaction.create({
+        data: {
+          userId: request.requesterId,
+          requestId: request.id,
+          transactionType: 'PAYMENT',
+          amount: request.price,
+          currency: request.currency,
+          previousBalance: requesterBalance!.availableBalance,
+          newBalance: requesterBalance!.availableBalance,
+          description: `Payment for ${request.serviceType} ${request.serviceType === 'IMAGE' ? 'request' : 'session'}`,
+        },
+      });
+
+      const newProviderBalance = await tx.userBalance.findUnique({
+        where: { userId: request.providerId },
+      });
+
+      await tx.serviceTransaction.create({
+        data: {
+          userId: request.providerId,
+          requestId: request.id,
+          transactionType: 'EARNING',
+          amount: fee.sellerAmount.amount,
+          currency: request.currency,
+          previousBalance: providerBalance?.availableBalance || 0,
+          newBalance: newProviderBalance!.availableBalance,
+          description: `Earned from ${request.serviceType} ${request.serviceType === 'IMAGE' ? 'request' : 'session'}`,
+          metadata: {
+            grossAmount: request.price,
+            platformFee: fee.platformFee.amount,
+          },
+        },
+      });
+    }
+  }
+
+  /**
+   * Return the requester's escrowed payment to their wallet
+   */
+  private async refundEscrow(
+    tx: Prisma.TransactionClient,
+    request: ServiceRequest,
+    description: string,
+  ) {
+    const pendingBalance = await tx.pendingBalance.findFirst({
+      where: {
+        userId: request.requesterId,
+        sourceId: request.id,
+        status: 'LOCKED',
+      },
+    });
+
+    if (pendingBalance) {
+      await tx.pendingBalance.update({
+        where: { id: pendingBalance.id },
+        data: {
+          status: 'REFUNDED',
+          releasedAt: new Date(),
+        },
+      });
+
+      const requesterBalance = await tx.userBalance.findUnique({
+        where: { userId: request.requesterId },
+      });
+
+      await this.ledgerService.post(tx, {
+        kind: 'ESCROW_REFUND',
+        description,
+        referenceType: 'ServiceRequest',
+        referenceId: request.id,
+        legs: [
+          {
+            account: LedgerAccounts.escrow(
+              request.requesterId,
+              request.currency,
+            ),
+            amount: -request.price,
+          },
+          {
+            account: LedgerAccounts.wallet(
+              request.requesterId,
+              request.currency,
+            ),
+            amount: request.price,
+          },
+        ],
+      });
+
+      const newBalance = await tx.userBalance.findUnique({
+        where: { userId: request.requesterId },
+      });
+
+      await tx.serviceTransaction.create({
+        data: {
+          userId: request.requesterId,
+          requestId: request.id,
+          transactionType: 'REFUND',
+          amount: request.price,
+          currency: request.currency,
+          previousBalance: requesterBalance!.availableBalance,
+          newBalance: newBalance!.availableBalance,
+          description,
+        },
+      });
+    }
+  }
+
+  /**
+   * Move a request to its final status and audit the transition
+   */
+  private async setStatus(
+    tx: Prisma.TransactionClient,
+    request: ServiceRequest,
+    status: ServiceRequestStatus,
+    reason?: string,
+  ) {
+    const updated = await tx.serviceRequest.update({
+      where: { id: request.id },
+      data: {
+        status,
+        respondedAt: new Date(),
+      },
+    });
+
+    await this.auditService.record(
+      {
+        action: `SERVICE_REQUEST_${status}`,
+        entityType: 'ServiceRequest',
+        entityId: request.id,
+        reason,
+        before: request,
+        after: updated,
+      },
+      tx,
+    );
+
+    return updated;
+  }
 }
@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ServiceSessionService } from './service-session.service';
+import { ServiceRequestService } from './service-request.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('api/v1/service-sessions')
+@UseGuards(AuthGuardService)
+export class ServiceSessionController {
+  constructor(
+    private readonly serviceSessionService: ServiceSessionService,
+    private readonly serviceRequestService: ServiceRequestService,
+  ) {}
+
+  /**
+   * Get the session clock: status, time used and time remaining
+   */
+  @Get(':sessionId')
+  @HttpCode(HttpStatus.OK)
+  async getSession(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.serviceSessionService.getSession(req.user.id, sessionId);
+  }
+
+  @Post(':sessionId/pause')
+  @HttpCode(HttpStatus.OK)
+  async pause(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.serviceSessionService.pause(req.user.id, sessionId);
+  }
+
+  @Post(':sessionId/resume')
+  @HttpCode(HttpStatus.OK)
+  async resume(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.serviceSessionService.resume(req.user.id, sessionId);
+  }
+
+  /**
+   * End the session early
+   */
+  @Post(':sessionId/end')
+  @HttpCode(HttpStatus.OK)
+  async end(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.serviceSessionService.end(req.user.id, sessionId);
+  }
+
+  /**
+   * Confirm a delivered image and release the payment to the provider
+   */
+  @Post(':sessionId/confirm-delivery')
+  @HttpCode(HttpStatus.OK)
+  async confirmDelivery(
+    @Req() req: AuthenticatedRequest,
+    @Param('sessionId') sessionId: string,
+  ) {
+    return this.serviceRequestService.confirmDelivery(req.user.id, sessionId);
+  }
+}
@@ -0,0 +1,688 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Message,
+  Prisma,
+  ServiceNotification,
+  ServiceSession,
+  SessionEndReason,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { ServiceNotificationService } from './service-notification.service';
+import { AuditService } from 'src/audit/audit.service';
+
+const WARNING_SECONDS = 120;
+const DEFAULT_CONFIRMATION_HOURS = 24;
+
+export type ServiceSessionStatus =
+  | 'NOT_STARTED'
+  | 'RUNNING'
+  | 'PAUSED'
+  | 'ENDED';
+
+export interface ServiceSessionState {
+  id: string;
+  requestId: string;
+  requesterId: string;
+  providerId: string;
+  serviceType: ServiceSession['serviceType'];
+  status: ServiceSessionStatus;
+  durationMinutes: number;
+  usedSeconds: number;
+  remainingSeconds: number;
+  /** When the session ends if the clock keeps running; null unless running */
+  endsAt: Date | null;
+  endReason: SessionEndReason | null;
+  /** Escrow milestones of IMAGE requests; null for other services */
+  delivery: {
+    dueAt: Date;
+    deliveredAt: Date | null;
+    releaseAt: Date | null;
+    confirmedAt: Date | null;
+  } | null;
+}
+
+/**
+ * Owns the clock of paid service sessions. CHAT sessions start their clock
+ * on the first message and can be paused and resumed by either participant.
+ * VIDEO and AUDIO sessions are metered only while a call is connected. The
+ * scheduler ends sessions whose time is up. IMAGE sessions are untimed:
+ * they end when the escrowed payment is released or refunded.
+ *
+ * While running, `resumedAt` marks the start of the current stretch and
+ * `usedMinutes` holds the time used before it, so `endTime` is always
+ * `resumedAt` plus whatever time was left.
+ */
+@Injectable()
+export class ServiceSessionService {
+  private readonly logger = new Logger(ServiceSessionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: ServiceNotificationService,
+    private readonly realtimeService: RealtimeService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getSession(userId: string, sessionId: string) {
+    const session = await this.findForParticipant(userId, sessionId);
+    return this.toState(session);
+  }
+
+  /**
+   * Check that traffic between two users may use the session and start
+   * its clock if this is the first activity
+   */
+  async recordActivity(
+    sessionId: string,
+    senderId: string,
+    recipientId: string,
+  ) {
+    const session = await this.prisma.serviceSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Service session not found');
+    }
+
+    const participants = [session.requesterId, session.providerId];
+    if (
+      senderId === recipientId ||
+      !participants.includes(senderId) ||
+      !participants.includes(recipientId)
+    ) {
+      throw new ForbiddenException(
+        'You are not a participant in this service session',
+      );
+    }
+
+    // Call sessions rest paused between calls, messaging stays open
+    this.assertOpen(session, this.isCallMetered(session));
+
+    if (
+      !session.actualStart &&
+      this.isTimed(session) &&
+      !this.isCallMetered(session)
+    ) {
+      return this.startClock(session);
+    }
+
+    const now = new Date();
+    return this.prisma.serviceSession.update({
+      where: { id: session.id },
+      data: {
+        lastActiveAt: now,
+        ...(!session.actualStart &&
+          !this.isTimed(session) && { actualStart: now }),
+      },
+    });
+  }
+
+  /**
+   * Run the clock of a VIDEO or AUDIO session while its call is connected
+   */
+  async startMetering(sessionId: string) {
+    const session = await this.prisma.serviceSession.findUniqueOrThrow({
+      where: { id: sessionId },
+    });
+    this.assertOpen(session, true);
+
+    if (!session.actualStart) return this.startClock(session);
+    if (session.isPaused) return this.resumeClock(session);
+
+    return session;
+  }
+
+  /**
+   * Stop the clock when a call disconnects, keeping the remaining time
+   */
+  async stopMetering(sessionId: string) {
+    const session = await this.prisma.serviceSession.findUniqueOrThrow({
+      where: { id: sessionId },
+    });
+
+    if (!this.isRunning(session)) return session;
+
+    return this.pauseClock(session);
+  }
+
+  async pause(userId: string, sessionId: string) {
+    const session = await this.findForParticipant(userId, sessionId);
+    this.assertManuallyMetered(session);
+    this.assertOpen(session);
+
+    if (!session.actualStart) {
+      throw new BadRequestException('Session has not started yet');
+    }
+
+    return this.toState(await this.pauseClock(session));
+  }
+
+  async resume(userId: string, sessionId: string) {
+    const session = await this.findForParticipant(userId, sessionId);
+    this.assertManuallyMetered(session);
+
+    if (!session.isPaused) {
+      throw new BadRequestException('Session is not paused');
+    }
+
+    if (session.isCompleted || !session.isActive) {
+      throw new ForbiddenException('This service session has ended');
+    }
+
+    return this.toState(await this.resumeClock(session));
+  }
+
+  /**
+   * End a session before its time is up. The payment is not refunded.
+   */
+  async end(userId: string, sessionId: string) {
+    const session = await this.findForParticipant(userId, sessionId);
+
+    if (session.isCompleted) {
+      throw new BadRequestException('Session has already ended');
+    }
+
+    this.assertNotEscrowed(session);
+
+    const ended = await this.endSession(
+      session,
+      userId === session.requesterId
+        ? 'ENDED_BY_REQUESTER'
+        : 'ENDED_BY_PROVIDER',
+    );
+
+    return this.toState(ended ?? session);
+  }
+
+  /**
+   * End a session on behalf of support. The payment is not refunded.
+   */
+  async endAsAdmin(sessionId: string) {
+    const session = await this.prisma.serviceSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Service session not found');
+    }
+
+    if (session.isCompleted) {
+      throw new BadRequestException('Session has already ended');
+    }
+
+    this.assertNotEscrowed(session);
+
+    const ended = await this.endSession(session, 'ENDED_BY_ADMIN');
+
+    return this.toState(ended ?? session);
+  }
+
+  /**
+   * Mark an IMAGE request delivered when the provider sends an image in its
+   * session. Starts the window in which the requester can confirm before
+   * the payment is released automatically. Returns null if the message
+   * does not count as a delivery.
+   */
+  async recordDelivery(sessionId: string, message: Message) {
+    const session = await this.prisma.serviceSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (
+      !session ||
+      !this.holdsEscrow(session) ||
+      session.isCompleted ||
+      session.deliveredAt ||
+      message.messageType !== 'IMAGE' ||
+      message.senderId !== session.providerId
+    ) {
+      return null;
+    }
+
+    const now = new Date();
+    const releaseAt = new Date(
+      now.getTime() + this.confirmationHours() * 3600000,
+    );
+    const outbox: ServiceNotification[] = [];
+
+    const delivered = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.serviceSession.updateMany({
+        where: { id: session.id, deliveredAt: null, isCompleted: false },
+        data: {
+          deliveredAt: now,
+          deliveryMessageId: message.id,
+          releaseAt,
+          lastActiveAt: now,
+        },
+      });
+
+      if (count === 0) return null;
+
+      outbox.push(
+        await this.notificationService.create(tx, {
+          userId: session.requesterId,
+          requestId: session.requestId,
+          notificationType: 'IMAGE_DELIVERED',
+          title: 'Image Delivered',
+          message: `Your image has been delivered. Confirm it, or the payment is released to the provider on ${releaseAt.toISOString()}`,
+          metadata: { sessionId: session.id, messageId: message.id },
+        }),
+      );
+
+      return tx.serviceSession.findUniqueOrThrow({
+        where: { id: session.id },
+      });
+    });
+
+    if (!delivered) return null;
+
+    await this.notificationService.publish(outbox);
+    this.broadcast(delivered, 'serviceSessionUpdate');
+
+    this.logger.log(`Image delivered for service session ${session.id}`);
+
+    return delivered;
+  }
+
+  /**
+   * End an IMAGE session and move its escrow in the same transaction.
+   * `settle` runs only if this call is the one that ends the session.
+   */
+  async settleEscrow(
+    session: ServiceSession,
+    reason: Extract<
+      SessionEndReason,
+      'DELIVERY_CONFIRMED' | 'DELIVERY_AUTO_RELEASED' | 'NOT_DELIVERED'
+    >,
+    settle: (tx: Prisma.TransactionClient) => Promise<void>,
+  ) {
+    const ended = await this.endSession(session, reason, settle);
+    return ended && this.toState(ended);
+  }
+
+  /**
+   * Warn participants shortly before time runs out and end sessions whose
+   * time is up. Run by the scheduler.
+   */
+  async processDueSessions() {
+    const now = new Date();
+    const running: Prisma.ServiceSessionWhereInput = {
+      isActive: true,
+      isCompleted: false,
+      isPaused: false,
+      actualStart: { not: null },
+      serviceType: { not: 'IMAGE' },
+    };
+
+    const due = await this.prisma.serviceSession.findMany({
+      where: { ...running, endTime: { lte: now } },
+    });
+
+    let ended = 0;
+    for (const session of due) {
+      try {
+        if (await this.endSession(session, 'TIME_UP')) ended++;
+      } catch (error) {
+        this.logger.error(`Failed to end session ${session.id}:`, error);
+      }
+    }
+
+    const ending = await this.prisma.serviceSession.findMany({
+      where: {
+        ...running,
+        warningSentAt: null,
+        endTime: {
+          gt: now,
+          lte: new Date(now.getTime() + WARNING_SECONDS * 1000),
+        },
+      },
+    });
+
+    let warned = 0;
+    for (const session of ending) {
+      try {
+        if (await this.sendWarning(session)) warned++;
+      } catch (error) {
+        this.logger.error(`Failed to warn session ${session.id}:`, error);
+      }
+    }
+
+    return { ended, warned };
+  }
+
+  /**
+   * Reject traffic for sessions that are over, including ones whose time
+   * ran out before the scheduler got to them
+   */
+  assertOpen(session: ServiceSession, allowPaused = false) {
+    if (session.isCompleted || !session.isActive) {
+      throw new ForbiddenException('This service session has ended');
+    }
+
+    if (
+      this.isTimed(session) &&
+      session.actualStart &&
+      !session.isPaused &&
+      session.endTime <= new Date()
+    ) {
+      throw new ForbiddenException('This service session has ended');
+    }
+
+    if (session.isPaused && !allowPaused) {
+      throw new BadRequestException(
+        'This service session is paused. Resume it to continue',
+      );
+    }
+  }
+
+  private async endSession(
+    session: ServiceSession,
+    reason: SessionEndReason,
+    settle?: (tx: Prisma.TransactionClient) => Promise<void>,
+  ) {
+    const now = new Date();
+    const outbox: ServiceNotification[] = [];
+
+    const ended = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.serviceSession.updateMany({
+        where: { id: session.id, isCompleted: false },
+        data: {
+          isCompleted: true,
+          isActive: false,
+          isPaused: false,
+          actualEnd: now,
+          usedMinutes: Math.min(
+            session.duration,
+            this.usedMs(session, now) / 60000,
+          ),
+          endReason: reason,
+          ...(reason === 'DELIVERY_CONFIRMED' && { confirmedAt: now }),
+        },
+      });
+
+      if (count === 0) return null;
+
+      await tx.serviceRequest.update({
+        where: { id: session.requestId },
+        data: { status: reason === 'NOT_DELIVERED' ? 'EXPIRED' : 'COMPLETED' },
+      });
+
+      if (settle) await settle(tx);
+
+      await tx.serviceCall.updateMany({
+        where: {
+          sessionId: session.id,
+          status: { in: ['RINGING', 'ACCEPTED', 'CONNECTED'] },
+        },
+        data: { status: 'ENDED', endReason: 'SESSION_ENDED', endedAt: now },
+      });
+
+      const messages: Record<SessionEndReason, string> = {
+        TIME_UP: `Your ${session.serviceType} session has ended: time is up`,
+        ENDED_BY_REQUESTER: `The ${session.serviceType} session was ended by the requester`,
+        ENDED_BY_PROVIDER: `The ${session.serviceType} session was ended by the provider`,
+        ENDED_BY_ADMIN: `The ${session.serviceType} session was ended by support`,
+        DELIVERY_CONFIRMED:
+          'The requester confirmed the image and the payment was released',
+        DELIVERY_AUTO_RELEASED:
+          'The image was not disputed in time and the payment was released',
+        NOT_DELIVERED:
+          'The image was not delivered in time and the payment was refunded',
+      };
+      const message = messages[reason];
+
+      for (const userId of [session.requesterId, session.providerId]) {
+        outbox.push(
+          await this.notificationService.create(tx, {
+            userId,
+            requestId: session.requestId,
+            notificationType: 'SESSION_ENDED',
+            title: 'Session Ended',
+            message,
+            metadata: { sessionId: session.id, reason },
+          }),
+        );
+      }
+
+      const updated = await tx.serviceSession.findUniqueOrThrow({
+        where: { id: session.id },
+      });
+
+      await this.auditService.record(
+        {
+          action: 'SERVICE_SESSION_ENDED',
+          entityType: 'ServiceSession',
+          entityId: session.id,
+          reason,
+          before: session,
+          after: updated,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+
+    if (!ended) return null;
+
+    await this.notificationService.publish(outbox);
+    this.broadcast(ended, 'serviceSessionEnded');
+
+    this.logger.log(`Service session ${session.id} ended: ${reason}`);
+
+    return ended;
+  }
+
+  private async startClock(session: ServiceSession) {
+    const now = new Date();
+    const { count } = await this.prisma.serviceSession.updateMany({
+      where: { id: session.id, actualStart: null },
+      data: {
+        actualStart: now,
+        resumedAt: now,
+        lastActiveAt: now,
+        endTime: new Date(now.getTime() + this.remainingMs(session, now)),
+      },
+    });
+
+    const started = await this.prisma.serviceSession.findUniqueOrThrow({
+      where: { id: session.id },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Service session ${session.id} started`);
+      this.broadcast(started, 'serviceSessionUpdate');
+    }
+
+    return started;
+  }
+
+  private async pauseClock(session: ServiceSession) {
+    const now = new Date();
+    const paused = await this.prisma.serviceSession.update({
+      where: { id: session.id },
+      data: {
+        isPaused: true,
+        pausedAt: now,
+        usedMinutes: this.usedMs(session, now) / 60000,
+      },
+    });
+
+    this.broadcast(paused, 'serviceSessionUpdate');
+
+    return paused;
+  }
+
+  private async resumeClock(session: ServiceSession) {
+    const now = new Date();
+    const resumed = await this.prisma.serviceSession.update({
+      where: { id: session.id },
+      data: {
+        isPaused: false,
+        resumedAt: now,
+        lastActiveAt: now,
+        endTime: new Date(now.getTime() + this.remainingMs(session, now)),
+      },
+    });
+
+    this.broadcast(resumed, 'serviceSessionUpdate');
+
+    return resumed;
+  }
+
+  private async sendWarning(session: ServiceSession) {
+    const outbox: ServiceNotification[] = [];
+
+    const warned = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.serviceSession.updateMany({
+        where: { id: session.id, warningSentAt: null },
+        data: { warningSentAt: new Date() },
+      });
+
+      if (count === 0) return false;
+
+      for (const userId of [session.requesterId, session.providerId]) {
+        outbox.push(
+          await this.notificationService.create(tx, {
+            userId,
+            requestId: session.requestId,
+            notificationType: 'SESSION_ENDING',
+            title: 'Session Ending',
+            message: `${WARNING_SECONDS / 60} minutes remaining in your ${session.serviceType} session`,
+            metadata: { sessionId: session.id, endsAt: session.endTime },
+          }),
+        );
+      }
+
+      return true;
+    });
+
+    if (!warned) return false;
+
+    await this.notificationService.publish(outbox);
+    this.broadcast(session, 'serviceSessionWarning');
+
+    return true;
+  }
+
+  private broadcast(session: ServiceSession, event: string) {
+    const state = this.toState(session);
+    this.realtimeService.emitToUser(session.requesterId, event, state);
+    this.realtimeService.emitToUser(session.providerId, event, state);
+  }
+
+  private async findForParticipant(userId: string, sessionId: string) {
+    const session = await this.prisma.serviceSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Service session not found');
+    }
+
+    if (session.requesterId !== userId && session.providerId !== userId) {
+      throw new ForbiddenException('Not authorized');
+    }
+
+    return session;
+  }
+
+  /**
+   * IMAGE sessions created since payments are held until delivery
+   */
+  private holdsEscrow(session: ServiceSession) {
+    return session.serviceType === 'IMAGE' && session.deliveryDueAt !== null;
+  }
+
+  private assertNotEscrowed(session: ServiceSession) {
+    if (this.holdsEscrow(session)) {
+      throw new BadRequestException(
+        'Image requests end when the delivery is confirmed or the deadline passes',
+      );
+    }
+  }
+
+  private confirmationHours() {
+    const value = Number(
+      this.configService.get<string>('IMAGE_CONFIRMATION_HOURS'),
+    );
+    return value > 0 ? value : DEFAULT_CONFIRMATION_HOURS;
+  }
+
+  private isTimed(session: ServiceSession) {
+    return session.serviceType !== 'IMAGE';
+  }
+
+  private isCallMetered(session: ServiceSession) {
+    return session.serviceType === 'VIDEO' || session.serviceType === 'AUDIO';
+  }
+
+  private assertManuallyMetered(session: ServiceSession) {
+    if (this.isCallMetered(session)) {
+      throw new BadRequestException(
+        'The clock of call sessions follows the call. Hang up to pause it',
+      );
+    }
+  }
+
+  private isRunning(session: ServiceSession) {
+    return (
+      !!session.actualStart &&
+      !session.isPaused &&
+      !session.isCompleted &&
+      this.isTimed(session)
+    );
+  }
+
+  private usedMs(session: ServiceSession, now: Date) {
+    const before = session.usedMinutes * 60000;
+    if (!this.isRunning(session)) return before;
+
+    const stretchStart = session.resumedAt ?? session.actualStart!;
+    return before + Math.max(0, now.getTime() - stretchStart.getTime());
+  }
+
+  private remainingMs(session: ServiceSession, now: Date) {
+    return Math.max(0, session.duration * 60000 - this.usedMs(session, now));
+  }
+
+  private toState(session: ServiceSession): ServiceSessionState {
+    const now = new Date();
+    let status: ServiceSessionStatus = 'RUNNING';
+    if (session.isCompleted) status = 'ENDED';
+    else if (!session.actualStart) status = 'NOT_STARTED';
+    else if (session.isPaused) status = 'PAUSED';
+
+    return {
+      id: session.id,
+      requestId: session.requestId,
+      requesterId: session.requesterId,
+      providerId: session.providerId,
+      serviceType: session.serviceType,
+      status,
+      durationMinutes: session.duration,
+      usedSeconds: Math.round(this.usedMs(session, now) / 1000),
+      remainingSeconds: Math.round(this.remainingMs(session, now) / 1000),
+      endsAt: this.isRunning(session) ? session.endTime : null,
+      endReason: session.endReason,
+      delivery: session.deliveryDueAt
+        ? {
+            dueAt: session.deliveryDueAt,
+            deliveredAt: session.deliveredAt,
+            releaseAt: session.releaseAt,
+            confirmedAt: session.confirmedAt,
+          }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { TopUpPurpose } from '@prisma/client';
+
+export class CreateTopUpIntentDto {
+  @IsEnum(TopUpPurpose)
+  purpose: TopUpPurpose;
+
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber: string;
+
+  /**
+   * Whole shillings. Required for WALLET; for CHAT_TIME it defaults to
+   * the shortfall between the wallet and the price.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  amount?: number;
+
+  @IsOptional()
+  @IsString()
+  sellerId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationMinutes?: number;
+
+  /** Chat time discount code applied to the queued purchase */
+  @IsOptional()
+  @IsString()
+  promoCode?: string;
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { TopUpService } from './top-up.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { CreateTopUpIntentDto } from './dto/top-up.dto';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('api/v1/top-ups')
+@UseGuards(AuthGuardService)
+export class TopUpController {
+  constructor(private readonly topUpService: TopUpService) {}
+
+  /**
+   * Prompt an STK push and run the purpose once it is paid. Progress is
+   * pushed to the user's socket as `topUpStatus`.
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createIntent(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateTopUpIntentDto,
+  ) {
+    return this.topUpService.createIntent(req.user.id, dto);
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getIntents(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.topUpService.getIntents(
+      req.user.id,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  @Get(':intentId')
+  @HttpCode(HttpStatus.OK)
+  async getIntent(
+    @Req() req: AuthenticatedRequest,
+    @Param('intentId') intentId: string,
+  ) {
+    return this.topUpService.getIntent(req.user.id, intentId);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TopUpService } from './top-up.service';
+import { TopUpController } from './top-up.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { PaymentModule } from 'src/payment/payment.module';
+import { MonetizationModule } from 'src/monetization/monetization.module';
+import { PromotionModule } from 'src/promotion/promotion.module';
+import { RealtimeModule } from 'src/realtime/realtime.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    ConfigModule,
+    PaymentModule,
+    MonetizationModule,
+    PromotionModule,
+    RealtimeModule,
+  ],
+  controllers: [TopUpController],
+  providers: [TopUpService],
+  exports: [TopUpService],
+})
+export class TopUpModule {}
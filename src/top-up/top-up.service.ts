@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Payment,
+  PaymentStatus,
+  Prisma,
+  TopUpIntent,
+  TopUpIntentStatus,
+  TopUpPurpose,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { PaymentService } from 'src/payment/payment.service';
+import { MonetizationService } from 'src/monetization/monetization.service';
+import { PromotionService } from 'src/promotion/promotion.service';
+import { RealtimeService } from 'src/realtime/realtime.service';
+import { Money } from 'src/common/money/money';
+import { CreateTopUpIntentDto } from './dto/top-up.dto';
+
+const DEFAULT_INTENT_TTL_MINUTES = 15;
+/** Largest single STK push M-Pesa accepts, in whole shillings */
+const MAX_TOP_UP = 150000;
+/** Intents stuck in PAID this long were interrupted mid-purchase */
+const STUCK_PAID_MINUTES = 10;
+
+/**
+ * Top-ups started for a purpose. The user is prompted for an STK push;
+ * when it settles the wallet is credited as for any top-up and the queued
+ * purchase runs on their behalf. Every status change is pushed to the
+ * user's socket room as `topUpStatus`.
+ */
+@Injectable()
+export class TopUpService implements OnModuleInit {
+  private readonly logger = new Logger(TopUpService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentService: PaymentService,
+    private readonly monetizationService: MonetizationService,
+    private readonly promotionService: PromotionService,
+    private readonly realtimeService: RealtimeService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.paymentService.onSettled((payment) => this.handleSettled(payment));
+  }
+
+  async createIntent(userId: string, dto: CreateTopUpIntentDto) {
+    if (!Object.values(TopUpPurpose).includes(dto.purpose)) {
+      throw new BadRequestException(
+        `Purpose must be one of ${Object.values(TopUpPurpose).join(', ')}`,
+      );
+    }
+    if (
+      typeof dto.phoneNumber !== 'string' ||
+      !/^254\d{9}$/.test(this.paymentService.formatPhoneNumber(dto.phoneNumber))
+    ) {
+      throw new BadRequestException('Enter a valid M-Pesa phone number');
+    }
+
+    const amount =
+      dto.purpose === TopUpPurpose.CHAT_TIME
+        ? await this.chatTimeTopUp(userId, dto)
+        : dto.amount;
+    if (!Number.isInteger(amount) || amount! < 1 || amount! > MAX_TOP_UP) {
+      throw new BadRequestException(
+        `Amount must be a whole number of shillings between 1 and ${MAX_TOP_UP}`,
+      );
+    }
+
+    const intent = await this.prisma.topUpIntent.create({
+      data: {
+        userId,
+        amount: Money.fromMajor(amount!).amount,
+        purpose: dto.purpose,
+        sellerId: dto.sellerId,
+        durationMinutes: dto.durationMinutes,
+        promoCode: dto.promoCode,
+        expiresAt: new Date(Date.now() + this.ttlMinutes() * 60 * 1000),
+      },
+    });
+
+    const result = await this.paymentService.mpesaPayment(
+      { amount: amount!, phoneNumber: dto.phoneNumber },
+      userId,
+    );
+    if (!result || 'errorCode' in result || result.ResponseCode !== '0') {
+      const reason =
+        (result && 'errorMessage' in result && result.errorMessage) ||
+        (result && 'ResponseDescription' in result
+          ? result.ResponseDescription
+          : null) ||
+        'M-Pesa did not accept the payment request';
+      await this.transition(intent, TopUpIntentStatus.PAYMENT_FAILED, {
+        failureReason: reason,
+        completedAt: new Date(),
+      });
+      throw new BadRequestException(reason);
+    }
+
+    const payment = await this.prisma.payment.findUnique({
+      where: { checkoutRequestId: result.CheckoutRequestID },
+    });
+    const linked = await this.prisma.topUpIntent.update({
+      where: { id: intent.id },
+      data: {
+        checkoutRequestId: result.CheckoutRequestID,
+        paymentId: payment?.id,
+      },
+    });
+    this.emit(linked);
+
+    this.logger.log(
+      `Top-up intent ${intent.id} for ${userId}: ${Money.of(intent.amount).format()} (${intent.purpose})`,
+    );
+
+    // The callback can settle the payment before the intent was linked to it
+    if (payment && payment.status !== PaymentStatus.PENDING) {
+      await this.handleSettled(payment);
+      return this.getIntent(userId, intent.id);
+    }
+
+    return this.present(linked);
+  }
+
+  async getIntent(userId: string, intentId: string) {
+    const intent = await this.prisma.topUpIntent.findFirst({
+      where: { id: intentId, userId },
+    });
+    if (!intent) {
+      throw new NotFoundException('Top-up not found');
+    }
+    return this.present(intent);
+  }
+
+  async getIntents(userId: string, page: number = 1, limit: number = 20) {
+    const where: Prisma.TopUpIntentWhereInput = { userId };
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      this.prisma.topUpIntent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.topUpIntent.count({ where }),
+    ]);
+
+    return {
+      items: items.map((intent) => this.present(intent)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Move the intent of a settled payment along and run its purpose once
+   * the wallet has been credited
+   */
+  async handleSettled(payment: Payment) {
+    const intent = await this.prisma.topUpIntent.findFirst({
+      where: {
+        status: TopUpIntentStatus.AWAITING_PAYMENT,
+        OR: [
+          { paymentId: payment.id },
+          ...(payment.checkoutRequestId
+            ? [{ checkoutRequestId: payment.checkoutRequestId }]
+            : []),
+        ],
+      },
+    });
+    if (!intent) return;
+
+    if (payment.status === PaymentStatus.FAILED) {
+      await this.transition(intent, TopUpIntentStatus.PAYMENT_FAILED, {
+        paymentId: payment.id,
+        failureReason: 'The M-Pesa payment was not completed',
+        completedAt: new Date(),
+      });
+      return;
+    }
+    if (payment.status !== PaymentStatus.COMPLETED) return;
+
+    const paid = await this.transition(intent, TopUpIntentStatus.PAID, {
+      paymentId: payment.id,
+      paidAt: new Date(),
+    });
+    if (!paid) return;
+
+    await this.fulfil(paid);
+  }
+
+  /**
+   * Catch up on intents whose settlement was missed, e.g. after a restart.
+   * Purchases interrupted halfway are fulfilled if the session was bought,
+   * and failed otherwise.
+   */
+  async processPendingIntents(limit: number = 50) {
+    const waiting = await this.prisma.topUpIntent.findMany({
+      where: {
+        status: TopUpIntentStatus.AWAITING_PAYMENT,
+        checkoutRequestId: { not: null },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        checkoutRequestId: {
+          in: waiting.map((intent) => intent.checkoutRequestId!),
+        },
+        status: { not: PaymentStatus.PENDING },
+      },
+    });
+    for (const payment of payments) {
+      await this.handleSettled(payment);
+    }
+
+    const stuck = await this.prisma.topUpIntent.findMany({
+      where: {
+        status: TopUpIntentStatus.PAID,
+        paidAt: { lt: new Date(Date.now() - STUCK_PAID_MINUTES * 60 * 1000) },
+      },
+      take: limit,
+    });
+    let interrupted = 0;
+    for (const intent of stuck) {
+      const session = await this.findPurchasedSession(intent);
+      if (session || intent.purpose === TopUpPurpose.WALLET) {
+        await this.transition(intent, TopUpIntentStatus.FULFILLED, {
+          chatSessionId: session?.id,
+          completedAt: new Date(),
+        });
+        continue;
+      }
+
+      await this.transition(intent, TopUpIntentStatus.FULFILLMENT_FAILED, {
+        failureReason:
+          'The purchase was interrupted; the top-up is in your wallet',
+        completedAt: new Date(),
+      });
+      interrupted++;
+    }
+
+    return {
+      settled: payments.length,
+      recovered: stuck.length - interrupted,
+      interrupted,
+    };
+  }
+
+  /**
+   * The chat session a queued purchase bought before it was interrupted.
+   * A buyer can't hold two sessions with one seller at once, so a paid
+   * session for the intent's tier started since the payment is that one.
+   */
+  private async findPurchasedSession(intent: TopUpIntent) {
+    if (intent.purpose !== TopUpPurpose.CHAT_TIME || !intent.paidAt) {
+      return null;
+    }
+
+    return this.prisma.chatSession.findFirst({
+      where: {
+        buyerId: intent.userId,
+        sellerId: intent.sellerId!,
+        durationMinutes: intent.durationMinutes!,
+        isPaid: true,
+        createdAt: { gte: intent.paidAt },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+  }
+
+  private async fulfil(intent: TopUpIntent) {
+    if (intent.purpose === TopUpPurpose.WALLET) {
+      await this.transition(intent, TopUpIntentStatus.FULFILLED, {
+        completedAt: new Date(),
+      });
+      return;
+    }
+
+    if (intent.expiresAt < new Date()) {
+      await this.transition(intent, TopUpIntentStatus.EXPIRED, {
+        failureReason:
+          'The payment arrived after the purchase expired; the top-up is in your wallet',
+        completedAt: new Date(),
+      });
+      return;
+    }
+
+    try {
+      const session = await this.monetizationService.purchaseChatTime(
+        intent.userId,
+        {
+          sellerId: intent.sellerId!,
+          durationMinutes: intent.durationMinutes!,
+          promoCode: intent.promoCode ?? undefined,
+        },
+      );
+      await this.transition(intent, TopUpIntentStatus.FULFILLED, {
+        chatSessionId: session.id,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Queued chat time purchase for top-up ${intent.id} failed: ${error instanceof Error ? error.message : error}`,
+      );
+      await this.transition(intent, TopUpIntentStatus.FULFILLMENT_FAILED, {
+        failureReason: `${error instanceof Error ? error.message : 'The purchase failed'}; the top-up is in your wallet`,
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Whole shillings needed on top of the wallet balance to buy the tier,
+   * or the requested amount if that is more
+   */
+  private async chatTimeTopUp(userId: string, dto: CreateTopUpIntentDto) {
+    if (!dto.sellerId || !dto.durationMinutes) {
+      throw new BadRequestException(
+        'sellerId and durationMinutes are required to buy chat time',
+      );
+    }
+
+    const settings = await this.prisma.userMonetizationSettings.findUnique({
+      where: { userId: dto.sellerId },
+      include: { chatTimeTiers: true },
+    });
+    const tier = settings?.isEnabled
+      ? settings.chatTimeTiers.find(
+          (t) => t.durationMinutes === dto.durationMinutes && t.isActive,
+        )
+      : undefined;
+    if (!settings || !tier) {
+      throw new BadRequestException(
+        `No pricing tier found for ${dto.durationMinutes} minutes`,
+      );
+    }
+    if (settings.currency !== 'KES') {
+      throw new BadRequestException(
+        `Chat time priced in ${settings.currency} cannot be bought with M-Pesa`,
+      );
+    }
+
+    let price = Money.of(tier.price, settings.currency);
+    if (dto.promoCode) {
+      const promo = await this.promotionService.quoteChatTime(
+        userId,
+        dto.sellerId,
+        dto.promoCode,
+        price,
+      );
+      price = price.subtract(promo.discount);
+    }
+
+    const balance = await this.prisma.userBalance.findUnique({
+      where: { userId },
+    });
+    const shortfall = price.subtract(
+      Money.of(balance?.availableBalance ?? 0, settings.currency),
+    );
+    if (!shortfall.isPositive()) {
+      throw new BadRequestException('Your wallet already covers this purchase');
+    }
+
+    const minimum = Math.ceil(shortfall.toMajor());
+    if (dto.amount !== undefined && dto.amount < minimum) {
+      throw new BadRequestException(
+        `Top up at least KES ${minimum} to cover this purchase`,
+      );
+    }
+    return dto.amount ?? minimum;
+  }
+
+  /**
+   * Conditionally move an intent on from the status it was read in, so
+   * concurrent settlements act once. Returns null if another got there
+   * first.
+   */
+  private async transition(
+    intent: TopUpIntent,
+    status: TopUpIntentStatus,
+    data: Prisma.TopUpIntentUncheckedUpdateManyInput = {},
+  ): Promise<TopUpIntent | null> {
+    const { count } = await this.prisma.topUpIntent.updateMany({
+      where: { id: intent.id, status: intent.status },
+      data: { ...data, status },
+    });
+    if (count === 0) return null;
+
+    const updated = await this.prisma.topUpIntent.findUniqueOrThrow({
+      where: { id: intent.id },
+    });
+    this.emit(updated);
+    return updated;
+  }
+
+  private emit(intent: TopUpIntent) {
+    this.realtimeService.emitToUser(
+      intent.userId,
+      'topUpStatus',
+      this.present(intent),
+    );
+  }
+
+  private present(intent: TopUpIntent) {
+    return { ...intent, amount: Money.of(intent.amount, intent.currency) };
+  }
+
+  private ttlMinutes(): number {
+    const configured = Number(
+      this.configService.get<string>('TOP_UP_INTENT_TTL_MINUTES'),
+    );
+    return configured > 0 ? configured : DEFAULT_INTENT_TTL_MINUTES;
+  }
+}
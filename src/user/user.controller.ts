@@ -14,6 +14,8 @@ import {
 } from '@nestjs/common';
 import { UserService } from './user.service';
 import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import { OwnershipGuard } from 'src/auth-guard/ownership.guard';
+import { Owner } from 'src/auth-guard/ownership.decorator';
 import {
   UpdateUsernameDto,
   UpdatePasswordDto,
@@ -32,7 +34,7 @@ import {
 } from './dto/user.dto';
 
 @Controller('/api/v1/user')
-@UseGuards(AuthGuardService)
+@UseGuards(AuthGuardService, OwnershipGuard)
 export class UserController {
   constructor(private readonly userService: UserService) {}
 
@@ -62,6 +64,7 @@ export class UserController {
 
   @Put('/:userId/username')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   async updateUsername(
     @Param('userId') userId: string,
     @Body() updateUsernameDto: UpdateUsernameDto,
@@ -88,6 +91,7 @@ export class UserController {
 
   @Put('/:userId/password')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   updatePassword(
     @Param('userId') userId: string,
     @Body() updatePasswordDto: UpdatePasswordDto,
@@ -106,6 +110,7 @@ export class UserController {
 
   @Post('/:userId/verifyPassword')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   verifyPassword(
     @Param('userId') userId: string,
     @Body() verifyPasswordDto: VerifyPasswordDto,
@@ -121,6 +126,7 @@ export class UserController {
 
   @Put('/:userId/metadata')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   updateUserMetadata(
     @Param('userId') userId: string,
     @Body() updateMetadataDto: UpdateUserMetadataParams,
@@ -139,6 +145,7 @@ export class UserController {
   }
   @Put('/:userId/about')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   updateUserAboutMetadata(
     @Param('userId') userId: string,
     @Body() body: AboutMetadata,
@@ -162,12 +169,14 @@ export class UserController {
 
   @Get('/:userId/suggestUsername')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   suggestUsername(@Param() params: UserParamsDto) {
     return this.userService.suggestUsername(params.userId);
   }
 
   @Post('/:userId/chatlist/add')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   addToChatList(
     @Param('userId') userId: string,
     @Body() addToChatListDto: AddToChatListDto,
@@ -186,6 +195,7 @@ export class UserController {
 
   @Delete('/:userId/chatlist/remove')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   removeFromChatList(
     @Param('userId') userId: string,
     @Body() removeFromChatListDto: RemoveFromChatListDto,
@@ -204,6 +214,7 @@ export class UserController {
 
   @Get('/:userId/chatlist')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getChatList(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -213,6 +224,7 @@ export class UserController {
 
   @Post('/:userId/chatlist/check')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   checkIfInChatList(
     @Param('userId') userId: string,
     @Body() checkChatListDto: CheckChatListDto,
@@ -228,6 +240,7 @@ export class UserController {
 
   @Get('/:userId/chatlist/count')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getChatListCount(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -237,6 +250,7 @@ export class UserController {
 
   @Delete('/:userId/chatlist/clear')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   clearChatList(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -246,6 +260,7 @@ export class UserController {
 
   @Get('/:userId/suggestions')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   suggestUsers(
     @Param('userId') userId: string,
     @Query() suggestUsersDto: SuggestUsersDto,
@@ -258,6 +273,7 @@ export class UserController {
 
   @Get('/:userId/chatlist/all')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getAllChatListUsers(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
@@ -267,6 +283,7 @@ export class UserController {
 
   @Get('/:userId/chatlist/paginated')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getChatListUsersPaginated(
     @Param('userId') userId: string,
     @Query() getChatListDto: GetChatListDto,
@@ -283,6 +300,7 @@ export class UserController {
 
   @Post('/:userId/chatlist/bulk-add')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   addMultipleUsersToChatList(
     @Param('userId') userId: string,
     @Body() bulkAddDto: BulkAddToChatListDto,
@@ -301,6 +319,7 @@ export class UserController {
 
   @Delete('/:userId/chatlist/bulk-remove')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   removeMultipleUsersFromChatList(
     @Param('userId') userId: string,
     @Body() bulkRemoveDto: BulkRemoveFromChatListDto,
@@ -322,6 +341,7 @@ export class UserController {
 
   @Put('/:userId/status/online')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   setOnlineStatus(
     @Param('userId') userId: string,
     @Body() updateStatusDto: UpdateOnlineStatusDto,
@@ -358,6 +378,7 @@ export class UserController {
 
   @Get('/:userId/chatlist/online-status')
   @HttpCode(HttpStatus.OK)
+  @Owner()
   getChatListOnlineStatus(@Param('userId') userId: string) {
     if (!userId) {
       throw new BadRequestException('User ID is required');
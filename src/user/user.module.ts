@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
 import { ClerkModule } from 'src/clerk/clerk.module';
+import { RealtimeModule } from 'src/realtime/realtime.module';
 
 @Module({
-  imports: [ClerkModule],
+  imports: [ClerkModule, RealtimeModule],
   controllers: [UserController],
   providers: [UserService],
   exports: [UserService],
@@ -8,6 +8,7 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { PresenceService } from 'src/realtime/presence.service';
 
 @Injectable()
 export class UserService {
@@ -16,6 +17,7 @@ export class UserService {
   constructor(
     @Inject('ClerkClient')
     private readonly clerkClient: ClerkClient,
+    private readonly presenceService: PresenceService,
   ) {}
 
   async getUsers(): Promise<PaginatedResourceResponse<User[]>> {
@@ -860,6 +862,11 @@ export class UserService {
     }
   }
 
+  /**
+   * Online status follows the user's socket connections, so the requested
+   * value can't override it. The stored status is reconciled with their
+   * connections and returned.
+   */
   async setOnlineStatus(
     userId: string,
     isOnline: boolean,
@@ -867,22 +874,14 @@ export class UserService {
     try {
       await this.getUser(userId);
 
-      const status = await this.prisma.userStatus.upsert({
-        where: { userId },
-        update: {
-          isOnline,
-          lastSeen: new Date(),
-        },
-        create: {
-          userId,
-          isOnline,
-          lastSeen: new Date(),
-        },
-      });
+      const status = await this.presenceService.refresh(userId);
 
       return {
         success: true,
-        message: `User status updated to ${isOnline ? 'online' : 'offline'}`,
+        message:
+          status.isOnline === isOnline
+            ? `User status updated to ${isOnline ? 'online' : 'offline'}`
+            : `User is ${status.isOnline ? 'online' : 'offline'} on their connected devices`,
         status: {
           userId: status.userId,
           isOnline: status.isOnline,
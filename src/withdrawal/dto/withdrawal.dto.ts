@@ -0,0 +1,31 @@
+import { IsInt, IsNotEmpty, IsString, Min } from 'class-validator';
+import { Money } from 'src/common/money/money';
+
+export class RegisterPayoutAccountDto {
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber: string;
+}
+
+export class CreateWithdrawalDto {
+  /** Amount in minor units; M-Pesa only pays out whole shillings */
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @IsString()
+  @IsNotEmpty()
+  payoutAccountId: string;
+}
+
+export interface WithdrawableBalance {
+  availableBalance: Money;
+  /** Earnings still inside the hold period */
+  heldEarnings: Money;
+  /** Matured earnings not yet withdrawn */
+  unwithdrawnEarnings: Money;
+  withdrawable: Money;
+  holdHours: number;
+  minimum: Money;
+  maximum: Money;
+}
@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { WithdrawalStatus } from '@prisma/client';
+import { WithdrawalService } from './withdrawal.service';
+import { AuthGuardService } from 'src/auth-guard/auth-guard.service';
+import {
+  CreateWithdrawalDto,
+  RegisterPayoutAccountDto,
+} from './dto/withdrawal.dto';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    [key: string]: any;
+  };
+}
+
+@Controller('api/v1/withdrawals')
+@UseGuards(AuthGuardService)
+export class WithdrawalController {
+  constructor(private readonly withdrawalService: WithdrawalService) {}
+
+  /**
+   * Register an M-Pesa number to withdraw to
+   */
+  @Post('payout-accounts')
+  @HttpCode(HttpStatus.CREATED)
+  async registerPayoutAccount(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: RegisterPayoutAccountDto,
+  ) {
+    return this.withdrawalService.registerPayoutAccount(req.user.id, dto);
+  }
+
+  @Get('payout-accounts')
+  @HttpCode(HttpStatus.OK)
+  async getPayoutAccounts(@Req() req: AuthenticatedRequest) {
+    return this.withdrawalService.getPayoutAccounts(req.user.id);
+  }
+
+  /**
+   * Get how much of the current balance can be withdrawn
+   */
+  @Get('balance')
+  @HttpCode(HttpStatus.OK)
+  async getWithdrawableBalance(@Req() req: AuthenticatedRequest) {
+    return this.withdrawalService.getWithdrawableBalance(req.user.id);
+  }
+
+  /**
+   * Request a payout of earnings to a verified M-Pesa number
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async requestWithdrawal(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateWithdrawalDto,
+  ) {
+    return this.withdrawalService.requestWithdrawal(req.user.id, dto);
+  }
+
+  /**
+   * Get withdrawal history
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getWithdrawalHistory(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('status') status?: WithdrawalStatus,
+  ) {
+    return this.withdrawalService.getWithdrawalHistory(
+      req.user.id,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+      status,
+    );
+  }
+
+  @Get(':withdrawalId')
+  @HttpCode(HttpStatus.OK)
+  async getWithdrawal(
+    @Req() req: AuthenticatedRequest,
+    @Param('withdrawalId') withdrawalId: string,
+  ) {
+    return this.withdrawalService.getWithdrawal(req.user.id, withdrawalId);
+  }
+}
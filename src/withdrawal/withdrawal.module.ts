@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { WithdrawalService } from './withdrawal.service';
+import { WithdrawalController } from './withdrawal.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClerkModule } from 'src/clerk/clerk.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { PaymentModule } from 'src/payment/payment.module';
+import { AuditModule } from 'src/audit/audit.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ClerkModule,
+    ConfigModule,
+    LedgerModule,
+    PaymentModule,
+    AuditModule,
+  ],
+  controllers: [WithdrawalController],
+  providers: [WithdrawalService],
+  exports: [WithdrawalService],
+})
+export class WithdrawalModule {}
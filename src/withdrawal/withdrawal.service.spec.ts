@@ -0,0 +1,239 @@
+import { Test } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { PaymentService } from 'src/payment/payment.service';
+import { AuditService } from 'src/audit/audit.service';
+import { WithdrawalService } from './withdrawal.service';
+
+const withdrawal = {
+  id: 'wd_1',
+  userId: 'seller',
+  payoutAccountId: 'acct_1',
+  amount: 50000,
+  currency: 'KES',
+  status: 'PENDING',
+};
+
+describe('WithdrawalService', () => {
+  let service: WithdrawalService;
+  let prisma: ReturnType<typeof createPrisma>;
+  let paymentService: {
+    submitB2CPayout: jest.Mock;
+    settleWithdrawal: jest.Mock;
+    formatPhoneNumber: jest.Mock;
+  };
+  let ledgerService: { post: jest.Mock };
+
+  function createPrisma() {
+    const client = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $transaction: jest.fn(
+        (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(client),
+      ),
+      payoutAccount: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'acct_1',
+          phoneNumber: '254712345678',
+          isVerified: true,
+        }),
+      },
+      userBalance: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ availableBalance: 100000, currency: 'KES' }),
+      },
+      ledgerEntry: {
+        // Matured earnings, then those still inside the hold period
+        aggregate: jest.fn(({ where }: { where: { createdAt: object } }) =>
+          Promise.resolve({
+            _sum: { amount: 'gte' in where.createdAt ? 30000 : 90000 },
+          }),
+        ),
+      },
+      withdrawal: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { amount: 10000 } }),
+        create: jest.fn().mockResolvedValue(withdrawal),
+        update: jest.fn().mockResolvedValue(withdrawal),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findFirst: jest.fn().mockResolvedValue(withdrawal),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    ledgerService = { post: jest.fn().mockResolvedValue({ id: 'ltx_1' }) };
+    paymentService = {
+      submitB2CPayout: jest.fn(),
+      settleWithdrawal: jest.fn().mockResolvedValue(undefined),
+      formatPhoneNumber: jest.fn((phone: string) => phone),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WithdrawalService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(WithdrawalService);
+  });
+
+  describe('getWithdrawableBalance', () => {
+    it('holds back recent earnings and what was already withdrawn', async () => {
+      const balance = await service.getWithdrawableBalance('seller');
+
+      expect(balance.heldEarnings.amount).toBe(30000);
+      // 90000 matured less 10000 already withdrawn
+      expect(balance.unwithdrawnEarnings.amount).toBe(80000);
+      // 100000 available less 30000 still on hold
+      expect(balance.withdrawable.amount).toBe(70000);
+    });
+
+    it('never lets top-ups be withdrawn', async () => {
+      prisma.ledgerEntry.aggregate.mockResolvedValue({ _sum: { amount: 0 } });
+
+      const balance = await service.getWithdrawableBalance('seller');
+
+      expect(balance.availableBalance.amount).toBe(100000);
+      expect(balance.withdrawable.amount).toBe(0);
+    });
+  });
+
+  describe('requestWithdrawal', () => {
+    const request = (amount: number) =>
+      service.requestWithdrawal('seller', {
+        amount,
+        payoutAccountId: 'acct_1',
+      });
+
+    it.each([
+      [0, 'Amount must be a positive integer'],
+      [10050, 'Withdrawals must be in whole shillings'],
+      [5000, 'Minimum withdrawal is KES 100.00'],
+      [15000100, 'Maximum withdrawal is KES 150000.00'],
+    ])('rejects %p', async (amount, message) => {
+      await expect(request(amount)).rejects.toThrow(message);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('only pays out to verified numbers', async () => {
+      prisma.payoutAccount.findFirst.mockResolvedValue({
+        id: 'acct_1',
+        isVerified: false,
+      });
+
+      await expect(request(50000)).rejects.toThrow('not verified');
+    });
+
+    it('refuses more than the withdrawable balance', async () => {
+      await expect(request(80000)).rejects.toThrow(
+        new BadRequestException(
+          'Amount exceeds your withdrawable balance of KES 700.00',
+        ),
+      );
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('holds the funds before submitting the payout', async () => {
+      paymentService.submitB2CPayout.mockResolvedValue({
+        outcome: 'ACCEPTED',
+        transaction: { id: 'b2c_1' },
+      });
+
+      const result = await request(50000);
+
+      expect(result.success).toBe(true);
+      expect(ledgerService.post).toHaveBeenCalledWith(prisma, {
+        kind: 'WITHDRAWAL_REQUEST',
+        description: 'Withdrawal to 254712345678',
+        referenceType: 'Withdrawal',
+        referenceId: 'wd_1',
+        legs: [
+          {
+            account: {
+              type: 'USER_WALLET',
+              ownerId: 'seller',
+              currency: 'KES',
+            },
+            amount: -50000,
+          },
+          {
+            account: {
+              type: 'USER_WITHDRAWAL_PENDING',
+              ownerId: 'seller',
+              currency: 'KES',
+            },
+            amount: 50000,
+          },
+        ],
+      });
+      expect(prisma.withdrawal.update).toHaveBeenCalledWith({
+        where: { id: 'wd_1' },
+        data: { submittedAt: expect.any(Date) as unknown },
+      });
+      expect(paymentService.settleWithdrawal).not.toHaveBeenCalled();
+    });
+
+    it('returns the funds when M-Pesa rejects the payout', async () => {
+      paymentService.submitB2CPayout.mockResolvedValue({
+        outcome: 'REJECTED',
+      });
+
+      await expect(request(50000)).rejects.toThrow(ServiceUnavailableException);
+      expect(paymentService.settleWithdrawal).toHaveBeenCalledWith(
+        prisma,
+        withdrawal,
+        false,
+        'M-Pesa did not accept the payout request',
+      );
+    });
+
+    it('keeps the funds held when the outcome is unknown', async () => {
+      paymentService.submitB2CPayout.mockResolvedValue({
+        outcome: 'UNCERTAIN',
+        conversationId: 'AG_1',
+      });
+
+      const result = await request(50000);
+
+      expect(result.success).toBe(true);
+      expect(paymentService.settleWithdrawal).not.toHaveBeenCalled();
+      expect(prisma.withdrawal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'wd_1', status: 'PENDING' },
+        data: { status: 'PROCESSING' },
+      });
+    });
+  });
+
+  describe('sweepStaleWithdrawals', () => {
+    it('reverses only withdrawals that were never sent', async () => {
+      prisma.withdrawal.findMany
+        .mockResolvedValueOnce([withdrawal])
+        .mockResolvedValueOnce([{ id: 'wd_2' }]);
+
+      const result = await service.sweepStaleWithdrawals();
+
+      expect(result).toEqual({ reversed: 1, needsReview: 1 });
+      expect(paymentService.settleWithdrawal).toHaveBeenCalledTimes(1);
+      expect(paymentService.settleWithdrawal).toHaveBeenCalledWith(
+        prisma,
+        withdrawal,
+        false,
+        'Payout request was never sent',
+      );
+    });
+  });
+});
@@ -0,0 +1,445 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, WithdrawalStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { LedgerAccounts } from 'src/ledger/ledger-accounts';
+import { PaymentService } from 'src/payment/payment.service';
+import { AuditService } from 'src/audit/audit.service';
+import { Money } from 'src/common/money/money';
+import {
+  CreateWithdrawalDto,
+  RegisterPayoutAccountDto,
+  WithdrawableBalance,
+} from './dto/withdrawal.dto';
+
+const DEFAULT_MIN_AMOUNT = 10000;
+const DEFAULT_MAX_AMOUNT = 15000000;
+const DEFAULT_HOLD_HOURS = 72;
+/** Withdrawals still open after this long were interrupted mid-submit */
+const STALE_AFTER_MINUTES = 30;
+
+const OPEN_OR_PAID: WithdrawalStatus[] = ['PENDING', 'PROCESSING', 'COMPLETED'];
+
+@Injectable()
+export class WithdrawalService {
+  private readonly logger = new Logger(WithdrawalService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly paymentService: PaymentService,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Add an M-Pesa number to withdraw to. It is verified straight away if
+   * the user has already completed a top-up from it, otherwise on their
+   * next successful top-up from that number.
+   */
+  async registerPayoutAccount(userId: string, dto: RegisterPayoutAccountDto) {
+    if (!dto.phoneNumber) {
+      throw new BadRequestException('Phone number is required');
+    }
+
+    const phoneNumber = this.paymentService.formatPhoneNumber(dto.phoneNumber);
+
+    const proof = await this.prisma.payment.findFirst({
+      where: { userId, phoneNumber, status: 'COMPLETED' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const verification = proof
+      ? {
+          isVerified: true,
+          verifiedAt: new Date(),
+          verificationPaymentId: proof.id,
+        }
+      : {};
+
+    const existing = await this.prisma.payoutAccount.findUnique({
+      where: { userId_phoneNumber: { userId, phoneNumber } },
+    });
+
+    const account = await this.prisma.payoutAccount.upsert({
+      where: { userId_phoneNumber: { userId, phoneNumber } },
+      update: verification,
+      create: { userId, phoneNumber, ...verification },
+    });
+
+    await this.auditService.record({
+      action: 'PAYOUT_ACCOUNT_REGISTERED',
+      entityType: 'PayoutAccount',
+      entityId: account.id,
+      before: existing,
+      after: account,
+    });
+
+    return {
+      success: true,
+      message: account.isVerified
+        ? 'Payout number verified'
+        : 'Complete an M-Pesa top-up from this number to verify it',
+      account,
+    };
+  }
+
+  async getPayoutAccounts(userId: string) {
+    return this.prisma.payoutAccount.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getWithdrawableBalance(userId: string) {
+    return this.computeWithdrawable(this.prisma, userId);
+  }
+
+  /**
+   * Move funds from the wallet into the withdrawal-pending account and send
+   * them to the seller's verified number. Failures and timeouts reported
+   * by M-Pesa later return the funds via PaymentService.settleWithdrawal.
+   * Funds are only returned here when M-Pesa rejected the request; when
+   * the outcome is unknown the withdrawal stays open for reconciliation.
+   */
+  async requestWithdrawal(userId: string, dto: CreateWithdrawalDto) {
+    if (!Number.isInteger(dto.amount) || dto.amount <= 0) {
+      throw new BadRequestException('Amount must be a positive integer');
+    }
+
+    const amount = Money.of(dto.amount);
+    const { minimum, maximum } = this.limits();
+
+    if (!Number.isInteger(amount.toMajor())) {
+      throw new BadRequestException('Withdrawals must be in whole shillings');
+    }
+
+    if (amount.lessThan(minimum)) {
+      throw new BadRequestException(
+        `Minimum withdrawal is ${minimum.format()}`,
+      );
+    }
+
+    if (maximum.lessThan(amount)) {
+      throw new BadRequestException(
+        `Maximum withdrawal is ${maximum.format()}`,
+      );
+    }
+
+    const payoutAccount = await this.prisma.payoutAccount.findFirst({
+      where: { id: dto.payoutAccountId, userId },
+    });
+
+    if (!payoutAccount) {
+      throw new NotFoundException('Payout account not found');
+    }
+
+    if (!payoutAccount.isVerified) {
+      throw new BadRequestException(
+        'Payout number is not verified. Complete an M-Pesa top-up from it first',
+      );
+    }
+
+    const withdrawal = await this.prisma.$transaction(async (tx) => {
+      // Serialise withdrawals per user so two requests cannot both pass
+      // the withdrawable check against the same funds
+      await tx.$queryRaw`SELECT 1 FROM "user_balances" WHERE "userId" = ${userId} FOR UPDATE`;
+
+      const balance = await this.computeWithdrawable(tx, userId);
+      if (balance.withdrawable.lessThan(amount)) {
+        throw new BadRequestException(
+          `Amount exceeds your withdrawable balance of ${balance.withdrawable.format()}`,
+        );
+      }
+
+      const created = await tx.withdrawal.create({
+        data: {
+          userId,
+          payoutAccountId: payoutAccount.id,
+          amount: amount.amount,
+          currency: amount.currency,
+        },
+      });
+
+      await this.ledgerService.post(tx, {
+        kind: 'WITHDRAWAL_REQUEST',
+        description: `Withdrawal to ${payoutAccount.phoneNumber}`,
+        referenceType: 'Withdrawal',
+        referenceId: created.id,
+        legs: [
+          {
+            account: LedgerAccounts.wallet(userId, amount.currency),
+            amount: -amount.amount,
+          },
+          {
+            account: LedgerAccounts.withdrawalPending(userId, amount.currency),
+            amount: amount.amount,
+          },
+        ],
+      });
+
+      return created;
+    });
+
+    await this.prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: { submittedAt: new Date() },
+    });
+
+    const submission = await this.paymentService.submitB2CPayout(
+      {
+        userId,
+        amount,
+        phoneNumber: payoutAccount.phoneNumber,
+        remarks: 'Seller withdrawal',
+        occasion: 'Withdrawal',
+      },
+      async (tx, b2cTransaction) => {
+        await tx.withdrawal.update({
+          where: { id: withdrawal.id },
+          data: { status: 'PROCESSING', b2cTransactionId: b2cTransaction.id },
+        });
+      },
+    );
+
+    if (submission.outcome === 'REJECTED') {
+      await this.prisma.$transaction((tx) =>
+        this.paymentService.settleWithdrawal(
+          tx,
+          withdrawal,
+          false,
+          'M-Pesa did not accept the payout request',
+        ),
+      );
+      throw new ServiceUnavailableException(
+        'M-Pesa did not accept the payout request. Your funds have been returned',
+      );
+    }
+
+    if (submission.outcome === 'UNCERTAIN') {
+      await this.prisma.withdrawal.updateMany({
+        where: { id: withdrawal.id, status: 'PENDING' },
+        data: { status: 'PROCESSING' },
+      });
+      this.logger.warn(
+        `Withdrawal ${withdrawal.id} may have been submitted${
+          submission.conversationId ? ` as ${submission.conversationId}` : ''
+        }; left PROCESSING for reconciliation`,
+      );
+
+      return {
+        success: true,
+        message:
+          'Withdrawal is being confirmed with M-Pesa. Your funds stay reserved until it completes or is reversed',
+        withdrawal: await this.getWithdrawal(userId, withdrawal.id),
+      };
+    }
+
+    this.logger.log(
+      `Withdrawal ${withdrawal.id} of ${amount.format()} submitted for user ${userId}`,
+    );
+
+    return {
+      success: true,
+      message:
+        'Withdrawal submitted. You will receive an M-Pesa message shortly',
+      withdrawal: await this.getWithdrawal(userId, withdrawal.id),
+    };
+  }
+
+  /**
+   * Clean up withdrawals interrupted between the hold and the B2C submit.
+   * Those never sent to M-Pesa are reversed. Those that may have been sent
+   * but have no B2C transaction to reconcile are only reported, since
+   * reversing them could pay the seller twice.
+   */
+  async sweepStaleWithdrawals(olderThanMinutes: number = STALE_AFTER_MINUTES) {
+    const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+
+    const unsent = await this.prisma.withdrawal.findMany({
+      where: {
+        status: 'PENDING',
+        submittedAt: null,
+        createdAt: { lt: cutoff },
+      },
+    });
+
+    for (const withdrawal of unsent) {
+      await this.prisma.$transaction((tx) =>
+        this.paymentService.settleWithdrawal(
+          tx,
+          withdrawal,
+          false,
+          'Payout request was never sent',
+        ),
+      );
+    }
+
+    const needsReview = await this.prisma.withdrawal.findMany({
+      where: {
+        b2cTransactionId: null,
+        createdAt: { lt: cutoff },
+        OR: [
+          { status: 'PENDING', submittedAt: { not: null } },
+          { status: 'PROCESSING' },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (needsReview.length > 0) {
+      this.logger.warn(
+        `Withdrawals with an unknown payout outcome need review: ${needsReview
+          .map((w) => w.id)
+          .join(', ')}`,
+      );
+    }
+
+    return { reversed: unsent.length, needsReview: needsReview.length };
+  }
+
+  async getWithdrawal(userId: string, withdrawalId: string) {
+    const withdrawal = await this.prisma.withdrawal.findFirst({
+      where: { id: withdrawalId, userId },
+      include: {
+        payoutAccount: { select: { phoneNumber: true } },
+        b2cTransaction: {
+          select: {
+            status: true,
+            transactionReceipt: true,
+            resultDesc: true,
+          },
+        },
+      },
+    });
+
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    return {
+      ...withdrawal,
+      amount: Money.of(withdrawal.amount, withdrawal.currency),
+    };
+  }
+
+  async getWithdrawalHistory(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    status?: WithdrawalStatus,
+  ) {
+    const skip = (page - 1) * limit;
+    const where: Prisma.WithdrawalWhereInput = {
+      userId,
+      ...(status && { status }),
+    };
+
+    const [withdrawals, totalCount] = await Promise.all([
+      this.prisma.withdrawal.findMany({
+        where,
+        include: {
+          payoutAccount: { select: { phoneNumber: true } },
+          b2cTransaction: {
+            select: { transactionReceipt: true, resultDesc: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.withdrawal.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      data: withdrawals.map((w) => ({
+        ...w,
+        amount: Money.of(w.amount, w.currency),
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalCount,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Only matured earnings can leave the platform: earnings younger than the
+   * hold period stay put, and top-ups are spendable but not withdrawable
+   */
+  private async computeWithdrawable(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<WithdrawableBalance> {
+    const { minimum, maximum, holdHours } = this.limits();
+    const cutoff = new Date(Date.now() - holdHours * 3600000);
+    const walletEarnings: Prisma.LedgerEntryWhereInput = {
+      account: { ownerId: userId, type: 'USER_WALLET' },
+      category: 'EARNING',
+    };
+
+    const balance = await tx.userBalance.findUnique({ where: { userId } });
+    const recent = await tx.ledgerEntry.aggregate({
+      where: { ...walletEarnings, createdAt: { gte: cutoff } },
+      _sum: { amount: true },
+    });
+    const matured = await tx.ledgerEntry.aggregate({
+      where: { ...walletEarnings, createdAt: { lt: cutoff } },
+      _sum: { amount: true },
+    });
+    const withdrawn = await tx.withdrawal.aggregate({
+      where: { userId, status: { in: OPEN_OR_PAID } },
+      _sum: { amount: true },
+    });
+
+    const currency = balance?.currency ?? 'KES';
+    const available = balance?.availableBalance ?? 0;
+    const held = Math.max(0, recent._sum.amount ?? 0);
+    const unwithdrawn = Math.max(
+      0,
+      (matured._sum.amount ?? 0) - (withdrawn._sum.amount ?? 0),
+    );
+
+    return {
+      availableBalance: Money.of(available, currency),
+      heldEarnings: Money.of(held, currency),
+      unwithdrawnEarnings: Money.of(unwithdrawn, currency),
+      withdrawable: Money.of(
+        Math.max(0, Math.min(available - held, unwithdrawn)),
+        currency,
+      ),
+      holdHours,
+      minimum,
+      maximum,
+    };
+  }
+
+  private limits() {
+    return {
+      minimum: Money.of(
+        this.numberConfig('WITHDRAWAL_MIN_AMOUNT', DEFAULT_MIN_AMOUNT),
+      ),
+      maximum: Money.of(
+        this.numberConfig('WITHDRAWAL_MAX_AMOUNT', DEFAULT_MAX_AMOUNT),
+      ),
+      holdHours: this.numberConfig('WITHDRAWAL_HOLD_HOURS', DEFAULT_HOLD_HOURS),
+    };
+  }
+
+  private numberConfig(key: string, fallback: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isInteger(value) && value >= 0 ? value : fallback;
+  }
+}